@@ -0,0 +1,160 @@
+/**
+ * AlgoChat Web - algosdk Client Tests
+ */
+
+import { describe, test, expect } from 'bun:test';
+import algosdk from 'algosdk';
+import { AlgosdkAlgodClient, AlgosdkIndexerClient } from './algosdk-clients';
+
+const ALICE = algosdk.generateAccount().addr.toString();
+const BOB = algosdk.generateAccount().addr.toString();
+const CAROL = algosdk.generateAccount().addr.toString();
+
+/** An indexer payment transaction as algosdk returns it */
+function indexerTransaction(id: string, sender: string, receiver: string, round: number) {
+    return {
+        id,
+        sender,
+        fee: 1000n,
+        note: new TextEncoder().encode(id),
+        confirmedRound: BigInt(round),
+        roundTime: 1700000000 + round,
+        intraRoundOffset: 2,
+        paymentTransaction: { receiver, amount: 5000n },
+    };
+}
+
+/** Builds a fake algosdk Indexer that records the search filters applied */
+function fakeIndexer(transactions: ReturnType<typeof indexerTransaction>[], nextToken?: string) {
+    const filters: Record<string, unknown> = {};
+    const query = {
+        address: (value: string) => (filters.address = value, query),
+        txType: (value: string) => (filters.txType = value, query),
+        limit: (value: number) => (filters.limit = value, query),
+        minRound: (value: number) => (filters.minRound = value, query),
+        maxRound: (value: number) => (filters.maxRound = value, query),
+        notePrefix: (value: Uint8Array) => (filters.notePrefix = value, query),
+        nextToken: (value: string) => (filters.nextToken = value, query),
+        do: async () => ({ transactions, nextToken }),
+    };
+    const client = {
+        searchForTransactions: () => query,
+        lookupTransactionByID: (txid: string) => ({
+            do: async () => {
+                const transaction = transactions.find(tx => tx.id === txid);
+                if (!transaction) throw new Error('Not found');
+                return { transaction };
+            },
+        }),
+    };
+    return { client: client as unknown as algosdk.Indexer, filters };
+}
+
+describe('AlgosdkIndexerClient', () => {
+    test('converts transactions and passes the search filters', async () => {
+        const { client, filters } = fakeIndexer([indexerTransaction('tx-1', ALICE, BOB, 100)], 'page-2');
+        const indexer = new AlgosdkIndexerClient(client);
+        const prefix = new Uint8Array([1, 2]);
+
+        const page = await indexer.searchTransactionsPaginated(ALICE, {
+            minRound: 10,
+            maxRound: 20,
+            limit: 5,
+            nextToken: 'page-1',
+            notePrefix: prefix,
+        });
+
+        expect(page.nextToken).toBe('page-2');
+        expect(page.transactions).toEqual([{
+            txid: 'tx-1',
+            sender: ALICE,
+            receiver: BOB,
+            note: new TextEncoder().encode('tx-1'),
+            confirmedRound: 100,
+            roundTime: 1700000100,
+            amount: 5000,
+            fee: 1000,
+            intraRoundOffset: 2,
+        }]);
+        expect(filters).toEqual({
+            address: ALICE,
+            txType: 'pay',
+            limit: 5,
+            minRound: 10,
+            maxRound: 20,
+            notePrefix: prefix,
+            nextToken: 'page-1',
+        });
+    });
+
+    test('searches after a round exclusively', async () => {
+        const { client, filters } = fakeIndexer([]);
+        const indexer = new AlgosdkIndexerClient(client);
+
+        await indexer.searchTransactions(ALICE, 10, 5);
+        expect(filters.minRound).toBe(11);
+        expect(filters.limit).toBe(5);
+
+        await indexer.searchTransactions(ALICE, 0);
+        expect(filters.minRound).toBe(1);
+    });
+
+    test('keeps only transactions between two addresses', async () => {
+        const { client } = fakeIndexer([
+            indexerTransaction('tx-1', ALICE, BOB, 100),
+            indexerTransaction('tx-2', CAROL, ALICE, 101),
+            indexerTransaction('tx-3', BOB, ALICE, 102),
+        ]);
+        const indexer = new AlgosdkIndexerClient(client);
+
+        const between = await indexer.searchTransactionsBetween(ALICE, BOB);
+        expect(between.map(tx => tx.txid)).toEqual(['tx-1', 'tx-3']);
+    });
+
+    test('looks up and waits for transactions', async () => {
+        const { client } = fakeIndexer([indexerTransaction('tx-1', ALICE, BOB, 100)]);
+        const indexer = new AlgosdkIndexerClient(client);
+
+        expect((await indexer.getTransaction('tx-1')).confirmedRound).toBe(100);
+        expect((await indexer.waitForIndexer('tx-1')).txid).toBe('tx-1');
+        await expect(indexer.waitForIndexer('tx-missing', 0)).rejects.toThrow(/timed out/i);
+    });
+});
+
+describe('AlgosdkAlgodClient', () => {
+    test('converts parameters and submits raw transactions', async () => {
+        const sent: (Uint8Array | Uint8Array[])[] = [];
+        const client = {
+            getTransactionParams: () => ({
+                do: async () => ({
+                    flatFee: false,
+                    fee: 0n,
+                    minFee: 1000n,
+                    firstValid: 1000n,
+                    lastValid: 2000n,
+                    genesisID: 'testnet-v1.0',
+                    genesisHash: new Uint8Array(32).fill(7),
+                }),
+            }),
+            sendRawTransaction: (signed: Uint8Array | Uint8Array[]) => ({
+                do: async () => {
+                    sent.push(signed);
+                    return { txid: 'tx-1' };
+                },
+            }),
+        } as unknown as algosdk.Algodv2;
+        const algod = new AlgosdkAlgodClient(client);
+
+        expect(await algod.getSuggestedParams()).toEqual({
+            fee: 0,
+            minFee: 1000,
+            firstValid: 1000,
+            lastValid: 2000,
+            genesisId: 'testnet-v1.0',
+            genesisHash: new Uint8Array(32).fill(7),
+        });
+        expect(await algod.submitTransaction(new Uint8Array([1]))).toBe('tx-1');
+        expect(await algod.submitTransactionGroup([new Uint8Array([2]), new Uint8Array([3])])).toBe('tx-1');
+        expect(sent).toEqual([new Uint8Array([1]), [new Uint8Array([2]), new Uint8Array([3])]]);
+    });
+});
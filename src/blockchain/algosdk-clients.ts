@@ -0,0 +1,209 @@
+/**
+ * AlgoChat Web - algosdk Clients
+ *
+ * AlgodClient and IndexerClient implementations backed by the algosdk
+ * Algodv2 and Indexer clients.
+ */
+
+import algosdk from 'algosdk';
+import type { AlgodClient, IndexerClient, TransactionSearchOptions } from './interfaces';
+import type {
+    TransactionInfo,
+    NoteTransaction,
+    SuggestedParams,
+    AccountInfo,
+    PaginatedTransactions,
+} from './types';
+import { ChatError } from '../errors/ChatError';
+
+/** Default number of transactions returned by `searchTransactions` */
+const DEFAULT_SEARCH_LIMIT = 1000;
+
+/** Interval between indexer lookups in `waitForIndexer` */
+const INDEXER_POLL_INTERVAL_MS = 1000;
+
+/**
+ * AlgodClient backed by an algosdk `Algodv2` client.
+ *
+ * @example
+ * ```typescript
+ * const algod = new AlgosdkAlgodClient(new algosdk.Algodv2(token, server, port));
+ * ```
+ */
+export class AlgosdkAlgodClient implements AlgodClient {
+    /**
+     * @param client - The algosdk client to wrap
+     */
+    constructor(private readonly client: algosdk.Algodv2) {}
+
+    async getSuggestedParams(): Promise<SuggestedParams> {
+        const params = await this.client.getTransactionParams().do();
+        return {
+            fee: Number(params.fee),
+            minFee: Number(params.minFee),
+            firstValid: Number(params.firstValid),
+            lastValid: Number(params.lastValid),
+            genesisId: params.genesisID ?? '',
+            genesisHash: params.genesisHash ?? new Uint8Array(32),
+        };
+    }
+
+    async getAccountInfo(address: string): Promise<AccountInfo> {
+        const info = await this.client.accountInformation(address).do();
+        return {
+            address: info.address,
+            amount: info.amount,
+            minBalance: info.minBalance,
+        };
+    }
+
+    async submitTransaction(signedTxn: Uint8Array): Promise<string> {
+        const { txid } = await this.client.sendRawTransaction(signedTxn).do();
+        return txid;
+    }
+
+    async submitTransactionGroup(signedTxns: Uint8Array[]): Promise<string> {
+        const { txid } = await this.client.sendRawTransaction(signedTxns).do();
+        return txid;
+    }
+
+    async waitForConfirmation(txid: string, rounds = 10): Promise<TransactionInfo> {
+        const result = await algosdk.waitForConfirmation(this.client, txid, rounds);
+        return {
+            txid,
+            confirmedRound: result.confirmedRound !== undefined ? Number(result.confirmedRound) : undefined,
+        };
+    }
+
+    async getCurrentRound(): Promise<number> {
+        const status = await this.client.status().do();
+        return Number(status.lastRound);
+    }
+}
+
+/**
+ * IndexerClient backed by an algosdk `Indexer` client.
+ *
+ * Only payment transactions are returned, since they are the only ones
+ * that carry chat notes. Searches use the indexer's `next-token` cursor.
+ *
+ * @example
+ * ```typescript
+ * const indexer = new AlgosdkIndexerClient(new algosdk.Indexer(token, server, port));
+ * ```
+ */
+export class AlgosdkIndexerClient implements IndexerClient {
+    /**
+     * @param client - The algosdk client to wrap
+     */
+    constructor(private readonly client: algosdk.Indexer) {}
+
+    async searchTransactions(
+        address: string,
+        afterRound?: number,
+        limit = DEFAULT_SEARCH_LIMIT
+    ): Promise<NoteTransaction[]> {
+        const minRound = afterRound !== undefined ? afterRound + 1 : undefined;
+        const { transactions } = await this.searchTransactionsPaginated(address, { minRound, limit });
+        return transactions;
+    }
+
+    async searchTransactionsBetween(
+        address1: string,
+        address2: string,
+        afterRound?: number,
+        limit = DEFAULT_SEARCH_LIMIT
+    ): Promise<NoteTransaction[]> {
+        const transactions = await this.searchTransactions(address1, afterRound, limit);
+        return transactions.filter(
+            tx =>
+                (tx.sender === address1 && tx.receiver === address2) ||
+                (tx.sender === address2 && tx.receiver === address1)
+        );
+    }
+
+    async getTransaction(txid: string): Promise<NoteTransaction> {
+        const response = await this.client.lookupTransactionByID(txid).do();
+        return toNoteTransaction(response.transaction);
+    }
+
+    async waitForIndexer(txid: string, timeoutSecs = 30): Promise<NoteTransaction> {
+        const deadline = Date.now() + timeoutSecs * 1000;
+
+        while (true) {
+            try {
+                return await this.getTransaction(txid);
+            } catch {
+                // Transaction not yet indexed, continue waiting
+            }
+
+            const remaining = deadline - Date.now();
+            if (remaining <= 0) {
+                throw ChatError.timeout('waitForIndexer', timeoutSecs * 1000);
+            }
+            await sleep(Math.min(INDEXER_POLL_INTERVAL_MS, remaining));
+        }
+    }
+
+    async searchTransactionsPaginated(
+        address: string,
+        options: TransactionSearchOptions = {}
+    ): Promise<PaginatedTransactions> {
+        const { minRound, maxRound, limit, nextToken, notePrefix } = options;
+
+        let query = this.client
+            .searchForTransactions()
+            .address(address)
+            .txType('pay');
+
+        if (limit !== undefined) {
+            query = query.limit(limit);
+        }
+        if (minRound !== undefined) {
+            query = query.minRound(minRound);
+        }
+        if (maxRound !== undefined) {
+            query = query.maxRound(maxRound);
+        }
+        if (notePrefix) {
+            query = query.notePrefix(notePrefix);
+        }
+        if (nextToken) {
+            query = query.nextToken(nextToken);
+        }
+
+        const response = await query.do();
+        return {
+            transactions: response.transactions.map(toNoteTransaction),
+            nextToken: response.nextToken,
+        };
+    }
+
+    async getLatestRound(): Promise<number> {
+        const health = await this.client.makeHealthCheck().do();
+        return Number(health.round);
+    }
+}
+
+/**
+ * Converts an indexer transaction to a NoteTransaction
+ *
+ * Transactions without a note get an empty one.
+ */
+function toNoteTransaction(tx: algosdk.indexerModels.Transaction): NoteTransaction {
+    return {
+        txid: tx.id ?? '',
+        sender: tx.sender,
+        receiver: tx.paymentTransaction?.receiver ?? '',
+        note: tx.note ?? new Uint8Array(0),
+        confirmedRound: Number(tx.confirmedRound ?? 0),
+        roundTime: Number(tx.roundTime ?? 0),
+        amount: tx.paymentTransaction !== undefined ? Number(tx.paymentTransaction.amount) : undefined,
+        fee: Number(tx.fee),
+        intraRoundOffset: tx.intraRoundOffset,
+    };
+}
+
+function sleep(ms: number): Promise<void> {
+    return new Promise(resolve => setTimeout(resolve, ms));
+}
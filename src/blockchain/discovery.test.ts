@@ -4,9 +4,9 @@
 
 import { describe, test, expect } from 'bun:test';
 import algosdk from 'algosdk';
-import { parseKeyAnnouncement, discoverEncryptionKey, discoverEncryptionKeyFromMessages } from './discovery';
-import { signEncryptionKey, getPublicKey } from '../crypto';
-import { deriveEncryptionKeys } from '../crypto/keys';
+import { parseKeyAnnouncement, parseKeyRevocation, discoverEncryptionKey, discoverEncryptionKeyFromMessages, discoverKeyRevocations } from './discovery';
+import { signEncryptionKey, getPublicKey, encodeKeyAnnouncement, encodeKeyRotationAnnouncement, encodeKeyRevocation, KEY_ROTATION_ANNOUNCEMENT_SIZE, KEY_REVOCATION_SIZE } from '../crypto';
+import { deriveEncryptionKeys, generateEncryptionKeys } from '../crypto/keys';
 import type { IndexerClient } from './interfaces';
 import type { NoteTransaction, PaginatedTransactions } from './types';
 
@@ -292,6 +292,182 @@ describe('discoverEncryptionKey', () => {
     });
 });
 
+describe('signed key announcements', () => {
+    test('encodeKeyAnnouncement produces the verified format', () => {
+        const { seed, ed25519PublicKey, encryptionKeys } = makeTestAccount();
+        const note = encodeKeyAnnouncement(encryptionKeys.publicKey, seed);
+
+        expect(note.length).toBe(96);
+        const result = parseKeyAnnouncement(note, ed25519PublicKey);
+        expect(result!.isVerified).toBe(true);
+        expect(result!.publicKey).toEqual(encryptionKeys.publicKey);
+    });
+
+    test('notes of other sizes are not announcements', () => {
+        const { encryptionKeys, seed } = makeTestAccount();
+        const note = encodeKeyAnnouncement(encryptionKeys.publicKey, seed);
+
+        expect(parseKeyAnnouncement(new Uint8Array(40))).toBeUndefined();
+        expect(parseKeyAnnouncement(new Uint8Array([...note, 0]))).toBeUndefined();
+    });
+
+    test('a signed announcement wins over an earlier unsigned one', async () => {
+        const { seed, encryptionKeys, address } = makeTestAccount();
+
+        const indexer = mockIndexer([
+            { txid: 'tx1', sender: address, receiver: address, note: new Uint8Array(32).fill(0x01), confirmedRound: 101, roundTime: 1700000001 },
+            { txid: 'tx2', sender: address, receiver: address, note: encodeKeyAnnouncement(encryptionKeys.publicKey, seed), confirmedRound: 100, roundTime: 1700000000 },
+        ]);
+
+        const result = await discoverEncryptionKey(indexer, address);
+        expect(result!.isVerified).toBe(true);
+        expect(result!.publicKey).toEqual(encryptionKeys.publicKey);
+        expect(result!.discoveredInTx).toBe('tx2');
+        expect(result!.discoveredAtRound).toBe(100);
+    });
+});
+
+describe('key rotation announcements', () => {
+    test('link the new key to the previous one', () => {
+        const { seed, ed25519PublicKey, encryptionKeys } = makeTestAccount();
+        const rotated = generateEncryptionKeys();
+        const note = encodeKeyRotationAnnouncement(rotated.publicKey, 1, encryptionKeys.publicKey, seed);
+
+        expect(note.length).toBe(KEY_ROTATION_ANNOUNCEMENT_SIZE);
+        expect(parseKeyAnnouncement(note, ed25519PublicKey)).toEqual({
+            publicKey: rotated.publicKey,
+            isVerified: true,
+            keyVersion: 1,
+            previousKey: encryptionKeys.publicKey,
+        });
+    });
+
+    test('do not verify with another account or altered fields', () => {
+        const { seed, ed25519PublicKey, encryptionKeys } = makeTestAccount();
+        const rotated = generateEncryptionKeys();
+        const note = encodeKeyRotationAnnouncement(rotated.publicKey, 3, encryptionKeys.publicKey, seed);
+
+        const versioned = new Uint8Array(note);
+        versioned[35] ^= 0x01;
+        const relinked = new Uint8Array(note);
+        relinked[40] ^= 0x01;
+
+        expect(parseKeyAnnouncement(note)!.isVerified).toBe(false);
+        expect(parseKeyAnnouncement(note, makeTestAccount().ed25519PublicKey)!.isVerified).toBe(false);
+        expect(parseKeyAnnouncement(versioned, ed25519PublicKey)!.isVerified).toBe(false);
+        expect(parseKeyAnnouncement(relinked, ed25519PublicKey)!.isVerified).toBe(false);
+    });
+
+    test('reject versions and keys that cannot be announced', () => {
+        const { seed, encryptionKeys } = makeTestAccount();
+
+        expect(() => encodeKeyRotationAnnouncement(encryptionKeys.publicKey, 0, encryptionKeys.publicKey, seed)).toThrow(/version/);
+        expect(() => encodeKeyRotationAnnouncement(new Uint8Array(31), 1, encryptionKeys.publicKey, seed)).toThrow(/32 bytes/);
+    });
+});
+
+describe('key revocations', () => {
+    test('only count when signed by the address', () => {
+        const { seed, ed25519PublicKey, encryptionKeys } = makeTestAccount();
+        const note = encodeKeyRevocation(encryptionKeys.publicKey, seed, 'superseded');
+
+        expect(note.length).toBe(KEY_REVOCATION_SIZE);
+        expect(parseKeyRevocation(note, ed25519PublicKey)).toEqual({ publicKey: encryptionKeys.publicKey, reason: 'superseded' });
+        expect(parseKeyRevocation(note, undefined)).toBeUndefined();
+        expect(parseKeyRevocation(note, makeTestAccount().ed25519PublicKey)).toBeUndefined();
+        expect(parseKeyAnnouncement(note, ed25519PublicKey)).toBeUndefined();
+
+        const reasonless = new Uint8Array(note);
+        reasonless[32] = 9;
+        expect(parseKeyRevocation(reasonless, ed25519PublicKey)).toBeUndefined();
+    });
+
+    test('discovery skips revoked keys for an older announcement', async () => {
+        const { seed, encryptionKeys, address } = makeTestAccount();
+        const rotated = generateEncryptionKeys();
+
+        const indexer = mockIndexer([
+            { txid: 'tx3', sender: address, receiver: address, note: encodeKeyRevocation(rotated.publicKey, seed), confirmedRound: 102, roundTime: 1700000002 },
+            { txid: 'tx2', sender: address, receiver: address, note: encodeKeyRotationAnnouncement(rotated.publicKey, 1, encryptionKeys.publicKey, seed), confirmedRound: 101, roundTime: 1700000001 },
+            { txid: 'tx1', sender: address, receiver: address, note: encodeKeyAnnouncement(encryptionKeys.publicKey, seed), confirmedRound: 100, roundTime: 1700000000 },
+        ]);
+
+        const result = await discoverEncryptionKey(indexer, address);
+        expect(result!.publicKey).toEqual(encryptionKeys.publicKey);
+        expect(result!.discoveredInTx).toBe('tx1');
+
+        const revocations = await discoverKeyRevocations(indexer, address);
+        expect(revocations).toHaveLength(1);
+        expect(revocations[0]).toMatchObject({ reason: 'compromised', address, revokedInTx: 'tx3', revokedAtRound: 102 });
+        expect(revocations[0].publicKey).toEqual(rotated.publicKey);
+    });
+
+    test('discovery finds nothing once every key is revoked', async () => {
+        const { seed, encryptionKeys, address } = makeTestAccount();
+
+        const indexer = mockIndexer([
+            { txid: 'tx2', sender: address, receiver: address, note: encodeKeyRevocation(encryptionKeys.publicKey, seed), confirmedRound: 101, roundTime: 1700000001 },
+            { txid: 'tx1', sender: address, receiver: address, note: encodeKeyAnnouncement(encryptionKeys.publicKey, seed), confirmedRound: 100, roundTime: 1700000000 },
+        ]);
+
+        expect(await discoverEncryptionKey(indexer, address)).toBeUndefined();
+    });
+});
+
+describe('key revocations in ascending order', () => {
+    /** Self-transfers of the given notes, oldest first as some indexers return them */
+    function ascending(address: string, notes: Uint8Array[]): NoteTransaction[] {
+        return notes.map((note, i) => ({
+            txid: `tx${i + 1}`,
+            sender: address,
+            receiver: address,
+            note,
+            confirmedRound: 100 + i,
+            roundTime: 1700000000 + i,
+        }));
+    }
+
+    test('a later revocation still excludes the key', async () => {
+        const { seed, encryptionKeys, address } = makeTestAccount();
+
+        const indexer = mockIndexer(ascending(address, [
+            encodeKeyAnnouncement(encryptionKeys.publicKey, seed),
+            encodeKeyRevocation(encryptionKeys.publicKey, seed),
+        ]));
+
+        expect(await discoverEncryptionKey(indexer, address)).toBeUndefined();
+    });
+
+    test('the newest unrevoked key wins', async () => {
+        const { seed, encryptionKeys, address } = makeTestAccount();
+        const rotated = generateEncryptionKeys();
+        const compromised = generateEncryptionKeys();
+
+        const indexer = mockIndexer(ascending(address, [
+            encodeKeyAnnouncement(encryptionKeys.publicKey, seed),
+            encodeKeyRotationAnnouncement(rotated.publicKey, 1, encryptionKeys.publicKey, seed),
+            encodeKeyRotationAnnouncement(compromised.publicKey, 2, rotated.publicKey, seed),
+            encodeKeyRevocation(compromised.publicKey, seed),
+        ]));
+
+        const result = await discoverEncryptionKey(indexer, address);
+        expect(result!.publicKey).toEqual(rotated.publicKey);
+        expect(result!.discoveredInTx).toBe('tx2');
+    });
+
+    test('a revocation beyond maxDepth is looked up for the chosen key', async () => {
+        const { seed, encryptionKeys, address } = makeTestAccount();
+        const [announcement, revocation] = ascending(address, [
+            encodeKeyAnnouncement(encryptionKeys.publicKey, seed),
+            encodeKeyRevocation(encryptionKeys.publicKey, seed),
+        ]);
+
+        const { indexer } = mockPaginatedIndexerWithCounter([[announcement], [revocation]]);
+
+        expect(await discoverEncryptionKey(indexer, address, { maxDepth: 1, pageSize: 1 })).toBeUndefined();
+    });
+});
+
 describe('decodeAlgorandAddress (via discoverEncryptionKey)', () => {
     test('correctly extracts Ed25519 public key from a valid address', async () => {
         const { seed, encryptionKeys, address, ed25519PublicKey } = makeTestAccount();
@@ -6,10 +6,12 @@
  */
 
 import algosdk from 'algosdk';
-import type { DiscoveredKey } from '../models/types';
+import type { DiscoveredKey, KeyRevocation } from '../models/types';
 import type { IndexerClient } from './interfaces';
 import type { NoteTransaction } from './types';
-import { verifyEncryptionKey } from '../crypto';
+import { parseKeyAnnouncement, parseKeyRevocation, uint8ArrayEquals } from '../crypto';
+
+export { parseKeyAnnouncement, parseKeyRevocation };
 
 /** Default page size for paginated key discovery. */
 const DEFAULT_DISCOVERY_PAGE_SIZE = 100;
@@ -26,59 +28,25 @@ function decodeAlgorandAddress(address: string): Uint8Array {
     return algosdk.Address.fromString(address).publicKey;
 }
 
-/**
- * Parse a key announcement from a transaction note.
- *
- * Key announcement format:
- * - 32 bytes: X25519 public key
- * - 64 bytes (optional): Ed25519 signature
- *
- * @param note The transaction note field
- * @param ed25519PublicKey The sender's Ed25519 public key (for verification)
- * @returns DiscoveredKey if valid, undefined otherwise
- */
-export function parseKeyAnnouncement(
-    note: Uint8Array,
-    ed25519PublicKey?: Uint8Array
-): DiscoveredKey | undefined {
-    if (note.length < 32) {
-        return undefined;
-    }
-
-    const publicKey = note.slice(0, 32);
-    let isVerified = false;
-
-    if (note.length >= 96 && ed25519PublicKey) {
-        // Has signature, verify it
-        const signature = note.slice(32, 96);
-        try {
-            isVerified = verifyEncryptionKey(publicKey, ed25519PublicKey, signature);
-        } catch {
-            isVerified = false;
-        }
-    }
-
-    return { publicKey, isVerified };
-}
-
 /**
  * Iterates through an address's transactions page by page.
  *
  * Uses `searchTransactionsPaginated` when available on the indexer for
  * efficient cursor-based pagination. Falls back to a single
- * `searchTransactions` call otherwise.
+ * `searchTransactions` call otherwise, where `notePrefix` is not applied.
  *
  * @param indexer The indexer client
  * @param address The address to search
  * @param callback Called for each transaction. Return `true` to stop iteration.
  * @param options Search options
+ * @returns Whether the whole history was searched, i.e. neither the callback nor `maxDepth` stopped it
  */
 async function paginatedSearch(
     indexer: IndexerClient,
     address: string,
     callback: (tx: NoteTransaction) => boolean,
-    options?: { maxDepth?: number; pageSize?: number }
-): Promise<void> {
+    options?: { maxDepth?: number; pageSize?: number; notePrefix?: Uint8Array }
+): Promise<boolean> {
     const pageSize = options?.pageSize ?? DEFAULT_DISCOVERY_PAGE_SIZE;
     const maxDepth = options?.maxDepth;
 
@@ -92,32 +60,33 @@ async function paginatedSearch(
                 ? Math.min(pageSize, maxDepth - searched)
                 : pageSize;
 
-            if (limit <= 0) break;
+            if (limit <= 0) return false;
 
             const result = await indexer.searchTransactionsPaginated(address, {
                 limit,
                 nextToken,
+                notePrefix: options?.notePrefix,
             });
 
             for (const tx of result.transactions) {
-                if (callback(tx)) return;
+                if (callback(tx)) return false;
             }
 
             searched += result.transactions.length;
             nextToken = result.nextToken;
 
-            if (!nextToken || result.transactions.length === 0) break;
-            if (maxDepth && searched >= maxDepth) break;
+            if (!nextToken || result.transactions.length === 0) return true;
+            if (maxDepth && searched >= maxDepth) return false;
         }
-        return;
     }
 
     // Fallback: single-batch search
     const limit = maxDepth ?? 1000;
     const transactions = await indexer.searchTransactions(address, undefined, limit);
     for (const tx of transactions) {
-        if (callback(tx)) return;
+        if (callback(tx)) return false;
     }
+    return transactions.length < limit;
 }
 
 /**
@@ -141,7 +110,13 @@ export interface DiscoverKeyOptions {
  *
  * Searches the indexer for key announcement transactions from the address.
  * A key announcement is a self-transfer (sender === receiver) with the X25519
- * public key in the note field.
+ * public key in the note field, normally signed (see `encodeKeyAnnouncement`).
+ *
+ * The newest announcement with a valid signature wins. Unsigned or unverifiable
+ * announcements are only returned (unverified) when no signed one is found.
+ * Announcements of a key revoked by a signed revocation are skipped, whatever
+ * order the indexer returns transactions in; when `maxDepth` ends the search
+ * early, the chosen key's revocations are looked up separately.
  *
  * When the indexer supports paginated search, this iterates through the full
  * transaction history page by page. Otherwise it falls back to a single batch.
@@ -170,9 +145,11 @@ export async function discoverEncryptionKey(
         // Invalid address format — continue without verification
     }
 
-    let found: DiscoveredKey | undefined;
+    const announcements: DiscoveredKey[] = [];
+    const revoked: Uint8Array[] = [];
+    const isRevoked = (publicKey: Uint8Array) => revoked.some(key => uint8ArrayEquals(key, publicKey));
 
-    await paginatedSearch(
+    const complete = await paginatedSearch(
         indexer,
         address,
         (tx) => {
@@ -185,19 +162,124 @@ export async function discoverEncryptionKey(
             // Must have a note
             if (!tx.note || tx.note.length < 32) return false;
 
-            const key = parseKeyAnnouncement(tx.note, ed25519PublicKey);
-            if (key !== undefined) {
-                found = key;
-                return true; // stop iteration
+            const revocation = parseKeyRevocation(tx.note, ed25519PublicKey);
+            if (revocation) {
+                revoked.push(revocation.publicKey);
+                return false;
             }
+
+            const key = parseKeyAnnouncement(tx.note, ed25519PublicKey);
+            if (key === undefined) return false;
+
+            announcements.push({
+                ...key,
+                address,
+                discoveredInTx: tx.txid,
+                discoveredAtRound: tx.confirmedRound,
+                discoveredAt: new Date(tx.roundTime * 1000),
+            });
             return false;
         },
         options
     );
 
+    // A revocation may come before or after the announcements it covers, so
+    // only pick once the search is done; signed first, then newest
+    const candidates = announcements
+        .filter(key => !isRevoked(key.publicKey))
+        .sort((a, b) => Number(b.isVerified) - Number(a.isVerified) || (b.discoveredAtRound ?? 0) - (a.discoveredAtRound ?? 0));
+
+    for (const candidate of candidates) {
+        if (complete || !ed25519PublicKey) return candidate;
+        if (!(await hasKeyRevocation(indexer, address, ed25519PublicKey, candidate.publicKey, options.pageSize))) {
+            return candidate;
+        }
+    }
+    return undefined;
+}
+
+/**
+ * Checks the address's whole history for a signed revocation of one key
+ *
+ * Revocation notes start with the revoked key, so indexers with paginated
+ * search only return notes with that prefix.
+ */
+async function hasKeyRevocation(
+    indexer: IndexerClient,
+    address: string,
+    ed25519PublicKey: Uint8Array,
+    publicKey: Uint8Array,
+    pageSize?: number
+): Promise<boolean> {
+    let found = false;
+
+    await paginatedSearch(
+        indexer,
+        address,
+        (tx) => {
+            if (tx.sender !== address || tx.receiver !== address || !tx.note) return false;
+
+            const revocation = parseKeyRevocation(tx.note, ed25519PublicKey);
+            found = revocation !== undefined && uint8ArrayEquals(revocation.publicKey, publicKey);
+            return found;
+        },
+        { pageSize, notePrefix: publicKey }
+    );
+
     return found;
 }
 
+/**
+ * Discover the signed key revocations published by an Algorand address.
+ *
+ * A revocation is a self-transfer whose note revokes an encryption key (see
+ * `encodeKeyRevocation`); only revocations signed by the address count. Use
+ * the result to evict revoked keys from caches such as `PublicKeyCache`.
+ *
+ * @param indexer The indexer client to use
+ * @param address The Algorand address whose revocations to find
+ * @param options Discovery options
+ * @returns The revocations, in the order the indexer returns them
+ */
+export async function discoverKeyRevocations(
+    indexer: IndexerClient,
+    address: string,
+    options: DiscoverKeyOptions = {}
+): Promise<KeyRevocation[]> {
+    let ed25519PublicKey: Uint8Array;
+    try {
+        ed25519PublicKey = decodeAlgorandAddress(address);
+    } catch {
+        // Without the address key no revocation can be verified
+        return [];
+    }
+
+    const revocations: KeyRevocation[] = [];
+
+    await paginatedSearch(
+        indexer,
+        address,
+        (tx) => {
+            if (tx.sender !== address || tx.receiver !== address || !tx.note) return false;
+
+            const revocation = parseKeyRevocation(tx.note, ed25519PublicKey);
+            if (revocation) {
+                revocations.push({
+                    ...revocation,
+                    address,
+                    revokedInTx: tx.txid,
+                    revokedAtRound: tx.confirmedRound,
+                    revokedAt: new Date(tx.roundTime * 1000),
+                });
+            }
+            return false;
+        },
+        options
+    );
+
+    return revocations;
+}
+
 /**
  * Discover encryption key from a chat message transaction.
  *
@@ -241,6 +323,7 @@ export async function discoverEncryptionKeyFromMessages(
 
             try {
                 const envelope = decodeEnvelope(tx.note);
+                if (envelope.senderPublicKey.length === 0) return false; // Sealed sender
                 found = {
                     publicKey: envelope.senderPublicKey,
                     isVerified: false, // Not verified via signature
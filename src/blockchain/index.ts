@@ -25,14 +25,20 @@ export {
 export type {
     AlgodClient,
     IndexerClient,
+    TransactionSearchOptions,
 } from './interfaces';
 
+// algosdk-backed clients
+export { AlgosdkAlgodClient, AlgosdkIndexerClient } from './algosdk-clients';
+
 // Discovery
 export type { DiscoverKeyOptions } from './discovery';
 export {
     parseKeyAnnouncement,
+    parseKeyRevocation,
     discoverEncryptionKey,
     discoverEncryptionKeyFromMessages,
+    discoverKeyRevocations,
 } from './discovery';
 
 // Message Transaction
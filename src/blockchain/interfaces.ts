@@ -13,6 +13,22 @@ import type {
     PaginatedTransactions,
 } from './types';
 
+/**
+ * Filters and cursor for a paginated transaction search.
+ */
+export interface TransactionSearchOptions {
+    /** Only return transactions confirmed in or after this round. */
+    minRound?: number;
+    /** Only return transactions confirmed in or before this round. */
+    maxRound?: number;
+    /** Maximum number of transactions to return. */
+    limit?: number;
+    /** Cursor from the previous page. */
+    nextToken?: string;
+    /** Only return transactions whose note starts with these bytes. */
+    notePrefix?: Uint8Array;
+}
+
 /**
  * Interface for interacting with an Algorand node (algod).
  *
@@ -31,9 +47,20 @@ export interface AlgodClient {
 
     /**
      * Submit a signed transaction. Returns the transaction ID.
+     *
+     * Without `submitTransactionGroup`, a transaction group is submitted
+     * here as its signed transactions concatenated, as algod accepts them;
+     * the ID of the first is returned.
      */
     submitTransaction(signedTxn: Uint8Array): Promise<string>;
 
+    /**
+     * Submit a signed transaction group. Returns the ID of the first transaction.
+     *
+     * This method is optional.
+     */
+    submitTransactionGroup?(signedTxns: Uint8Array[]): Promise<string>;
+
     /**
      * Wait for a transaction to be confirmed.
      * @param txid Transaction ID to wait for
@@ -102,14 +129,17 @@ export interface IndexerClient {
      * fall back to `searchTransactions` with a single batch.
      *
      * @param address Address to search for
-     * @param options Pagination options
+     * @param options Filters and pagination options
      */
     searchTransactionsPaginated?(
         address: string,
-        options?: {
-            afterRound?: number;
-            limit?: number;
-            nextToken?: string;
-        }
+        options?: TransactionSearchOptions
     ): Promise<PaginatedTransactions>;
+
+    /**
+     * Get the latest round the indexer has processed.
+     *
+     * This method is optional.
+     */
+    getLatestRound?(): Promise<number>;
 }
@@ -4,7 +4,10 @@
 
 import { describe, test, expect } from 'bun:test';
 import { MessageIndexer, PublicKeyNotFoundError } from './message-indexer';
+import algosdk from 'algosdk';
 import { encodeEnvelope } from '../crypto/envelope';
+import { encodeKeyAnnouncement, encryptChunkedMessage, encryptMessage, generateEphemeralKeyPair } from '../crypto';
+import { ChatErrorCode } from '../errors/ChatError';
 import { PROTOCOL } from '../models/types';
 import type { IndexerClient } from './interfaces';
 import type { NoteTransaction, PaginatedTransactions } from './types';
@@ -193,6 +196,59 @@ function mockPaginatedIndexer(
     return { indexer, getCallCount: () => callCount };
 }
 
+describe('MessageIndexer.findPublicKey (signed announcements)', () => {
+    test('prefers a signed announcement over earlier chat envelopes', async () => {
+        const account = algosdk.generateAccount();
+        const address = account.addr.toString();
+        const announcedKey = new Uint8Array(32).fill(0x33);
+
+        const indexer = mockIndexer([
+            {
+                txid: 'tx-chat',
+                sender: address,
+                receiver: SENDER_ADDRESS,
+                note: makeChatNote(new Uint8Array(32).fill(0xAA)),
+                confirmedRound: 101,
+                roundTime: 1700000001,
+            },
+            {
+                txid: 'tx-announce',
+                sender: address,
+                receiver: address,
+                note: encodeKeyAnnouncement(announcedKey, account.sk.slice(0, 32)),
+                confirmedRound: 100,
+                roundTime: 1700000000,
+            },
+        ]);
+
+        const mi = new MessageIndexer(indexer, mockChatAccount(SENDER_ADDRESS));
+        const result = await mi.findPublicKey(address);
+
+        expect(result.isVerified).toBe(true);
+        expect(result.publicKey).toEqual(announcedKey);
+    });
+
+    test('does not trust an announcement signed by another account', async () => {
+        const account = algosdk.generateAccount();
+        const address = account.addr.toString();
+        const other = algosdk.generateAccount();
+
+        const indexer = mockIndexer([
+            {
+                txid: 'tx-announce',
+                sender: address,
+                receiver: address,
+                note: encodeKeyAnnouncement(new Uint8Array(32).fill(0x33), other.sk.slice(0, 32)),
+                confirmedRound: 100,
+                roundTime: 1700000000,
+            },
+        ]);
+
+        const mi = new MessageIndexer(indexer, mockChatAccount(SENDER_ADDRESS));
+        await expect(mi.findPublicKey(address)).rejects.toThrow(PublicKeyNotFoundError);
+    });
+});
+
 describe('MessageIndexer.findPublicKey (paginated)', () => {
     test('finds key on a later page when using paginated indexer', async () => {
         const senderKey = new Uint8Array(32).fill(0xAA);
@@ -290,3 +346,100 @@ describe('MessageIndexer.findPublicKey (paginated)', () => {
         expect(getCallCount()).toBe(3);
     });
 });
+
+describe('MessageIndexer.fetchMessages (sender key binding)', () => {
+    test('flags envelopes whose key differs from the sender announcement', async () => {
+        const mallory = algosdk.generateAccount();
+        const malloryAddress = mallory.addr.toString();
+        const malloryKeys = generateEphemeralKeyPair();
+        const stolenKey = new Uint8Array(32).fill(0x44);
+        const me = { address: SENDER_ADDRESS, encryptionKeys: generateEphemeralKeyPair() };
+
+        const message = (txid: string, text: string, senderKey: Uint8Array, round: number): NoteTransaction => ({
+            txid,
+            sender: malloryAddress,
+            receiver: SENDER_ADDRESS,
+            note: encodeEnvelope(encryptMessage(text, senderKey, me.encryptionKeys.publicKey)),
+            confirmedRound: round,
+            roundTime: 1700000000 + round,
+        });
+
+        const announcement: NoteTransaction = {
+            txid: 'tx-announce',
+            sender: malloryAddress,
+            receiver: malloryAddress,
+            note: encodeKeyAnnouncement(malloryKeys.publicKey, mallory.sk.slice(0, 32)),
+            confirmedRound: 100,
+            roundTime: 1700000100,
+        };
+
+        const indexer = mockIndexer(
+            [announcement],
+            [message('tx-forged', 'forged', stolenKey, 101), message('tx-genuine', 'genuine', malloryKeys.publicKey, 102)]
+        );
+
+        const mi = new MessageIndexer(indexer, me);
+        const messages = await mi.fetchMessages(malloryAddress);
+
+        expect(messages.map(m => [m.content, m.authenticity])).toEqual([
+            ['forged', 'mismatch'],
+            ['genuine', 'verified'],
+        ]);
+    });
+});
+
+describe('MessageIndexer (chunked messages)', () => {
+    const sender = { address: 'CHUNK_SENDER', encryptionKeys: generateEphemeralKeyPair() };
+    const me = { address: SENDER_ADDRESS, encryptionKeys: generateEphemeralKeyPair() };
+    // Varied enough not to compress into a single chunk
+    const text = Array.from({ length: 3000 }, (_, i) => String.fromCharCode(33 + ((i * 7919) % 90))).join('');
+
+    /** The chunks of one message, as a transaction group confirmed in one round */
+    function chunkTransactions(): NoteTransaction[] {
+        const envelopes = encryptChunkedMessage(text, sender.encryptionKeys.publicKey, me.encryptionKeys.publicKey);
+        expect(envelopes.length).toBeGreaterThan(1);
+
+        return envelopes.map((envelope, index) => ({
+            txid: `tx-chunk-${index}`,
+            sender: sender.address,
+            receiver: me.address,
+            note: encodeEnvelope(envelope),
+            confirmedRound: 200,
+            roundTime: 1700000200,
+            intraRoundOffset: index,
+        }));
+    }
+
+    test('fetchMessages reassembles the chunks of a transaction group', async () => {
+        const chunks = chunkTransactions();
+        const mi = new MessageIndexer(mockIndexer([], [...chunks].reverse()), me);
+
+        const messages = await mi.fetchMessages(sender.address);
+
+        expect(messages).toHaveLength(1);
+        expect(messages[0].id).toBe('tx-chunk-0');
+        expect(messages[0].content).toBe(text);
+        expect(messages[0].error).toBeUndefined();
+    });
+
+    test('fetchMessages reports a message with missing chunks as incomplete', async () => {
+        const chunks = chunkTransactions().slice(1);
+        const mi = new MessageIndexer(mockIndexer([], chunks), me);
+
+        const messages = await mi.fetchMessages(sender.address);
+
+        expect(messages).toHaveLength(1);
+        expect(messages[0].content).toBe('');
+        expect(messages[0].error?.code).toBe(ChatErrorCode.MESSAGE_INCOMPLETE);
+    });
+
+    test('fetchConversations reassembles the chunks of a transaction group', async () => {
+        const mi = new MessageIndexer(mockIndexer(chunkTransactions()), me);
+
+        const conversations = await mi.fetchConversations();
+
+        expect(conversations).toHaveLength(1);
+        expect(conversations[0].participant).toBe(sender.address);
+        expect(conversations[0].messages.map(m => m.content)).toEqual([text]);
+    });
+});
@@ -6,18 +6,27 @@
  * and discovering encryption keys.
  */
 
+import algosdk from 'algosdk';
 import type { IndexerClient } from './interfaces';
 import type { NoteTransaction } from './types';
 import type {
     Message,
     MessageDirection,
+    MessageAuthenticity,
     Conversation,
     DiscoveredKey,
     ReplyContext,
     X25519KeyPair,
 } from '../models/types';
-import { decodeEnvelope, isChatMessage } from '../crypto/envelope';
-import { decryptMessage } from '../crypto';
+import { decodeEnvelope, isChatMessage, isSealedEnvelope } from '../crypto/envelope';
+import {
+    assembleChunks,
+    decryptMessage,
+    parseKeyAnnouncement,
+    senderKeyAuthenticity,
+    type ChunkedMessagePart,
+} from '../crypto';
+import { parsePSKHandshakePayload } from '../psk';
 
 /** Default page size for fetching messages */
 export const DEFAULT_PAGE_SIZE = 50;
@@ -25,6 +34,9 @@ export const DEFAULT_PAGE_SIZE = 50;
 /** Default search depth for finding public keys */
 export const DEFAULT_SEARCH_DEPTH = 200;
 
+/** Sender keys looked up during one fetch, by address */
+type KnownKeys = Map<string, Promise<DiscoveredKey | undefined>>;
+
 /** Error thrown when a public key cannot be found */
 export class PublicKeyNotFoundError extends Error {
     address: string;
@@ -87,7 +99,8 @@ export class MessageIndexer {
      * @param participant - The other party in the conversation
      * @param afterRound - Only fetch messages after this round (for forward pagination)
      * @param limit - Maximum number of messages to fetch
-     * @returns Array of decrypted messages
+     * @returns Array of decrypted messages. A chunked message whose parts are
+     *          not all in the fetched transactions has an `error` and no content.
      */
     async fetchMessages(
         participant: string,
@@ -101,9 +114,10 @@ export class MessageIndexer {
             limit
         );
 
-        const messages: Message[] = [];
+        const parts: ChunkedMessagePart[] = [];
+        const knownKeys: KnownKeys = new Map();
 
-        for (const tx of transactions) {
+        for (const tx of inTransactionOrder(transactions)) {
             // Only process payment transactions with notes
             if (!tx.note || tx.note.length < 2) continue;
             if (!isChatMessage(tx.note)) continue;
@@ -118,15 +132,17 @@ export class MessageIndexer {
 
             // Try to parse and decrypt
             try {
-                const message = await this.parseMessage(tx, direction);
-                if (message) {
-                    messages.push(message);
+                const part = await this.parseMessage(tx, direction, knownKeys);
+                if (part) {
+                    parts.push(part);
                 }
             } catch {
                 // Skip messages that can't be decrypted
             }
         }
 
+        const messages = assembleChunks(parts).map((part) => part.message);
+
         // Sort by timestamp
         return messages.sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
     }
@@ -147,43 +163,44 @@ export class MessageIndexer {
             limit
         );
 
-        const conversationsByAddress = new Map<string, Conversation>();
+        const parts: ChunkedMessagePart[] = [];
+        const knownKeys: KnownKeys = new Map();
 
-        for (const tx of transactions) {
+        for (const tx of inTransactionOrder(transactions)) {
             if (!tx.note || tx.note.length < 2) continue;
             if (!isChatMessage(tx.note)) continue;
 
-            // Determine the other party
-            let otherAddress: string;
-            let direction: MessageDirection;
-
-            if (tx.sender === this.chatAccount.address) {
-                otherAddress = tx.receiver;
-                direction = 'sent';
-            } else {
-                otherAddress = tx.sender;
-                direction = 'received';
-            }
+            const direction: MessageDirection =
+                tx.sender === this.chatAccount.address ? 'sent' : 'received';
 
             // Parse and add message
             try {
-                const message = await this.parseMessage(tx, direction);
-                if (message) {
-                    let conversation = conversationsByAddress.get(otherAddress);
-                    if (!conversation) {
-                        conversation = {
-                            participant: otherAddress,
-                            messages: [],
-                        };
-                        conversationsByAddress.set(otherAddress, conversation);
-                    }
-                    conversation.messages.push(message);
+                const part = await this.parseMessage(tx, direction, knownKeys);
+                if (part) {
+                    parts.push(part);
                 }
             } catch {
                 // Skip messages that can't be decrypted
             }
         }
 
+        const conversationsByAddress = new Map<string, Conversation>();
+
+        for (const { message } of assembleChunks(parts)) {
+            // Determine the other party
+            const otherAddress = message.direction === 'sent' ? message.recipient : message.sender;
+
+            let conversation = conversationsByAddress.get(otherAddress);
+            if (!conversation) {
+                conversation = {
+                    participant: otherAddress,
+                    messages: [],
+                };
+                conversationsByAddress.set(otherAddress, conversation);
+            }
+            conversation.messages.push(message);
+        }
+
         // Filter empty conversations and sort by most recent message
         return Array.from(conversationsByAddress.values())
             .filter((c) => c.messages.length > 0)
@@ -201,6 +218,10 @@ export class MessageIndexer {
     /**
      * Finds a user's encryption public key from their past transactions.
      *
+     * A signed key announcement is returned as soon as it is found (verified).
+     * Otherwise the key from the first chat envelope the user sent is
+     * returned, unverified, once the search is done.
+     *
      * Uses paginated search when the indexer supports it, allowing exhaustive
      * searches through large transaction histories. Falls back to a single
      * batch with the given search depth.
@@ -214,6 +235,38 @@ export class MessageIndexer {
         address: string,
         searchDepth?: number
     ): Promise<DiscoveredKey> {
+        let ed25519PublicKey: Uint8Array | undefined;
+        try {
+            ed25519PublicKey = algosdk.Address.fromString(address).publicKey;
+        } catch {
+            // Malformed address - announcements cannot be verified
+        }
+
+        let fallback: DiscoveredKey | undefined;
+
+        // Returns the key if the transaction is a signed announcement
+        const inspect = (tx: NoteTransaction): DiscoveredKey | undefined => {
+            if (tx.sender !== address) return undefined;
+            if (!tx.note || tx.note.length < 2) return undefined;
+
+            if (tx.receiver === address) {
+                const announced = parseKeyAnnouncement(tx.note, ed25519PublicKey);
+                if (announced?.isVerified) return announced;
+            }
+
+            if (fallback || !isChatMessage(tx.note)) return undefined;
+
+            try {
+                const envelope = decodeEnvelope(tx.note);
+                if (!isSealedEnvelope(envelope)) {
+                    fallback = { publicKey: envelope.senderPublicKey, isVerified: false };
+                }
+            } catch {
+                // Continue searching
+            }
+            return undefined;
+        };
+
         // Paginated path
         if (this.indexerClient.searchTransactionsPaginated) {
             const pageSize = 100;
@@ -233,19 +286,8 @@ export class MessageIndexer {
                 );
 
                 for (const tx of result.transactions) {
-                    if (tx.sender !== address) continue;
-                    if (!tx.note || tx.note.length < 2) continue;
-                    if (!isChatMessage(tx.note)) continue;
-
-                    try {
-                        const envelope = decodeEnvelope(tx.note);
-                        return {
-                            publicKey: envelope.senderPublicKey,
-                            isVerified: false,
-                        };
-                    } catch {
-                        // Continue searching
-                    }
+                    const announced = inspect(tx);
+                    if (announced) return announced;
                 }
 
                 searched += result.transactions.length;
@@ -254,32 +296,23 @@ export class MessageIndexer {
                 if (!nextToken || result.transactions.length === 0) break;
                 if (searchDepth && searched >= searchDepth) break;
             }
-
-            throw new PublicKeyNotFoundError(address);
+        } else {
+            // Fallback: single batch
+            const limit = searchDepth ?? DEFAULT_SEARCH_DEPTH;
+            const transactions = await this.indexerClient.searchTransactions(
+                address,
+                undefined,
+                limit
+            );
+
+            for (const tx of transactions) {
+                const announced = inspect(tx);
+                if (announced) return announced;
+            }
         }
 
-        // Fallback: single batch
-        const limit = searchDepth ?? DEFAULT_SEARCH_DEPTH;
-        const transactions = await this.indexerClient.searchTransactions(
-            address,
-            undefined,
-            limit
-        );
-
-        for (const tx of transactions) {
-            if (tx.sender !== address) continue;
-            if (!tx.note || tx.note.length < 2) continue;
-            if (!isChatMessage(tx.note)) continue;
-
-            try {
-                const envelope = decodeEnvelope(tx.note);
-                return {
-                    publicKey: envelope.senderPublicKey,
-                    isVerified: false,
-                };
-            } catch {
-                // Continue searching
-            }
+        if (fallback) {
+            return fallback;
         }
 
         throw new PublicKeyNotFoundError(address);
@@ -338,14 +371,20 @@ export class MessageIndexer {
     /**
      * Parses and decrypts a message from a transaction.
      *
+     * Received messages are flagged with whether the envelope's sender key
+     * matches the key found for the transaction sender.
+     *
      * @param tx - The transaction to parse
      * @param direction - Whether this is a sent or received message
-     * @returns The decrypted message, or null if it's a key-publish
+     * @param knownKeys - Sender keys already looked up during this fetch
+     * @returns The decrypted message, with its chunk if it is one part of a
+     *          chunked message, or null if it's a key-publish
      */
     private async parseMessage(
         tx: NoteTransaction,
-        direction: MessageDirection
-    ): Promise<Message | null> {
+        direction: MessageDirection,
+        knownKeys: KnownKeys
+    ): Promise<ChunkedMessagePart | null> {
         const envelope = decodeEnvelope(tx.note);
 
         // Decrypt the message
@@ -360,6 +399,11 @@ export class MessageIndexer {
             return null;
         }
 
+        if (!decrypted.chunk && parsePSKHandshakePayload(decrypted.text)) {
+            // PSK handshake control payload - not a real message
+            return null;
+        }
+
         // Build reply context if this is a reply
         let replyContext: ReplyContext | undefined;
         if (decrypted.replyToId && decrypted.replyToPreview) {
@@ -369,7 +413,18 @@ export class MessageIndexer {
             };
         }
 
-        return {
+        let authenticity: MessageAuthenticity | undefined;
+        if (direction === 'received') {
+            if (!knownKeys.has(tx.sender)) {
+                knownKeys.set(tx.sender, this.findPublicKey(tx.sender).catch(() => undefined));
+            }
+            authenticity = senderKeyAuthenticity(
+                decrypted.senderPublicKey ?? envelope.senderPublicKey,
+                await knownKeys.get(tx.sender)
+            );
+        }
+
+        const message: Message = {
             id: tx.txid,
             sender: tx.sender,
             recipient: tx.receiver,
@@ -378,7 +433,11 @@ export class MessageIndexer {
             confirmedRound: tx.confirmedRound,
             direction,
             replyContext,
+            authenticity,
+            payload: decrypted.payload,
         };
+
+        return { message, chunk: decrypted.chunk };
     }
 
     /** Sleep for a given number of milliseconds */
@@ -386,3 +445,13 @@ export class MessageIndexer {
         return new Promise((resolve) => setTimeout(resolve, ms));
     }
 }
+
+/**
+ * Sorts transactions by round, then by position within the round, so the
+ * chunks of a transaction group are joined in order
+ */
+function inTransactionOrder(transactions: NoteTransaction[]): NoteTransaction[] {
+    return [...transactions].sort(
+        (a, b) => a.confirmedRound - b.confirmedRound || (a.intraRoundOffset ?? 0) - (b.intraRoundOffset ?? 0)
+    );
+}
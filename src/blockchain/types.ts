@@ -106,6 +106,12 @@ export interface NoteTransaction {
     confirmedRound: number;
     /** Timestamp of the block (Unix time in seconds). */
     roundTime: number;
+    /** Payment amount in microAlgos (optional). */
+    amount?: number;
+    /** Fee paid in microAlgos (optional). */
+    fee?: number;
+    /** Position of the transaction within its round (optional). */
+    intraRoundOffset?: number;
 }
 
 /**
@@ -149,4 +155,9 @@ export interface PaginatedTransactions {
     transactions: NoteTransaction[];
     /** Opaque cursor for fetching the next page. Absent when no more results. */
     nextToken?: string;
+    /**
+     * Set when the search stopped at its limit without a cursor, e.g. on
+     * indexers without paginated search. Later results cannot be fetched.
+     */
+    truncated?: boolean;
 }
@@ -1,6 +1,7 @@
 import { describe, expect, test } from 'bun:test';
 import { PublicKeyCache } from './PublicKeyCache';
 import type { DiscoveredKey } from '../models/types';
+import { ChatErrorCode } from '../errors/ChatError';
 
 function makeKey(address: string, fill = 0x01): DiscoveredKey {
     return {
@@ -190,4 +191,31 @@ describe('PublicKeyCache', () => {
             expect(cache.touch('UNKNOWN')).toBe(false);
         });
     });
+
+    describe('revoke', () => {
+        test('evicts a revoked key and refuses to cache it again', () => {
+            const cache = new PublicKeyCache();
+            const key = makeKey('ALICE');
+            cache.store(key, 'ALICE');
+
+            cache.revoke('ALICE', key.publicKey);
+            expect(cache.retrieve('ALICE')).toBeNull();
+            expect(cache.isRevoked('ALICE', key.publicKey)).toBe(true);
+            expect(() => cache.store(key)).toThrow(expect.objectContaining({ code: ChatErrorCode.KEY_REVOKED }));
+
+            cache.clear();
+            expect(cache.isRevoked('ALICE', key.publicKey)).toBe(true);
+        });
+
+        test('keeps other keys and addresses', () => {
+            const cache = new PublicKeyCache();
+            cache.store(makeKey('ALICE', 0x02), 'ALICE');
+            cache.store(makeKey('BOB'), 'BOB');
+
+            cache.revoke('ALICE', makeKey('ALICE').publicKey);
+            expect(cache.retrieve('ALICE')).not.toBeNull();
+            expect(cache.retrieve('BOB')).not.toBeNull();
+            expect(cache.isRevoked('BOB', makeKey('BOB').publicKey)).toBe(false);
+        });
+    });
 });
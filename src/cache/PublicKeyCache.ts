@@ -4,7 +4,10 @@
  * TTL-based cache for discovered encryption public keys.
  */
 
+import { bytesToHex } from '@noble/hashes/utils';
 import type { DiscoveredKey } from '../models/types';
+import { fingerprint } from '../crypto/signature';
+import { ChatError } from '../errors/ChatError';
 
 /** Cached key entry with timestamp */
 interface CachedEntry {
@@ -16,10 +19,12 @@ interface CachedEntry {
  * TTL-based cache for public keys
  *
  * Stores discovered public keys with automatic expiration.
- * Default TTL is 24 hours.
+ * Default TTL is 24 hours. Revoked keys are evicted and never cached again.
  */
 export class PublicKeyCache {
     private cache = new Map<string, CachedEntry>();
+    /** Revoked keys per address, as hex; kept across `clear` */
+    private revoked = new Map<string, Set<string>>();
 
     /**
      * Creates a new PublicKeyCache
@@ -33,12 +38,16 @@ export class PublicKeyCache {
      *
      * @param key - The discovered key to cache
      * @param address - The address to cache under (uses key.address if not provided)
+     * @throws ChatError with code KEY_REVOKED if the key was revoked
      */
     public store(key: DiscoveredKey, address?: string): void {
         const cacheKey = address ?? key.address;
         if (!cacheKey) {
             throw new Error('Address is required to cache a discovered key');
         }
+        if (this.isRevoked(cacheKey, key.publicKey)) {
+            throw ChatError.keyRevoked(cacheKey, fingerprint(key.publicKey));
+        }
         this.cache.set(cacheKey, {
             key,
             cachedAt: Date.now(),
@@ -96,6 +105,33 @@ export class PublicKeyCache {
         this.cache.delete(address);
     }
 
+    /**
+     * Records a revoked key, evicting it if it is cached for the address
+     *
+     * @param address - Algorand address that revoked the key
+     * @param publicKey - The revoked encryption key
+     */
+    public revoke(address: string, publicKey: Uint8Array): void {
+        let keys = this.revoked.get(address);
+        if (!keys) {
+            keys = new Set();
+            this.revoked.set(address, keys);
+        }
+        keys.add(bytesToHex(publicKey));
+
+        const entry = this.cache.get(address);
+        if (entry && this.isRevoked(address, entry.key.publicKey)) {
+            this.cache.delete(address);
+        }
+    }
+
+    /**
+     * Checks whether a key was revoked for an address
+     */
+    public isRevoked(address: string, publicKey: Uint8Array): boolean {
+        return this.revoked.get(address)?.has(bytesToHex(publicKey)) ?? false;
+    }
+
     /**
      * Clears all cached keys
      */
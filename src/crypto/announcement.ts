@@ -0,0 +1,267 @@
+/**
+ * AlgoChat Web - Key Announcements
+ *
+ * The note format published by `publishKey` in a zero-amount self-payment:
+ *
+ *   [X25519 public key (32)][Ed25519 signature over the key (64)]
+ *
+ * The signature is made with the account's Algorand key, so anyone can verify
+ * the key against the sender address. A bare 32-byte key is still accepted
+ * from older clients, but is never verified.
+ *
+ * A rotated key is announced with a note that links it to the key it replaces:
+ *
+ *   [X25519 public key (32)][key version (4, big-endian)][previous key (32)][Ed25519 signature (64)]
+ *
+ * The signature covers a domain prefix and the first three fields, so the
+ * version and the link cannot be swapped onto another key.
+ *
+ * A key is revoked with a note that only counts when its signature verifies:
+ *
+ *   [X25519 public key (32)][reason (1)][Ed25519 signature (64)]
+ */
+
+import { ed25519 } from '@noble/curves/ed25519';
+import type { DiscoveredKey, KeyRevocation, KeyRevocationReason, MessageAuthenticity } from '../models/types';
+import { uint8ArrayEquals } from './keys';
+import {
+    signEncryptionKey,
+    verifyEncryptionKey,
+    SignatureError,
+    ED25519_PUBLIC_KEY_SIZE,
+    ED25519_SIGNATURE_SIZE,
+    X25519_PUBLIC_KEY_SIZE,
+} from './signature';
+
+/** Size of a signed key announcement note in bytes. */
+export const KEY_ANNOUNCEMENT_SIZE = X25519_PUBLIC_KEY_SIZE + ED25519_SIGNATURE_SIZE;
+
+/** Size of a signed key rotation announcement note in bytes. */
+export const KEY_ROTATION_ANNOUNCEMENT_SIZE = X25519_PUBLIC_KEY_SIZE + 4 + X25519_PUBLIC_KEY_SIZE + ED25519_SIGNATURE_SIZE;
+
+/** Domain prefix of the signed rotation message, so it never verifies as another signature */
+const KEY_ROTATION_DOMAIN = new TextEncoder().encode('AlgoChat-key-rotation-v1');
+
+/** Size of the signed fields of a rotation announcement: key, version and previous key */
+const KEY_ROTATION_FIELDS_SIZE = KEY_ROTATION_ANNOUNCEMENT_SIZE - ED25519_SIGNATURE_SIZE;
+
+/** Size of a signed key revocation note in bytes. */
+export const KEY_REVOCATION_SIZE = X25519_PUBLIC_KEY_SIZE + 1 + ED25519_SIGNATURE_SIZE;
+
+/** Domain prefix of the signed revocation message */
+const KEY_REVOCATION_DOMAIN = new TextEncoder().encode('AlgoChat-key-revocation-v1');
+
+/** Revocation reasons by their wire value */
+const REVOCATION_REASONS: readonly KeyRevocationReason[] = ['unspecified', 'compromised', 'superseded'];
+
+/**
+ * Creates a signed key announcement note.
+ *
+ * @param encryptionPublicKey - The X25519 public key to announce (32 bytes)
+ * @param signingKey - The account's Ed25519 private key (32 bytes)
+ * @returns The 96-byte announcement note
+ */
+export function encodeKeyAnnouncement(encryptionPublicKey: Uint8Array, signingKey: Uint8Array): Uint8Array {
+    const signature = signEncryptionKey(encryptionPublicKey, signingKey);
+
+    const note = new Uint8Array(KEY_ANNOUNCEMENT_SIZE);
+    note.set(encryptionPublicKey, 0);
+    note.set(signature, X25519_PUBLIC_KEY_SIZE);
+    return note;
+}
+
+/**
+ * Creates a signed key rotation announcement note.
+ *
+ * @param encryptionPublicKey - The new X25519 public key (32 bytes)
+ * @param keyVersion - Rotation index of the new key (at least 1)
+ * @param previousKey - The X25519 public key being replaced (32 bytes)
+ * @param signingKey - The account's Ed25519 private key (32 bytes)
+ * @returns The 132-byte rotation announcement note
+ * @throws {SignatureError} If a key has the wrong length
+ */
+export function encodeKeyRotationAnnouncement(
+    encryptionPublicKey: Uint8Array,
+    keyVersion: number,
+    previousKey: Uint8Array,
+    signingKey: Uint8Array
+): Uint8Array {
+    if (!Number.isInteger(keyVersion) || keyVersion < 1 || keyVersion > 0xffffffff) {
+        throw new SignatureError(`Rotated key version must be between 1 and ${0xffffffff}, got ${keyVersion}`);
+    }
+    if (encryptionPublicKey.length !== X25519_PUBLIC_KEY_SIZE || previousKey.length !== X25519_PUBLIC_KEY_SIZE) {
+        throw new SignatureError(`Encryption public keys must be ${X25519_PUBLIC_KEY_SIZE} bytes`);
+    }
+    if (signingKey.length !== ED25519_PUBLIC_KEY_SIZE) {
+        throw new SignatureError(`Signing key must be ${ED25519_PUBLIC_KEY_SIZE} bytes, got ${signingKey.length}`);
+    }
+
+    const note = new Uint8Array(KEY_ROTATION_ANNOUNCEMENT_SIZE);
+    note.set(encryptionPublicKey, 0);
+    new DataView(note.buffer).setUint32(X25519_PUBLIC_KEY_SIZE, keyVersion, false);
+    note.set(previousKey, X25519_PUBLIC_KEY_SIZE + 4);
+    note.set(
+        ed25519.sign(signedMessage(KEY_ROTATION_DOMAIN, note.subarray(0, KEY_ROTATION_FIELDS_SIZE)), signingKey),
+        KEY_ROTATION_FIELDS_SIZE
+    );
+    return note;
+}
+
+/**
+ * Parse a key announcement from a transaction note.
+ *
+ * Accepts the signed format, rotation announcements and bare 32-byte keys;
+ * other notes (including chat envelopes) are not announcements. A rotation
+ * announcement reports its `keyVersion` and `previousKey`.
+ *
+ * @param note The transaction note field
+ * @param ed25519PublicKey The sender's Ed25519 public key (for verification)
+ * @returns DiscoveredKey if the note is an announcement, undefined otherwise
+ */
+export function parseKeyAnnouncement(
+    note: Uint8Array,
+    ed25519PublicKey?: Uint8Array
+): DiscoveredKey | undefined {
+    if (note.length === KEY_ROTATION_ANNOUNCEMENT_SIZE) {
+        return parseKeyRotationAnnouncement(note, ed25519PublicKey);
+    }
+    if (note.length !== X25519_PUBLIC_KEY_SIZE && note.length !== KEY_ANNOUNCEMENT_SIZE) {
+        return undefined;
+    }
+
+    const publicKey = note.slice(0, X25519_PUBLIC_KEY_SIZE);
+    let isVerified = false;
+
+    if (note.length === KEY_ANNOUNCEMENT_SIZE && ed25519PublicKey) {
+        const signature = note.slice(X25519_PUBLIC_KEY_SIZE);
+        try {
+            isVerified = verifyEncryptionKey(publicKey, ed25519PublicKey, signature);
+        } catch {
+            isVerified = false;
+        }
+    }
+
+    return { publicKey, isVerified };
+}
+
+/**
+ * Parses and verifies a rotation announcement
+ */
+function parseKeyRotationAnnouncement(note: Uint8Array, ed25519PublicKey?: Uint8Array): DiscoveredKey {
+    const fields = note.subarray(0, KEY_ROTATION_FIELDS_SIZE);
+    let isVerified = false;
+
+    if (ed25519PublicKey) {
+        try {
+            isVerified = ed25519.verify(
+                note.subarray(KEY_ROTATION_FIELDS_SIZE),
+                signedMessage(KEY_ROTATION_DOMAIN, fields),
+                ed25519PublicKey
+            );
+        } catch {
+            isVerified = false;
+        }
+    }
+
+    return {
+        publicKey: note.slice(0, X25519_PUBLIC_KEY_SIZE),
+        isVerified,
+        keyVersion: new DataView(note.buffer, note.byteOffset + X25519_PUBLIC_KEY_SIZE, 4).getUint32(0, false),
+        previousKey: note.slice(X25519_PUBLIC_KEY_SIZE + 4, KEY_ROTATION_FIELDS_SIZE),
+    };
+}
+
+/**
+ * Creates a signed key revocation note.
+ *
+ * @param encryptionPublicKey - The X25519 public key to revoke (32 bytes)
+ * @param signingKey - The account's Ed25519 private key (32 bytes)
+ * @param reason - Why the key is revoked (default: 'compromised')
+ * @returns The 97-byte revocation note
+ * @throws {SignatureError} If a key has the wrong length
+ */
+export function encodeKeyRevocation(
+    encryptionPublicKey: Uint8Array,
+    signingKey: Uint8Array,
+    reason: KeyRevocationReason = 'compromised'
+): Uint8Array {
+    if (encryptionPublicKey.length !== X25519_PUBLIC_KEY_SIZE) {
+        throw new SignatureError(
+            `Encryption public key must be ${X25519_PUBLIC_KEY_SIZE} bytes, got ${encryptionPublicKey.length}`
+        );
+    }
+    if (signingKey.length !== ED25519_PUBLIC_KEY_SIZE) {
+        throw new SignatureError(`Signing key must be ${ED25519_PUBLIC_KEY_SIZE} bytes, got ${signingKey.length}`);
+    }
+
+    const note = new Uint8Array(KEY_REVOCATION_SIZE);
+    note.set(encryptionPublicKey, 0);
+    note[X25519_PUBLIC_KEY_SIZE] = REVOCATION_REASONS.indexOf(reason);
+    note.set(
+        ed25519.sign(signedMessage(KEY_REVOCATION_DOMAIN, note.subarray(0, X25519_PUBLIC_KEY_SIZE + 1)), signingKey),
+        X25519_PUBLIC_KEY_SIZE + 1
+    );
+    return note;
+}
+
+/**
+ * Parse a key revocation from a transaction note.
+ *
+ * Unlike announcements, a revocation is never taken on trust: notes that
+ * do not verify against the sender's Ed25519 key are not revocations.
+ *
+ * @param note The transaction note field
+ * @param ed25519PublicKey The sender's Ed25519 public key
+ * @returns The revocation if the note is a verified revocation, undefined otherwise
+ */
+export function parseKeyRevocation(
+    note: Uint8Array,
+    ed25519PublicKey: Uint8Array | undefined
+): KeyRevocation | undefined {
+    if (note.length !== KEY_REVOCATION_SIZE || !ed25519PublicKey) return undefined;
+
+    const reason = REVOCATION_REASONS[note[X25519_PUBLIC_KEY_SIZE]];
+    if (!reason) return undefined;
+
+    try {
+        const fields = note.subarray(0, X25519_PUBLIC_KEY_SIZE + 1);
+        const signature = note.subarray(X25519_PUBLIC_KEY_SIZE + 1);
+        if (!ed25519.verify(signature, signedMessage(KEY_REVOCATION_DOMAIN, fields), ed25519PublicKey)) {
+            return undefined;
+        }
+    } catch {
+        return undefined;
+    }
+
+    return { publicKey: note.slice(0, X25519_PUBLIC_KEY_SIZE), reason };
+}
+
+/**
+ * Builds a domain-separated message to sign
+ */
+function signedMessage(domain: Uint8Array, fields: Uint8Array): Uint8Array {
+    const message = new Uint8Array(domain.length + fields.length);
+    message.set(domain, 0);
+    message.set(fields, domain.length);
+    return message;
+}
+
+/**
+ * Checks an envelope's sender key against the key known for the transaction sender.
+ *
+ * The envelope key is chosen by whoever built the note, so it only counts as
+ * the sender's key when it matches the key discovered or pinned for the
+ * sender's address.
+ *
+ * @param senderPublicKey The X25519 key carried in the envelope
+ * @param knownKey The key known for the transaction sender, if any
+ * @returns The message authenticity status
+ */
+export function senderKeyAuthenticity(
+    senderPublicKey: Uint8Array,
+    knownKey?: DiscoveredKey
+): MessageAuthenticity {
+    if (!knownKey) return 'unverified';
+    if (!uint8ArrayEquals(knownKey.publicKey, senderPublicKey)) return 'mismatch';
+    return knownKey.isVerified ? 'verified' : 'unverified';
+}
@@ -0,0 +1,44 @@
+/**
+ * AlgoChat Web - Attachment Encryption Tests
+ */
+
+import { describe, test, expect } from 'bun:test';
+import { encryptAttachment, decryptAttachment, attachmentHash, AttachmentError } from './attachment';
+
+const file = new TextEncoder().encode('%PDF-1.7 pretend this is a document');
+
+describe('encryptAttachment', () => {
+    test('round-trips with the key and hash', () => {
+        const { blob, key, hash } = encryptAttachment(file);
+
+        expect(blob.length).toBe(12 + file.length + 16);
+        expect(hash).toBe(attachmentHash(blob));
+        expect(decryptAttachment(blob, key, hash)).toEqual(file);
+        expect(decryptAttachment(blob, key, hash.toUpperCase())).toEqual(file);
+    });
+
+    test('uses a fresh key for every file', () => {
+        const first = encryptAttachment(file);
+        const second = encryptAttachment(file);
+
+        expect(first.key).not.toEqual(second.key);
+        expect(first.hash).not.toBe(second.hash);
+    });
+});
+
+describe('decryptAttachment', () => {
+    test('rejects a blob that does not match its hash', () => {
+        const { blob, key, hash } = encryptAttachment(file);
+        const tampered = new Uint8Array(blob);
+        tampered[20] ^= 1;
+
+        expect(() => decryptAttachment(tampered, key, hash)).toThrow(/hash/);
+    });
+
+    test('rejects the wrong key', () => {
+        const { blob, hash } = encryptAttachment(file);
+
+        expect(() => decryptAttachment(blob, new Uint8Array(32), hash)).toThrow(AttachmentError);
+        expect(() => decryptAttachment(blob, new Uint8Array(16), hash)).toThrow(/key length/);
+    });
+});
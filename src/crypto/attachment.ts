@@ -0,0 +1,89 @@
+/**
+ * AlgoChat Web - Attachment Encryption
+ *
+ * Files are too large for transaction notes, so each one is encrypted with
+ * its own random key and stored off-chain. The message carries the key and
+ * the SHA-256 hash of the encrypted blob:
+ *
+ *   [nonce (12)][ciphertext + 16-byte tag]
+ *
+ * The hash lets the receiver check the blob before decrypting it, whatever
+ * store it came from.
+ */
+
+import { chacha20poly1305 } from '@noble/ciphers/chacha';
+import { randomBytes } from '@noble/ciphers/webcrypto';
+import { sha256 } from '@noble/hashes/sha256';
+import { bytesToHex } from '@noble/hashes/utils';
+
+/** Size of an attachment key in bytes */
+export const ATTACHMENT_KEY_SIZE = 32;
+
+const NONCE_SIZE = 12;
+const TAG_SIZE = 16;
+
+/**
+ * Error thrown when an attachment blob fails verification or decryption
+ */
+export class AttachmentError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'AttachmentError';
+    }
+}
+
+/** An attachment encrypted for storage */
+export interface EncryptedAttachment {
+    /** The encrypted blob to store */
+    blob: Uint8Array;
+    /** The per-file key, sent inside the encrypted message */
+    key: Uint8Array;
+    /** SHA-256 of the blob (hex) */
+    hash: string;
+}
+
+/**
+ * Encrypts a file with a fresh random key
+ */
+export function encryptAttachment(data: Uint8Array): EncryptedAttachment {
+    const key = randomBytes(ATTACHMENT_KEY_SIZE);
+    const nonce = randomBytes(NONCE_SIZE);
+    const ciphertext = chacha20poly1305(key, nonce).encrypt(data);
+
+    const blob = new Uint8Array(NONCE_SIZE + ciphertext.length);
+    blob.set(nonce);
+    blob.set(ciphertext, NONCE_SIZE);
+
+    return { blob, key, hash: attachmentHash(blob) };
+}
+
+/**
+ * Verifies and decrypts an attachment blob
+ *
+ * @param hash - The SHA-256 the sender gave for the blob (hex)
+ * @throws {AttachmentError} If the blob does not match the hash or does not decrypt with the key
+ */
+export function decryptAttachment(blob: Uint8Array, key: Uint8Array, hash: string): Uint8Array {
+    if (attachmentHash(blob) !== hash.toLowerCase()) {
+        throw new AttachmentError('Attachment does not match its hash');
+    }
+    if (key.length !== ATTACHMENT_KEY_SIZE) {
+        throw new AttachmentError(`Invalid attachment key length: expected ${ATTACHMENT_KEY_SIZE} bytes, got ${key.length}`);
+    }
+    if (blob.length < NONCE_SIZE + TAG_SIZE) {
+        throw new AttachmentError(`Attachment too short: ${blob.length} bytes`);
+    }
+
+    try {
+        return chacha20poly1305(key, blob.subarray(0, NONCE_SIZE)).decrypt(blob.subarray(NONCE_SIZE));
+    } catch {
+        throw new AttachmentError('Attachment does not decrypt with its key');
+    }
+}
+
+/**
+ * Gets the content hash of a blob (hex SHA-256)
+ */
+export function attachmentHash(blob: Uint8Array): string {
+    return bytesToHex(sha256(blob));
+}
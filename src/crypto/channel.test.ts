@@ -0,0 +1,72 @@
+/**
+ * AlgoChat Web - Broadcast Channel Post Tests
+ */
+
+import { describe, test, expect } from 'bun:test';
+import {
+    generateChannelId,
+    generateChannelKey,
+    encryptChannelPost,
+    decryptChannelPost,
+    encodeChannelEnvelope,
+    decodeChannelEnvelope,
+    isChannelPost,
+    channelNotePrefix,
+    ChannelError,
+} from './channel';
+import { decodeNote, isChatMessage } from './envelope';
+import { CHANNEL_PROTOCOL, type ChannelKey } from '../models/types';
+
+const channelKey: ChannelKey = {
+    channelId: generateChannelId(),
+    epoch: 3,
+    key: generateChannelKey(),
+    owner: 'OWNER',
+    address: 'CHANNEL',
+};
+
+describe('channel posts', () => {
+    test('round-trips through a note', () => {
+        const encoded = encodeChannelEnvelope(encryptChannelPost('Release 2.0 is out', channelKey));
+
+        expect(isChannelPost(encoded)).toBe(true);
+        expect(isChatMessage(encoded)).toBe(false);
+        expect(encoded.length).toBe(CHANNEL_PROTOCOL.HEADER_SIZE + 18 + CHANNEL_PROTOCOL.TAG_SIZE);
+
+        const envelope = decodeChannelEnvelope(encoded);
+        expect(envelope.epoch).toBe(3);
+        expect(decryptChannelPost(envelope, channelKey)).toBe('Release 2.0 is out');
+    });
+
+    test('starts with the channel note prefix', () => {
+        const encoded = encodeChannelEnvelope(encryptChannelPost('hi', channelKey));
+        const prefix = channelNotePrefix(channelKey.channelId);
+
+        expect(encoded.subarray(0, prefix.length)).toEqual(prefix);
+        expect(channelNotePrefix(generateChannelId())).not.toEqual(prefix);
+    });
+
+    test('needs the key for its channel and epoch', () => {
+        const envelope = encryptChannelPost('members only', channelKey);
+
+        expect(() => decryptChannelPost(envelope, { ...channelKey, epoch: 4 })).toThrow(ChannelError);
+        expect(() => decryptChannelPost(envelope, { ...channelKey, key: generateChannelKey() })).toThrow(/does not decrypt/);
+        expect(() => decryptChannelPost({ ...envelope, epoch: 4 }, { ...channelKey, epoch: 4 })).toThrow(/does not decrypt/);
+    });
+
+    test('pads and limits the payload', () => {
+        const padded = encryptChannelPost('short', channelKey, 'bucket');
+        expect(padded.ciphertext.length).toBe(64 + CHANNEL_PROTOCOL.TAG_SIZE);
+        expect(decryptChannelPost(padded, channelKey)).toBe('short');
+
+        const limit = 'x'.repeat(CHANNEL_PROTOCOL.MAX_PAYLOAD_SIZE);
+        expect(encodeChannelEnvelope(encryptChannelPost(limit, channelKey)).length).toBe(1024);
+        expect(() => encryptChannelPost(limit + 'x', channelKey)).toThrow(/too large/);
+    });
+
+    test('decodeNote reads channel posts', () => {
+        const encoded = encodeChannelEnvelope(encryptChannelPost('note', channelKey));
+        expect(decodeNote(encoded).kind).toBe('channel');
+        expect(() => decodeChannelEnvelope(encoded.subarray(0, 40))).toThrow(/too short/);
+    });
+});
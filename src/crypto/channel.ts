@@ -0,0 +1,169 @@
+/**
+ * AlgoChat Web - Broadcast Channel Posts
+ *
+ * A channel post is encrypted once with the channel's symmetric key, which
+ * the owner sends to every subscriber in 1:1 messages.
+ *
+ * Wire format (34-byte header):
+ *   [0]:      version (0x01)
+ *   [1]:      protocolId (0x03)
+ *   [2..17]:  channelId (16 bytes)
+ *   [18..21]: key epoch (4 bytes, big-endian uint32)
+ *   [22..33]: nonce (12 bytes)
+ *   [34..]:   ciphertext + 16-byte tag
+ *
+ * The bytes before the nonce are authenticated as associated data and also
+ * serve as the note prefix for finding a channel's posts.
+ */
+
+import { chacha20poly1305 } from '@noble/ciphers/chacha';
+import { randomBytes } from '@noble/ciphers/webcrypto';
+import { bytesToHex, hexToBytes } from '@noble/hashes/utils';
+import { CHANNEL_PROTOCOL, type ChannelEnvelope, type ChannelKey, type PaddingMode } from '../models/types';
+import { padPayload, unpadPayload } from './padding';
+
+/** Size of a channel key in bytes */
+export const CHANNEL_KEY_SIZE = 32;
+
+const CHANNEL_ID_SIZE = 16;
+const PREFIX_SIZE = 2 + CHANNEL_ID_SIZE;
+const NONCE_SIZE = 12;
+
+/**
+ * Error thrown when a channel post cannot be encoded, decoded or decrypted
+ */
+export class ChannelError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'ChannelError';
+    }
+}
+
+/**
+ * Generates a random channel id (16 bytes, hex)
+ */
+export function generateChannelId(): string {
+    return bytesToHex(randomBytes(CHANNEL_ID_SIZE));
+}
+
+/**
+ * Generates a random channel key
+ */
+export function generateChannelKey(): Uint8Array {
+    return randomBytes(CHANNEL_KEY_SIZE);
+}
+
+/**
+ * Encrypts a post with a channel key
+ *
+ * @param padding - Padding applied before encryption (default: none)
+ * @throws {ChannelError} If the post is too large for one note
+ */
+export function encryptChannelPost(text: string, channelKey: ChannelKey, padding: PaddingMode = 'none'): ChannelEnvelope {
+    const messageBytes = new TextEncoder().encode(text);
+    if (messageBytes.length > CHANNEL_PROTOCOL.MAX_PAYLOAD_SIZE) {
+        throw new ChannelError(`Post too large: ${messageBytes.length} bytes, max ${CHANNEL_PROTOCOL.MAX_PAYLOAD_SIZE}`);
+    }
+
+    const envelope: ChannelEnvelope = {
+        version: CHANNEL_PROTOCOL.VERSION,
+        protocolId: CHANNEL_PROTOCOL.PROTOCOL_ID,
+        channelId: channelIdBytes(channelKey.channelId),
+        epoch: channelKey.epoch,
+        nonce: randomBytes(NONCE_SIZE),
+        ciphertext: new Uint8Array(0),
+    };
+    const plaintext = padPayload(messageBytes, padding, CHANNEL_PROTOCOL.MAX_PAYLOAD_SIZE);
+    envelope.ciphertext = chacha20poly1305(channelKey.key, envelope.nonce, associatedData(envelope)).encrypt(plaintext);
+    return envelope;
+}
+
+/**
+ * Decrypts a post with the key for its channel and epoch
+ *
+ * @throws {ChannelError} If the key is for another channel or epoch, or the post does not decrypt
+ */
+export function decryptChannelPost(envelope: ChannelEnvelope, channelKey: ChannelKey): string {
+    if (bytesToHex(envelope.channelId) !== channelKey.channelId || envelope.epoch !== channelKey.epoch) {
+        throw new ChannelError(`Key is for channel ${channelKey.channelId} epoch ${channelKey.epoch}`);
+    }
+
+    let plaintext: Uint8Array;
+    try {
+        plaintext = chacha20poly1305(channelKey.key, envelope.nonce, associatedData(envelope)).decrypt(envelope.ciphertext);
+    } catch {
+        throw new ChannelError('Post does not decrypt with the channel key');
+    }
+    return new TextDecoder().decode(unpadPayload(plaintext));
+}
+
+/**
+ * Encodes a channel post for a transaction note
+ */
+export function encodeChannelEnvelope(envelope: ChannelEnvelope): Uint8Array {
+    const header = associatedData(envelope);
+    const result = new Uint8Array(header.length + NONCE_SIZE + envelope.ciphertext.length);
+    result.set(header);
+    result.set(envelope.nonce, header.length);
+    result.set(envelope.ciphertext, header.length + NONCE_SIZE);
+    return result;
+}
+
+/**
+ * Decodes a channel post from a transaction note
+ *
+ * @throws {ChannelError} If the note is not a channel post
+ */
+export function decodeChannelEnvelope(data: Uint8Array): ChannelEnvelope {
+    if (!isChannelPost(data)) {
+        throw new ChannelError('Not a channel post');
+    }
+    if (data.length < CHANNEL_PROTOCOL.HEADER_SIZE + CHANNEL_PROTOCOL.TAG_SIZE) {
+        throw new ChannelError(`Data too short: ${data.length} bytes`);
+    }
+
+    const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+    return {
+        version: data[0],
+        protocolId: data[1],
+        channelId: data.slice(2, PREFIX_SIZE),
+        epoch: view.getUint32(PREFIX_SIZE),
+        nonce: data.slice(PREFIX_SIZE + 4, CHANNEL_PROTOCOL.HEADER_SIZE),
+        ciphertext: data.slice(CHANNEL_PROTOCOL.HEADER_SIZE),
+    };
+}
+
+/**
+ * Checks if data is a channel post
+ */
+export function isChannelPost(data: Uint8Array): boolean {
+    return data.length >= 2 && data[0] === CHANNEL_PROTOCOL.VERSION && data[1] === CHANNEL_PROTOCOL.PROTOCOL_ID;
+}
+
+/**
+ * Gets the note prefix shared by every post of a channel, for indexer note-prefix searches
+ */
+export function channelNotePrefix(channelId: string): Uint8Array {
+    const prefix = new Uint8Array(PREFIX_SIZE);
+    prefix[0] = CHANNEL_PROTOCOL.VERSION;
+    prefix[1] = CHANNEL_PROTOCOL.PROTOCOL_ID;
+    prefix.set(channelIdBytes(channelId), 2);
+    return prefix;
+}
+
+/** The header before the nonce */
+function associatedData(envelope: ChannelEnvelope): Uint8Array {
+    const header = new Uint8Array(PREFIX_SIZE + 4);
+    header[0] = envelope.version;
+    header[1] = envelope.protocolId;
+    header.set(envelope.channelId, 2);
+    new DataView(header.buffer).setUint32(PREFIX_SIZE, envelope.epoch);
+    return header;
+}
+
+function channelIdBytes(channelId: string): Uint8Array {
+    if (!/^[0-9a-f]{32}$/.test(channelId)) {
+        throw new ChannelError(`Invalid channel id: ${channelId}`);
+    }
+    return hexToBytes(channelId);
+}
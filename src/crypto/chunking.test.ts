@@ -0,0 +1,108 @@
+/**
+ * AlgoChat Web - Chunked Message Tests
+ */
+
+import { describe, test, expect } from 'bun:test';
+import { generateEphemeralKeyPair } from './keys';
+import { decryptMessage, EncryptionError } from './encryption';
+import { encodeEnvelope, decodeEnvelope, readChunkHeader } from './envelope';
+import { encryptChunkedMessage, reassembleChunks, chunkCapacity, ChunkError } from './chunking';
+import { PROTOCOL_V2, type MessageChunk } from '../models/types';
+
+const sender = generateEphemeralKeyPair();
+const recipient = generateEphemeralKeyPair();
+
+const decryptChunks = (text: string) =>
+    encryptChunkedMessage(text, sender.publicKey, recipient.publicKey).map(
+        envelope => decryptMessage(decodeEnvelope(encodeEnvelope(envelope)), recipient.privateKey, recipient.publicKey)!.chunk!
+    );
+
+describe('encryptChunkedMessage', () => {
+    test('splits a long message into notes that fit', () => {
+        const text = 'x'.repeat(chunkCapacity() * 2 + 1);
+        const envelopes = encryptChunkedMessage(text, sender.publicKey, recipient.publicKey);
+
+        expect(envelopes.length).toBe(3);
+        for (const envelope of envelopes) {
+            expect(envelope.version).toBe(PROTOCOL_V2.VERSION);
+            expect(encodeEnvelope(envelope).length).toBeLessThanOrEqual(PROTOCOL_V2.MAX_NOTE_SIZE);
+        }
+
+        const headers = envelopes.map(readChunkHeader);
+        expect(headers.map(h => h?.index)).toEqual([0, 1, 2]);
+        expect(new Set(headers.map(h => h?.messageId)).size).toBe(1);
+        expect(headers[0]?.total).toBe(3);
+    });
+
+    test('round-trips through reassembly, including multi-byte characters', () => {
+        const text = '🦉 corvid '.repeat(300);
+        const chunks = decryptChunks(text);
+
+        expect(chunks.length).toBeGreaterThan(1);
+        expect(new TextDecoder().decode(reassembleChunks(chunks))).toBe(text);
+    });
+
+    test('sender can decrypt their own chunks', () => {
+        const [envelope] = encryptChunkedMessage('short', sender.publicKey, recipient.publicKey);
+        const content = decryptMessage(envelope, sender.privateKey, sender.publicKey);
+
+        expect(content?.text).toBe('');
+        expect(new TextDecoder().decode(content?.chunk?.data)).toBe('short');
+    });
+
+    test('rejects messages needing more than 16 chunks', () => {
+        const text = 'x'.repeat(chunkCapacity() * PROTOCOL_V2.MAX_CHUNKS + 1);
+        expect(() => encryptChunkedMessage(text, sender.publicKey, recipient.publicKey)).toThrow(EncryptionError);
+    });
+
+    test('compresses the whole message before splitting', () => {
+        const text = 'Status report: all systems nominal. '.repeat(150);
+        const options = { compression: 'deflate' } as const;
+        const envelopes = encryptChunkedMessage(text, sender.publicKey, recipient.publicKey, options);
+        const plain = encryptChunkedMessage(text, sender.publicKey, recipient.publicKey);
+
+        expect(envelopes.length).toBeLessThan(plain.length);
+        const chunks = envelopes.map(envelope => decryptMessage(envelope, recipient.privateKey, recipient.publicKey)!.chunk!);
+        expect(chunks.every(chunk => chunk.compressed)).toBe(true);
+        expect(new TextDecoder().decode(reassembleChunks(chunks))).toBe(text);
+    });
+
+    test('leaves room for padding', () => {
+        expect(chunkCapacity({ padding: 'bucket' })).toBe(chunkCapacity() - 3);
+    });
+});
+
+describe('reassembleChunks', () => {
+    const chunk = (index: number, total = 3, messageId = '00112233445566ff'): MessageChunk => ({
+        messageId,
+        index,
+        total,
+        data: new Uint8Array([index]),
+    });
+
+    const reason = (chunks: MessageChunk[]) => {
+        try {
+            reassembleChunks(chunks);
+        } catch (error) {
+            return (error as ChunkError).reason;
+        }
+        return undefined;
+    };
+
+    test('joins chunks in index order', () => {
+        expect(reassembleChunks([chunk(0), chunk(1), chunk(2)])).toEqual(new Uint8Array([0, 1, 2]));
+    });
+
+    test('reports missing chunks as incomplete', () => {
+        expect(reason([chunk(0), chunk(2)])).toBe('incomplete');
+        expect(reason([])).toBe('incomplete');
+    });
+
+    test('reports reordered, repeated or inconsistent chunks as corrupt', () => {
+        expect(reason([chunk(1), chunk(0), chunk(2)])).toBe('corrupt');
+        expect(reason([chunk(0), chunk(0), chunk(1)])).toBe('corrupt');
+        expect(reason([chunk(0), chunk(1, 4), chunk(2)])).toBe('corrupt');
+        expect(reason([chunk(0), { ...chunk(1), compressed: true }, chunk(2)])).toBe('corrupt');
+        expect(reason([0, 1, 2].map(index => ({ ...chunk(index), compressed: true })))).toBe('corrupt');
+    });
+});
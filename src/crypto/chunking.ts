@@ -0,0 +1,215 @@
+/**
+ * AlgoChat Web - Chunked Messages
+ *
+ * A message too large for one note is split into up to 16 v2 envelopes,
+ * sent as one atomic transaction group. Each envelope carries a critical
+ * chunk extension with the message id, its index and the total, so readers
+ * without chunk support reject the parts instead of showing partial text.
+ *
+ * A compressed message is compressed as a whole and then split; every chunk
+ * is flagged, and the joined payload is decompressed.
+ */
+
+import { randomBytes } from '@noble/ciphers/webcrypto';
+import { PROTOCOL_V2, type ChatEnvelope, type EncryptionOptions, type Message, type MessageChunk } from '../models/types';
+import { decodePayload, payloadToContent } from '../models/payload';
+import { ChatError } from '../errors/ChatError';
+import { encryptPayload, messageCapacity, compressForEnvelope, EncryptionError } from './encryption';
+import { encodeChunkExtension } from './envelope';
+import { inflate } from './compression';
+
+/** Size of a chunk message id in bytes */
+const MESSAGE_ID_SIZE = 8;
+
+/**
+ * Error thrown when a set of chunks cannot be reassembled
+ */
+export class ChunkError extends Error {
+    constructor(
+        message: string,
+        public readonly reason: 'incomplete' | 'corrupt'
+    ) {
+        super(message);
+        this.name = 'ChunkError';
+    }
+}
+
+/**
+ * Gets the payload size each chunk can carry with these options
+ */
+export function chunkCapacity(options?: EncryptionOptions): number {
+    const placeholder = encodeChunkExtension({ messageId: '0'.repeat(MESSAGE_ID_SIZE * 2), index: 0, total: 1 });
+    return messageCapacity({ ...options, envelopeVersion: 2 }, [placeholder]);
+}
+
+/**
+ * Splits a message into chunk envelopes for one transaction group
+ *
+ * Always produces v2 envelopes, whatever `options.envelopeVersion` says.
+ *
+ * @returns The envelopes, in index order
+ * @throws {EncryptionError} If the message needs more than 16 chunks
+ */
+export function encryptChunkedMessage(
+    plaintext: string,
+    senderPublicKey: Uint8Array,
+    recipientPublicKey: Uint8Array,
+    options?: EncryptionOptions
+): ChatEnvelope[] {
+    const chunkOptions: EncryptionOptions = { ...options, envelopeVersion: 2 };
+    const plainBytes = new TextEncoder().encode(plaintext);
+    const compressedBytes = compressForEnvelope(plainBytes, chunkOptions);
+    const messageBytes = compressedBytes ?? plainBytes;
+
+    const capacity = chunkCapacity(options);
+    const total = Math.max(1, Math.ceil(messageBytes.length / capacity));
+
+    if (total > PROTOCOL_V2.MAX_CHUNKS) {
+        throw new EncryptionError(
+            `Message too large: ${messageBytes.length} bytes, max ${capacity * PROTOCOL_V2.MAX_CHUNKS} in ${PROTOCOL_V2.MAX_CHUNKS} chunks`
+        );
+    }
+
+    const messageId = Array.from(randomBytes(MESSAGE_ID_SIZE), b => b.toString(16).padStart(2, '0')).join('');
+
+    return Array.from({ length: total }, (_, index) =>
+        encryptPayload(
+            messageBytes.subarray(index * capacity, (index + 1) * capacity),
+            senderPublicKey,
+            recipientPublicKey,
+            chunkOptions,
+            [encodeChunkExtension({ messageId, index, total })],
+            compressedBytes !== undefined
+        )
+    );
+}
+
+/**
+ * Joins the chunks of one message
+ *
+ * @param chunks - All chunks seen for a message id, in transaction order
+ * @returns The message payload, decompressed if the chunks are flagged compressed
+ * @throws {ChunkError} With reason 'incomplete' if chunks are missing, or
+ *         'corrupt' if they disagree, repeat, are out of order, or do not decompress
+ */
+export function reassembleChunks(chunks: MessageChunk[]): Uint8Array {
+    if (chunks.length === 0) {
+        throw new ChunkError('No chunks to reassemble', 'incomplete');
+    }
+
+    const { messageId, total } = chunks[0];
+    const compressed = chunks[0].compressed ?? false;
+
+    let previous = -1;
+    for (const chunk of chunks) {
+        if (chunk.messageId !== messageId || chunk.total !== total) {
+            throw new ChunkError(`Chunks of message ${messageId} disagree on the total`, 'corrupt');
+        }
+        if ((chunk.compressed ?? false) !== compressed) {
+            throw new ChunkError(`Chunks of message ${messageId} disagree on compression`, 'corrupt');
+        }
+        if (chunk.index <= previous) {
+            throw new ChunkError(`Chunk ${chunk.index} of message ${messageId} is repeated or out of order`, 'corrupt');
+        }
+        previous = chunk.index;
+    }
+
+    if (chunks.length < total) {
+        throw new ChunkError(`Message ${messageId} has ${chunks.length} of ${total} chunks`, 'incomplete');
+    }
+
+    const data = new Uint8Array(chunks.reduce((sum, chunk) => sum + chunk.data.length, 0));
+    let offset = 0;
+    for (const chunk of chunks) {
+        data.set(chunk.data, offset);
+        offset += chunk.data.length;
+    }
+
+    if (!compressed) return data;
+    try {
+        return inflate(data);
+    } catch (error) {
+        const reason = error instanceof Error ? error.message : String(error);
+        throw new ChunkError(`Message ${messageId} does not decompress: ${reason}`, 'corrupt');
+    }
+}
+
+/** A decoded message, or one chunk of a chunked message */
+export interface ChunkedMessagePart {
+    message: Message;
+    /** Set for one chunk of a message sent as a transaction group */
+    chunk?: MessageChunk;
+}
+
+/**
+ * Replaces the chunks of each message with the reassembled message
+ *
+ * Chunks are joined in transaction order (round, then intra-round offset).
+ * A set that is incomplete, spans rounds, or does not join up becomes one
+ * message with an `error` and no content.
+ *
+ * @param decoded - Decoded messages and chunks, in transaction order
+ */
+export function assembleChunks<T extends ChunkedMessagePart>(decoded: T[]): T[] {
+    const groups = new Map<string, T[]>();
+    const keys = new Map<T, string>();
+
+    // Keep each message where its first chunk was
+    const ordered = decoded.filter(item => {
+        if (!item.chunk) return true;
+
+        const key = `${item.message.sender}:${item.chunk.messageId}`;
+        const group = groups.get(key);
+        if (group) {
+            group.push(item);
+            return false;
+        }
+        groups.set(key, [item]);
+        keys.set(item, key);
+        return true;
+    });
+
+    return ordered.map(item => (item.chunk ? joinChunks(groups.get(keys.get(item)!)!) : item));
+}
+
+/**
+ * Joins the chunks of one message, or marks it with the reason it cannot be read
+ */
+function joinChunks<T extends ChunkedMessagePart>(parts: T[]): T {
+    const [first] = parts;
+    const message: Message = { ...first.message, content: '' };
+
+    const authenticities = parts.map(part => part.message.authenticity);
+    if (authenticities.includes('mismatch')) {
+        message.authenticity = 'mismatch';
+    } else if (authenticities.includes('unverified')) {
+        message.authenticity = 'unverified';
+    }
+
+    try {
+        if (parts.some(part => part.message.confirmedRound !== first.message.confirmedRound)) {
+            throw new ChunkError('chunks span several rounds', 'corrupt');
+        }
+
+        const data = reassembleChunks(parts.map(part => part.chunk!));
+        const content = payloadToContent(decodePayload(new TextDecoder('utf-8', { fatal: true }).decode(data)));
+
+        message.content = content.text;
+        message.payload = content.payload;
+        message.replyContext = content.replyToId
+            ? { messageId: content.replyToId, preview: content.replyToPreview || '' }
+            : undefined;
+    } catch (error) {
+        let chatError: ChatError;
+        if (!(error instanceof ChunkError)) {
+            chatError = ChatError.invalidEnvelope('chunked message is not valid UTF-8');
+        } else if (error.reason === 'incomplete') {
+            chatError = ChatError.messageIncomplete(first.chunk!.messageId, error.message);
+        } else {
+            chatError = ChatError.invalidEnvelope(error.message);
+        }
+        message.error = { code: chatError.code, message: chatError.message };
+    }
+
+    return { ...first, message, chunk: undefined };
+}
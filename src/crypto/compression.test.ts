@@ -0,0 +1,61 @@
+/**
+ * AlgoChat Web - Payload Compression Tests
+ */
+
+import { describe, test, expect } from 'bun:test';
+import { deflateRawSync, inflateRawSync } from 'node:zlib';
+import { deflate, inflate, compressPayload, CompressionError, MAX_DECOMPRESSED_SIZE } from './compression';
+
+const encoder = new TextEncoder();
+const chatText = encoder.encode('Are we still on for lunch tomorrow? Lunch tomorrow works for me, see you at noon. '.repeat(4));
+
+describe('deflate', () => {
+    test('round-trips text, binary and empty input', () => {
+        const random = crypto.getRandomValues(new Uint8Array(2000));
+        for (const data of [chatText, random, new Uint8Array(0), encoder.encode('🦉'.repeat(500))]) {
+            expect(inflate(deflate(data))).toEqual(data);
+        }
+    });
+
+    test('writes standard raw DEFLATE', () => {
+        expect(new Uint8Array(inflateRawSync(deflate(chatText)))).toEqual(chatText);
+    });
+
+    test('shrinks repetitive chat text', () => {
+        expect(deflate(chatText).length).toBeLessThan(chatText.length / 2);
+    });
+});
+
+describe('inflate', () => {
+    test('reads stored, fixed and dynamic blocks written by zlib', () => {
+        for (const level of [0, 1, 9]) {
+            expect(inflate(new Uint8Array(deflateRawSync(chatText, { level })))).toEqual(chatText);
+        }
+    });
+
+    test('stops at the size limit', () => {
+        const bomb = new Uint8Array(deflateRawSync(new Uint8Array(10 * 1024 * 1024)));
+        expect(bomb.length).toBeLessThan(16 * 1024);
+
+        expect(() => inflate(bomb)).toThrow(CompressionError);
+        expect(() => inflate(deflate(chatText), chatText.length - 1)).toThrow(/exceeds/);
+        expect(inflate(deflate(new Uint8Array(MAX_DECOMPRESSED_SIZE))).length).toBe(MAX_DECOMPRESSED_SIZE);
+    });
+
+    test('rejects malformed data', () => {
+        const compressed = deflate(chatText);
+        expect(() => inflate(compressed.subarray(0, compressed.length - 4))).toThrow(/truncated/);
+        expect(() => inflate(new Uint8Array(0))).toThrow(/truncated/);
+        expect(() => inflate(new Uint8Array([0x07]))).toThrow(/block type/);
+        // Fixed block whose first match reaches back before the output
+        expect(() => inflate(new Uint8Array([0x03, 0x02]))).toThrow(CompressionError);
+    });
+});
+
+describe('compressPayload', () => {
+    test('compresses only when the result is smaller', () => {
+        expect(compressPayload(chatText)!.length).toBeLessThan(chatText.length);
+        expect(compressPayload(encoder.encode('ok'))).toBeUndefined();
+        expect(compressPayload(new Uint8Array(0))).toBeUndefined();
+    });
+});
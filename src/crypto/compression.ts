@@ -0,0 +1,79 @@
+/**
+ * AlgoChat Web - Payload Compression
+ *
+ * Raw DEFLATE (RFC 1951) via fflate, so any zlib can read what we write and
+ * we can read what any zlib writes.
+ *
+ * Decompression stops at a size limit, so a note of a few hundred bytes
+ * cannot expand into a decompression bomb.
+ */
+
+import { deflateSync, inflateSync } from 'fflate';
+
+/** Largest payload, in bytes, a compressed message may expand to */
+export const MAX_DECOMPRESSED_SIZE = 64 * 1024;
+
+/** fflate's error code for input that ends too early */
+const UNEXPECTED_EOF = 0;
+
+/**
+ * Error thrown when compressed data is malformed or expands past the limit
+ */
+export class CompressionError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'CompressionError';
+    }
+}
+
+/**
+ * Compresses data as raw DEFLATE
+ */
+export function deflate(data: Uint8Array): Uint8Array {
+    return deflateSync(data, { level: 9 });
+}
+
+/**
+ * Compresses a payload when that makes it smaller
+ *
+ * @returns The compressed payload, or undefined if it would not be smaller
+ */
+export function compressPayload(payload: Uint8Array): Uint8Array | undefined {
+    if (payload.length === 0) return undefined;
+    const compressed = deflate(payload);
+    return compressed.length < payload.length ? compressed : undefined;
+}
+
+/**
+ * Decompresses raw DEFLATE data
+ *
+ * @param maxSize - Largest output accepted (default: MAX_DECOMPRESSED_SIZE)
+ * @throws {CompressionError} If the data is malformed or expands past `maxSize`
+ */
+export function inflate(data: Uint8Array, maxSize: number = MAX_DECOMPRESSED_SIZE): Uint8Array {
+    if (data.length === 0) {
+        throw new CompressionError('Compressed data is truncated');
+    }
+
+    // With a fixed output buffer fflate never grows it; one spare byte
+    // tells a payload of exactly maxSize from a longer one
+    const out = new Uint8Array(maxSize + 1);
+
+    let output: Uint8Array;
+    try {
+        output = inflateSync(data, { out });
+    } catch (error) {
+        if (error instanceof RangeError) {
+            throw new CompressionError(`Decompressed payload exceeds ${maxSize} bytes`);
+        }
+        if ((error as { code?: number }).code === UNEXPECTED_EOF) {
+            throw new CompressionError('Compressed data is truncated');
+        }
+        throw new CompressionError(`Invalid compressed data: ${(error as Error).message}`);
+    }
+
+    if (output.length > maxSize) {
+        throw new CompressionError(`Decompressed payload exceeds ${maxSize} bytes`);
+    }
+    return output.slice();
+}
@@ -3,9 +3,11 @@
  */
 
 import { describe, test, expect } from 'bun:test';
-import { deriveEncryptionKeys, generateEphemeralKeyPair, uint8ArrayEquals } from './keys';
-import { encryptMessage, decryptMessage } from './encryption';
-import { encodeEnvelope, decodeEnvelope, isChatMessage } from './envelope';
+import { deriveEncryptionKeys, deriveRotatedEncryptionKeys, generateEncryptionKeys, generateEphemeralKeyPair, uint8ArrayEquals } from './keys';
+import { encryptMessage, encryptReply, decryptMessage, encryptPayload, messageCapacity, EncryptionError } from './encryption';
+import { encodeEnvelope, decodeEnvelope, isChatMessage, isSealedEnvelope, maxPayloadSize } from './envelope';
+import { deflate } from './compression';
+import { ENVELOPE_FLAGS } from '../models/types';
 
 describe('Key Derivation', () => {
     test('derives consistent keys from same seed', () => {
@@ -35,6 +37,24 @@ describe('Key Derivation', () => {
         expect(keys.publicKey.length).toBe(32);
         expect(keys.privateKey.length).toBe(32);
     });
+
+    test('derives independent rotated keys, version 0 being the original', () => {
+        const seed = new Uint8Array(32).fill(42);
+
+        expect(deriveRotatedEncryptionKeys(seed, 0)).toEqual(deriveEncryptionKeys(seed));
+        expect(deriveRotatedEncryptionKeys(seed, 1)).toEqual(deriveRotatedEncryptionKeys(seed, 1));
+        expect(deriveRotatedEncryptionKeys(seed, 1).publicKey).not.toEqual(deriveEncryptionKeys(seed).publicKey);
+        expect(deriveRotatedEncryptionKeys(seed, 2).publicKey).not.toEqual(deriveRotatedEncryptionKeys(seed, 1).publicKey);
+        expect(() => deriveRotatedEncryptionKeys(seed, -1)).toThrow(/Key version/);
+        expect(() => deriveRotatedEncryptionKeys(seed, 1.5)).toThrow(/Key version/);
+    });
+
+    test('generates random encryption keys', () => {
+        const keys = generateEncryptionKeys();
+
+        expect(keys.publicKey.length).toBe(32);
+        expect(generateEncryptionKeys().publicKey).not.toEqual(keys.publicKey);
+    });
 });
 
 describe('Ephemeral Keys', () => {
@@ -73,10 +93,11 @@ describe('Envelope Encoding', () => {
     test('isChatMessage returns true for valid messages', () => {
         const data = new Uint8Array([0x01, 0x01, ...new Array(140).fill(0)]);
         expect(isChatMessage(data)).toBe(true);
+        expect(isChatMessage(new Uint8Array([0x02, 0x01]))).toBe(true);
     });
 
     test('isChatMessage returns false for invalid messages', () => {
-        expect(isChatMessage(new Uint8Array([0x02, 0x01]))).toBe(false);
+        expect(isChatMessage(new Uint8Array([0x03, 0x01]))).toBe(false);
         expect(isChatMessage(new Uint8Array([0x01, 0x02]))).toBe(false);
         expect(isChatMessage(new Uint8Array([0x01]))).toBe(false);
         expect(isChatMessage(new Uint8Array([]))).toBe(false);
@@ -373,3 +394,165 @@ describe('PSK Encryption', () => {
         expect(decrypted?.text).toBe(original);
     });
 });
+
+describe('Padded Encryption', () => {
+    const sender = generateEphemeralKeyPair();
+    const recipient = generateEphemeralKeyPair();
+
+    test('bucket padding hides the difference between short messages', () => {
+        const short = encryptMessage('hi', sender.publicKey, recipient.publicKey, { padding: 'bucket' });
+        const longer = encryptMessage('a somewhat longer message', sender.publicKey, recipient.publicKey, {
+            padding: 'bucket',
+        });
+
+        expect(short.ciphertext.length).toBe(longer.ciphertext.length);
+    });
+
+    test('padded messages decrypt for recipient and sender', () => {
+        for (const padding of ['bucket', 'random'] as const) {
+            const envelope = encryptMessage('Hello, padded!', sender.publicKey, recipient.publicKey, { padding });
+
+            expect(decryptMessage(envelope, recipient.privateKey, recipient.publicKey)?.text).toBe('Hello, padded!');
+            expect(decryptMessage(envelope, sender.privateKey, sender.publicKey)?.text).toBe('Hello, padded!');
+        }
+    });
+
+    test('padding applies to reply payloads', () => {
+        const envelope = encryptReply('Reply', 'tx-1', 'Original', sender.publicKey, recipient.publicKey, {
+            padding: 'bucket',
+        });
+
+        const decrypted = decryptMessage(envelope, recipient.privateKey, recipient.publicKey);
+        expect(decrypted?.text).toBe('Reply');
+        expect(decrypted?.replyToId).toBe('tx-1');
+    });
+
+    test('unpadded messages still decrypt', () => {
+        const envelope = encryptMessage('legacy', sender.publicKey, recipient.publicKey);
+
+        expect(envelope.ciphertext.length).toBe(6 + 16);
+        expect(decryptMessage(envelope, recipient.privateKey, recipient.publicKey)?.text).toBe('legacy');
+    });
+});
+
+describe('Compressed Encryption', () => {
+    const sender = generateEphemeralKeyPair();
+    const recipient = generateEphemeralKeyPair();
+    const text = 'Meeting moved to 3pm, meeting room B. '.repeat(20);
+
+    test('compresses when it helps and decrypts for recipient and sender', () => {
+        const envelope = encryptMessage(text, sender.publicKey, recipient.publicKey, {
+            envelopeVersion: 2,
+            compression: 'deflate',
+        });
+
+        expect(envelope.flags! & ENVELOPE_FLAGS.DEFLATE).toBe(ENVELOPE_FLAGS.DEFLATE);
+        expect(envelope.ciphertext.length).toBeLessThan(text.length / 2);
+
+        const decoded = decodeEnvelope(encodeEnvelope(envelope));
+        expect(decryptMessage(decoded, recipient.privateKey, recipient.publicKey)?.text).toBe(text);
+        expect(decryptMessage(decoded, sender.privateKey, sender.publicKey)?.text).toBe(text);
+    });
+
+    test('leaves short or incompressible payloads and v1 envelopes alone', () => {
+        const short = encryptMessage('hi', sender.publicKey, recipient.publicKey, { envelopeVersion: 2, compression: 'deflate' });
+        expect(short.flags! & ENVELOPE_FLAGS.DEFLATE).toBe(0);
+
+        const legacy = encryptMessage(text, sender.publicKey, recipient.publicKey, { compression: 'deflate' });
+        expect(legacy.version).toBe(1);
+        expect(decryptMessage(legacy, recipient.privateKey, recipient.publicKey)?.text).toBe(text);
+    });
+
+    test('checks the size limit on the compressed payload', () => {
+        const large = 'All work and no play. '.repeat(200);
+        expect(() => encryptMessage(large, sender.publicKey, recipient.publicKey, { envelopeVersion: 2 })).toThrow(/too large/);
+
+        const envelope = encryptReply(large, 'tx-1', 'Original', sender.publicKey, recipient.publicKey, {
+            envelopeVersion: 2,
+            compression: 'deflate',
+            padding: 'bucket',
+        });
+        const decrypted = decryptMessage(envelope, recipient.privateKey, recipient.publicKey);
+        expect(decrypted?.text).toBe(large);
+        expect(decrypted?.replyToId).toBe('tx-1');
+    });
+
+    test('rejects payloads that expand past the limit', () => {
+        const bomb = deflate(new Uint8Array(100 * 1024).fill(0x61));
+        expect(bomb.length).toBeLessThan(maxPayloadSize());
+
+        const envelope = encryptPayload(bomb, sender.publicKey, recipient.publicKey, { envelopeVersion: 2 }, [], true);
+        expect(() => decryptMessage(envelope, recipient.privateKey, recipient.publicKey)).toThrow(/exceeds/);
+        expect(() => encryptPayload(bomb, sender.publicKey, recipient.publicKey, {}, [], true)).toThrow(EncryptionError);
+    });
+});
+
+describe('Sealed Sender', () => {
+    const sender = generateEphemeralKeyPair();
+    const recipient = generateEphemeralKeyPair();
+    const outsider = generateEphemeralKeyPair();
+
+    test('hides the sender key and recovers it for the recipient and sender', () => {
+        const envelope = encryptMessage('Sealed hello', sender.publicKey, recipient.publicKey, {
+            envelopeVersion: 2,
+            sealedSender: true,
+        });
+        const encoded = encodeEnvelope(envelope);
+
+        expect(envelope.flags! & ENVELOPE_FLAGS.SEALED).toBe(ENVELOPE_FLAGS.SEALED);
+        expect(Buffer.from(encoded).includes(Buffer.from(sender.publicKey))).toBe(false);
+
+        const decoded = decodeEnvelope(encoded);
+        expect(isSealedEnvelope(decoded)).toBe(true);
+        expect(decoded.senderPublicKey).toHaveLength(0);
+
+        const forRecipient = decryptMessage(decoded, recipient.privateKey, recipient.publicKey);
+        expect(forRecipient?.text).toBe('Sealed hello');
+        expect(forRecipient?.senderPublicKey).toEqual(sender.publicKey);
+
+        const forSender = decryptMessage(decoded, sender.privateKey, sender.publicKey);
+        expect(forSender?.text).toBe('Sealed hello');
+        expect(forSender?.senderPublicKey).toEqual(sender.publicKey);
+
+        expect(() => decryptMessage(decoded, outsider.privateKey, outsider.publicKey)).toThrow();
+    });
+
+    test('works with a PSK, padding and compression', () => {
+        const psk = new Uint8Array(32).fill(0x5a);
+        const text = 'Sealed and squeezed. '.repeat(20);
+        const options = { envelopeVersion: 2 as const, sealedSender: true, psk, padding: 'bucket' as const, compression: 'deflate' as const };
+        const envelope = decodeEnvelope(encodeEnvelope(encryptMessage(text, sender.publicKey, recipient.publicKey, options)));
+
+        expect(decryptMessage(envelope, recipient.privateKey, recipient.publicKey, { psk })?.text).toBe(text);
+        expect(decryptMessage(envelope, sender.privateKey, sender.publicKey, { psk })?.text).toBe(text);
+        expect(() => decryptMessage(envelope, recipient.privateKey, recipient.publicKey)).toThrow();
+    });
+
+    test('costs 16 bytes of capacity and requires a v2 envelope', () => {
+        expect(messageCapacity({ envelopeVersion: 2, sealedSender: true })).toBe(messageCapacity({ envelopeVersion: 2 }) - 16);
+        expect(() => encryptMessage('hi', sender.publicKey, recipient.publicKey, { sealedSender: true })).toThrow(/v2 envelope/);
+
+        const limit = 'x'.repeat(messageCapacity({ envelopeVersion: 2, sealedSender: true }));
+        const envelope = encryptMessage(limit, sender.publicKey, recipient.publicKey, { envelopeVersion: 2, sealedSender: true });
+        expect(encodeEnvelope(envelope).length).toBe(1024);
+    });
+
+    test('still reads classic envelopes', () => {
+        const envelope = encryptMessage('Classic', sender.publicKey, recipient.publicKey, { envelopeVersion: 2 });
+        const decrypted = decryptMessage(decodeEnvelope(encodeEnvelope(envelope)), recipient.privateKey, recipient.publicKey);
+
+        expect(decrypted?.text).toBe('Classic');
+        expect(decrypted?.senderPublicKey).toBeUndefined();
+    });
+
+    test('authenticates the sealed sender', () => {
+        const envelope = decodeEnvelope(encodeEnvelope(
+            encryptMessage('Sealed', sender.publicKey, recipient.publicKey, { envelopeVersion: 2, sealedSender: true })
+        ));
+        const sealedSender = new Uint8Array(envelope.sealedSender!);
+        sealedSender[0] ^= 0xff;
+
+        expect(() => decryptMessage({ ...envelope, sealedSender }, recipient.privateKey, recipient.publicKey)).toThrow();
+        expect(() => encodeEnvelope({ ...envelope, sealedSender: undefined })).toThrow(/sealed sender/);
+    });
+});
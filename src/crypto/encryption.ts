@@ -9,12 +9,25 @@ import { chacha20poly1305 } from '@noble/ciphers/chacha';
 import { hkdf } from '@noble/hashes/hkdf';
 import { sha256 } from '@noble/hashes/sha256';
 import { randomBytes } from '@noble/ciphers/webcrypto';
-import { ChatEnvelope, DecryptedContent, PROTOCOL, type EncryptionOptions } from '../models/types';
-import { generateEphemeralKeyPair, x25519ECDH, uint8ArrayEquals } from './keys';
+import {
+    ChatEnvelope,
+    DecryptedContent,
+    PROTOCOL,
+    PROTOCOL_V2,
+    ENVELOPE_FLAGS,
+    type EncryptionOptions,
+    type EnvelopeExtension,
+} from '../models/types';
+import { generateEphemeralKeyPair, x25519ECDH, uint8ArrayEquals, encryptionKeyId } from './keys';
+import { decodePayload, encodePayload, payloadToContent } from '../models/payload';
+import { padPayload, unpadPayload, PADDING_HEADER_SIZE } from './padding';
+import { compressPayload, inflate } from './compression';
+import { encodeEnvelopeHeaders, envelopeAssociatedData, isSealedEnvelope, maxPayloadSize, readChunkHeader } from './envelope';
 
 const ENCRYPTION_INFO_PREFIX = new TextEncoder().encode('AlgoChatV1');
 const SENDER_KEY_INFO_PREFIX = new TextEncoder().encode('AlgoChatV1-SenderKey');
 const PSK_INFO = new TextEncoder().encode('AlgoChatV1-PSK');
+const SEALED_SENDER_INFO_PREFIX = new TextEncoder().encode('AlgoChatV2-SealedSender');
 
 /**
  * Derives input keying material, mixing in PSK when provided.
@@ -40,6 +53,21 @@ export class EncryptionError extends Error {
 /**
  * Encrypts a message for a recipient with forward secrecy
  *
+ * With `options.padding`, the payload is padded before encryption so the
+ * ciphertext does not reveal the message length.
+ *
+ * With `options.compression` and a v2 envelope, the payload is compressed
+ * before padding when that makes it smaller; the size limit applies to the
+ * compressed payload.
+ *
+ * With `options.envelopeVersion` 2, the envelope carries `options.headers`
+ * as extensions, authenticated together with its flags, and the id of the
+ * recipient key so a recipient with rotated keys knows which key to use.
+ *
+ * With `options.sealedSender`, the sender key is encrypted to the recipient
+ * instead of sent in the clear; the sender can still decrypt the message
+ * through the encrypted sender key.
+ *
  * Note: senderPublicKey is used for bidirectional decryption - it allows
  * the sender to decrypt their own sent messages.
  */
@@ -49,12 +77,43 @@ export function encryptMessage(
     recipientPublicKey: Uint8Array,
     options?: EncryptionOptions
 ): ChatEnvelope {
-    const messageBytes = new TextEncoder().encode(plaintext);
+    return encryptPayload(new TextEncoder().encode(plaintext), senderPublicKey, recipientPublicKey, options);
+}
+
+/**
+ * Encrypts raw payload bytes for a recipient (see `encryptMessage`)
+ *
+ * @param extensions - Extra extensions, e.g. a chunk header; these require `options.envelopeVersion` 2
+ * @param compressed - The bytes are already compressed, e.g. a slice of a compressed message;
+ *        `options.compression` is skipped and the envelope is flagged compressed
+ */
+export function encryptPayload(
+    messageBytes: Uint8Array,
+    senderPublicKey: Uint8Array,
+    recipientPublicKey: Uint8Array,
+    options?: EncryptionOptions,
+    extensions: EnvelopeExtension[] = [],
+    compressed = false
+): ChatEnvelope {
+    if (!compressed) {
+        const compressedBytes = compressForEnvelope(messageBytes, options);
+        if (compressedBytes) {
+            messageBytes = compressedBytes;
+            compressed = true;
+        }
+    }
+
+    const padding = options?.padding ?? 'none';
+    const header = envelopeHeader(options, extensions, encryptionKeyId(recipientPublicKey), compressed);
 
-    if (messageBytes.length > PROTOCOL.MAX_PAYLOAD_SIZE) {
-        throw new EncryptionError(`Message too large: ${messageBytes.length} bytes, max ${PROTOCOL.MAX_PAYLOAD_SIZE}`);
+    const maxSize = maxPayloadSize(header.extensions, header.flags);
+    if (messageBytes.length > maxSize) {
+        throw new EncryptionError(`Message too large: ${messageBytes.length} bytes, max ${maxSize}`);
     }
 
+    const payload = padPayload(messageBytes, padding, maxSize);
+    const aad = envelopeAssociatedData(header);
+
     // Step 1: Generate ephemeral key pair
     const ephemeral = generateEphemeralKeyPair();
 
@@ -69,8 +128,8 @@ export function encryptMessage(
     const nonce = randomBytes(12);
 
     // Step 4: Encrypt message
-    const cipher = chacha20poly1305(symmetricKey, nonce);
-    const ciphertextWithTag = cipher.encrypt(messageBytes);
+    const cipher = chacha20poly1305(symmetricKey, nonce, aad);
+    const ciphertextWithTag = cipher.encrypt(payload);
 
     // Step 5: Encrypt symmetric key for sender (bidirectional decryption)
     const senderSharedSecret = x25519ECDH(ephemeral.privateKey, senderPublicKey);
@@ -79,12 +138,25 @@ export function encryptMessage(
     const senderInfo = concatBytes(SENDER_KEY_INFO_PREFIX, senderPublicKey);
     const senderEncryptionKey = hkdf(sha256, senderIkm, ephemeral.publicKey, senderInfo, 32);
 
-    const senderCipher = chacha20poly1305(senderEncryptionKey, nonce);
+    const senderCipher = chacha20poly1305(senderEncryptionKey, nonce, aad);
     const encryptedSenderKey = senderCipher.encrypt(symmetricKey);
 
+    // Step 6: Seal the sender key to the recipient, if requested
+    if (options?.sealedSender) {
+        const sealKey = deriveSealKey(ikm, ephemeral.publicKey, recipientPublicKey);
+        return {
+            ...header,
+            senderPublicKey: new Uint8Array(0),
+            sealedSender: chacha20poly1305(sealKey, nonce, aad).encrypt(senderPublicKey),
+            ephemeralPublicKey: ephemeral.publicKey,
+            nonce,
+            encryptedSenderKey,
+            ciphertext: ciphertextWithTag,
+        };
+    }
+
     return {
-        version: PROTOCOL.VERSION,
-        protocolId: PROTOCOL.PROTOCOL_ID,
+        ...header,
         senderPublicKey,
         ephemeralPublicKey: ephemeral.publicKey,
         nonce,
@@ -93,6 +165,72 @@ export function encryptMessage(
     };
 }
 
+/**
+ * Gets the largest payload, in bytes, that fits in one envelope with these options
+ *
+ * @param extensions - Extra extensions the envelope will carry
+ */
+export function messageCapacity(options?: EncryptionOptions, extensions: EnvelopeExtension[] = []): number {
+    // Key ids have a fixed size, so any recipient key gives the capacity
+    const header = envelopeHeader(options, extensions, encryptionKeyId(new Uint8Array(32)));
+    const maxSize = maxPayloadSize(header.extensions, header.flags);
+    return (options?.padding ?? 'none') === 'none' ? maxSize : maxSize - PADDING_HEADER_SIZE;
+}
+
+/**
+ * Compresses a payload as `options.compression` asks, if the envelope can flag it
+ *
+ * @returns The compressed payload, or undefined if compression is off, needs
+ *          a v1 envelope, or would not make the payload smaller
+ */
+export function compressForEnvelope(messageBytes: Uint8Array, options?: EncryptionOptions): Uint8Array | undefined {
+    if ((options?.compression ?? 'none') === 'none' || options?.envelopeVersion !== 2) {
+        return undefined;
+    }
+    return compressPayload(messageBytes);
+}
+
+/**
+ * Builds the envelope fields before the keys for the chosen format
+ */
+function envelopeHeader(
+    options: EncryptionOptions | undefined,
+    extensions: EnvelopeExtension[],
+    recipientKeyId: string,
+    compressed = false
+): Pick<ChatEnvelope, 'version' | 'protocolId' | 'flags' | 'extensions'> {
+    if (options?.envelopeVersion !== 2) {
+        if (extensions.length > 0) {
+            throw new EncryptionError('Extensions require a v2 envelope');
+        }
+        if (compressed) {
+            throw new EncryptionError('Compression requires a v2 envelope');
+        }
+        if (options?.sealedSender) {
+            throw new EncryptionError('Sealed sender requires a v2 envelope');
+        }
+        return { version: PROTOCOL.VERSION, protocolId: PROTOCOL.PROTOCOL_ID };
+    }
+
+    let flags = (options.padding ?? 'none') !== 'none' ? ENVELOPE_FLAGS.PADDED : 0;
+    if (compressed) flags |= ENVELOPE_FLAGS.DEFLATE;
+    if (options.sealedSender) flags |= ENVELOPE_FLAGS.SEALED;
+
+    return {
+        version: PROTOCOL_V2.VERSION,
+        protocolId: PROTOCOL_V2.PROTOCOL_ID,
+        flags,
+        extensions: [
+            ...encodeEnvelopeHeaders({
+                ...options.headers,
+                pskMode: options.psk && options.psk.length > 0 ? 'hybrid' : 'none',
+                recipientKeyId,
+            }),
+            ...extensions,
+        ],
+    };
+}
+
 /**
  * Encrypts a reply message
  */
@@ -104,25 +242,30 @@ export function encryptReply(
     recipientPublicKey: Uint8Array,
     options?: EncryptionOptions
 ): ChatEnvelope {
-    // Truncate preview to 80 chars
-    const preview = replyToPreview.length > 80 ? replyToPreview.slice(0, 77) + '...' : replyToPreview;
-
-    const payload = JSON.stringify({
-        text,
-        replyTo: {
-            txid: replyToTxid,
-            preview,
-        },
-    });
+    return encryptMessage(encodeReply(text, replyToTxid, replyToPreview), senderPublicKey, recipientPublicKey, options);
+}
 
-    return encryptMessage(payload, senderPublicKey, recipientPublicKey, options);
+/**
+ * Encodes a reply payload, truncating the preview to 80 characters
+ */
+export function encodeReply(text: string, replyToTxid: string, replyToPreview: string): string {
+    const preview = replyToPreview.length > 80 ? replyToPreview.slice(0, 77) + '...' : replyToPreview;
+    return encodePayload({ type: 'text', text, replyTo: { txid: replyToTxid, preview } });
 }
 
 /**
  * Decrypts a message envelope
  *
  * Automatically detects if we're the sender or recipient
- * and uses the appropriate decryption path.
+ * and uses the appropriate decryption path. A chunk of a larger message
+ * is returned as `chunk`, with empty text.
+ *
+ * A sealed-sender envelope does not say who sent it, so it is first
+ * unsealed as the recipient and otherwise decrypted as the sender; the
+ * sender key is returned as `senderPublicKey`.
+ *
+ * @throws {CompressionError} If a compressed payload is malformed or expands
+ *         past `MAX_DECOMPRESSED_SIZE`
  */
 export function decryptMessage(
     envelope: ChatEnvelope,
@@ -130,22 +273,76 @@ export function decryptMessage(
     myPublicKey: Uint8Array,
     options?: EncryptionOptions
 ): DecryptedContent | null {
-    const weAreSender = uint8ArrayEquals(myPublicKey, envelope.senderPublicKey);
-
     let plaintext: Uint8Array;
-
-    if (weAreSender) {
+    let sealedSenderKey: Uint8Array | undefined;
+
+    if (isSealedEnvelope(envelope)) {
+        sealedSenderKey = unsealSender(envelope, myPrivateKey, myPublicKey, options);
+        plaintext = sealedSenderKey
+            ? decryptAsRecipient({ ...envelope, senderPublicKey: sealedSenderKey }, myPrivateKey, myPublicKey, options)
+            : decryptAsSender(envelope, myPrivateKey, myPublicKey, options);
+        sealedSenderKey ??= new Uint8Array(myPublicKey);
+    } else if (uint8ArrayEquals(myPublicKey, envelope.senderPublicKey)) {
         plaintext = decryptAsSender(envelope, myPrivateKey, myPublicKey, options);
     } else {
         plaintext = decryptAsRecipient(envelope, myPrivateKey, myPublicKey, options);
     }
 
+    const content = readDecryptedPayload(envelope, plaintext);
+    return content && sealedSenderKey ? { ...content, senderPublicKey: sealedSenderKey } : content;
+}
+
+/**
+ * Unpads, decompresses and parses a decrypted payload
+ */
+function readDecryptedPayload(envelope: ChatEnvelope, plaintext: Uint8Array): DecryptedContent | null {
+    const payload = unpadPayload(plaintext);
+    const compressed = ((envelope.flags ?? 0) & ENVELOPE_FLAGS.DEFLATE) !== 0;
+
+    // Chunks are decompressed and parsed once the whole message is reassembled
+    const chunk = readChunkHeader(envelope);
+    if (chunk) {
+        return { text: '', chunk: compressed ? { ...chunk, data: payload, compressed } : { ...chunk, data: payload } };
+    }
+
+    const messageBytes = compressed ? inflate(payload) : payload;
+
     // Check for key-publish payload
-    if (isKeyPublishPayload(plaintext)) {
+    if (isKeyPublishPayload(messageBytes)) {
         return null;
     }
 
-    return parseMessagePayload(plaintext);
+    return parseMessagePayload(messageBytes);
+}
+
+/**
+ * Recovers the sender key of a sealed-sender envelope as its recipient
+ *
+ * @returns The sender key, or undefined if the envelope was not sealed to us
+ */
+function unsealSender(
+    envelope: ChatEnvelope,
+    recipientPrivateKey: Uint8Array,
+    recipientPublicKey: Uint8Array,
+    options?: EncryptionOptions
+): Uint8Array | undefined {
+    if (!envelope.sealedSender) return undefined;
+
+    const sharedSecret = x25519ECDH(recipientPrivateKey, envelope.ephemeralPublicKey);
+    const sealKey = deriveSealKey(deriveIKM(sharedSecret, options?.psk), envelope.ephemeralPublicKey, recipientPublicKey);
+
+    try {
+        return chacha20poly1305(sealKey, envelope.nonce, envelopeAssociatedData(envelope)).decrypt(envelope.sealedSender);
+    } catch {
+        return undefined;
+    }
+}
+
+/**
+ * Derives the key that seals the sender key to the recipient
+ */
+function deriveSealKey(ikm: Uint8Array, ephemeralPublicKey: Uint8Array, recipientPublicKey: Uint8Array): Uint8Array {
+    return hkdf(sha256, ikm, ephemeralPublicKey, concatBytes(SEALED_SENDER_INFO_PREFIX, recipientPublicKey), 32);
 }
 
 /**
@@ -165,7 +362,7 @@ function decryptAsRecipient(
     const symmetricKey = hkdf(sha256, ikm, envelope.ephemeralPublicKey, info, 32);
 
     // Decrypt message
-    const cipher = chacha20poly1305(symmetricKey, envelope.nonce);
+    const cipher = chacha20poly1305(symmetricKey, envelope.nonce, envelopeAssociatedData(envelope));
     return cipher.decrypt(envelope.ciphertext);
 }
 
@@ -186,11 +383,12 @@ function decryptAsSender(
     const senderDecryptionKey = hkdf(sha256, ikm, envelope.ephemeralPublicKey, senderInfo, 32);
 
     // Step 2: Decrypt the symmetric key
-    const senderCipher = chacha20poly1305(senderDecryptionKey, envelope.nonce);
+    const aad = envelopeAssociatedData(envelope);
+    const senderCipher = chacha20poly1305(senderDecryptionKey, envelope.nonce, aad);
     const symmetricKey = senderCipher.decrypt(envelope.encryptedSenderKey);
 
     // Step 3: Decrypt message using recovered symmetric key
-    const cipher = chacha20poly1305(symmetricKey, envelope.nonce);
+    const cipher = chacha20poly1305(symmetricKey, envelope.nonce, aad);
     return cipher.decrypt(envelope.ciphertext);
 }
 
@@ -212,29 +410,10 @@ function isKeyPublishPayload(data: Uint8Array): boolean {
 }
 
 /**
- * Parses decrypted message payload
+ * Parses a decrypted message payload
  */
 function parseMessagePayload(data: Uint8Array): DecryptedContent {
-    const text = new TextDecoder().decode(data);
-
-    // Try JSON first
-    if (text.startsWith('{')) {
-        try {
-            const json = JSON.parse(text);
-            if (typeof json.text === 'string') {
-                return {
-                    text: json.text,
-                    replyToId: json.replyTo?.txid,
-                    replyToPreview: json.replyTo?.preview,
-                };
-            }
-        } catch {
-            // Fall through to plain text
-        }
-    }
-
-    // Plain text (legacy format)
-    return { text };
+    return payloadToContent(decodePayload(new TextDecoder().decode(data)));
 }
 
 /**
@@ -0,0 +1,178 @@
+/**
+ * AlgoChat Web - Envelope Tests
+ */
+
+import { describe, test, expect } from 'bun:test';
+import { generateEphemeralKeyPair, encryptionKeyId } from './keys';
+import { encryptMessage, decryptMessage } from './encryption';
+import {
+    encodeEnvelope,
+    decodeEnvelope,
+    decodeNote,
+    isChatMessage,
+    encodeEnvelopeHeaders,
+    readEnvelopeHeaders,
+    maxPayloadSize,
+    EnvelopeError,
+} from './envelope';
+import { encryptPSKMessage } from '../psk/encryption';
+import { encodePSKEnvelope } from '../psk/envelope';
+import { ENVELOPE_FLAGS, EXTENSION_TYPES, PROTOCOL, PROTOCOL_V2 } from '../models/types';
+
+const sender = generateEphemeralKeyPair();
+const recipient = generateEphemeralKeyPair();
+
+const v2 = (text: string, headers = {}) =>
+    encryptMessage(text, sender.publicKey, recipient.publicKey, { envelopeVersion: 2, headers });
+
+describe('v2 envelopes', () => {
+    test('round-trips flags, extensions and keys', () => {
+        const envelope = v2('hello v2', { threadId: 'thread-1', contentType: 'text/markdown' });
+        const encoded = encodeEnvelope(envelope);
+
+        expect(encoded[0]).toBe(PROTOCOL_V2.VERSION);
+        expect(isChatMessage(encoded)).toBe(true);
+
+        const decoded = decodeEnvelope(encoded);
+        expect(decoded.flags).toBe(0);
+        expect(decoded.extensions).toEqual(envelope.extensions!);
+        expect(decoded.senderPublicKey).toEqual(sender.publicKey);
+        expect(decoded.ciphertext).toEqual(envelope.ciphertext);
+        expect(decryptMessage(decoded, recipient.privateKey, recipient.publicKey)?.text).toBe('hello v2');
+        expect(decryptMessage(decoded, sender.privateKey, sender.publicKey)?.text).toBe('hello v2');
+    });
+
+    test('reads typed headers back', () => {
+        const expiresAt = new Date('2030-01-01T00:00:00Z');
+        const envelope = decodeEnvelope(encodeEnvelope(v2('hi', { threadId: 't', contentType: 'text/plain', expiresAt })));
+
+        expect(readEnvelopeHeaders(envelope)).toEqual({
+            contentType: 'text/plain',
+            pskMode: 'none',
+            expiresAt,
+            threadId: 't',
+            recipientKeyId: encryptionKeyId(recipient.publicKey),
+        });
+    });
+
+    test('names the recipient key in a non-critical extension', () => {
+        const envelope = v2('which key?');
+        const keyId = encryptionKeyId(recipient.publicKey);
+
+        expect(keyId).toHaveLength(16);
+        expect(envelope.extensions!.find(e => e.type === EXTENSION_TYPES.RECIPIENT_KEY)?.value.length).toBe(8);
+        expect(EXTENSION_TYPES.RECIPIENT_KEY & EXTENSION_TYPES.CRITICAL).toBe(0);
+        expect(readEnvelopeHeaders(envelope).recipientKeyId).toBe(keyId);
+        expect(() => encodeEnvelopeHeaders({ recipientKeyId: 'abc' })).toThrow(/Invalid recipient key id/);
+
+        const malformed = { ...envelope, extensions: [{ type: EXTENSION_TYPES.RECIPIENT_KEY, value: new Uint8Array(7) }] };
+        expect(() => readEnvelopeHeaders(malformed)).toThrow(/Malformed recipient key/);
+    });
+
+    test('carries the group message ref as a critical extension', () => {
+        const group = { groupId: 'ab'.repeat(16), messageId: '01'.repeat(8) };
+        const envelope = decodeEnvelope(encodeEnvelope(v2('to the group', { group })));
+
+        expect(readEnvelopeHeaders(envelope).group).toEqual(group);
+        expect(EXTENSION_TYPES.GROUP & 0x80).toBe(0x80);
+        expect(() => encodeEnvelopeHeaders({ group: { ...group, messageId: 'xyz' } })).toThrow(/Invalid group/);
+
+        const malformed = { ...envelope, extensions: [{ type: EXTENSION_TYPES.GROUP, value: new Uint8Array(23) }] };
+        expect(() => readEnvelopeHeaders(malformed)).toThrow(/Malformed group/);
+    });
+
+    test('marks padded payloads with a flag', () => {
+        const envelope = encryptMessage('hi', sender.publicKey, recipient.publicKey, {
+            envelopeVersion: 2,
+            padding: 'bucket',
+        });
+
+        expect(envelope.flags! & ENVELOPE_FLAGS.PADDED).toBe(ENVELOPE_FLAGS.PADDED);
+        expect(decryptMessage(envelope, recipient.privateKey, recipient.publicKey)?.text).toBe('hi');
+    });
+
+    test('uses the PSK mode header for hybrid messages', () => {
+        const psk = new Uint8Array(32).fill(7);
+        const envelope = encryptMessage('secret', sender.publicKey, recipient.publicKey, { envelopeVersion: 2, psk });
+
+        expect(readEnvelopeHeaders(envelope).pskMode).toBe('hybrid');
+        expect(decryptMessage(envelope, recipient.privateKey, recipient.publicKey, { psk })?.text).toBe('secret');
+    });
+
+    test('authenticates the header', () => {
+        const encoded = encodeEnvelope(v2('tamper', { threadId: 'a' }));
+        const flagged = new Uint8Array(encoded);
+        flagged[2] ^= ENVELOPE_FLAGS.PADDED;
+        const retitled = new Uint8Array(encoded);
+        retitled[encoded.indexOf('a'.charCodeAt(0), 5)] = 'b'.charCodeAt(0);
+
+        for (const data of [flagged, retitled]) {
+            expect(() => decryptMessage(decodeEnvelope(data), recipient.privateKey, recipient.publicKey)).toThrow();
+        }
+    });
+
+    test('shrinks the payload limit by the extension size', () => {
+        const extensions = encodeEnvelopeHeaders({ threadId: 'x'.repeat(10) });
+        expect(maxPayloadSize()).toBe(PROTOCOL.MAX_PAYLOAD_SIZE);
+        expect(maxPayloadSize(extensions)).toBe(PROTOCOL_V2.MAX_NOTE_SIZE - PROTOCOL_V2.HEADER_SIZE - 16 - 12);
+
+        const limit = maxPayloadSize(encodeEnvelopeHeaders({
+            pskMode: 'none',
+            recipientKeyId: encryptionKeyId(recipient.publicKey),
+        }));
+        expect(encodeEnvelope(v2('x'.repeat(limit))).length).toBe(PROTOCOL_V2.MAX_NOTE_SIZE);
+        expect(() => v2('x'.repeat(limit + 1))).toThrow(/too large/);
+    });
+
+    test('skips unknown extensions but rejects unknown critical ones', () => {
+        const base = v2('ext');
+        const optional = { ...base, extensions: [...base.extensions!, { type: 0x40, value: new Uint8Array([1]) }] };
+        const critical = { ...base, extensions: [...base.extensions!, { type: 0xc0, value: new Uint8Array([1]) }] };
+
+        expect(decodeEnvelope(encodeEnvelope(optional)).extensions!.map(e => e.type)).toContain(0x40);
+        expect(() => decodeEnvelope(encodeEnvelope(critical))).toThrow(EnvelopeError);
+    });
+
+    test('rejects malformed extension blocks', () => {
+        const encoded = encodeEnvelope(v2('x', { threadId: 'abc' }));
+
+        const truncated = new Uint8Array(encoded);
+        truncated[9] = 0xff; // thread id length, after the PSK mode extension
+        expect(() => decodeEnvelope(truncated)).toThrow(EnvelopeError);
+
+        const duplicate = { ...v2('x'), extensions: [
+            { type: EXTENSION_TYPES.THREAD_ID, value: new Uint8Array([1]) },
+            { type: EXTENSION_TYPES.THREAD_ID, value: new Uint8Array([2]) },
+        ] };
+        expect(() => decodeEnvelope(encodeEnvelope(duplicate))).toThrow(/Duplicate/);
+    });
+
+    test('rejects unknown flags', () => {
+        const encoded = encodeEnvelope(v2('flags'));
+        encoded[2] = 0x80;
+        expect(() => decodeEnvelope(encoded)).toThrow(/Unknown envelope flags/);
+    });
+
+    test('rejects oversized extension values', () => {
+        expect(() => encodeEnvelopeHeaders({ threadId: 'x'.repeat(256) })).toThrow(EnvelopeError);
+    });
+});
+
+describe('decodeNote', () => {
+    test('dispatches on protocol and version', () => {
+        const v1 = encryptMessage('v1', sender.publicKey, recipient.publicKey);
+        const psk = encryptPSKMessage('psk', sender.publicKey, recipient.publicKey, new Uint8Array(32).fill(1), 3);
+
+        expect(decodeNote(encodeEnvelope(v1))).toMatchObject({ kind: 'standard', envelope: { version: 1 } });
+        expect(decodeNote(encodeEnvelope(v2('v2')))).toMatchObject({ kind: 'standard', envelope: { version: 2 } });
+        expect(decodeNote(encodePSKEnvelope(psk))).toMatchObject({ kind: 'psk', envelope: { ratchetCounter: 3 } });
+    });
+
+    test('rejects unknown versions', () => {
+        const note = encodeEnvelope(encryptMessage('v1', sender.publicKey, recipient.publicKey));
+        note[0] = 0x03;
+
+        expect(isChatMessage(note)).toBe(false);
+        expect(() => decodeNote(note)).toThrow(/Unsupported version/);
+    });
+});
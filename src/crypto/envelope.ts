@@ -1,8 +1,48 @@
 /**
  * AlgoChat Web - Envelope Encoding/Decoding
+ *
+ * v1 wire format (126-byte header):
+ *   [0]:       version (0x01)
+ *   [1]:       protocolId (0x01)
+ *   [2..33]:   senderPublicKey (32 bytes)
+ *   [34..65]:  ephemeralPublicKey (32 bytes)
+ *   [66..77]:  nonce (12 bytes)
+ *   [78..125]: encryptedSenderKey (48 bytes)
+ *   [126..]:   ciphertext + 16-byte tag
+ *
+ * v2 wire format (129-byte header plus extensions):
+ *   [0]:       version (0x02)
+ *   [1]:       protocolId (0x01)
+ *   [2]:       flags
+ *   [3..4]:    extension block length (2 bytes, big-endian)
+ *   [5..]:     extensions, each [type (1)][length (1)][value]
+ *   then the v1 fields from senderPublicKey on
+ *
+ * Everything before senderPublicKey in a v2 envelope is authenticated as
+ * associated data, so flags and extensions cannot be altered in transit.
+ *
+ * A v2 envelope with the SEALED flag carries a 48-byte sealedSender (the
+ * sender key encrypted to the recipient) in place of the 32-byte
+ * senderPublicKey, so its header is 145 bytes plus extensions.
  */
 
-import { ChatEnvelope, PROTOCOL } from '../models/types';
+import {
+    ChatEnvelope,
+    PROTOCOL,
+    PROTOCOL_V2,
+    ENVELOPE_FLAGS,
+    EXTENSION_TYPES,
+    type EnvelopeExtension,
+    type EnvelopeHeaders,
+    type MessageChunk,
+    type ChannelEnvelope,
+} from '../models/types';
+import { bytesToHex, hexToBytes } from '@noble/hashes/utils';
+import { PSK_PROTOCOL, type PSKEnvelope } from '../psk/types';
+import { decodePSKEnvelope } from '../psk/envelope';
+import { decodeChannelEnvelope, isChannelPost } from './channel';
+import type { RatchetEnvelope } from '../ratchet/types';
+import { decodeRatchetEnvelope, isRatchetMessage } from '../ratchet/envelope';
 
 export class EnvelopeError extends Error {
     constructor(message: string) {
@@ -11,26 +51,65 @@ export class EnvelopeError extends Error {
     }
 }
 
+/** Size of the v1 fields shared by both versions, from senderPublicKey to encryptedSenderKey */
+const KEY_FIELDS_SIZE = 32 + 32 + 12 + 48;
+
+/** Size of a sealed sender key: the key and its tag */
+const SEALED_SENDER_SIZE = 32 + 16;
+
+/** Extension types this implementation understands */
+const KNOWN_EXTENSIONS = new Set<number>([
+    EXTENSION_TYPES.CONTENT_TYPE,
+    EXTENSION_TYPES.PSK_MODE,
+    EXTENSION_TYPES.EXPIRES_AT,
+    EXTENSION_TYPES.THREAD_ID,
+    EXTENSION_TYPES.PADDING,
+    EXTENSION_TYPES.RECIPIENT_KEY,
+    EXTENSION_TYPES.CHUNK,
+    EXTENSION_TYPES.GROUP,
+]);
+
+/** Flag bits this implementation understands; others change how the payload is read */
+const KNOWN_FLAGS = ENVELOPE_FLAGS.PADDED | ENVELOPE_FLAGS.DEFLATE | ENVELOPE_FLAGS.SEALED;
+
+/** Size of the chunk extension value: message id (8), index (1), total (1) */
+const CHUNK_VALUE_SIZE = 10;
+
+/** Size of the group extension value: group id (16), message id (8) */
+const GROUP_VALUE_SIZE = 24;
+
+/** Size of the recipient key extension value: a truncated key hash */
+const RECIPIENT_KEY_VALUE_SIZE = 8;
+
+/** A decoded transaction note of any supported envelope format */
+export type DecodedNote =
+    | { kind: 'standard'; envelope: ChatEnvelope }
+    | { kind: 'psk'; envelope: PSKEnvelope }
+    | { kind: 'channel'; envelope: ChannelEnvelope }
+    | { kind: 'ratchet'; envelope: RatchetEnvelope };
+
 /**
  * Encodes a ChatEnvelope to bytes for transaction note
+ *
+ * The format follows `envelope.version`.
  */
 export function encodeEnvelope(envelope: ChatEnvelope): Uint8Array {
-    const totalSize =
-        2 + // version + protocol
-        32 + // sender public key
-        32 + // ephemeral public key
-        12 + // nonce
-        48 + // encrypted sender key
-        envelope.ciphertext.length;
-
-    const result = new Uint8Array(totalSize);
-    let offset = 0;
+    const header = envelope.version === PROTOCOL_V2.VERSION
+        ? encodeV2Header(envelope.flags ?? 0, envelope.extensions ?? [])
+        : new Uint8Array([envelope.version, envelope.protocolId]);
 
-    result[offset++] = envelope.version;
-    result[offset++] = envelope.protocolId;
+    const sealed = isSealedEnvelope(envelope);
+    if (sealed && envelope.sealedSender?.length !== SEALED_SENDER_SIZE) {
+        throw new EnvelopeError(`Sealed envelope needs a ${SEALED_SENDER_SIZE}-byte sealed sender`);
+    }
+    const sender = sealed ? envelope.sealedSender! : envelope.senderPublicKey;
 
-    result.set(envelope.senderPublicKey, offset);
-    offset += 32;
+    const result = new Uint8Array(header.length + KEY_FIELDS_SIZE - 32 + sender.length + envelope.ciphertext.length);
+    result.set(header, 0);
+    let offset = header.length;
+
+    result.set(sender, offset);
+    offset += sender.length;
 
     result.set(envelope.ephemeralPublicKey, offset);
     offset += 32;
@@ -48,6 +127,8 @@ export function encodeEnvelope(envelope: ChatEnvelope): Uint8Array {
 
 /**
  * Decodes bytes from transaction note to ChatEnvelope
+ *
+ * Reads both v1 and v2 envelopes.
  */
 export function decodeEnvelope(data: Uint8Array): ChatEnvelope {
     if (data.length < 2) {
@@ -61,29 +142,388 @@ export function decodeEnvelope(data: Uint8Array): ChatEnvelope {
         throw new EnvelopeError(`Unsupported protocol: ${protocolId}`);
     }
 
-    if (version !== PROTOCOL.VERSION) {
-        throw new EnvelopeError(`Unsupported version: ${version}`);
+    switch (version) {
+        case PROTOCOL.VERSION:
+            return decodeV1(data);
+        case PROTOCOL_V2.VERSION:
+            return decodeV2(data);
+        default:
+            throw new EnvelopeError(`Unsupported version: ${version}`);
+    }
+}
+
+/**
+ * Decodes a transaction note of any supported format: v1 or v2 standard
+ * envelopes, v1.1 PSK envelopes, channel posts and Double Ratchet envelopes
+ *
+ * @throws {EnvelopeError} If the note is not a supported envelope
+ * @throws {ChannelError} If a channel post is truncated
+ * @throws {RatchetEnvelopeError} If a Double Ratchet envelope is truncated
+ */
+export function decodeNote(data: Uint8Array): DecodedNote {
+    if (data.length >= 2 && data[1] === PSK_PROTOCOL.PROTOCOL_ID) {
+        if (data[0] !== PSK_PROTOCOL.VERSION) {
+            throw new EnvelopeError(`Unsupported PSK version: ${data[0]}`);
+        }
+        return { kind: 'psk', envelope: decodePSKEnvelope(data) };
+    }
+    if (isChannelPost(data)) {
+        return { kind: 'channel', envelope: decodeChannelEnvelope(data) };
+    }
+    if (isRatchetMessage(data)) {
+        return { kind: 'ratchet', envelope: decodeRatchetEnvelope(data) };
+    }
+    return { kind: 'standard', envelope: decodeEnvelope(data) };
+}
+
+/**
+ * Checks if data is an AlgoChat message (v1 or v2)
+ */
+export function isChatMessage(data: Uint8Array): boolean {
+    return data.length >= 2
+        && (data[0] === PROTOCOL.VERSION || data[0] === PROTOCOL_V2.VERSION)
+        && data[1] === PROTOCOL.PROTOCOL_ID;
+}
+
+/**
+ * Checks whether an envelope hides its sender key (see `ENVELOPE_FLAGS.SEALED`)
+ */
+export function isSealedEnvelope(envelope: Pick<ChatEnvelope, 'version' | 'flags'>): boolean {
+    return envelope.version === PROTOCOL_V2.VERSION && ((envelope.flags ?? 0) & ENVELOPE_FLAGS.SEALED) !== 0;
+}
+
+/**
+ * Gets the bytes a v2 envelope authenticates as associated data
+ *
+ * @returns The header up to the sender key, or undefined for v1 envelopes
+ */
+export function envelopeAssociatedData(
+    envelope: Pick<ChatEnvelope, 'version' | 'flags' | 'extensions'>
+): Uint8Array | undefined {
+    if (envelope.version !== PROTOCOL_V2.VERSION) return undefined;
+    return encodeV2Header(envelope.flags ?? 0, envelope.extensions ?? []);
+}
+
+/**
+ * Builds extension headers from their typed form
+ *
+ * @throws {EnvelopeError} If a value does not fit in an extension
+ */
+export function encodeEnvelopeHeaders(headers: EnvelopeHeaders): EnvelopeExtension[] {
+    const extensions: EnvelopeExtension[] = [];
+    const encoder = new TextEncoder();
+
+    if (headers.contentType !== undefined) {
+        extensions.push({ type: EXTENSION_TYPES.CONTENT_TYPE, value: encoder.encode(headers.contentType) });
+    }
+
+    if (headers.pskMode !== undefined) {
+        extensions.push({ type: EXTENSION_TYPES.PSK_MODE, value: new Uint8Array([headers.pskMode === 'hybrid' ? 1 : 0]) });
+    }
+
+    if (headers.expiresAt !== undefined) {
+        const seconds = Math.floor(headers.expiresAt.getTime() / 1000);
+        if (!Number.isInteger(seconds) || seconds < 0 || seconds > 0xffffffff) {
+            throw new EnvelopeError(`Expiry out of range: ${headers.expiresAt.toISOString?.() ?? headers.expiresAt}`);
+        }
+        const value = new Uint8Array(4);
+        new DataView(value.buffer).setUint32(0, seconds, false);
+        extensions.push({ type: EXTENSION_TYPES.EXPIRES_AT, value });
+    }
+
+    if (headers.threadId !== undefined) {
+        extensions.push({ type: EXTENSION_TYPES.THREAD_ID, value: encoder.encode(headers.threadId) });
+    }
+
+    if (headers.padding !== undefined && headers.padding > 0) {
+        extensions.push({ type: EXTENSION_TYPES.PADDING, value: new Uint8Array(headers.padding) });
+    }
+
+    if (headers.group !== undefined) {
+        const { groupId, messageId } = headers.group;
+        if (!/^[0-9a-f]{32}$/.test(groupId) || !/^[0-9a-f]{16}$/.test(messageId)) {
+            throw new EnvelopeError(`Invalid group message ref: ${groupId}/${messageId}`);
+        }
+        extensions.push({ type: EXTENSION_TYPES.GROUP, value: hexToBytes(groupId + messageId) });
+    }
+
+    if (headers.recipientKeyId !== undefined) {
+        if (!/^[0-9a-f]{16}$/.test(headers.recipientKeyId)) {
+            throw new EnvelopeError(`Invalid recipient key id: ${headers.recipientKeyId}`);
+        }
+        extensions.push({ type: EXTENSION_TYPES.RECIPIENT_KEY, value: hexToBytes(headers.recipientKeyId) });
+    }
+
+    for (const extension of extensions) {
+        if (extension.value.length > 255) {
+            throw new EnvelopeError(`Extension 0x${extension.type.toString(16)} too long: ${extension.value.length} bytes, max 255`);
+        }
+    }
+
+    return extensions;
+}
+
+/**
+ * Reads the known extension headers of an envelope
+ *
+ * Returns an empty object for v1 envelopes.
+ *
+ * @throws {EnvelopeError} If a known extension has a malformed value
+ */
+export function readEnvelopeHeaders(envelope: ChatEnvelope): EnvelopeHeaders {
+    const headers: EnvelopeHeaders = {};
+    const decoder = new TextDecoder();
+
+    for (const { type, value } of envelope.extensions ?? []) {
+        switch (type) {
+            case EXTENSION_TYPES.CONTENT_TYPE:
+                headers.contentType = decoder.decode(value);
+                break;
+            case EXTENSION_TYPES.PSK_MODE:
+                if (value.length !== 1 || value[0] > 1) {
+                    throw new EnvelopeError('Malformed PSK mode extension');
+                }
+                headers.pskMode = value[0] === 1 ? 'hybrid' : 'none';
+                break;
+            case EXTENSION_TYPES.EXPIRES_AT:
+                if (value.length !== 4) {
+                    throw new EnvelopeError('Malformed expiry extension');
+                }
+                headers.expiresAt = new Date(new DataView(value.buffer, value.byteOffset, 4).getUint32(0, false) * 1000);
+                break;
+            case EXTENSION_TYPES.THREAD_ID:
+                headers.threadId = decoder.decode(value);
+                break;
+            case EXTENSION_TYPES.PADDING:
+                headers.padding = value.length;
+                break;
+            case EXTENSION_TYPES.GROUP:
+                if (value.length !== GROUP_VALUE_SIZE) {
+                    throw new EnvelopeError('Malformed group extension');
+                }
+                headers.group = {
+                    groupId: bytesToHex(value.subarray(0, 16)),
+                    messageId: bytesToHex(value.subarray(16)),
+                };
+                break;
+            case EXTENSION_TYPES.RECIPIENT_KEY:
+                if (value.length !== RECIPIENT_KEY_VALUE_SIZE) {
+                    throw new EnvelopeError('Malformed recipient key extension');
+                }
+                headers.recipientKeyId = bytesToHex(value);
+                break;
+        }
+    }
+
+    return headers;
+}
+
+/**
+ * Builds the extension marking an envelope as one chunk of a message
+ *
+ * @param chunk - The chunk position; `messageId` is 8 bytes, hex encoded
+ */
+export function encodeChunkExtension(chunk: Omit<MessageChunk, 'data'>): EnvelopeExtension {
+    if (!/^[0-9a-f]{16}$/.test(chunk.messageId)) {
+        throw new EnvelopeError(`Invalid chunk message id: ${chunk.messageId}`);
+    }
+    if (chunk.total < 1 || chunk.total > PROTOCOL_V2.MAX_CHUNKS || chunk.index < 0 || chunk.index >= chunk.total) {
+        throw new EnvelopeError(`Invalid chunk ${chunk.index} of ${chunk.total}`);
+    }
+
+    const value = new Uint8Array(CHUNK_VALUE_SIZE);
+    for (let i = 0; i < 8; i++) {
+        value[i] = parseInt(chunk.messageId.slice(i * 2, i * 2 + 2), 16);
     }
+    value[8] = chunk.index;
+    value[9] = chunk.total;
+    return { type: EXTENSION_TYPES.CHUNK, value };
+}
 
+/**
+ * Reads the chunk extension of an envelope
+ *
+ * @returns The chunk position, or undefined if the envelope is not a chunk
+ * @throws {EnvelopeError} If the extension is malformed
+ */
+export function readChunkHeader(envelope: ChatEnvelope): Omit<MessageChunk, 'data'> | undefined {
+    const extension = envelope.extensions?.find(e => e.type === EXTENSION_TYPES.CHUNK);
+    if (!extension) return undefined;
+
+    const { value } = extension;
+    if (value.length !== CHUNK_VALUE_SIZE || value[9] < 1 || value[9] > PROTOCOL_V2.MAX_CHUNKS || value[8] >= value[9]) {
+        throw new EnvelopeError('Malformed chunk extension');
+    }
+
+    return {
+        messageId: Array.from(value.subarray(0, 8), b => b.toString(16).padStart(2, '0')).join(''),
+        index: value[8],
+        total: value[9],
+    };
+}
+
+/**
+ * Gets the maximum payload size left in a note by an envelope's header
+ *
+ * @param extensions - The extensions of a v2 envelope, or undefined for v1
+ * @param flags - The flags of a v2 envelope; a sealed sender takes 16 more bytes
+ */
+export function maxPayloadSize(extensions?: EnvelopeExtension[], flags = 0): number {
+    if (!extensions) return PROTOCOL.MAX_PAYLOAD_SIZE;
+    const sealed = (flags & ENVELOPE_FLAGS.SEALED) !== 0 ? SEALED_SENDER_SIZE - 32 : 0;
+    return PROTOCOL_V2.MAX_NOTE_SIZE - PROTOCOL_V2.HEADER_SIZE - PROTOCOL_V2.TAG_SIZE - sealed - extensionsSize(extensions);
+}
+
+/**
+ * Decodes a v1 envelope
+ */
+function decodeV1(data: Uint8Array): ChatEnvelope {
     const minSize = PROTOCOL.HEADER_SIZE + PROTOCOL.TAG_SIZE;
     if (data.length < minSize) {
         throw new EnvelopeError(`Data too short: ${data.length} bytes, need ${minSize}`);
     }
 
     return {
-        version,
-        protocolId,
-        senderPublicKey: data.slice(2, 34),
-        ephemeralPublicKey: data.slice(34, 66),
-        nonce: data.slice(66, 78),
-        encryptedSenderKey: data.slice(78, 126),
-        ciphertext: data.slice(126),
+        version: data[0],
+        protocolId: data[1],
+        ...decodeKeyFields(data, 2),
     };
 }
 
 /**
- * Checks if data is an AlgoChat message
+ * Decodes a v2 envelope
  */
-export function isChatMessage(data: Uint8Array): boolean {
-    return data.length >= 2 && data[0] === PROTOCOL.VERSION && data[1] === PROTOCOL.PROTOCOL_ID;
+function decodeV2(data: Uint8Array): ChatEnvelope {
+    const minSize = PROTOCOL_V2.HEADER_SIZE + PROTOCOL_V2.TAG_SIZE;
+    if (data.length < minSize) {
+        throw new EnvelopeError(`Data too short: ${data.length} bytes, need ${minSize}`);
+    }
+
+    const flags = data[2];
+    if ((flags & ~KNOWN_FLAGS) !== 0) {
+        throw new EnvelopeError(`Unknown envelope flags: 0x${flags.toString(16).padStart(2, '0')}`);
+    }
+    const sealed = (flags & ENVELOPE_FLAGS.SEALED) !== 0;
+    const extensionsLength = (data[3] << 8) | data[4];
+    if (extensionsLength > PROTOCOL_V2.MAX_EXTENSIONS_SIZE) {
+        throw new EnvelopeError(`Extensions too long: ${extensionsLength} bytes, max ${PROTOCOL_V2.MAX_EXTENSIONS_SIZE}`);
+    }
+    const needed = minSize + extensionsLength + (sealed ? SEALED_SENDER_SIZE - 32 : 0);
+    if (data.length < needed) {
+        throw new EnvelopeError(`Data too short: ${data.length} bytes, need ${needed}`);
+    }
+
+    const extensions = decodeExtensions(data.subarray(5, 5 + extensionsLength));
+    const offset = 5 + extensionsLength;
+
+    if (sealed) {
+        return {
+            version: data[0],
+            protocolId: data[1],
+            flags,
+            extensions,
+            senderPublicKey: new Uint8Array(0),
+            sealedSender: data.slice(offset, offset + SEALED_SENDER_SIZE),
+            ...decodeEncryptionFields(data, offset + SEALED_SENDER_SIZE),
+        };
+    }
+
+    return {
+        version: data[0],
+        protocolId: data[1],
+        flags,
+        extensions,
+        ...decodeKeyFields(data, offset),
+    };
+}
+
+/**
+ * Decodes the fields shared by v1 and v2, starting at the sender key
+ */
+function decodeKeyFields(data: Uint8Array, offset: number) {
+    return {
+        senderPublicKey: data.slice(offset, offset + 32),
+        ...decodeEncryptionFields(data, offset + 32),
+    };
+}
+
+/**
+ * Decodes the fields after the sender key, starting at the ephemeral key
+ */
+function decodeEncryptionFields(data: Uint8Array, offset: number) {
+    return {
+        ephemeralPublicKey: data.slice(offset, offset + 32),
+        nonce: data.slice(offset + 32, offset + 44),
+        encryptedSenderKey: data.slice(offset + 44, offset + 92),
+        ciphertext: data.slice(offset + 92),
+    };
+}
+
+/**
+ * Decodes an extension block, rejecting unknown critical and duplicate extensions
+ */
+function decodeExtensions(block: Uint8Array): EnvelopeExtension[] {
+    const extensions: EnvelopeExtension[] = [];
+    const seen = new Set<number>();
+    let offset = 0;
+
+    while (offset < block.length) {
+        if (offset + 2 > block.length) {
+            throw new EnvelopeError('Truncated extension header');
+        }
+
+        const type = block[offset];
+        const length = block[offset + 1];
+        offset += 2;
+
+        if (offset + length > block.length) {
+            throw new EnvelopeError(`Truncated extension 0x${type.toString(16)}`);
+        }
+        if (seen.has(type)) {
+            throw new EnvelopeError(`Duplicate extension 0x${type.toString(16)}`);
+        }
+        if ((type & EXTENSION_TYPES.CRITICAL) !== 0 && !KNOWN_EXTENSIONS.has(type)) {
+            throw new EnvelopeError(`Unsupported critical extension 0x${type.toString(16)}`);
+        }
+
+        seen.add(type);
+        extensions.push({ type, value: block.slice(offset, offset + length) });
+        offset += length;
+    }
+
+    return extensions;
+}
+
+/**
+ * Encodes the v2 header up to the sender key
+ */
+function encodeV2Header(flags: number, extensions: EnvelopeExtension[]): Uint8Array {
+    const size = extensionsSize(extensions);
+    if (size > PROTOCOL_V2.MAX_EXTENSIONS_SIZE) {
+        throw new EnvelopeError(`Extensions too long: ${size} bytes, max ${PROTOCOL_V2.MAX_EXTENSIONS_SIZE}`);
+    }
+
+    const header = new Uint8Array(5 + size);
+    header[0] = PROTOCOL_V2.VERSION;
+    header[1] = PROTOCOL_V2.PROTOCOL_ID;
+    header[2] = flags;
+    header[3] = size >> 8;
+    header[4] = size & 0xff;
+
+    let offset = 5;
+    for (const { type, value } of extensions) {
+        if (value.length > 255) {
+            throw new EnvelopeError(`Extension 0x${type.toString(16)} too long: ${value.length} bytes, max 255`);
+        }
+        header[offset++] = type;
+        header[offset++] = value.length;
+        header.set(value, offset);
+        offset += value.length;
+    }
+
+    return header;
+}
+
+function extensionsSize(extensions: EnvelopeExtension[]): number {
+    return extensions.reduce((sum, { value }) => sum + 2 + value.length, 0);
 }
@@ -0,0 +1,82 @@
+/**
+ * AlgoChat Web - Group Membership Signature Tests
+ */
+
+import { describe, test, expect } from 'bun:test';
+import algosdk from 'algosdk';
+import { generateGroupId, isGroupCreator, signGroupUpdate, verifyGroupUpdate, GroupError, MAX_GROUP_MEMBERS } from './group';
+import { messageCapacity, compressForEnvelope } from './encryption';
+import { encodePayload } from '../models/payload';
+
+const accounts = Array.from({ length: MAX_GROUP_MEMBERS + 1 }, () => algosdk.generateAccount());
+const [alice, bob, carol] = accounts.map(account => account.addr.toString());
+const signingKey = (index: number) => accounts[index].sk.slice(0, 32);
+
+const groupId = generateGroupId(alice);
+const membership = { groupId, epoch: 0, members: [alice, bob, carol], admins: [alice] };
+
+describe('group updates', () => {
+    test('generates random 16-byte group ids', () => {
+        expect(groupId).toMatch(/^[0-9a-f]{32}$/);
+        expect(generateGroupId(alice)).not.toBe(groupId);
+    });
+
+    test('names the creator in the group id', () => {
+        expect(isGroupCreator(groupId, alice)).toBe(true);
+        expect(isGroupCreator(groupId, bob)).toBe(false);
+        expect(isGroupCreator(generateGroupId(bob), bob)).toBe(true);
+        expect(isGroupCreator(groupId, 'NOT-AN-ADDRESS')).toBe(false);
+    });
+
+    test('verifies the signing admin', () => {
+        const update = signGroupUpdate({ ...membership, name: 'Lunch' }, signingKey(0));
+
+        expect(update.type).toBe('group-update');
+        expect(verifyGroupUpdate(update, [bob, alice])).toBe(alice);
+        expect(verifyGroupUpdate(update, [bob])).toBeUndefined();
+    });
+
+    test('rejects updates signed by a non-admin or changed after signing', () => {
+        const forged = signGroupUpdate(membership, signingKey(1));
+        expect(verifyGroupUpdate(forged, [alice])).toBeUndefined();
+
+        const update = signGroupUpdate(membership, signingKey(0));
+        for (const changed of [
+            { ...update, epoch: 1 },
+            { ...update, members: [alice, bob] },
+            { ...update, admins: [alice, bob] },
+            { ...update, name: 'Renamed' },
+            { ...update, signature: 'zz' },
+        ]) {
+            expect(verifyGroupUpdate(changed, [alice, bob])).toBeUndefined();
+        }
+    });
+
+    test('rejects invalid memberships', () => {
+        for (const invalid of [
+            { ...membership, groupId: 'group' },
+            { ...membership, epoch: -1 },
+            { ...membership, members: [alice, alice] },
+            { ...membership, admins: [] },
+            { ...membership, admins: [accounts[3].addr.toString()] },
+            { ...membership, members: [alice, 'NOT-AN-ADDRESS'] },
+            { ...membership, members: accounts.map(account => account.addr.toString()) },
+        ]) {
+            expect(() => signGroupUpdate(invalid, signingKey(0))).toThrow(GroupError);
+        }
+    });
+
+    test('a full group where everyone is an admin fits in one note', () => {
+        const members = accounts.slice(0, MAX_GROUP_MEMBERS).map(account => account.addr.toString());
+        const update = signGroupUpdate({ groupId, epoch: 1_000_000, members, admins: members, name: 'x'.repeat(64) }, signingKey(0));
+
+        const options = {
+            envelopeVersion: 2 as const,
+            compression: 'deflate' as const,
+            padding: 'bucket' as const,
+            headers: { group: { groupId, messageId: '00'.repeat(8) } },
+        };
+        const compressed = compressForEnvelope(new TextEncoder().encode(encodePayload(update)), options);
+        expect(compressed!.length).toBeLessThanOrEqual(messageCapacity(options));
+    });
+});
@@ -0,0 +1,151 @@
+/**
+ * AlgoChat Web - Group Membership Signatures
+ *
+ * A group update carries the whole membership after a change and is signed
+ * with an admin's Algorand account key over:
+ *
+ *   "AlgoChatGroupV1" || JSON [groupId, epoch, members, admins, name | null]
+ *
+ * so members can check it came from an admin, whoever relayed it.
+ *
+ * A group id starts with a tag of its creator's account key:
+ *
+ *   SHA-256("AlgoChatGroupV1" || creator public key)[0..8] || random(8)
+ *
+ * so a member with no earlier updates can tell the creator's updates from
+ * ones anyone who learned the id could sign.
+ */
+
+import algosdk from 'algosdk';
+import { ed25519 } from '@noble/curves/ed25519';
+import { randomBytes } from '@noble/ciphers/webcrypto';
+import { sha256 } from '@noble/hashes/sha256';
+import { bytesToHex, hexToBytes } from '@noble/hashes/utils';
+import type { GroupUpdatePayload } from '../models/types';
+
+const GROUP_SIGNATURE_PREFIX = new TextEncoder().encode('AlgoChatGroupV1');
+
+/** Size of the creator tag at the start of a group id, in bytes */
+const CREATOR_TAG_SIZE = 8;
+
+/**
+ * Most members a group can have, so a signed membership with every member
+ * an admin fits in one compressed note (the 16-transaction fan-out alone
+ * would allow 17)
+ */
+export const MAX_GROUP_MEMBERS = 8;
+
+/**
+ * Error thrown when a group update is invalid or cannot be signed
+ */
+export class GroupError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'GroupError';
+    }
+}
+
+/**
+ * Generates a group id (16 bytes, hex) tied to its creator
+ *
+ * @param creator - The creator's Algorand address
+ */
+export function generateGroupId(creator: string): string {
+    return bytesToHex(creatorTag(creator)) + bytesToHex(randomBytes(16 - CREATOR_TAG_SIZE));
+}
+
+/**
+ * Checks whether an address created a group, from the group id
+ */
+export function isGroupCreator(groupId: string, address: string): boolean {
+    try {
+        return groupId.slice(0, CREATOR_TAG_SIZE * 2) === bytesToHex(creatorTag(address));
+    } catch {
+        return false;
+    }
+}
+
+/**
+ * Signs a group update with an admin's account key
+ *
+ * @param update - The update without its signature
+ * @param signingKey - The admin's Ed25519 private key (32 bytes)
+ * @throws {GroupError} If the membership is invalid
+ */
+export function signGroupUpdate(
+    update: Omit<GroupUpdatePayload, 'type' | 'signature'>,
+    signingKey: Uint8Array
+): GroupUpdatePayload {
+    validateMembership(update);
+
+    const unsigned: GroupUpdatePayload = { type: 'group-update', ...update, signature: '' };
+    return { ...unsigned, signature: bytesToHex(ed25519.sign(signingBytes(unsigned), signingKey)) };
+}
+
+/**
+ * Checks that a group update was signed by one of the given admins
+ *
+ * @param admins - Addresses allowed to sign it
+ * @returns The signing admin's address, or undefined if none of them signed it
+ */
+export function verifyGroupUpdate(update: GroupUpdatePayload, admins: readonly string[]): string | undefined {
+    try {
+        validateMembership(update);
+        const signature = hexToBytes(update.signature);
+        const message = signingBytes(update);
+        return admins.find(admin => ed25519.verify(signature, message, algosdk.decodeAddress(admin).publicKey));
+    } catch {
+        return undefined;
+    }
+}
+
+/**
+ * Checks the membership of an update is well formed
+ *
+ * @throws {GroupError} If it is not
+ */
+function validateMembership(update: Omit<GroupUpdatePayload, 'type' | 'signature'>): void {
+    if (!/^[0-9a-f]{32}$/.test(update.groupId)) {
+        throw new GroupError(`Invalid group id: ${update.groupId}`);
+    }
+    if (!Number.isSafeInteger(update.epoch) || update.epoch < 0) {
+        throw new GroupError(`Invalid group epoch: ${update.epoch}`);
+    }
+    if (new Set(update.members).size !== update.members.length) {
+        throw new GroupError('Group members repeat');
+    }
+    if (update.members.length > MAX_GROUP_MEMBERS) {
+        throw new GroupError(`Too many group members: ${update.members.length}, max ${MAX_GROUP_MEMBERS}`);
+    }
+    if (update.admins.length === 0 || !update.admins.every(admin => update.members.includes(admin))) {
+        throw new GroupError('Group admins must be members, and there must be at least one');
+    }
+    for (const member of update.members) {
+        if (!algosdk.isValidAddress(member)) {
+            throw new GroupError(`Invalid group member address: ${member}`);
+        }
+    }
+}
+
+/**
+ * Tags a group id with its creator's account key
+ *
+ * @throws If the address is malformed
+ */
+function creatorTag(address: string): Uint8Array {
+    const publicKey = algosdk.decodeAddress(address).publicKey;
+    const bytes = new Uint8Array(GROUP_SIGNATURE_PREFIX.length + publicKey.length);
+    bytes.set(GROUP_SIGNATURE_PREFIX);
+    bytes.set(publicKey, GROUP_SIGNATURE_PREFIX.length);
+    return sha256(bytes).slice(0, CREATOR_TAG_SIZE);
+}
+
+function signingBytes(update: GroupUpdatePayload): Uint8Array {
+    const body = new TextEncoder().encode(
+        JSON.stringify([update.groupId, update.epoch, update.members, update.admins, update.name ?? null])
+    );
+    const bytes = new Uint8Array(GROUP_SIGNATURE_PREFIX.length + body.length);
+    bytes.set(GROUP_SIGNATURE_PREFIX);
+    bytes.set(body, GROUP_SIGNATURE_PREFIX.length);
+    return bytes;
+}
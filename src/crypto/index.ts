@@ -2,9 +2,70 @@
  * AlgoChat Web - Crypto Module
  */
 
-export { deriveEncryptionKeys, generateEphemeralKeyPair, uint8ArrayEquals } from './keys';
-export { encryptMessage, encryptReply, decryptMessage, EncryptionError } from './encryption';
-export { encodeEnvelope, decodeEnvelope, isChatMessage, EnvelopeError } from './envelope';
+export {
+    deriveEncryptionKeys,
+    deriveRotatedEncryptionKeys,
+    generateEncryptionKeys,
+    encryptionKeyId,
+    generateEphemeralKeyPair,
+    uint8ArrayEquals,
+} from './keys';
+export {
+    encryptMessage,
+    encryptPayload,
+    encryptReply,
+    encodeReply,
+    decryptMessage,
+    messageCapacity,
+    compressForEnvelope,
+    EncryptionError,
+} from './encryption';
+export { encryptChunkedMessage, reassembleChunks, assembleChunks, chunkCapacity, ChunkError, type ChunkedMessagePart } from './chunking';
+export {
+    encodeEnvelope,
+    decodeEnvelope,
+    decodeNote,
+    isChatMessage,
+    isSealedEnvelope,
+    envelopeAssociatedData,
+    encodeEnvelopeHeaders,
+    readEnvelopeHeaders,
+    maxPayloadSize,
+    encodeChunkExtension,
+    readChunkHeader,
+    EnvelopeError,
+    type DecodedNote,
+} from './envelope';
+export {
+    padPayload,
+    unpadPayload,
+    PaddingError,
+    PADDING_MARKER,
+    PADDING_HEADER_SIZE,
+    PADDING_BUCKETS,
+} from './padding';
+export {
+    encryptAttachment,
+    decryptAttachment,
+    attachmentHash,
+    AttachmentError,
+    ATTACHMENT_KEY_SIZE,
+    type EncryptedAttachment,
+} from './attachment';
+export { deflate, inflate, compressPayload, CompressionError, MAX_DECOMPRESSED_SIZE } from './compression';
+export { generateGroupId, isGroupCreator, signGroupUpdate, verifyGroupUpdate, GroupError, MAX_GROUP_MEMBERS } from './group';
+export {
+    generateChannelId,
+    generateChannelKey,
+    encryptChannelPost,
+    decryptChannelPost,
+    encodeChannelEnvelope,
+    decodeChannelEnvelope,
+    isChannelPost,
+    channelNotePrefix,
+    ChannelError,
+    CHANNEL_KEY_SIZE,
+} from './channel';
 export {
     signEncryptionKey,
     verifyEncryptionKey,
@@ -15,3 +76,25 @@ export {
     ED25519_PUBLIC_KEY_SIZE,
     X25519_PUBLIC_KEY_SIZE,
 } from './signature';
+export {
+    encodeKeyAnnouncement,
+    encodeKeyRotationAnnouncement,
+    encodeKeyRevocation,
+    parseKeyAnnouncement,
+    parseKeyRevocation,
+    senderKeyAuthenticity,
+    KEY_ANNOUNCEMENT_SIZE,
+    KEY_ROTATION_ANNOUNCEMENT_SIZE,
+    KEY_REVOCATION_SIZE,
+} from './announcement';
+export {
+    computeSafetyNumber,
+    encodeSafetyNumberPayload,
+    verifySafetyNumberPayload,
+    SafetyNumberError,
+    SAFETY_NUMBER_VERSION,
+    SAFETY_NUMBER_FINGERPRINT_SIZE,
+    SAFETY_NUMBER_PAYLOAD_SIZE,
+    type SafetyNumber,
+    type SafetyNumberParty,
+} from './safety-number';
@@ -6,6 +6,7 @@
 
 import { hkdf } from '@noble/hashes/hkdf';
 import { sha256 } from '@noble/hashes/sha256';
+import { bytesToHex } from '@noble/hashes/utils';
 import { x25519 } from '@noble/curves/ed25519';
 import type { X25519KeyPair } from '../models/types';
 
@@ -33,6 +34,51 @@ export function deriveEncryptionKeys(seed: Uint8Array): X25519KeyPair {
     return { privateKey, publicKey };
 }
 
+/**
+ * Derives a rotated X25519 key pair from an Algorand account seed
+ *
+ * Version 0 is the original key from `deriveEncryptionKeys`; every later
+ * version is independent of the others, so a leaked key can be replaced
+ * without abandoning the account. A leaked seed still exposes every
+ * version; use `generateEncryptionKeys` for keys the seed cannot recreate.
+ *
+ * @param seed - 32-byte private seed from Algorand mnemonic
+ * @param keyVersion - Rotation index (non-negative integer)
+ */
+export function deriveRotatedEncryptionKeys(seed: Uint8Array, keyVersion: number): X25519KeyPair {
+    if (!Number.isInteger(keyVersion) || keyVersion < 0 || keyVersion > 0xffffffff) {
+        throw new Error(`Key version must be a 32-bit unsigned integer, got ${keyVersion}`);
+    }
+    if (keyVersion === 0) return deriveEncryptionKeys(seed);
+    if (seed.length !== 32) {
+        throw new Error(`Seed must be 32 bytes, got ${seed.length}`);
+    }
+
+    const info = new TextEncoder().encode(`x25519-key-v${keyVersion}`);
+    const privateKey = hkdf(sha256, seed, KEY_DERIVATION_SALT, info, 32);
+    return { privateKey, publicKey: x25519.getPublicKey(privateKey) };
+}
+
+/**
+ * Generates a random X25519 key pair for use as a rotated encryption key
+ *
+ * Unlike derived keys, it cannot be recovered from the mnemonic: keep the
+ * private key in an `EncryptionKeyStorage`.
+ */
+export function generateEncryptionKeys(): X25519KeyPair {
+    return generateEphemeralKeyPair();
+}
+
+/**
+ * Short id of an encryption public key, carried in v2 envelopes so the
+ * recipient can pick the matching key after a rotation
+ *
+ * @returns The first 8 bytes of the key's SHA-256 hash, hex-encoded
+ */
+export function encryptionKeyId(publicKey: Uint8Array): string {
+    return bytesToHex(sha256(publicKey).subarray(0, 8));
+}
+
 /**
  * Generates a random X25519 key pair (for ephemeral keys)
  */
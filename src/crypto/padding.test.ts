@@ -0,0 +1,65 @@
+/**
+ * AlgoChat Web - Payload Padding Tests
+ */
+
+import { describe, test, expect } from 'bun:test';
+import { padPayload, unpadPayload, PaddingError, PADDING_HEADER_SIZE, PADDING_MARKER } from './padding';
+
+const MAX_SIZE = 882;
+
+const bytes = (text: string) => new TextEncoder().encode(text);
+
+describe('padPayload', () => {
+    test('none returns the payload unchanged', () => {
+        const payload = bytes('hello');
+        expect(padPayload(payload, 'none', MAX_SIZE)).toBe(payload);
+    });
+
+    test('bucket pads to the next bucket size', () => {
+        expect(padPayload(bytes('hi'), 'bucket', MAX_SIZE).length).toBe(64);
+        expect(padPayload(new Uint8Array(61), 'bucket', MAX_SIZE).length).toBe(64);
+        expect(padPayload(new Uint8Array(62), 'bucket', MAX_SIZE).length).toBe(128);
+        expect(padPayload(new Uint8Array(600), 'bucket', MAX_SIZE).length).toBe(MAX_SIZE);
+    });
+
+    test('random pads between the payload size and the maximum', () => {
+        const sizes = new Set<number>();
+        for (let i = 0; i < 20; i++) {
+            const padded = padPayload(bytes('hello'), 'random', MAX_SIZE);
+            expect(padded.length).toBeGreaterThanOrEqual(PADDING_HEADER_SIZE + 5);
+            expect(padded.length).toBeLessThanOrEqual(MAX_SIZE);
+            sizes.add(padded.length);
+        }
+        expect(sizes.size).toBeGreaterThan(1);
+    });
+
+    test('rejects payloads that leave no room for the header', () => {
+        expect(() => padPayload(new Uint8Array(MAX_SIZE - 2), 'bucket', MAX_SIZE)).toThrow(PaddingError);
+        expect(padPayload(new Uint8Array(MAX_SIZE - 3), 'random', MAX_SIZE).length).toBe(MAX_SIZE);
+    });
+});
+
+describe('unpadPayload', () => {
+    test('round-trips every mode', () => {
+        const payload = bytes('{"text":"hello"}');
+        for (const mode of ['bucket', 'random'] as const) {
+            expect(unpadPayload(padPayload(payload, mode, MAX_SIZE))).toEqual(payload);
+        }
+    });
+
+    test('returns legacy payloads unchanged', () => {
+        const payload = bytes('plain text');
+        expect(unpadPayload(payload)).toBe(payload);
+        expect(unpadPayload(new Uint8Array(0)).length).toBe(0);
+    });
+
+    test('round-trips an empty payload', () => {
+        expect(unpadPayload(padPayload(new Uint8Array(0), 'bucket', MAX_SIZE)).length).toBe(0);
+    });
+
+    test('rejects a length beyond the payload', () => {
+        const padded = new Uint8Array([PADDING_MARKER, 0x00, 0x10, 0x41]);
+        expect(() => unpadPayload(padded)).toThrow(PaddingError);
+        expect(() => unpadPayload(new Uint8Array([PADDING_MARKER]))).toThrow(PaddingError);
+    });
+});
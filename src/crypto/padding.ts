@@ -0,0 +1,104 @@
+/**
+ * AlgoChat Web - Payload Padding
+ *
+ * Hides message length from the ciphertext size. A padded payload is:
+ *
+ *   [0xFF][content length (2, big-endian)][content][zero padding]
+ *
+ * 0xFF never starts UTF-8 text, so padded payloads are told apart from
+ * legacy unpadded ones without a version change.
+ */
+
+import { randomBytes } from '@noble/ciphers/webcrypto';
+import type { PaddingMode } from '../models/types';
+
+/** First byte of a padded payload. */
+export const PADDING_MARKER = 0xff;
+
+/** Size of the padded payload header (marker + length). */
+export const PADDING_HEADER_SIZE = 3;
+
+/** Padded sizes used in 'bucket' mode, before the maximum payload size. */
+export const PADDING_BUCKETS = [64, 128, 256, 512] as const;
+
+/**
+ * Error thrown when a payload cannot be padded or a padded payload is malformed.
+ */
+export class PaddingError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'PaddingError';
+    }
+}
+
+/**
+ * Pads a payload before encryption.
+ *
+ * @param payload - The encoded message payload
+ * @param mode - The padding mode; 'none' returns the payload unchanged
+ * @param maxSize - The maximum payload size of the envelope format
+ * @returns The padded payload
+ * @throws {PaddingError} If the payload does not fit in `maxSize` with the padding header
+ */
+export function padPayload(payload: Uint8Array, mode: PaddingMode, maxSize: number): Uint8Array {
+    if (mode === 'none') return payload;
+
+    const minSize = PADDING_HEADER_SIZE + payload.length;
+    if (minSize > maxSize) {
+        throw new PaddingError(
+            `Message too large to pad: ${payload.length} bytes, max ${maxSize - PADDING_HEADER_SIZE}`
+        );
+    }
+
+    const size = mode === 'bucket' ? bucketSize(minSize, maxSize) : randomSize(minSize, maxSize);
+
+    const padded = new Uint8Array(size);
+    padded[0] = PADDING_MARKER;
+    padded[1] = payload.length >> 8;
+    padded[2] = payload.length & 0xff;
+    padded.set(payload, PADDING_HEADER_SIZE);
+    return padded;
+}
+
+/**
+ * Strips padding from a decrypted payload.
+ *
+ * Unpadded (legacy) payloads are returned unchanged.
+ *
+ * @param data - The decrypted payload
+ * @returns The message payload
+ * @throws {PaddingError} If the payload is marked padded but its length is invalid
+ */
+export function unpadPayload(data: Uint8Array): Uint8Array {
+    if (data.length === 0 || data[0] !== PADDING_MARKER) return data;
+
+    if (data.length < PADDING_HEADER_SIZE) {
+        throw new PaddingError('Padded payload is missing its length');
+    }
+
+    const length = (data[1] << 8) | data[2];
+    if (PADDING_HEADER_SIZE + length > data.length) {
+        throw new PaddingError(
+            `Padded payload length ${length} exceeds the ${data.length - PADDING_HEADER_SIZE} bytes available`
+        );
+    }
+
+    return data.subarray(PADDING_HEADER_SIZE, PADDING_HEADER_SIZE + length);
+}
+
+/**
+ * Smallest bucket that fits, or the maximum size.
+ */
+function bucketSize(minSize: number, maxSize: number): number {
+    return PADDING_BUCKETS.find(bucket => bucket >= minSize && bucket <= maxSize) ?? maxSize;
+}
+
+/**
+ * Uniformly random size between `minSize` and `maxSize` (inclusive).
+ */
+function randomSize(minSize: number, maxSize: number): number {
+    const range = maxSize - minSize + 1;
+    const [a, b, c, d] = randomBytes(4);
+    const value = ((a << 24) | (b << 16) | (c << 8) | d) >>> 0;
+    return minSize + (value % range);
+}
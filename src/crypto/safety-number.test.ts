@@ -0,0 +1,73 @@
+/**
+ * AlgoChat Web - Safety Number Tests
+ */
+
+import { describe, test, expect } from 'bun:test';
+import {
+    computeSafetyNumber,
+    encodeSafetyNumberPayload,
+    verifySafetyNumberPayload,
+    SafetyNumberError,
+    SAFETY_NUMBER_PAYLOAD_SIZE,
+} from './safety-number';
+
+const alice = { address: 'ALICE_ADDR', publicKey: new Uint8Array(32).fill(0x0a) };
+const bob = { address: 'BOB_ADDR', publicKey: new Uint8Array(32).fill(0x0b) };
+const mallory = { address: 'BOB_ADDR', publicKey: new Uint8Array(32).fill(0x0c) };
+
+describe('computeSafetyNumber', () => {
+    test('is the same on both sides', () => {
+        const mine = computeSafetyNumber(alice, bob);
+        const theirs = computeSafetyNumber(bob, alice);
+
+        expect(mine.numeric).toBe(theirs.numeric);
+        expect(mine.hex).toBe(theirs.hex);
+        expect(mine.localFingerprint).toEqual(theirs.remoteFingerprint);
+    });
+
+    test('formats 60 digits and 64 hex characters in groups', () => {
+        const { numeric, hex } = computeSafetyNumber(alice, bob);
+
+        expect(numeric).toMatch(/^\d{5}( \d{5}){11}$/);
+        expect(hex).toMatch(/^[0-9A-F]{4}( [0-9A-F]{4}){15}$/);
+    });
+
+    test('changes when a key or address changes', () => {
+        const original = computeSafetyNumber(alice, bob);
+
+        expect(computeSafetyNumber(alice, mallory).numeric).not.toBe(original.numeric);
+        expect(computeSafetyNumber(alice, { ...bob, address: 'CAROL_ADDR' }).numeric).not.toBe(original.numeric);
+    });
+
+    test('rejects keys that are not 32 bytes', () => {
+        expect(() => computeSafetyNumber(alice, { ...bob, publicKey: new Uint8Array(16) })).toThrow(SafetyNumberError);
+    });
+});
+
+describe('safety number payload', () => {
+    test('verifies the payload from the other device', () => {
+        const mine = computeSafetyNumber(alice, bob);
+        const theirs = computeSafetyNumber(bob, alice);
+        const payload = encodeSafetyNumberPayload(theirs);
+
+        expect(payload.length).toBe(SAFETY_NUMBER_PAYLOAD_SIZE);
+        expect(verifySafetyNumberPayload(mine, payload)).toBe(true);
+    });
+
+    test('does not verify our own payload or a different key', () => {
+        const mine = computeSafetyNumber(alice, bob);
+        const intercepted = computeSafetyNumber(mallory, alice);
+
+        expect(verifySafetyNumberPayload(mine, encodeSafetyNumberPayload(mine))).toBe(false);
+        expect(verifySafetyNumberPayload(mine, encodeSafetyNumberPayload(intercepted))).toBe(false);
+    });
+
+    test('rejects malformed payloads', () => {
+        const mine = computeSafetyNumber(alice, bob);
+        const payload = encodeSafetyNumberPayload(computeSafetyNumber(bob, alice));
+
+        expect(() => verifySafetyNumberPayload(mine, payload.slice(1))).toThrow(/65 bytes/);
+        payload[0] = 99;
+        expect(() => verifySafetyNumberPayload(mine, payload)).toThrow(/version/);
+    });
+});
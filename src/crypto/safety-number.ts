@@ -0,0 +1,193 @@
+/**
+ * AlgoChat Web - Safety Numbers
+ *
+ * A safety number covers both parties of a conversation: each side's
+ * Algorand address and X25519 public key are hashed into a fingerprint, and
+ * the two fingerprints are shown in a fixed order so both devices display the
+ * same number. If either key changes, the number changes.
+ *
+ * Each fingerprint is an iterated SHA-512 hash:
+ *
+ *   h0 = SHA-512(version (2) || publicKey || address)
+ *   hN = SHA-512(hN-1 || publicKey), 5200 times
+ *
+ * The compact verification payload lets one device scan the other's:
+ *
+ *   [version: 1][local fingerprint: 32][remote fingerprint: 32]
+ */
+
+import { sha512 } from '@noble/hashes/sha512';
+import { bytesToHex } from '@noble/hashes/utils';
+import { uint8ArrayEquals } from './keys';
+import { X25519_PUBLIC_KEY_SIZE } from './signature';
+
+/** Safety number format version. */
+export const SAFETY_NUMBER_VERSION = 1;
+
+/** Size of one party's fingerprint in bytes. */
+export const SAFETY_NUMBER_FINGERPRINT_SIZE = 32;
+
+/** Size of the verification payload in bytes. */
+export const SAFETY_NUMBER_PAYLOAD_SIZE = 1 + 2 * SAFETY_NUMBER_FINGERPRINT_SIZE;
+
+/** Hash iterations per fingerprint, slowing down search for colliding keys. */
+const ITERATIONS = 5200;
+
+/** Bytes of each fingerprint shown as digits, 5 bytes per 5-digit group. */
+const NUMERIC_BYTES = 30;
+
+/** Bytes of each fingerprint shown in the hex form. */
+const HEX_BYTES = 16;
+
+/**
+ * Error thrown when a safety number cannot be computed or a payload is malformed.
+ */
+export class SafetyNumberError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'SafetyNumberError';
+    }
+}
+
+/** One side of a conversation */
+export interface SafetyNumberParty {
+    /** The party's Algorand address */
+    address: string;
+    /** The party's X25519 public key (32 bytes) */
+    publicKey: Uint8Array;
+}
+
+/** A safety number for a pair of parties */
+export interface SafetyNumber {
+    /** 60 digits in groups of 5, identical on both devices */
+    numeric: string;
+    /** 64 hex characters in groups of 4, identical on both devices */
+    hex: string;
+    /** Our fingerprint */
+    localFingerprint: Uint8Array;
+    /** The contact's fingerprint */
+    remoteFingerprint: Uint8Array;
+}
+
+/**
+ * Computes the safety number for a conversation.
+ *
+ * Swapping `local` and `remote` gives the same `numeric` and `hex` forms.
+ *
+ * @param local - Our address and encryption public key
+ * @param remote - The contact's address and encryption public key
+ * @throws {SafetyNumberError} If a public key is not 32 bytes
+ */
+export function computeSafetyNumber(local: SafetyNumberParty, remote: SafetyNumberParty): SafetyNumber {
+    const localFingerprint = partyFingerprint(local);
+    const remoteFingerprint = partyFingerprint(remote);
+
+    const localDigits = displayDigits(localFingerprint);
+    const remoteDigits = displayDigits(remoteFingerprint);
+    const [first, second] = localDigits <= remoteDigits
+        ? [localFingerprint, remoteFingerprint]
+        : [remoteFingerprint, localFingerprint];
+
+    const digits = displayDigits(first) + displayDigits(second);
+    const hex = bytesToHex(first.slice(0, HEX_BYTES)) + bytesToHex(second.slice(0, HEX_BYTES));
+
+    return {
+        numeric: group(digits, 5),
+        hex: group(hex.toUpperCase(), 4),
+        localFingerprint,
+        remoteFingerprint,
+    };
+}
+
+/**
+ * Encodes the compact payload another device scans to verify a safety number.
+ *
+ * @param safetyNumber - The safety number computed on this device
+ * @returns The 65-byte payload (e.g. for a QR code)
+ */
+export function encodeSafetyNumberPayload(safetyNumber: SafetyNumber): Uint8Array {
+    const payload = new Uint8Array(SAFETY_NUMBER_PAYLOAD_SIZE);
+    payload[0] = SAFETY_NUMBER_VERSION;
+    payload.set(safetyNumber.localFingerprint, 1);
+    payload.set(safetyNumber.remoteFingerprint, 1 + SAFETY_NUMBER_FINGERPRINT_SIZE);
+    return payload;
+}
+
+/**
+ * Checks a payload scanned from the contact's device against our safety number.
+ *
+ * The contact's payload lists their fingerprint first, so it matches when its
+ * fingerprints are ours swapped.
+ *
+ * @param safetyNumber - The safety number computed on this device
+ * @param payload - The payload scanned from the contact's device
+ * @returns True if both devices see the same keys
+ * @throws {SafetyNumberError} If the payload is malformed or has an unknown version
+ */
+export function verifySafetyNumberPayload(safetyNumber: SafetyNumber, payload: Uint8Array): boolean {
+    if (payload.length !== SAFETY_NUMBER_PAYLOAD_SIZE) {
+        throw new SafetyNumberError(
+            `Verification payload must be ${SAFETY_NUMBER_PAYLOAD_SIZE} bytes, got ${payload.length}`
+        );
+    }
+    if (payload[0] !== SAFETY_NUMBER_VERSION) {
+        throw new SafetyNumberError(`Unsupported safety number version: ${payload[0]}`);
+    }
+
+    const theirLocal = payload.slice(1, 1 + SAFETY_NUMBER_FINGERPRINT_SIZE);
+    const theirRemote = payload.slice(1 + SAFETY_NUMBER_FINGERPRINT_SIZE);
+    return uint8ArrayEquals(theirLocal, safetyNumber.remoteFingerprint)
+        && uint8ArrayEquals(theirRemote, safetyNumber.localFingerprint);
+}
+
+/**
+ * Computes one party's iterated fingerprint.
+ */
+function partyFingerprint(party: SafetyNumberParty): Uint8Array {
+    if (party.publicKey.length !== X25519_PUBLIC_KEY_SIZE) {
+        throw new SafetyNumberError(
+            `Public key must be ${X25519_PUBLIC_KEY_SIZE} bytes, got ${party.publicKey.length}`
+        );
+    }
+
+    const address = new TextEncoder().encode(party.address);
+    const seed = new Uint8Array(2 + X25519_PUBLIC_KEY_SIZE + address.length);
+    seed[1] = SAFETY_NUMBER_VERSION;
+    seed.set(party.publicKey, 2);
+    seed.set(address, 2 + X25519_PUBLIC_KEY_SIZE);
+
+    let hash = sha512(seed);
+    const input = new Uint8Array(hash.length + X25519_PUBLIC_KEY_SIZE);
+    for (let i = 0; i < ITERATIONS; i++) {
+        input.set(hash, 0);
+        input.set(party.publicKey, hash.length);
+        hash = sha512(input);
+    }
+
+    return hash.slice(0, SAFETY_NUMBER_FINGERPRINT_SIZE);
+}
+
+/**
+ * Renders the first 30 bytes of a fingerprint as 30 digits.
+ *
+ * Each 5-byte chunk becomes a 5-digit group (big-endian value mod 100000).
+ */
+function displayDigits(fingerprint: Uint8Array): string {
+    let digits = '';
+    for (let offset = 0; offset < NUMERIC_BYTES; offset += 5) {
+        let value = 0;
+        for (let i = 0; i < 5; i++) {
+            value = value * 256 + fingerprint[offset + i];
+        }
+        digits += (value % 100000).toString().padStart(5, '0');
+    }
+    return digits;
+}
+
+function group(value: string, size: number): string {
+    const groups: string[] = [];
+    for (let i = 0; i < value.length; i += size) {
+        groups.push(value.slice(i, i + size));
+    }
+    return groups.join(' ');
+}
@@ -27,12 +27,19 @@ export enum ChatErrorCode {
     // Key discovery errors
     PUBLIC_KEY_NOT_FOUND = 'PUBLIC_KEY_NOT_FOUND',
     INVALID_ADDRESS = 'INVALID_ADDRESS',
+    KEY_CHANGED = 'KEY_CHANGED',
+    KEY_REVOKED = 'KEY_REVOKED',
 
     // Message errors
     MESSAGE_TOO_LARGE = 'MESSAGE_TOO_LARGE',
+    MESSAGE_INCOMPLETE = 'MESSAGE_INCOMPLETE',
     INVALID_ENVELOPE = 'INVALID_ENVELOPE',
     PARSE_ERROR = 'PARSE_ERROR',
 
+    // Attachment errors
+    ATTACHMENT_NOT_FOUND = 'ATTACHMENT_NOT_FOUND',
+    ATTACHMENT_CORRUPT = 'ATTACHMENT_CORRUPT',
+
     // Queue errors
     QUEUE_FULL = 'QUEUE_FULL',
     MESSAGE_EXPIRED = 'MESSAGE_EXPIRED',
@@ -211,6 +218,30 @@ export class ChatError extends Error {
         );
     }
 
+    /**
+     * Creates a key changed error
+     */
+    public static keyChanged(address: string, previousFingerprint: string, newFingerprint: string): ChatError {
+        return new ChatError(
+            ChatErrorCode.KEY_CHANGED,
+            `Encryption key for ${address} changed from ${previousFingerprint} to ${newFingerprint}`,
+            undefined,
+            { address, previousFingerprint, newFingerprint }
+        );
+    }
+
+    /**
+     * Creates a key revoked error
+     */
+    public static keyRevoked(address: string, keyFingerprint: string): ChatError {
+        return new ChatError(
+            ChatErrorCode.KEY_REVOKED,
+            `Encryption key ${keyFingerprint} of ${address} has been revoked`,
+            undefined,
+            { address, fingerprint: keyFingerprint }
+        );
+    }
+
     /**
      * Creates a message too large error
      */
@@ -223,6 +254,18 @@ export class ChatError extends Error {
         );
     }
 
+    /**
+     * Creates an incomplete chunked message error
+     */
+    public static messageIncomplete(messageId: string, reason: string): ChatError {
+        return new ChatError(
+            ChatErrorCode.MESSAGE_INCOMPLETE,
+            `Incomplete message ${messageId}: ${reason}`,
+            undefined,
+            { messageId }
+        );
+    }
+
     /**
      * Creates an invalid envelope error
      */
@@ -246,6 +289,30 @@ export class ChatError extends Error {
         );
     }
 
+    /**
+     * Creates an attachment not found error
+     */
+    public static attachmentNotFound(blobId: string): ChatError {
+        return new ChatError(
+            ChatErrorCode.ATTACHMENT_NOT_FOUND,
+            `Attachment ${blobId} is not in the blob store`,
+            undefined,
+            { blobId }
+        );
+    }
+
+    /**
+     * Creates a corrupt attachment error
+     */
+    public static attachmentCorrupt(hash: string, reason: string, cause?: Error): ChatError {
+        return new ChatError(
+            ChatErrorCode.ATTACHMENT_CORRUPT,
+            `Attachment ${hash} failed verification: ${reason}`,
+            cause,
+            { hash }
+        );
+    }
+
     /**
      * Creates a queue full error
      */
@@ -319,11 +386,21 @@ export class ChatError extends Error {
                 return 'You do not have enough ALGO to send this message.';
             case ChatErrorCode.PUBLIC_KEY_NOT_FOUND:
                 return 'This user has not published their encryption key yet.';
+            case ChatErrorCode.KEY_CHANGED:
+                return 'The encryption key of this contact has changed. Verify it before continuing.';
+            case ChatErrorCode.KEY_REVOKED:
+                return 'This contact revoked their encryption key. Wait for them to publish a new one.';
             case ChatErrorCode.NETWORK_ERROR:
             case ChatErrorCode.TIMEOUT:
                 return 'Network error. Please check your connection and try again.';
             case ChatErrorCode.MESSAGE_TOO_LARGE:
                 return 'Your message is too long. Please shorten it and try again.';
+            case ChatErrorCode.MESSAGE_INCOMPLETE:
+                return 'Part of this message is missing.';
+            case ChatErrorCode.ATTACHMENT_NOT_FOUND:
+                return 'This attachment is no longer available.';
+            case ChatErrorCode.ATTACHMENT_CORRUPT:
+                return 'This attachment is damaged and cannot be opened.';
             default:
                 return this.message;
         }
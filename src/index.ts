@@ -44,25 +44,64 @@ export type {
     ReplyContext,
     Message,
     MessageDirection,
+    MessageAuthenticity,
     Conversation as ConversationData,
     SendResult,
     SendOptions,
     SendReplyContext,
+    KeyRotationOptions,
     DiscoveredKey,
+    KeyHistoryEntry,
+    KeyRevocation,
+    KeyRevocationReason,
     PendingMessage,
     PendingMessageStatus,
     EncryptionOptions,
+    PaddingMode,
+    CompressionMode,
+    EnvelopeVersion,
+    EnvelopeExtension,
+    EnvelopeHeaders,
+    MessagePayload,
+    ControlPayload,
+    TextPayload,
+    ReactionPayload,
+    EditPayload,
+    DeletePayload,
+    ReadReceiptPayload,
+    DeliveryReceiptPayload,
+    AttachmentPayload,
+    AttachmentFile,
+    GroupUpdatePayload,
+    GroupMessageRef,
+    ChannelKeyPayload,
+    ChannelEnvelope,
+    ChannelKey,
+    Channel,
+    ReceiptStatus,
+    MessageEdit,
+    MessageChunk,
+    MessageError,
 } from './models/types';
 
-export { PROTOCOL, SendOptionsPresets } from './models/types';
+export { PROTOCOL, PROTOCOL_V2, CHANNEL_PROTOCOL, ENVELOPE_FLAGS, EXTENSION_TYPES, SendOptionsPresets } from './models/types';
 
-// Conversation class
+// Conversation classes
 export { Conversation } from './models/Conversation';
+export { GroupConversation } from './models/GroupConversation';
+
+// Structured payloads
+export { encodePayload, decodePayload, isControlPayload, payloadToContent, PayloadError } from './models/payload';
 
 // Storage
 export type {
     MessageCache,
     EncryptionKeyStorage,
+    KeyTrustStore,
+    KeyTrustLevel,
+    PinnedKey,
+    BlobStore,
+    ChannelKeyStore,
 } from './storage';
 
 export {
@@ -70,7 +109,10 @@ export {
     PublicKeyCache,
     InMemoryKeyStorage,
     KeyNotFoundError,
-    // FileKeyStorage - Node.js only, import from 'ts-algochat/node' if needed
+    InMemoryKeyTrustStore,
+    InMemoryBlobStore,
+    InMemoryChannelKeyStore,
+    // FileKeyStorage, FileBlobStore - Node.js only, import from 'ts-algochat/node' if needed
     PasswordRequiredError,
     DecryptionFailedError,
     InvalidKeyDataError,
@@ -79,16 +121,74 @@ export {
 // Crypto functions
 export {
     deriveEncryptionKeys,
+    deriveRotatedEncryptionKeys,
+    generateEncryptionKeys,
+    encryptionKeyId,
     generateEphemeralKeyPair,
     uint8ArrayEquals,
     encryptMessage,
+    encryptPayload,
     encryptReply,
+    encodeReply,
     decryptMessage,
+    messageCapacity,
+    compressForEnvelope,
+    encryptChunkedMessage,
+    reassembleChunks,
+    chunkCapacity,
+    ChunkError,
     encodeEnvelope,
     decodeEnvelope,
+    decodeNote,
     isChatMessage,
+    isSealedEnvelope,
+    envelopeAssociatedData,
+    encodeEnvelopeHeaders,
+    readEnvelopeHeaders,
+    maxPayloadSize,
+    encodeChunkExtension,
+    readChunkHeader,
     EncryptionError,
     EnvelopeError,
+    type DecodedNote,
+    // Padding
+    padPayload,
+    unpadPayload,
+    PaddingError,
+    PADDING_MARKER,
+    PADDING_HEADER_SIZE,
+    PADDING_BUCKETS,
+    // Attachments
+    encryptAttachment,
+    decryptAttachment,
+    attachmentHash,
+    AttachmentError,
+    ATTACHMENT_KEY_SIZE,
+    type EncryptedAttachment,
+    // Compression
+    deflate,
+    inflate,
+    compressPayload,
+    CompressionError,
+    MAX_DECOMPRESSED_SIZE,
+    // Groups
+    generateGroupId,
+    isGroupCreator,
+    signGroupUpdate,
+    verifyGroupUpdate,
+    GroupError,
+    MAX_GROUP_MEMBERS,
+    // Channels
+    generateChannelId,
+    generateChannelKey,
+    encryptChannelPost,
+    decryptChannelPost,
+    encodeChannelEnvelope,
+    decodeChannelEnvelope,
+    isChannelPost,
+    channelNotePrefix,
+    ChannelError,
+    CHANNEL_KEY_SIZE,
     // Signature functions
     signEncryptionKey,
     verifyEncryptionKey,
@@ -98,6 +198,25 @@ export {
     ED25519_SIGNATURE_SIZE,
     ED25519_PUBLIC_KEY_SIZE,
     X25519_PUBLIC_KEY_SIZE,
+    // Key announcements
+    encodeKeyAnnouncement,
+    encodeKeyRotationAnnouncement,
+    encodeKeyRevocation,
+    parseKeyRevocation,
+    senderKeyAuthenticity,
+    KEY_ANNOUNCEMENT_SIZE,
+    KEY_ROTATION_ANNOUNCEMENT_SIZE,
+    KEY_REVOCATION_SIZE,
+    // Safety numbers
+    computeSafetyNumber,
+    encodeSafetyNumberPayload,
+    verifySafetyNumberPayload,
+    SafetyNumberError,
+    SAFETY_NUMBER_VERSION,
+    SAFETY_NUMBER_FINGERPRINT_SIZE,
+    SAFETY_NUMBER_PAYLOAD_SIZE,
+    type SafetyNumber,
+    type SafetyNumberParty,
 } from './crypto';
 
 // Errors
@@ -131,6 +250,7 @@ export {
 export type {
     AlgodClient,
     IndexerClient,
+    TransactionSearchOptions,
     AlgorandConfig as BlockchainConfig,
     TransactionInfo,
     NoteTransaction,
@@ -148,13 +268,21 @@ export {
     parseKeyAnnouncement,
     discoverEncryptionKey,
     discoverEncryptionKeyFromMessages,
+    discoverKeyRevocations,
+    AlgosdkAlgodClient,
+    AlgosdkIndexerClient,
 } from './blockchain';
 
 // Services (concrete implementations)
 export {
     AlgorandService,
     type AlgorandConfig,
+    type AlgorandClients,
     type ChatAccount,
+    type PSKHandshakeSendResult,
+    type GroupSendResult,
+    type GroupChanges,
+    type ChannelSendResult,
     createChatAccountFromMnemonic,
     createRandomChatAccount,
     validateMnemonic,
@@ -165,6 +293,14 @@ export {
     type MessageIndexerConfig,
     type PaginationOptions,
     type WaitForTransactionOptions,
+    EncryptionPolicyRegistry,
+    type ContactEncryptionPolicy,
+    type EncryptionMode,
+    type ProtocolVersion,
+    KeyPinning,
+    type KeyCheckStatus,
+    type KeyChangedEvent,
+    type KeyChangedCallback,
 } from './services';
 
 // PSK (Pre-Shared Key) v1.1 Protocol
@@ -172,11 +308,20 @@ export {
     PSK_PROTOCOL,
     type PSKEnvelope,
     type PSKState,
+    type SerializedPSKState,
+    type PSKSessionSnapshot,
+    type SerializedPSKChain,
+    type SerializedPSKGeneration,
+    type SerializedPSKRekey,
     deriveSessionPSK,
     derivePositionPSK,
     derivePSKAtCounter,
     deriveHybridSymmetricKey,
     deriveSenderKey,
+    deriveChainSeed,
+    deriveNextSessionPSK,
+    PSKChain,
+    PSKChainError,
     encodePSKEnvelope,
     decodePSKEnvelope,
     isPSKMessage,
@@ -185,9 +330,69 @@ export {
     validateCounter,
     recordReceive,
     advanceSendCounter,
+    serializePSKState,
+    deserializePSKState,
+    PSKSession,
+    PSKReplayError,
+    type PSKSessionOptions,
+    type PSKStateStorage,
+    InMemoryPSKStateStorage,
+    // FilePSKStateStorage - Node.js only, import from 'ts-algochat/node' if needed
+    PSK_HANDSHAKE_TYPE,
+    type PSKHandshakeStep,
+    type PSKHandshakeState,
+    type PSKHandshakeRole,
+    type PSKHandshakePayload,
+    type PSKHandshake,
+    type PSKHandshakeMessage,
+    type PSKHandshakeResult,
+    PSKHandshakeError,
+    PSKHandshakeManager,
+    isPSKHandshakePayload,
+    parsePSKHandshakePayload,
+    encodePSKHandshakePayload,
+    deriveHandshakePSK,
+    computeHandshakeMAC,
+    PSK_REKEY_TYPE,
+    type PSKRekeyPayload,
+    type PSKGeneration,
+    type PSKGenerationKey,
+    PSKRekeyError,
+    PSKKeyring,
+    parsePSKRekeyPayload,
+    encodePSKRekeyPayload,
+    deriveRekeyPSK,
     createPSKExchangeURI,
     parsePSKExchangeURI,
+    createSignedPSKExchangeURI,
+    PSKExchangeError,
+    type SignedPSKExchangeURIOptions,
+    type ParsePSKExchangeURIOptions,
+    type PSKExchangeURI,
     encryptPSKMessage,
     decryptPSKMessage,
     PSKEncryptionError,
 } from './psk';
+
+// Double Ratchet
+export {
+    RATCHET_PROTOCOL,
+    type RatchetEnvelope,
+    type RatchetState,
+    type RatchetSessionSnapshot,
+    encodeRatchetEnvelope,
+    decodeRatchetEnvelope,
+    isRatchetMessage,
+    RatchetEnvelopeError,
+    createRatchetState,
+    ratchetEncrypt,
+    ratchetDecrypt,
+    serializeRatchetState,
+    deserializeRatchetState,
+    RatchetError,
+    RatchetSession,
+    type RatchetStateStorage,
+    InMemoryRatchetStateStorage,
+    type RatchetMessageStore,
+    InMemoryRatchetMessageStore,
+} from './ratchet';
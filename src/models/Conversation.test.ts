@@ -270,4 +270,116 @@ describe('Conversation', () => {
             expect(cloned.participantPublicKey).toBeUndefined();
         });
     });
+
+    describe('control payloads', () => {
+        const at = (minute: number) => new Date(Date.UTC(2026, 0, 1, 3, minute));
+        const original = makeMessage({ id: 'orig', content: 'helo', timestamp: at(0) });
+        const control = (id: string, minute: number, sender: string, payload: Message['payload']) =>
+            makeMessage({
+                id,
+                sender,
+                recipient: sender === 'ALICE' ? 'BOB' : 'ALICE',
+                content: '',
+                timestamp: at(minute),
+                payload,
+            });
+
+        test('keeps control messages out of the timeline', () => {
+            const conv = new Conversation('BOB', undefined, [
+                original,
+                control('r1', 1, 'BOB', { type: 'reaction', targetId: 'orig', emoji: '👍' }),
+            ]);
+
+            expect(conv.messages.map(m => m.id)).toEqual(['orig']);
+            expect(conv.controlMessages.map(m => m.id)).toEqual(['r1']);
+            expect(conv.hasMessage('r1')).toBe(false);
+        });
+
+        test('aggregates reactions and removals', () => {
+            const conv = new Conversation('BOB', undefined, [
+                original,
+                control('r1', 1, 'BOB', { type: 'reaction', targetId: 'orig', emoji: '👍' }),
+                control('r2', 2, 'ALICE', { type: 'reaction', targetId: 'orig', emoji: '👍' }),
+                control('r3', 3, 'BOB', { type: 'reaction', targetId: 'orig', emoji: '🎉' }),
+                control('r4', 4, 'BOB', { type: 'reaction', targetId: 'orig', emoji: '🎉', remove: true }),
+            ]);
+
+            expect(conv.getMessage('orig')?.reactions).toEqual({ '👍': ['BOB', 'ALICE'] });
+        });
+
+        test('edits replace content and keep the history', () => {
+            const conv = new Conversation('BOB', undefined, [original]);
+            conv.append(control('e1', 1, 'ALICE', { type: 'edit', targetId: 'orig', text: 'hello' }));
+            conv.append(control('e2', 2, 'ALICE', { type: 'edit', targetId: 'orig', text: 'hello!' }));
+
+            const edited = conv.getMessage('orig')!;
+            expect(edited.content).toBe('hello!');
+            expect(edited.editHistory).toEqual([
+                { content: 'helo', editedAt: at(1), editId: 'e1' },
+                { content: 'hello', editedAt: at(2), editId: 'e2' },
+            ]);
+        });
+
+        test('ignores edits and deletes from the other party', () => {
+            const conv = new Conversation('BOB', undefined, [
+                original,
+                control('e1', 1, 'BOB', { type: 'edit', targetId: 'orig', text: 'forged' }),
+                control('d1', 2, 'BOB', { type: 'delete', targetId: 'orig' }),
+            ]);
+
+            expect(conv.getMessage('orig')).toMatchObject({ content: 'helo' });
+            expect(conv.getMessage('orig')?.deleted).toBeUndefined();
+        });
+
+        test('deletes hide the original', () => {
+            const conv = new Conversation('BOB', undefined, [
+                original,
+                control('r1', 1, 'BOB', { type: 'reaction', targetId: 'orig', emoji: '👍' }),
+                control('d1', 2, 'ALICE', { type: 'delete', targetId: 'orig' }),
+                control('e1', 3, 'ALICE', { type: 'edit', targetId: 'orig', text: 'back again' }),
+            ]);
+
+            const deleted = conv.getMessage('orig')!;
+            expect(deleted.deleted).toBe(true);
+            expect(deleted.content).toBe('');
+            expect(deleted.reactions).toBeUndefined();
+            expect(conv.searchMessages('helo')).toEqual([]);
+        });
+
+        test('receipts from the recipient update the status', () => {
+            const second = makeMessage({ id: 'second', timestamp: at(1) });
+            const conv = new Conversation('BOB', undefined, [
+                original,
+                second,
+                control('dr', 2, 'BOB', { type: 'delivery-receipt', targetIds: ['orig', 'second'] }),
+                control('rr', 3, 'BOB', { type: 'read-receipt', targetIds: ['orig'] }),
+                control('late', 4, 'BOB', { type: 'delivery-receipt', targetIds: ['orig'] }),
+                control('self', 5, 'ALICE', { type: 'read-receipt', targetIds: ['second'] }),
+            ]);
+
+            expect(conv.getMessage('orig')?.receiptStatus).toBe('read');
+            expect(conv.getMessage('second')?.receiptStatus).toBe('delivered');
+        });
+
+        test('applies controls that arrive before their target', () => {
+            const conv = new Conversation('BOB');
+            conv.append(control('e1', 1, 'ALICE', { type: 'edit', targetId: 'orig', text: 'hello' }));
+            expect(conv.isEmpty).toBe(true);
+
+            conv.append(original);
+            expect(conv.getMessage('orig')?.content).toBe('hello');
+            expect(original.content).toBe('helo');
+        });
+
+        test('serializes controls so they are re-applied', () => {
+            const conv = new Conversation('BOB', undefined, [
+                original,
+                control('e1', 1, 'ALICE', { type: 'edit', targetId: 'orig', text: 'hello' }),
+            ]);
+
+            const restored = Conversation.fromJSON(JSON.parse(JSON.stringify(conv.toJSON())));
+            expect(restored.messages.map(m => m.content)).toEqual(['hello']);
+            expect(restored.controlMessages.length).toBe(1);
+        });
+    });
 });
@@ -4,15 +4,28 @@
  * Provides a rich interface for managing conversations with helper methods.
  */
 
-import type { Message, MessageDirection } from './types';
+import type { Message, MessageDirection, ReceiptStatus } from './types';
+import { isControlPayload } from './payload';
 
 /**
  * Represents a conversation with another user
  *
  * Provides helper methods for accessing messages, merging updates,
  * and tracking conversation state.
+ *
+ * Messages with a control payload (reaction, edit, delete, receipt) stay out
+ * of the timeline and are applied to their target messages instead:
+ * reactions aggregate, edits replace content and keep the history, deletes
+ * clear the content, and receipts set the receipt status. Edits and deletes
+ * only apply to the sender's own messages, receipts only from the recipient.
+ * Controls that arrive before their target are applied once it arrives.
  */
 export class Conversation {
+    /** Timeline messages as received, before controls are applied */
+    private _raw: Message[] = [];
+    /** Control messages, in the order they are applied */
+    private _controls: Message[] = [];
+    /** Timeline messages with controls applied */
     private _messages: Message[] = [];
 
     /**
@@ -30,9 +43,7 @@ export class Conversation {
         public lastFetchedRound?: number
     ) {
         if (messages.length > 0) {
-            this._messages = [...messages].sort(
-                (a, b) => a.timestamp.getTime() - b.timestamp.getTime()
-            );
+            this.merge(messages);
         }
     }
 
@@ -135,14 +146,7 @@ export class Conversation {
      * @returns true if message was added, false if it already existed
      */
     public append(message: Message): boolean {
-        // Check for duplicate
-        if (this._messages.some(m => m.id === message.id)) {
-            return false;
-        }
-
-        this._messages.push(message);
-        this._messages.sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
-        return true;
+        return this.merge([message]) > 0;
     }
 
     /**
@@ -151,22 +155,24 @@ export class Conversation {
      * Duplicates are ignored. Messages are sorted after merge.
      *
      * @param messages - Messages to merge
-     * @returns Number of new messages added
+     * @returns Number of new messages added (including control messages)
      */
     public merge(messages: Message[]): number {
-        const existingIds = new Set(this._messages.map(m => m.id));
+        const existingIds = new Set([...this._raw, ...this._controls].map(m => m.id));
         let added = 0;
 
         for (const message of messages) {
             if (!existingIds.has(message.id)) {
-                this._messages.push(message);
+                (isControlPayload(message.payload) ? this._controls : this._raw).push(message);
                 existingIds.add(message.id);
                 added++;
             }
         }
 
         if (added > 0) {
-            this._messages.sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+            this._raw.sort(compareMessages);
+            this._controls.sort(compareMessages);
+            this.applyControls();
         }
 
         return added;
@@ -210,6 +216,13 @@ export class Conversation {
         return this._messages.some(m => m.id === id);
     }
 
+    /**
+     * Gets the control messages (reactions, edits, deletes, receipts)
+     */
+    public get controlMessages(): Message[] {
+        return [...this._controls];
+    }
+
     /**
      * Gets messages after a specific round
      *
@@ -240,10 +253,83 @@ export class Conversation {
         );
     }
 
+    // MARK: - Control Payloads
+
+    /**
+     * Rebuilds the timeline from the raw messages and control messages
+     */
+    private applyControls(): void {
+        const byId = new Map<string, Message>();
+        this._messages = this._raw.map(message => {
+            const { reactions: _r, editHistory: _e, deleted: _d, receiptStatus: _s, ...base } = message;
+            const copy: Message = { ...base };
+            byId.set(copy.id, copy);
+            return copy;
+        });
+
+        for (const control of this._controls) {
+            const payload = control.payload!;
+
+            switch (payload.type) {
+                case 'reaction': {
+                    const target = byId.get(payload.targetId);
+                    if (!target || target.deleted) break;
+
+                    const reactions = { ...target.reactions };
+                    const senders = (reactions[payload.emoji] ?? []).filter(sender => sender !== control.sender);
+                    if (!payload.remove) senders.push(control.sender);
+
+                    if (senders.length > 0) {
+                        reactions[payload.emoji] = senders;
+                    } else {
+                        delete reactions[payload.emoji];
+                    }
+                    target.reactions = Object.keys(reactions).length > 0 ? reactions : undefined;
+                    break;
+                }
+                case 'edit': {
+                    const target = byId.get(payload.targetId);
+                    if (!target || target.deleted || target.sender !== control.sender) break;
+
+                    target.editHistory = [
+                        ...(target.editHistory ?? []),
+                        { content: target.content, editedAt: control.timestamp, editId: control.id },
+                    ];
+                    target.content = payload.text;
+                    break;
+                }
+                case 'delete': {
+                    const target = byId.get(payload.targetId);
+                    if (!target || target.sender !== control.sender) break;
+
+                    target.deleted = true;
+                    target.content = '';
+                    target.reactions = undefined;
+                    target.editHistory = undefined;
+                    target.replyContext = undefined;
+                    break;
+                }
+                case 'read-receipt':
+                case 'delivery-receipt': {
+                    const status: ReceiptStatus = payload.type === 'read-receipt' ? 'read' : 'delivered';
+                    for (const id of payload.targetIds) {
+                        const target = byId.get(id);
+                        if (!target || target.recipient !== control.sender) continue;
+                        if (target.receiptStatus !== 'read') target.receiptStatus = status;
+                    }
+                    break;
+                }
+            }
+        }
+    }
+
     // MARK: - Serialization
 
     /**
      * Converts to a plain object for serialization
+     *
+     * Messages are serialized as received, control messages included, so
+     * `fromJSON` re-applies them.
      */
     public toJSON(): {
         participant: string;
@@ -256,7 +342,7 @@ export class Conversation {
             participantPublicKey: this.participantPublicKey
                 ? bytesToBase64(this.participantPublicKey)
                 : undefined,
-            messages: this._messages,
+            messages: [...this._raw, ...this._controls].sort(compareMessages),
             lastFetchedRound: this.lastFetchedRound,
         };
     }
@@ -290,7 +376,7 @@ export class Conversation {
         return new Conversation(
             this.participant,
             this.participantPublicKey ? new Uint8Array(this.participantPublicKey) : undefined,
-            [...this._messages],
+            [...this._raw, ...this._controls],
             this.lastFetchedRound
         );
     }
@@ -298,6 +384,12 @@ export class Conversation {
 
 // MARK: - Helpers
 
+function compareMessages(a: Message, b: Message): number {
+    const timeDiff = a.timestamp.getTime() - b.timestamp.getTime();
+    if (timeDiff !== 0) return timeDiff;
+    return (a.intraRoundOffset ?? 0) - (b.intraRoundOffset ?? 0);
+}
+
 function bytesToBase64(bytes: Uint8Array): string {
     let binary = '';
     for (let i = 0; i < bytes.length; i++) {
@@ -0,0 +1,119 @@
+import { describe, expect, test } from 'bun:test';
+import algosdk from 'algosdk';
+import { GroupConversation } from './GroupConversation';
+import { generateGroupId, signGroupUpdate } from '../crypto/group';
+import type { GroupUpdatePayload, Message } from './types';
+
+const accounts = Array.from({ length: 4 }, () => algosdk.generateAccount());
+const [alice, bob, carol, mallory] = accounts.map(account => account.addr.toString());
+const keyOf = (address: string) => accounts.find(account => account.addr.toString() === address)!.sk.slice(0, 32);
+
+const groupId = generateGroupId(alice);
+let nextId = 0;
+
+function makeMessage(overrides: Partial<Message>): Message {
+    const id = `tx${++nextId}`;
+    return {
+        id,
+        sender: alice,
+        recipient: bob,
+        content: 'hello',
+        timestamp: new Date(Date.UTC(2026, 0, 1, 0, nextId)),
+        confirmedRound: 100 + nextId,
+        direction: 'received',
+        group: { groupId, messageId: nextId.toString(16).padStart(16, '0') },
+        ...overrides,
+    };
+}
+
+function updateMessage(signer: string, update: Omit<GroupUpdatePayload, 'type' | 'signature' | 'groupId'>): Message {
+    const payload = signGroupUpdate({ groupId, ...update }, keyOf(signer));
+    return makeMessage({ sender: signer, content: '', payload });
+}
+
+const created = updateMessage(alice, { epoch: 0, members: [alice, bob], admins: [alice], name: 'Lunch' });
+const carolAdded = updateMessage(alice, { epoch: 1, members: [alice, bob, carol], admins: [alice, carol] });
+const bobRemoved = updateMessage(carol, { epoch: 2, members: [alice, carol], admins: [alice, carol] });
+
+describe('GroupConversation', () => {
+    test('starts without membership', () => {
+        const group = new GroupConversation(groupId);
+        expect(group.epoch).toBe(-1);
+        expect(group.members).toEqual([]);
+        expect(group.isMember(alice)).toBe(false);
+        expect(group.messages).toEqual([]);
+    });
+
+    test('applies a chain of admin-signed updates', () => {
+        const group = new GroupConversation(groupId, [bobRemoved, created, carolAdded]);
+
+        expect(group.epoch).toBe(2);
+        expect(group.members).toEqual([alice, carol]);
+        expect(group.isAdmin(carol)).toBe(true);
+        expect(group.isMember(bob)).toBe(false);
+        expect(group.name).toBeUndefined();
+        expect(group.updates.map(message => message.id)).toEqual([created.id, carolAdded.id, bobRemoved.id]);
+    });
+
+    test('starts from the first update a late member received', () => {
+        const group = new GroupConversation(groupId, [carolAdded]);
+        expect(group.epoch).toBe(1);
+        expect(group.members).toEqual([alice, bob, carol]);
+    });
+
+    test('ignores a first update not signed by the creator', () => {
+        const forgedGenesis = updateMessage(mallory, { epoch: 0, members: [mallory, carol], admins: [mallory] });
+        const forgedLater = updateMessage(mallory, { epoch: 1, members: [mallory, carol], admins: [mallory] });
+        const fromCarol = makeMessage({ sender: carol, content: 'hi' });
+
+        const late = new GroupConversation(groupId, [forgedGenesis, carolAdded, fromCarol]);
+        expect(late.epoch).toBe(1);
+        expect(late.members).toEqual([alice, bob, carol]);
+        expect(late.admins).toEqual([alice, carol]);
+        expect(late.messages.map(m => m.id)).toEqual([fromCarol.id]);
+
+        expect(new GroupConversation(groupId, [forgedLater]).epoch).toBe(-1);
+    });
+
+    test('ignores updates from non-admins, skipped epochs and replays', () => {
+        const byMember = updateMessage(bob, { epoch: 1, members: [alice, bob, mallory], admins: [alice] });
+        const skipped = updateMessage(alice, { epoch: 3, members: [alice], admins: [alice] });
+        const selfSigned = updateMessage(mallory, { epoch: 1, members: [mallory, bob], admins: [mallory] });
+        const replayed = { ...makeMessage({}), payload: created.payload };
+
+        const group = new GroupConversation(groupId, [created, byMember, skipped, selfSigned, replayed]);
+        expect(group.epoch).toBe(0);
+        expect(group.members).toEqual([alice, bob]);
+        expect(group.name).toBe('Lunch');
+    });
+
+    test('keeps the earlier of two updates for one epoch', () => {
+        const renamed = updateMessage(alice, { epoch: 1, members: [alice, bob], admins: [alice], name: 'Dinner' });
+        const group = new GroupConversation(groupId, [created, carolAdded, renamed]);
+
+        expect(group.epoch).toBe(1);
+        expect(group.isMember(carol)).toBe(true);
+        expect(group.name).toBeUndefined();
+    });
+
+    test('merges copies of a group message once', () => {
+        const message = makeMessage({ sender: bob, content: 'hi all' });
+        const copy = { ...message, id: 'copy', recipient: carol };
+        const group = new GroupConversation(groupId, [created]);
+
+        expect(group.merge([message, copy])).toBe(1);
+        expect(group.merge([copy])).toBe(0);
+        expect(group.messages.map(m => m.content)).toEqual(['hi all']);
+        expect(group.lastMessage?.id).toBe(message.id);
+    });
+
+    test('leaves out other groups and senders who never were members', () => {
+        const other = makeMessage({ group: { groupId: generateGroupId(alice), messageId: '00'.repeat(8) } });
+        const direct = makeMessage({ group: undefined });
+        const outsider = makeMessage({ sender: mallory });
+        const fromBob = makeMessage({ sender: bob });
+
+        const group = new GroupConversation(groupId, [created, carolAdded, bobRemoved, other, direct, outsider, fromBob]);
+        expect(group.messages.map(m => m.id)).toEqual([fromBob.id]);
+    });
+});
@@ -0,0 +1,213 @@
+/**
+ * AlgoChat Web - Group Conversation Class
+ *
+ * Tracks the membership and timeline of a group conversation.
+ */
+
+import type { GroupUpdatePayload, Message } from './types';
+import { isControlPayload } from './payload';
+import { isGroupCreator, verifyGroupUpdate } from '../crypto/group';
+
+/** Membership of a group at one epoch */
+interface GroupState {
+    epoch: number;
+    members: string[];
+    admins: string[];
+    name?: string;
+}
+
+/**
+ * Represents a conversation with the members of a group
+ *
+ * Every member receives their own copy of a group message; copies are
+ * merged by their group message id, so the sender sees each message once.
+ *
+ * Membership comes from `group-update` messages. An update applies when it
+ * carries the next epoch and is signed by an admin of the current one; of
+ * two updates for the same epoch, the earlier wins. The first update is
+ * trusted only if the group's creator, named by the group id, signed it:
+ * members added later by the creator start from the update that added them,
+ * and no one else can forge a starting point. Messages from senders who
+ * never were members stay out of the timeline.
+ */
+export class GroupConversation {
+    /** Timeline messages, one copy per group message */
+    private _raw: Message[] = [];
+    /** Group update messages, one copy per update */
+    private _updates: Message[] = [];
+    /** Updates that were applied, in epoch order */
+    private _applied: Message[] = [];
+    /** Timeline messages from members */
+    private _messages: Message[] = [];
+    private _state?: GroupState;
+
+    /**
+     * Creates a new GroupConversation
+     *
+     * @param groupId - The group id (16 bytes, hex)
+     * @param messages - Initial messages; messages for other groups are ignored
+     */
+    constructor(
+        public readonly groupId: string,
+        messages: Message[] = []
+    ) {
+        if (messages.length > 0) {
+            this.merge(messages);
+        }
+    }
+
+    // MARK: - Membership
+
+    /**
+     * Gets the current epoch, or -1 before any update has been applied
+     */
+    public get epoch(): number {
+        return this._state?.epoch ?? -1;
+    }
+
+    /**
+     * Gets the member addresses, admins included
+     */
+    public get members(): string[] {
+        return [...(this._state?.members ?? [])];
+    }
+
+    /**
+     * Gets the admin addresses
+     */
+    public get admins(): string[] {
+        return [...(this._state?.admins ?? [])];
+    }
+
+    /**
+     * Gets the group name
+     */
+    public get name(): string | undefined {
+        return this._state?.name;
+    }
+
+    /**
+     * Checks if an address is a member
+     */
+    public isMember(address: string): boolean {
+        return this._state?.members.includes(address) ?? false;
+    }
+
+    /**
+     * Checks if an address is an admin
+     */
+    public isAdmin(address: string): boolean {
+        return this._state?.admins.includes(address) ?? false;
+    }
+
+    /**
+     * Gets the applied group update messages, in epoch order
+     */
+    public get updates(): Message[] {
+        return [...this._applied];
+    }
+
+    // MARK: - Messages
+
+    /**
+     * Gets the timeline messages in chronological order
+     */
+    public get messages(): Message[] {
+        return [...this._messages];
+    }
+
+    /**
+     * Gets the most recent message
+     */
+    public get lastMessage(): Message | undefined {
+        return this._messages.at(-1);
+    }
+
+    /**
+     * Merges messages into the group
+     *
+     * Messages for other groups, and copies of messages already merged,
+     * are ignored.
+     *
+     * @param messages - Messages to merge
+     * @returns Number of new messages added (including group updates)
+     */
+    public merge(messages: Message[]): number {
+        const existingIds = new Set([...this._raw, ...this._updates].map(groupMessageId));
+        let added = 0;
+
+        for (const message of messages) {
+            if (message.group?.groupId !== this.groupId) continue;
+
+            const id = groupMessageId(message);
+            if (existingIds.has(id)) continue;
+
+            if (message.payload?.type === 'group-update') {
+                if (message.payload.groupId !== this.groupId) continue;
+                this._updates.push(message);
+            } else if (!isControlPayload(message.payload)) {
+                this._raw.push(message);
+            } else {
+                continue;
+            }
+            existingIds.add(id);
+            added++;
+        }
+
+        if (added > 0) {
+            this._raw.sort(compareMessages);
+            this._updates.sort((a, b) => groupUpdate(a).epoch - groupUpdate(b).epoch || compareMessages(a, b));
+            this.applyUpdates();
+        }
+
+        return added;
+    }
+
+    // MARK: - Group Updates
+
+    /**
+     * Rebuilds the membership from the update messages, then the timeline
+     */
+    private applyUpdates(): void {
+        let state: GroupState | undefined;
+        const everMembers = new Set<string>();
+        this._applied = [];
+
+        for (const message of this._updates) {
+            const update = groupUpdate(message);
+            const signers = state ? (update.epoch === state.epoch + 1 ? state.admins : []) : this.creators(message);
+            if (!verifyGroupUpdate(update, signers)) continue;
+
+            state = { epoch: update.epoch, members: update.members, admins: update.admins, name: update.name };
+            update.members.forEach(member => everMembers.add(member));
+            this._applied.push(message);
+        }
+
+        this._state = state;
+        this._messages = this._raw.filter(message => everMembers.has(message.sender));
+    }
+
+    /**
+     * Gets the addresses named in an update that could be the group's creator
+     */
+    private creators(message: Message): string[] {
+        const update = groupUpdate(message);
+        return [...new Set([message.sender, ...update.members])].filter(address => isGroupCreator(this.groupId, address));
+    }
+}
+
+// MARK: - Helpers
+
+function groupUpdate(message: Message): GroupUpdatePayload {
+    return message.payload as GroupUpdatePayload;
+}
+
+function groupMessageId(message: Message): string {
+    return message.group?.messageId ?? message.id;
+}
+
+function compareMessages(a: Message, b: Message): number {
+    const timeDiff = a.timestamp.getTime() - b.timestamp.getTime();
+    if (timeDiff !== 0) return timeDiff;
+    return (a.intraRoundOffset ?? 0) - (b.intraRoundOffset ?? 0);
+}
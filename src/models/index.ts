@@ -13,12 +13,41 @@ export type {
     SendResult,
     SendOptions,
     SendReplyContext,
+    KeyRotationOptions,
     DiscoveredKey,
+    KeyHistoryEntry,
+    KeyRevocation,
+    KeyRevocationReason,
     PendingMessage,
     PendingMessageStatus,
     EncryptionOptions,
+    EnvelopeVersion,
+    EnvelopeExtension,
+    EnvelopeHeaders,
+    MessagePayload,
+    ControlPayload,
+    TextPayload,
+    ReactionPayload,
+    EditPayload,
+    DeletePayload,
+    ReadReceiptPayload,
+    DeliveryReceiptPayload,
+    AttachmentPayload,
+    AttachmentFile,
+    GroupUpdatePayload,
+    GroupMessageRef,
+    ChannelKeyPayload,
+    ChannelEnvelope,
+    ChannelKey,
+    Channel,
+    ReceiptStatus,
+    MessageEdit,
+    MessageChunk,
+    MessageError,
 } from './types';
 
-export { PROTOCOL, SendOptionsPresets } from './types';
+export { PROTOCOL, PROTOCOL_V2, CHANNEL_PROTOCOL, ENVELOPE_FLAGS, EXTENSION_TYPES, SendOptionsPresets } from './types';
 
 export { Conversation } from './Conversation';
+export { GroupConversation } from './GroupConversation';
+export { encodePayload, decodePayload, isControlPayload, payloadToContent, PayloadError } from './payload';
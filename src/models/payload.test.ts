@@ -0,0 +1,91 @@
+/**
+ * AlgoChat Web - Structured Payload Tests
+ */
+
+import { describe, test, expect } from 'bun:test';
+import { encodePayload, decodePayload, isControlPayload, payloadToContent, PayloadError } from './payload';
+import type { MessagePayload } from './types';
+
+describe('encodePayload', () => {
+    test('keeps the legacy text encoding', () => {
+        expect(encodePayload({ type: 'text', text: 'hello' })).toBe('hello');
+        expect(JSON.parse(encodePayload({ type: 'text', text: 'hi', replyTo: { txid: 'TX1', preview: 'hello' } })))
+            .toEqual({ text: 'hi', replyTo: { txid: 'TX1', preview: 'hello' } });
+    });
+
+    test('wraps text that would be read as JSON', () => {
+        const text = '{"type":"delete","targetId":"TX1"}';
+        expect(decodePayload(encodePayload({ type: 'text', text }))).toEqual({ type: 'text', text });
+    });
+
+    test('rejects missing fields', () => {
+        expect(() => encodePayload({ type: 'reaction', targetId: '', emoji: '👍' })).toThrow(PayloadError);
+        expect(() => encodePayload({ type: 'reaction', targetId: 'TX1', emoji: '' })).toThrow(PayloadError);
+        expect(() => encodePayload({ type: 'read-receipt', targetIds: [] })).toThrow(PayloadError);
+        expect(() => encodePayload({ type: 'attachment', hash: 'ab'.repeat(32), size: 1, mimeType: '', key: 'cd'.repeat(32) }))
+            .toThrow(PayloadError);
+    });
+});
+
+describe('decodePayload', () => {
+    test('round-trips every payload type', () => {
+        const payloads: MessagePayload[] = [
+            { type: 'text', text: 'plain' },
+            { type: 'text', text: 'reply', replyTo: { txid: 'TX1', preview: 'plain' } },
+            { type: 'reaction', targetId: 'TX1', emoji: '👍' },
+            { type: 'reaction', targetId: 'TX1', emoji: '👍', remove: true },
+            { type: 'edit', targetId: 'TX1', text: 'fixed' },
+            { type: 'delete', targetId: 'TX1' },
+            { type: 'read-receipt', targetIds: ['TX1', 'TX2'] },
+            { type: 'delivery-receipt', targetIds: ['TX1'] },
+            { type: 'attachment', hash: 'ab'.repeat(32), size: 42, mimeType: 'image/png', key: 'cd'.repeat(32) },
+            {
+                type: 'attachment',
+                hash: 'ab'.repeat(32),
+                blobId: 'bafybeigdyrzt',
+                size: 0,
+                mimeType: 'text/plain',
+                key: 'cd'.repeat(32),
+                name: 'notes.txt',
+                caption: 'see attached',
+            },
+            {
+                type: 'group-update',
+                groupId: 'ef'.repeat(16),
+                epoch: 2,
+                members: ['ALICE', 'BOB'],
+                admins: ['ALICE'],
+                name: 'Lunch',
+                signature: '01'.repeat(64),
+            },
+            { type: 'channel-key', channelId: 'ef'.repeat(16), epoch: 0, key: 'cd'.repeat(32), address: 'CHANNEL' },
+        ];
+
+        for (const payload of payloads) {
+            expect(decodePayload(encodePayload(payload))).toEqual(payload);
+        }
+    });
+
+    test('reads malformed and unknown payloads as text', () => {
+        for (const text of ['{not json', '{"type":"reaction","targetId":"TX1"}', '{"type":"psk-handshake","id":"00"}', '{"type":"attachment","hash":"xyz","size":1}', '{"type":"group-update","groupId":"g","epoch":-1}', '{"type":"channel-key","channelId":"c","key":"k"}']) {
+            expect(decodePayload(text)).toEqual({ type: 'text', text });
+        }
+    });
+});
+
+describe('payloadToContent', () => {
+    test('maps text and control payloads', () => {
+        expect(payloadToContent({ type: 'text', text: 'hi', replyTo: { txid: 'TX1', preview: 'p' } }))
+            .toEqual({ text: 'hi', replyToId: 'TX1', replyToPreview: 'p' });
+
+        const reaction = { type: 'reaction', targetId: 'TX1', emoji: '👍' } as const;
+        expect(payloadToContent(reaction)).toEqual({ text: '', payload: reaction });
+        expect(isControlPayload(reaction)).toBe(true);
+        expect(isControlPayload({ type: 'text', text: 'hi' })).toBe(false);
+
+        const attachment = { type: 'attachment', hash: 'ab'.repeat(32), size: 1, mimeType: 'image/png', key: 'cd'.repeat(32), caption: 'cat' } as const;
+        expect(payloadToContent(attachment)).toEqual({ text: 'cat', payload: attachment });
+        expect(isControlPayload(attachment)).toBe(false);
+        expect(isControlPayload(undefined)).toBe(false);
+    });
+});
@@ -0,0 +1,243 @@
+/**
+ * AlgoChat Web - Structured Message Payloads
+ *
+ * Text messages keep the legacy encoding: plain text, or `{text, replyTo}`
+ * JSON for replies. Other payloads are JSON objects with a `type` field:
+ *
+ *   {"type":"reaction","targetId":"TX...","emoji":"👍"}
+ *   {"type":"edit","targetId":"TX...","text":"fixed typo"}
+ *   {"type":"delete","targetId":"TX..."}
+ *   {"type":"read-receipt","targetIds":["TX..."]}
+ *   {"type":"delivery-receipt","targetIds":["TX..."]}
+ *   {"type":"attachment","hash":"...","size":1024,"mimeType":"image/png","key":"..."}
+ *   {"type":"group-update","groupId":"...","epoch":1,"members":[...],"admins":[...],"signature":"..."}
+ *   {"type":"channel-key","channelId":"...","epoch":0,"key":"...","address":"..."}
+ *
+ * Anything else decodes as text, so unknown payloads stay readable.
+ */
+
+import type { AttachmentPayload, ChannelKeyPayload, ControlPayload, DecryptedContent, GroupUpdatePayload, MessagePayload } from './types';
+
+/**
+ * Error thrown when a payload cannot be encoded
+ */
+export class PayloadError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'PayloadError';
+    }
+}
+
+/**
+ * Encodes a payload as message plaintext
+ *
+ * @throws {PayloadError} If a required field is empty
+ */
+export function encodePayload(payload: MessagePayload): string {
+    switch (payload.type) {
+        case 'text':
+            if (payload.replyTo) {
+                return JSON.stringify({ text: payload.text, replyTo: payload.replyTo });
+            }
+            // Plain text, unless it would be mistaken for JSON
+            return payload.text.startsWith('{') ? JSON.stringify({ text: payload.text }) : payload.text;
+        case 'attachment':
+            if (!isAttachment(payload)) throw new PayloadError('Attachment is missing its hash, size, MIME type or key');
+            return JSON.stringify(attachmentFields(payload));
+        case 'reaction':
+            requireId(payload.targetId);
+            if (!payload.emoji) throw new PayloadError('Reaction emoji is empty');
+            return JSON.stringify(payload.remove
+                ? { type: payload.type, targetId: payload.targetId, emoji: payload.emoji, remove: true }
+                : { type: payload.type, targetId: payload.targetId, emoji: payload.emoji });
+        case 'edit':
+            requireId(payload.targetId);
+            return JSON.stringify({ type: payload.type, targetId: payload.targetId, text: payload.text });
+        case 'delete':
+            requireId(payload.targetId);
+            return JSON.stringify({ type: payload.type, targetId: payload.targetId });
+        case 'read-receipt':
+        case 'delivery-receipt':
+            if (payload.targetIds.length === 0) throw new PayloadError('Receipt has no messages');
+            payload.targetIds.forEach(requireId);
+            return JSON.stringify({ type: payload.type, targetIds: payload.targetIds });
+        case 'group-update':
+            if (!isGroupUpdate(payload)) throw new PayloadError('Group update is missing its id, epoch, members or signature');
+            return JSON.stringify(groupUpdateFields(payload));
+        case 'channel-key':
+            if (!isChannelKey(payload)) throw new PayloadError('Channel key is missing its id, epoch, key or address');
+            return JSON.stringify(channelKeyFields(payload));
+    }
+}
+
+/**
+ * Decodes message plaintext into a payload
+ *
+ * Plain text, reply JSON, and malformed or unknown JSON decode as text.
+ */
+export function decodePayload(text: string): MessagePayload {
+    if (!text.startsWith('{')) return { type: 'text', text };
+
+    let json: Record<string, unknown>;
+    try {
+        json = JSON.parse(text);
+    } catch {
+        return { type: 'text', text };
+    }
+
+    switch (json.type) {
+        case 'attachment':
+            if (isAttachment(json)) {
+                return attachmentFields(json);
+            }
+            break;
+        case 'reaction':
+            if (isId(json.targetId) && typeof json.emoji === 'string' && json.emoji.length > 0) {
+                return json.remove === true
+                    ? { type: 'reaction', targetId: json.targetId, emoji: json.emoji, remove: true }
+                    : { type: 'reaction', targetId: json.targetId, emoji: json.emoji };
+            }
+            break;
+        case 'edit':
+            if (isId(json.targetId) && typeof json.text === 'string') {
+                return { type: 'edit', targetId: json.targetId, text: json.text };
+            }
+            break;
+        case 'delete':
+            if (isId(json.targetId)) {
+                return { type: 'delete', targetId: json.targetId };
+            }
+            break;
+        case 'read-receipt':
+        case 'delivery-receipt':
+            if (Array.isArray(json.targetIds) && json.targetIds.length > 0 && json.targetIds.every(isId)) {
+                return { type: json.type, targetIds: json.targetIds };
+            }
+            break;
+        case 'group-update':
+            if (isGroupUpdate(json)) {
+                return groupUpdateFields(json);
+            }
+            break;
+        case 'channel-key':
+            if (isChannelKey(json)) {
+                return channelKeyFields(json);
+            }
+            break;
+    }
+
+    if (typeof json.text === 'string') {
+        const replyTo = json.replyTo as { txid?: unknown; preview?: unknown } | undefined;
+        return typeof replyTo?.txid === 'string'
+            ? { type: 'text', text: json.text, replyTo: { txid: replyTo.txid, preview: String(replyTo.preview ?? '') } }
+            : { type: 'text', text: json.text };
+    }
+
+    return { type: 'text', text };
+}
+
+/**
+ * Checks if a payload acts on other messages instead of appearing in the timeline
+ */
+export function isControlPayload(payload: MessagePayload | undefined): payload is ControlPayload {
+    return payload !== undefined && payload.type !== 'text' && payload.type !== 'attachment';
+}
+
+/**
+ * Converts a payload to decrypted content
+ */
+export function payloadToContent(payload: MessagePayload): DecryptedContent {
+    if (isControlPayload(payload)) {
+        return { text: '', payload };
+    }
+    if (payload.type === 'attachment') {
+        return { text: payload.caption ?? '', payload };
+    }
+    return {
+        text: payload.text,
+        replyToId: payload.replyTo?.txid,
+        replyToPreview: payload.replyTo?.preview,
+    };
+}
+
+function isId(value: unknown): value is string {
+    return typeof value === 'string' && value.length > 0;
+}
+
+const HEX_32_BYTES = /^[0-9a-f]{64}$/;
+
+function isAttachment(value: Record<string, unknown> | AttachmentPayload): value is AttachmentPayload {
+    return (
+        typeof value.hash === 'string' && HEX_32_BYTES.test(value.hash) &&
+        typeof value.key === 'string' && HEX_32_BYTES.test(value.key) &&
+        typeof value.mimeType === 'string' && value.mimeType.length > 0 &&
+        Number.isSafeInteger(value.size) && (value.size as number) >= 0 &&
+        (value.blobId === undefined || isId(value.blobId)) &&
+        (value.name === undefined || typeof value.name === 'string') &&
+        (value.caption === undefined || typeof value.caption === 'string')
+    );
+}
+
+/** Copies the known attachment fields, in wire order */
+function attachmentFields(payload: AttachmentPayload): AttachmentPayload {
+    return {
+        type: 'attachment',
+        hash: payload.hash,
+        ...(payload.blobId !== undefined && { blobId: payload.blobId }),
+        size: payload.size,
+        mimeType: payload.mimeType,
+        key: payload.key,
+        ...(payload.name !== undefined && { name: payload.name }),
+        ...(payload.caption !== undefined && { caption: payload.caption }),
+    };
+}
+
+function isGroupUpdate(value: Record<string, unknown> | GroupUpdatePayload): value is GroupUpdatePayload {
+    return (
+        isId(value.groupId) &&
+        Number.isSafeInteger(value.epoch) && (value.epoch as number) >= 0 &&
+        Array.isArray(value.members) && value.members.every(isId) &&
+        Array.isArray(value.admins) && value.admins.length > 0 && value.admins.every(isId) &&
+        (value.name === undefined || typeof value.name === 'string') &&
+        isId(value.signature)
+    );
+}
+
+/** Copies the known group update fields, in wire order */
+function groupUpdateFields(payload: GroupUpdatePayload): GroupUpdatePayload {
+    return {
+        type: 'group-update',
+        groupId: payload.groupId,
+        epoch: payload.epoch,
+        members: payload.members,
+        admins: payload.admins,
+        ...(payload.name !== undefined && { name: payload.name }),
+        signature: payload.signature,
+    };
+}
+
+function isChannelKey(value: Record<string, unknown> | ChannelKeyPayload): value is ChannelKeyPayload {
+    return (
+        typeof value.channelId === 'string' && /^[0-9a-f]{32}$/.test(value.channelId) &&
+        Number.isSafeInteger(value.epoch) && (value.epoch as number) >= 0 &&
+        typeof value.key === 'string' && HEX_32_BYTES.test(value.key) &&
+        isId(value.address) &&
+        (value.name === undefined || typeof value.name === 'string')
+    );
+}
+
+/** Copies the known channel key fields, in wire order */
+function channelKeyFields(payload: ChannelKeyPayload): ChannelKeyPayload {
+    return {
+        type: 'channel-key',
+        channelId: payload.channelId,
+        epoch: payload.epoch,
+        key: payload.key,
+        address: payload.address,
+        ...(payload.name !== undefined && { name: payload.name }),
+    };
+}
+
+function requireId(id: string): void {
+    if (!isId(id)) throw new PayloadError('Target message ID is empty');
+}
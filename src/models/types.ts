@@ -2,6 +2,8 @@
  * AlgoChat Web - Core Types
  */
 
+import type { ChatErrorCode } from '../errors/ChatError';
+
 /** 32-byte X25519 key pair */
 export interface X25519KeyPair {
     privateKey: Uint8Array;
@@ -17,6 +19,52 @@ export interface ChatEnvelope {
     nonce: Uint8Array;
     encryptedSenderKey: Uint8Array;
     ciphertext: Uint8Array;
+    /** v2 only: flag bits (see `ENVELOPE_FLAGS`) */
+    flags?: number;
+    /** v2 only: type-length-value extension headers, in wire order */
+    extensions?: EnvelopeExtension[];
+    /**
+     * Sealed-sender envelopes only: the sender key encrypted to the recipient
+     * (48 bytes). `senderPublicKey` is then empty; `decryptMessage` recovers it.
+     */
+    sealedSender?: Uint8Array;
+}
+
+/** Envelope format version for standard messages */
+export type EnvelopeVersion = 1 | 2;
+
+/** A raw v2 extension header */
+export interface EnvelopeExtension {
+    /** Extension type (see `EXTENSION_TYPES`); types with the 0x80 bit set are critical */
+    type: number;
+    /** Extension value (at most 255 bytes) */
+    value: Uint8Array;
+}
+
+/** Typed view of the known v2 extension headers */
+export interface EnvelopeHeaders {
+    /** MIME type of the payload (default: plain text or AlgoChat JSON) */
+    contentType?: string;
+    /** Whether a PSK was mixed into the key derivation */
+    pskMode?: 'none' | 'hybrid';
+    /** When the message should no longer be shown */
+    expiresAt?: Date;
+    /** Conversation thread the message belongs to */
+    threadId?: string;
+    /** Number of filler bytes in the padding extension */
+    padding?: number;
+    /** Group conversation the message was fanned out to */
+    group?: GroupMessageRef;
+    /** Key id of the recipient key the message was encrypted to (8 bytes, hex; see `encryptionKeyId`) */
+    recipientKeyId?: string;
+}
+
+/** Identifies a group message; every member's copy carries the same ref */
+export interface GroupMessageRef {
+    /** Group id tagged with its creator (16 bytes, hex, see `generateGroupId`) */
+    groupId: string;
+    /** Random id shared by the copies of one message (8 bytes, hex) */
+    messageId: string;
 }
 
 /** Decrypted message content */
@@ -24,6 +72,162 @@ export interface DecryptedContent {
     text: string;
     replyToId?: string;
     replyToPreview?: string;
+    /** Structured payload for non-text messages (text is empty, or an attachment's caption) */
+    payload?: ControlPayload | AttachmentPayload;
+    /** One part of a chunked message (text is empty until reassembled) */
+    chunk?: MessageChunk;
+    /** Sender key recovered from a sealed-sender envelope */
+    senderPublicKey?: Uint8Array;
+}
+
+/** One part of a message split across a transaction group */
+export interface MessageChunk {
+    /** Random id shared by all chunks of the message (hex) */
+    messageId: string;
+    /** Position of this chunk, from 0 */
+    index: number;
+    /** Number of chunks in the message */
+    total: number;
+    /** This chunk's slice of the message payload */
+    data: Uint8Array;
+    /** The payload was compressed as a whole; it is decompressed after joining */
+    compressed?: boolean;
+}
+
+/** Why a message could not be read */
+export interface MessageError {
+    code: ChatErrorCode;
+    message: string;
+}
+
+/** A text message, optionally replying to another message */
+export interface TextPayload {
+    type: 'text';
+    text: string;
+    replyTo?: { txid: string; preview: string };
+}
+
+/** A file encrypted with its own key and kept in a `BlobStore` */
+export interface AttachmentPayload {
+    type: 'attachment';
+    /** SHA-256 of the encrypted blob (hex) */
+    hash: string;
+    /** Store id of the blob, when it is not `hash` (e.g. an IPFS CID) */
+    blobId?: string;
+    /** Size of the file before encryption, in bytes */
+    size: number;
+    mimeType: string;
+    /** The file's ChaCha20-Poly1305 key (hex) */
+    key: string;
+    name?: string;
+    caption?: string;
+}
+
+/** A file to send as an attachment */
+export interface AttachmentFile {
+    data: Uint8Array;
+    mimeType: string;
+    name?: string;
+    /** Text shown with the attachment */
+    caption?: string;
+}
+
+/** Adds (or with `remove`, withdraws) an emoji reaction to a message */
+export interface ReactionPayload {
+    type: 'reaction';
+    targetId: string;
+    emoji: string;
+    remove?: boolean;
+}
+
+/** Replaces the text of one of the sender's own messages */
+export interface EditPayload {
+    type: 'edit';
+    targetId: string;
+    text: string;
+}
+
+/** Tombstone hiding one of the sender's own messages */
+export interface DeletePayload {
+    type: 'delete';
+    targetId: string;
+}
+
+/** Reports that the recipient has read messages */
+export interface ReadReceiptPayload {
+    type: 'read-receipt';
+    targetIds: string[];
+}
+
+/** Reports that messages reached the recipient's device */
+export interface DeliveryReceiptPayload {
+    type: 'delivery-receipt';
+    targetIds: string[];
+}
+
+/**
+ * A group's membership after a change, signed by an admin
+ *
+ * Each update carries the whole membership, so members added later can
+ * read it without the earlier updates.
+ */
+export interface GroupUpdatePayload {
+    type: 'group-update';
+    /** Group id tagged with its creator (16 bytes, hex, see `generateGroupId`) */
+    groupId: string;
+    /** 0 when the group is created, then one more than the update it replaces */
+    epoch: number;
+    /** Member addresses, admins included */
+    members: string[];
+    /** Addresses allowed to sign the next update */
+    admins: string[];
+    name?: string;
+    /** Ed25519 signature by an admin of the previous epoch, or by the creator when created (hex) */
+    signature: string;
+}
+
+/**
+ * A broadcast channel key, sent by the channel owner to each subscriber
+ *
+ * The sender of the message is the channel owner.
+ */
+export interface ChannelKeyPayload {
+    type: 'channel-key';
+    /** Random channel id (16 bytes, hex) */
+    channelId: string;
+    /** 0 when the channel is created, one more each time the key rotates */
+    epoch: number;
+    /** The channel key for this epoch (32 bytes, hex) */
+    key: string;
+    /** Address channel posts are sent to */
+    address: string;
+    name?: string;
+}
+
+/** Payloads that act on other messages, a group or a channel instead of appearing in the timeline */
+export type ControlPayload =
+    | ReactionPayload
+    | EditPayload
+    | DeletePayload
+    | ReadReceiptPayload
+    | DeliveryReceiptPayload
+    | GroupUpdatePayload
+    | ChannelKeyPayload;
+
+/** Structured message payload */
+export type MessagePayload = TextPayload | AttachmentPayload | ControlPayload;
+
+/** Receipt status of a message, as reported by its recipient */
+export type ReceiptStatus = 'delivered' | 'read';
+
+/** An earlier version of an edited message */
+export interface MessageEdit {
+    /** Content before the edit */
+    content: string;
+    /** When the edit replaced it */
+    editedAt: Date;
+    /** Transaction ID of the edit */
+    editId: string;
 }
 
 /** Reply context for threaded messages */
@@ -35,6 +239,15 @@ export interface ReplyContext {
 /** Message direction relative to current user */
 export type MessageDirection = 'sent' | 'received';
 
+/**
+ * Whether a received message's envelope key belongs to its Algorand sender
+ *
+ * - `verified`: matches a signed key announcement or a key the user verified
+ * - `unverified`: matches the sender's known key, or no key was known to compare with
+ * - `mismatch`: differs from the sender's known key; the envelope may carry someone else's key
+ */
+export type MessageAuthenticity = 'verified' | 'unverified' | 'mismatch';
+
 /** A chat message */
 export interface Message {
     id: string;
@@ -51,6 +264,33 @@ export interface Message {
     fee?: number;
     /** Position within the confirmed round (for ordering group transactions) */
     intraRoundOffset?: number;
+    /** Payload MIME type from a v2 envelope */
+    contentType?: string;
+    /** Thread id from a v2 envelope */
+    threadId?: string;
+    /** Expiry from a v2 envelope */
+    expiresAt?: Date;
+    /** Envelope key check against the sender's known key (received messages only) */
+    authenticity?: MessageAuthenticity;
+    /**
+     * Attachment, or a reaction, edit, delete or receipt payload; the latter
+     * are applied by `Conversation`
+     */
+    payload?: ControlPayload | AttachmentPayload;
+    /** Reacting addresses by emoji (applied by `Conversation`) */
+    reactions?: Record<string, string[]>;
+    /** Earlier versions of an edited message, oldest first (applied by `Conversation`) */
+    editHistory?: MessageEdit[];
+    /** Whether the sender deleted the message; its content is cleared (applied by `Conversation`) */
+    deleted?: boolean;
+    /** Latest receipt from the recipient (applied by `Conversation`) */
+    receiptStatus?: ReceiptStatus;
+    /** Set for messages fanned out to a group conversation */
+    group?: GroupMessageRef;
+    /** Set for posts to a broadcast channel */
+    channelId?: string;
+    /** Set when the message could not be read, e.g. an incomplete chunked message; content is empty */
+    error?: MessageError;
 }
 
 /** A conversation with another user */
@@ -64,6 +304,8 @@ export interface Conversation {
 /** Result of sending a message */
 export interface SendResult {
     txid: string;
+    /** Transaction IDs of all chunks, for messages sent as a transaction group */
+    txids?: string[];
     message: Message;
     confirmedRound?: number;
     /** Transaction fee in microAlgos */
@@ -90,6 +332,12 @@ export interface SendOptions {
     replyContext?: SendReplyContext;
     /** Amount to send in microAlgos (default: 1000 = 0.001 ALGO) */
     amount?: number;
+    /** Padding for this message, overriding the encryption options */
+    padding?: PaddingMode;
+    /** Compression for this message, overriding the encryption options */
+    compression?: CompressionMode;
+    /** Extension headers for this message, merged over the encryption options (v2 envelopes only) */
+    headers?: EnvelopeHeaders;
 }
 
 /** Preset configurations for SendOptions */
@@ -102,6 +350,57 @@ export const SendOptionsPresets = {
     indexed: { waitForConfirmation: true, waitForIndexer: true } as SendOptions,
 } as const;
 
+/** Options for rotating an account's encryption key */
+export interface KeyRotationOptions {
+    /**
+     * Derive the new key from the account seed with the next rotation index
+     * instead of generating a random one (default: false). Derived keys can be
+     * recovered from the mnemonic, but are exposed along with the seed.
+     */
+    derive?: boolean;
+}
+
+/** Broadcast channel post wire format */
+export interface ChannelEnvelope {
+    version: number;
+    protocolId: number;
+    /** Channel id (16 bytes) */
+    channelId: Uint8Array;
+    /** Epoch of the key the post is encrypted with */
+    epoch: number;
+    nonce: Uint8Array;
+    ciphertext: Uint8Array;
+}
+
+/** One epoch's key of a broadcast channel */
+export interface ChannelKey {
+    /** Channel id (16 bytes, hex) */
+    channelId: string;
+    epoch: number;
+    /** Symmetric key posts of this epoch are encrypted with (32 bytes) */
+    key: Uint8Array;
+    /** Address posts are sent from */
+    owner: string;
+    /** Address posts are sent to */
+    address: string;
+    name?: string;
+}
+
+/** A broadcast channel as its owner keeps it */
+export interface Channel {
+    /** Channel id (16 bytes, hex) */
+    channelId: string;
+    /** Address posts are sent from */
+    owner: string;
+    /** Address posts are sent to */
+    address: string;
+    name?: string;
+    /** Epoch of the current key */
+    epoch: number;
+    /** Addresses the current key has been sent to */
+    subscribers: string[];
+}
+
 /** A discovered public key with metadata */
 export interface DiscoveredKey {
     /** The X25519 public key */
@@ -116,6 +415,45 @@ export interface DiscoveredKey {
     discoveredAtRound?: number;
     /** Timestamp of discovery (optional) */
     discoveredAt?: Date;
+    /** Rotation index from a key rotation announcement (absent for the original key) */
+    keyVersion?: number;
+    /** The key this one replaces, from a key rotation announcement */
+    previousKey?: Uint8Array;
+}
+
+/**
+ * One encryption key from an address's key history
+ *
+ * The discovery fields describe the key's source transaction: its newest
+ * signed announcement, or the newest message that used it when it was
+ * never announced.
+ */
+export interface KeyHistoryEntry extends DiscoveredKey {
+    /** Round the key was first seen in */
+    firstSeenRound: number;
+    /** Round the key was last seen in */
+    lastSeenRound: number;
+    /** Whether the address has published a signed revocation of the key */
+    isRevoked: boolean;
+}
+
+/** Why an encryption key was revoked */
+export type KeyRevocationReason = 'unspecified' | 'compromised' | 'superseded';
+
+/** A signed revocation of an encryption key, found on-chain */
+export interface KeyRevocation {
+    /** The revoked X25519 public key */
+    publicKey: Uint8Array;
+    /** Why the key was revoked */
+    reason: KeyRevocationReason;
+    /** Algorand address that revoked the key (optional - not all discovery methods provide this) */
+    address?: string;
+    /** Transaction ID of the revocation (optional) */
+    revokedInTx?: string;
+    /** Round number of the revocation (optional) */
+    revokedAtRound?: number;
+    /** Timestamp of the revocation (optional) */
+    revokedAt?: Date;
 }
 
 /** Status of a pending message in the send queue */
@@ -149,10 +487,41 @@ export interface PendingMessage {
     txid?: string;
 }
 
+/**
+ * Length-hiding padding applied to the payload before encryption
+ *
+ * - `none`: exact payload bytes (legacy format)
+ * - `bucket`: padded up to the next of a few fixed sizes
+ * - `random`: padded to a random size up to the maximum payload size
+ */
+export type PaddingMode = 'none' | 'bucket' | 'random';
+
+/**
+ * Compression applied to the payload before padding and encryption
+ *
+ * - `none`: payload sent as is
+ * - `deflate`: raw DEFLATE, used only when it makes the payload smaller (v2 envelopes only)
+ */
+export type CompressionMode = 'none' | 'deflate';
+
 /** Options for message encryption/decryption */
 export interface EncryptionOptions {
     /** Pre-shared key (32 bytes) for hybrid PSK+ECDH encryption; confidentiality requires compromise of both PSK and ECDH secret */
     psk?: Uint8Array;
+    /** Padding for outgoing messages (default: 'none'); padded messages are read regardless */
+    padding?: PaddingMode;
+    /** Compression for outgoing messages (default: 'none'); compressed messages are read regardless */
+    compression?: CompressionMode;
+    /** Envelope format for outgoing messages (default: 1, readable by legacy peers) */
+    envelopeVersion?: EnvelopeVersion;
+    /** Extension headers for v2 envelopes; ignored for v1 */
+    headers?: EnvelopeHeaders;
+    /**
+     * Seal the sender key to the recipient so the note does not reveal it
+     * (default: false). Requires `envelopeVersion` 2; readers without
+     * sealed-sender support reject these envelopes.
+     */
+    sealedSender?: boolean;
 }
 
 /** Protocol constants */
@@ -165,3 +534,55 @@ export const PROTOCOL = {
     MAX_PAYLOAD_SIZE: 882,
     MIN_PAYMENT: 1000,
 } as const;
+
+/** Protocol constants for v2 envelopes */
+export const PROTOCOL_V2 = {
+    VERSION: 0x02,
+    PROTOCOL_ID: 0x01,
+    /** Header size without extensions: version, protocol, flags, extension length, keys, nonce */
+    HEADER_SIZE: 129,
+    TAG_SIZE: 16,
+    /** Maximum note size; the payload gets what the header and extensions leave */
+    MAX_NOTE_SIZE: 1024,
+    /** Maximum size of the encoded extension block */
+    MAX_EXTENSIONS_SIZE: 256,
+    /** Maximum chunks per message, the size of an atomic transaction group */
+    MAX_CHUNKS: 16,
+} as const;
+
+/** Protocol constants for broadcast channel posts */
+export const CHANNEL_PROTOCOL = {
+    VERSION: 0x01,
+    PROTOCOL_ID: 0x03,
+    /** Version, protocol, channel id (16), key epoch (4), nonce (12) */
+    HEADER_SIZE: 34,
+    TAG_SIZE: 16,
+    MAX_PAYLOAD_SIZE: 974,
+} as const;
+
+/** v2 envelope flag bits */
+export const ENVELOPE_FLAGS = {
+    /** The payload uses length-hiding padding */
+    PADDED: 0x01,
+    /** The payload is DEFLATE-compressed, inside any padding */
+    DEFLATE: 0x02,
+    /** The sender key is sealed to the recipient instead of sent in the clear */
+    SEALED: 0x04,
+} as const;
+
+/** v2 extension header types */
+export const EXTENSION_TYPES = {
+    CONTENT_TYPE: 0x01,
+    PSK_MODE: 0x02,
+    EXPIRES_AT: 0x03,
+    THREAD_ID: 0x04,
+    PADDING: 0x05,
+    /** Key id of the recipient encryption key, for recipients with rotated keys */
+    RECIPIENT_KEY: 0x06,
+    /** Message id, index and total of a chunked message (critical) */
+    CHUNK: 0x86,
+    /** Group id and group message id of a fanned-out message (critical) */
+    GROUP: 0x87,
+    /** Bit marking an extension that readers must understand */
+    CRITICAL: 0x80,
+} as const;
@@ -0,0 +1,136 @@
+/**
+ * AlgoChat Web - PSK Chain Ratchet Tests
+ */
+
+import { describe, test, expect } from 'bun:test';
+import { bytesToHex } from '@noble/hashes/utils';
+import { deriveChainSeed, deriveNextSessionPSK, PSKChain, PSKChainError } from './chain';
+import { derivePositionPSK, derivePSKAtCounter } from './ratchet';
+
+const initialPSK = new Uint8Array(32).fill(0xaa);
+const senderKey = new Uint8Array(32).fill(0x01);
+const otherSenderKey = new Uint8Array(32).fill(0x02);
+
+describe('PSK Chain Derivation', () => {
+    test('seeds are deterministic and per sender', () => {
+        expect(deriveChainSeed(initialPSK, senderKey)).toEqual(deriveChainSeed(initialPSK, senderKey));
+        expect(deriveChainSeed(initialPSK, senderKey)).not.toEqual(deriveChainSeed(initialPSK, otherSenderKey));
+    });
+
+    test('chain keys differ from the stateless ratchet', () => {
+        const chain = PSKChain.create(initialPSK, senderKey);
+        expect(chain.keyAt(0)).not.toEqual(derivePSKAtCounter(initialPSK, 0));
+    });
+
+    test('each session PSK is derived from the previous one', () => {
+        const seed = deriveChainSeed(initialPSK, senderKey);
+        const session2 = deriveNextSessionPSK(deriveNextSessionPSK(seed));
+        const chain = PSKChain.create(initialPSK, senderKey);
+
+        expect(chain.keyAt(0)).toEqual(derivePositionPSK(seed, 0));
+        expect(chain.keyAt(207)).toEqual(derivePositionPSK(session2, 7));
+    });
+
+    test('keyAt does not move the chain', () => {
+        const chain = PSKChain.create(initialPSK, senderKey);
+        chain.keyAt(350);
+
+        expect(chain.currentSessionIndex).toBe(0);
+        expect(chain.keyAt(5)).toEqual(PSKChain.create(initialPSK, senderKey).keyAt(5));
+    });
+});
+
+describe('PSK Chain Erasure', () => {
+    test('advancing erases keys of passed sessions', () => {
+        const chain = PSKChain.create(initialPSK, senderKey);
+        chain.advanceTo(150);
+
+        expect(chain.currentSessionIndex).toBe(1);
+        expect(() => chain.keyAt(5)).toThrow(PSKChainError);
+        expect(() => chain.keyAt(99)).toThrow(PSKChainError);
+        expect(chain.keyAt(150)).toEqual(PSKChain.create(initialPSK, senderKey).keyAt(150));
+    });
+
+    test('serialized state contains no key material of passed sessions', () => {
+        const fresh = PSKChain.create(initialPSK, senderKey);
+        const seedHex = bytesToHex(deriveChainSeed(initialPSK, senderKey));
+        const oldKeys = [0, 5, 99].map(counter => bytesToHex(fresh.keyAt(counter)));
+
+        const chain = PSKChain.create(initialPSK, senderKey);
+        chain.advanceTo(150);
+        const json = JSON.stringify(chain.serialize());
+
+        expect(json).not.toContain(seedHex);
+        expect(json).not.toContain(bytesToHex(initialPSK));
+        for (const key of oldKeys) {
+            expect(json).not.toContain(key);
+        }
+    });
+
+    test('a restored chain cannot derive keys of passed sessions', () => {
+        const chain = PSKChain.create(initialPSK, senderKey);
+        chain.advanceTo(250);
+
+        const restored = PSKChain.deserialize(JSON.parse(JSON.stringify(chain.serialize())));
+
+        expect(restored.currentSessionIndex).toBe(2);
+        expect(() => restored.keyAt(150)).toThrow(PSKChainError);
+        expect(restored.keyAt(260)).toEqual(chain.keyAt(260));
+    });
+
+    test('erase overwrites all key material', () => {
+        const chain = PSKChain.create(initialPSK, senderKey);
+        chain.advanceTo(120, counter => counter === 50);
+        chain.erase();
+
+        const serialized = chain.serialize();
+        expect(serialized.sessionPSK).toBe('00'.repeat(32));
+        expect(serialized.skipped).toEqual({});
+    });
+});
+
+describe('PSK Chain Skipped Keys', () => {
+    test('keeps keys for late messages from passed sessions', () => {
+        const expected = PSKChain.create(initialPSK, senderKey).keyAt(50);
+
+        const chain = PSKChain.create(initialPSK, senderKey);
+        chain.advanceTo(150, counter => counter === 50);
+
+        expect(chain.skippedCounters).toEqual([50]);
+        expect(chain.keyAt(50)).toEqual(expected);
+    });
+
+    test('erases a skipped key once it is used', () => {
+        const chain = PSKChain.create(initialPSK, senderKey);
+        chain.advanceTo(150, counter => counter === 50);
+        chain.advanceTo(50);
+
+        expect(chain.skippedCounters).toEqual([]);
+        expect(() => chain.keyAt(50)).toThrow(PSKChainError);
+    });
+
+    test('never keeps the key of the counter being used', () => {
+        const chain = PSKChain.create(initialPSK, senderKey);
+        chain.advanceTo(150, () => true);
+
+        expect(chain.skippedCounters).not.toContain(150);
+        expect(chain.skippedCounters.length).toBe(100);
+    });
+
+    test('bounds the store by dropping the oldest keys', () => {
+        const chain = PSKChain.create(initialPSK, senderKey, 10);
+        chain.advanceTo(100, () => true);
+
+        expect(chain.skippedCounters).toEqual([90, 91, 92, 93, 94, 95, 96, 97, 98, 99]);
+        expect(() => chain.keyAt(89)).toThrow(PSKChainError);
+    });
+
+    test('prunes keys that can no longer arrive', () => {
+        const chain = PSKChain.create(initialPSK, senderKey);
+        chain.advanceTo(100, counter => counter >= 40);
+        chain.pruneSkippedKeys(counter => counter >= 60);
+
+        expect(chain.skippedCounters[0]).toBe(60);
+        expect(() => chain.keyAt(59)).toThrow(PSKChainError);
+    });
+});
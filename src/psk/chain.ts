@@ -0,0 +1,243 @@
+/**
+ * AlgoChat Web - PSK Chain Ratchet
+ *
+ * One-way session chain for forward-secure PSK sessions:
+ *   chainSeed = HKDF(initialPSK, senderPublicKey)
+ *   sessionPSK[0] = chainSeed, sessionPSK[n + 1] = HKDF(sessionPSK[n])
+ *   currentPSK = derivePositionPSK(sessionPSK[n], position)
+ *
+ * Each session PSK is erased once the chain moves past it, so a later
+ * compromise of the chain cannot recover keys from earlier sessions.
+ * Keys for messages still expected from erased sessions are kept in a
+ * bounded skipped-key store.
+ *
+ * Each direction has its own chain, seeded with the sender's public key.
+ */
+
+import { hkdf } from '@noble/hashes/hkdf';
+import { sha256 } from '@noble/hashes/sha256';
+import { bytesToHex, hexToBytes } from '@noble/hashes/utils';
+import { PSK_PROTOCOL, type SerializedPSKChain } from './types';
+import { derivePositionPSK } from './ratchet';
+
+const CHAIN_SALT = new TextEncoder().encode('AlgoChat-PSK-Chain');
+const CHAIN_SEED_INFO = new TextEncoder().encode('AlgoChatV1-PSK-ChainSeed');
+const CHAIN_NEXT_INFO = new TextEncoder().encode('AlgoChatV1-PSK-ChainNext');
+
+export class PSKChainError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'PSKChainError';
+    }
+}
+
+/**
+ * Derives the first session PSK of a sender's chain.
+ *
+ * @param initialPSK - The shared pre-shared key (32 bytes)
+ * @param senderPublicKey - X25519 public key of the chain's sender
+ * @returns 32-byte session PSK for session 0
+ */
+export function deriveChainSeed(initialPSK: Uint8Array, senderPublicKey: Uint8Array): Uint8Array {
+    const info = new Uint8Array(CHAIN_SEED_INFO.length + senderPublicKey.length);
+    info.set(CHAIN_SEED_INFO);
+    info.set(senderPublicKey, CHAIN_SEED_INFO.length);
+    return hkdf(sha256, initialPSK, CHAIN_SALT, info, 32);
+}
+
+/**
+ * Derives the next session PSK in a chain.
+ *
+ * @param sessionPSK - The current session PSK (32 bytes)
+ * @returns 32-byte session PSK for the next session
+ */
+export function deriveNextSessionPSK(sessionPSK: Uint8Array): Uint8Array {
+    return hkdf(sha256, sessionPSK, CHAIN_SALT, CHAIN_NEXT_INFO, 32);
+}
+
+/**
+ * One direction of a forward-secure PSK session.
+ *
+ * `keyAt` looks up a key without changing the chain; `advanceTo` ratchets
+ * the chain once the key has been used successfully, so forged messages
+ * cannot move it forward.
+ */
+export class PSKChain {
+    private constructor(
+        private sessionIndex: number,
+        private sessionPSK: Uint8Array,
+        private skipped: Map<number, Uint8Array>,
+        private readonly maxSkippedKeys: number
+    ) {}
+
+    /**
+     * Starts a chain at session 0.
+     *
+     * @param initialPSK - The shared pre-shared key (32 bytes)
+     * @param senderPublicKey - X25519 public key of the chain's sender
+     * @param maxSkippedKeys - Max keys kept for late messages from erased sessions
+     */
+    static create(
+        initialPSK: Uint8Array,
+        senderPublicKey: Uint8Array,
+        maxSkippedKeys: number = PSK_PROTOCOL.MAX_SKIPPED_KEYS
+    ): PSKChain {
+        return new PSKChain(0, deriveChainSeed(initialPSK, senderPublicKey), new Map(), maxSkippedKeys);
+    }
+
+    /**
+     * Restores a chain from its serialized form.
+     */
+    static deserialize(
+        data: SerializedPSKChain,
+        maxSkippedKeys: number = PSK_PROTOCOL.MAX_SKIPPED_KEYS
+    ): PSKChain {
+        const skipped = new Map(
+            Object.entries(data.skipped).map(([counter, key]) => [Number(counter), hexToBytes(key)])
+        );
+        return new PSKChain(data.sessionIndex, hexToBytes(data.sessionPSK), skipped, maxSkippedKeys);
+    }
+
+    /** Index of the session the chain is currently in */
+    get currentSessionIndex(): number {
+        return this.sessionIndex;
+    }
+
+    /** Counters with a stored skipped key, in ascending order */
+    get skippedCounters(): number[] {
+        return Array.from(this.skipped.keys()).sort((a, b) => a - b);
+    }
+
+    /**
+     * Gets the PSK for a counter without changing the chain.
+     *
+     * @throws PSKChainError if the counter belongs to an erased session and
+     *         its key was not kept in the skipped-key store
+     */
+    keyAt(counter: number): Uint8Array {
+        const { sessionIndex, position } = splitCounter(counter);
+
+        if (sessionIndex < this.sessionIndex) {
+            const key = this.skipped.get(counter);
+            if (!key) {
+                throw new PSKChainError(`Key for counter ${counter} has been erased`);
+            }
+            return new Uint8Array(key);
+        }
+
+        let sessionPSK = this.sessionPSK;
+        for (let i = this.sessionIndex; i < sessionIndex; i++) {
+            const next = deriveNextSessionPSK(sessionPSK);
+            if (sessionPSK !== this.sessionPSK) {
+                sessionPSK.fill(0);
+            }
+            sessionPSK = next;
+        }
+
+        const key = derivePositionPSK(sessionPSK, position);
+        if (sessionPSK !== this.sessionPSK) {
+            sessionPSK.fill(0);
+        }
+        return key;
+    }
+
+    /**
+     * Ratchets the chain to the session of a used counter.
+     *
+     * Every session PSK passed over is erased. Before that, keys for the
+     * passed-over counters accepted by `keepSkipped` are moved to the
+     * skipped-key store, dropping the oldest when it is full. A skipped key
+     * for the counter itself is erased, since it has now been used.
+     *
+     * @param counter - The counter whose key was just used
+     * @param keepSkipped - Selects counters that may still arrive later (default: none)
+     */
+    advanceTo(counter: number, keepSkipped: (counter: number) => boolean = () => false): void {
+        const { sessionIndex } = splitCounter(counter);
+
+        this.eraseSkipped(counter);
+
+        while (this.sessionIndex < sessionIndex) {
+            const base = this.sessionIndex * PSK_PROTOCOL.SESSION_SIZE;
+            for (let position = 0; position < PSK_PROTOCOL.SESSION_SIZE; position++) {
+                if (base + position !== counter && keepSkipped(base + position)) {
+                    this.skipped.set(base + position, derivePositionPSK(this.sessionPSK, position));
+                }
+            }
+
+            const next = deriveNextSessionPSK(this.sessionPSK);
+            this.sessionPSK.fill(0);
+            this.sessionPSK = next;
+            this.sessionIndex++;
+        }
+
+        this.pruneSkipped();
+    }
+
+    /**
+     * Erases skipped keys that `keepSkipped` no longer accepts.
+     */
+    pruneSkippedKeys(keepSkipped: (counter: number) => boolean): void {
+        for (const counter of Array.from(this.skipped.keys())) {
+            if (!keepSkipped(counter)) {
+                this.eraseSkipped(counter);
+            }
+        }
+    }
+
+    /**
+     * Returns the JSON-serializable state of the chain.
+     *
+     * Contains secret key material; store it as carefully as the PSK itself.
+     */
+    serialize(): SerializedPSKChain {
+        const skipped: Record<string, string> = {};
+        for (const counter of this.skippedCounters) {
+            skipped[String(counter)] = bytesToHex(this.skipped.get(counter)!);
+        }
+
+        return {
+            sessionIndex: this.sessionIndex,
+            sessionPSK: bytesToHex(this.sessionPSK),
+            skipped,
+        };
+    }
+
+    /**
+     * Overwrites all key material held by the chain.
+     */
+    erase(): void {
+        this.sessionPSK.fill(0);
+        for (const counter of Array.from(this.skipped.keys())) {
+            this.eraseSkipped(counter);
+        }
+    }
+
+    /** Drops the oldest skipped keys beyond the store limit */
+    private pruneSkipped(): void {
+        const excess = this.skipped.size - this.maxSkippedKeys;
+        if (excess <= 0) return;
+
+        for (const counter of this.skippedCounters.slice(0, excess)) {
+            this.eraseSkipped(counter);
+        }
+    }
+
+    private eraseSkipped(counter: number): void {
+        const key = this.skipped.get(counter);
+        if (key) {
+            key.fill(0);
+            this.skipped.delete(counter);
+        }
+    }
+}
+
+/**
+ * Splits a ratchet counter into session index and position.
+ */
+function splitCounter(counter: number): { sessionIndex: number; position: number } {
+    return {
+        sessionIndex: Math.floor(counter / PSK_PROTOCOL.SESSION_SIZE),
+        position: counter % PSK_PROTOCOL.SESSION_SIZE,
+    };
+}
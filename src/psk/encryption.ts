@@ -9,7 +9,9 @@
 import { chacha20poly1305 } from '@noble/ciphers/chacha';
 import { randomBytes } from '@noble/ciphers/webcrypto';
 import { generateEphemeralKeyPair, x25519ECDH, uint8ArrayEquals } from '../crypto/keys';
-import { type DecryptedContent } from '../models/types';
+import { type DecryptedContent, type PaddingMode } from '../models/types';
+import { decodePayload, payloadToContent } from '../models/payload';
+import { padPayload, unpadPayload } from '../crypto/padding';
 import { PSK_PROTOCOL, type PSKEnvelope } from './types';
 import { deriveHybridSymmetricKey, deriveSenderKey } from './ratchet';
 
@@ -28,6 +30,7 @@ export class PSKEncryptionError extends Error {
  * @param recipientPublicKey - Recipient's X25519 public key
  * @param currentPSK - Current ratchet-derived PSK (32 bytes)
  * @param ratchetCounter - Current ratchet counter value
+ * @param padding - Length-hiding padding applied before encryption (default: 'none')
  * @returns PSKEnvelope containing encrypted message
  */
 export function encryptPSKMessage(
@@ -36,6 +39,7 @@ export function encryptPSKMessage(
     recipientPublicKey: Uint8Array,
     currentPSK: Uint8Array,
     ratchetCounter: number,
+    padding: PaddingMode = 'none',
 ): PSKEnvelope {
     const messageBytes = new TextEncoder().encode(plaintext);
 
@@ -45,6 +49,8 @@ export function encryptPSKMessage(
         );
     }
 
+    const payload = padPayload(messageBytes, padding, PSK_PROTOCOL.MAX_PAYLOAD_SIZE);
+
     // Step 1: Generate ephemeral key pair
     const ephemeral = generateEphemeralKeyPair();
 
@@ -65,7 +71,7 @@ export function encryptPSKMessage(
 
     // Step 5: Encrypt message with ChaCha20-Poly1305
     const cipher = chacha20poly1305(symmetricKey, nonce);
-    const ciphertextWithTag = cipher.encrypt(messageBytes);
+    const ciphertextWithTag = cipher.encrypt(payload);
 
     // Step 6: ECDH with sender: ephemeral_private * sender_public
     const senderSharedSecret = x25519ECDH(ephemeral.privateKey, senderPublicKey);
@@ -203,27 +209,8 @@ function isKeyPublishPayload(data: Uint8Array): boolean {
 }
 
 /**
- * Parses decrypted message payload.
+ * Parses decrypted message payload, stripping padding if present.
  */
 function parseMessagePayload(data: Uint8Array): DecryptedContent {
-    const text = new TextDecoder().decode(data);
-
-    // Try JSON first
-    if (text.startsWith('{')) {
-        try {
-            const json = JSON.parse(text);
-            if (typeof json.text === 'string') {
-                return {
-                    text: json.text,
-                    replyToId: json.replyTo?.txid,
-                    replyToPreview: json.replyTo?.preview,
-                };
-            }
-        } catch {
-            // Fall through to plain text
-        }
-    }
-
-    // Plain text (legacy format)
-    return { text };
+    return payloadToContent(decodePayload(new TextDecoder().decode(unpadPayload(data))));
 }
@@ -3,9 +3,96 @@
  *
  * Encodes/decodes PSK exchange URIs for out-of-band key sharing.
  *
- * Format: algochat-psk://v1?addr=<address>&psk=<base64url>&label=<label>
+ * v1: algochat-psk://v1?addr=<address>&psk=<base64url>&label=<label>
+ *
+ * v2 adds an expiry, an optional one-time nonce, an optional password-wrapped
+ * PSK, and an Ed25519 signature by the `addr` account over all fields:
+ *
+ *   algochat-psk://v2?addr=<address>&psk=<base64url>&label=<label>
+ *       &exp=<unix seconds>&nonce=<base64url>&sig=<base64url>
+ *
+ * With a password, `psk` is replaced by `wpsk` (nonce || ChaCha20-Poly1305
+ * ciphertext) and `salt` (PBKDF2-SHA256 salt).
  */
 
+import algosdk from 'algosdk';
+import { ed25519 } from '@noble/curves/ed25519';
+import { chacha20poly1305 } from '@noble/ciphers/chacha';
+import { randomBytes } from '@noble/ciphers/webcrypto';
+import { pbkdf2 } from '@noble/hashes/pbkdf2';
+import { sha256 } from '@noble/hashes/sha256';
+
+const V1_PREFIX = 'algochat-psk://v1?';
+const V2_PREFIX = 'algochat-psk://v2?';
+const SIGNATURE_DOMAIN = 'AlgoChat-PSK-Exchange-v2';
+
+/** Default lifetime of a signed exchange URI (24 hours) */
+const DEFAULT_TTL_SECONDS = 24 * 60 * 60;
+const NONCE_SIZE = 16;
+const WRAP_SALT_SIZE = 16;
+const WRAP_NONCE_SIZE = 12;
+const WRAP_ITERATIONS = 100_000;
+
+/** Options for signed (v2) exchange URIs */
+export interface SignedPSKExchangeURIOptions {
+    /** Human-readable label */
+    label?: string;
+    /** When the link stops being accepted (default: 24 hours from now) */
+    expiresAt?: Date;
+    /** Adds a random one-time nonce, so receivers can refuse reused links */
+    oneTime?: boolean;
+    /** Wraps the PSK so the link alone does not reveal it */
+    password?: string;
+}
+
+/** Options for parsing exchange URIs */
+export interface ParsePSKExchangeURIOptions {
+    /** Password for links with a wrapped PSK */
+    password?: string;
+    /** Rejects unsigned v1 links */
+    requireSigned?: boolean;
+    /** Nonces of links already used; a link with a seen nonce is rejected, a new one is added */
+    usedNonces?: Set<string>;
+    /** Current time, for the expiry check (default: now) */
+    now?: Date;
+}
+
+/** A parsed PSK exchange URI */
+export interface PSKExchangeURI {
+    address: string;
+    psk: Uint8Array;
+    label?: string;
+    /** Whether the link was signed by `address` (v2) */
+    signed: boolean;
+    /** Expiry of a signed link */
+    expiresAt?: Date;
+    /** One-time nonce of a signed link */
+    nonce?: string;
+}
+
+/**
+ * Error thrown when an exchange URI is malformed, expired, or fails verification.
+ */
+export class PSKExchangeError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'PSKExchangeError';
+    }
+}
+
+/** The v2 fields covered by the signature, in signing order */
+interface SignedFields {
+    addr: string;
+    psk?: string;
+    wpsk?: string;
+    salt?: string;
+    label?: string;
+    exp: string;
+    nonce?: string;
+}
+
+const SIGNED_FIELD_ORDER = ['addr', 'psk', 'wpsk', 'salt', 'label', 'exp', 'nonce'] as const;
+
 /**
  * Encodes a Uint8Array to base64url (URL-safe base64 without padding).
  */
@@ -39,7 +126,12 @@ function fromBase64Url(str: string): Uint8Array {
         base64 += '=';
     }
 
-    const binary = atob(base64);
+    let binary: string;
+    try {
+        binary = atob(base64);
+    } catch {
+        throw new PSKExchangeError('Invalid base64url value in PSK exchange URI');
+    }
     const bytes = new Uint8Array(binary.length);
     for (let i = 0; i < binary.length; i++) {
         bytes[i] = binary.charCodeAt(i);
@@ -50,6 +142,8 @@ function fromBase64Url(str: string): Uint8Array {
 /**
  * Creates a PSK exchange URI for out-of-band key sharing.
  *
+ * The link is unsigned and never expires; prefer `createSignedPSKExchangeURI`.
+ *
  * @param address - Algorand address
  * @param psk - Pre-shared key (32 bytes)
  * @param label - Optional human-readable label
@@ -57,7 +151,7 @@ function fromBase64Url(str: string): Uint8Array {
  */
 export function createPSKExchangeURI(address: string, psk: Uint8Array, label?: string): string {
     const pskEncoded = toBase64Url(psk);
-    let uri = `algochat-psk://v1?addr=${encodeURIComponent(address)}&psk=${pskEncoded}`;
+    let uri = `${V1_PREFIX}addr=${encodeURIComponent(address)}&psk=${pskEncoded}`;
 
     if (label !== undefined && label.length > 0) {
         uri += `&label=${encodeURIComponent(label)}`;
@@ -66,37 +160,227 @@ export function createPSKExchangeURI(address: string, psk: Uint8Array, label?: s
     return uri;
 }
 
+/**
+ * Creates a signed (v2) PSK exchange URI.
+ *
+ * The URI is signed with the account's Ed25519 key, so the receiver can check
+ * that it was issued by `account.addr` and has not been altered.
+ *
+ * @param account - The issuing Algorand account
+ * @param psk - Pre-shared key (32 bytes)
+ * @param options - Label, expiry, one-time nonce and password
+ * @returns URI string
+ */
+export function createSignedPSKExchangeURI(
+    account: algosdk.Account,
+    psk: Uint8Array,
+    options: SignedPSKExchangeURIOptions = {}
+): string {
+    if (psk.length !== 32) {
+        throw new PSKExchangeError(`PSK must be 32 bytes, got ${psk.length}`);
+    }
+
+    const address = account.addr.toString();
+    const expiresAt = options.expiresAt ?? new Date(Date.now() + DEFAULT_TTL_SECONDS * 1000);
+
+    const fields: SignedFields = {
+        addr: address,
+        exp: String(Math.floor(expiresAt.getTime() / 1000)),
+    };
+
+    if (options.password !== undefined) {
+        const salt = randomBytes(WRAP_SALT_SIZE);
+        fields.wpsk = toBase64Url(wrapPSK(psk, options.password, salt, address));
+        fields.salt = toBase64Url(salt);
+    } else {
+        fields.psk = toBase64Url(psk);
+    }
+    if (options.label !== undefined && options.label.length > 0) {
+        fields.label = options.label;
+    }
+    if (options.oneTime) {
+        fields.nonce = toBase64Url(randomBytes(NONCE_SIZE));
+    }
+
+    const signature = ed25519.sign(signingPayload(fields), account.sk.slice(0, 32));
+
+    const query = SIGNED_FIELD_ORDER
+        .filter(name => fields[name] !== undefined)
+        .map(name => `${name}=${encodeURIComponent(fields[name]!)}`);
+    query.push(`sig=${toBase64Url(signature)}`);
+
+    return V2_PREFIX + query.join('&');
+}
+
 /**
  * Parses a PSK exchange URI.
  *
+ * Signed (v2) links are verified against the `addr` account and rejected if
+ * expired, tampered with, or (with `usedNonces`) already used. Unsigned v1
+ * links are accepted unless `requireSigned` is set.
+ *
  * @param uri - URI string to parse
- * @returns Parsed components: address, psk, and optional label
- * @throws Error if URI format is invalid
+ * @param options - Password, nonce tracking and verification options
+ * @returns Parsed components: address, psk, optional label, and signing details
+ * @throws PSKExchangeError if the URI is invalid, expired, or fails verification
  */
-export function parsePSKExchangeURI(uri: string): { address: string; psk: Uint8Array; label?: string } {
-    if (!uri.startsWith('algochat-psk://v1?')) {
-        throw new Error(`Invalid PSK exchange URI scheme: ${uri.split('?')[0]}`);
+export function parsePSKExchangeURI(uri: string, options: ParsePSKExchangeURIOptions = {}): PSKExchangeURI {
+    if (uri.startsWith(V2_PREFIX)) {
+        return parseSignedURI(new URLSearchParams(uri.slice(V2_PREFIX.length)), options);
+    }
+
+    if (!uri.startsWith(V1_PREFIX)) {
+        throw new PSKExchangeError(`Invalid PSK exchange URI scheme: ${uri.split('?')[0]}`);
+    }
+    if (options.requireSigned) {
+        throw new PSKExchangeError('PSK exchange URI is not signed');
     }
 
-    const queryString = uri.slice('algochat-psk://v1?'.length);
-    const params = new URLSearchParams(queryString);
+    const params = new URLSearchParams(uri.slice(V1_PREFIX.length));
 
     const address = params.get('addr');
     if (!address) {
-        throw new Error('Missing addr parameter in PSK exchange URI');
+        throw new PSKExchangeError('Missing addr parameter in PSK exchange URI');
     }
 
     const pskParam = params.get('psk');
     if (!pskParam) {
-        throw new Error('Missing psk parameter in PSK exchange URI');
+        throw new PSKExchangeError('Missing psk parameter in PSK exchange URI');
     }
 
-    const psk = fromBase64Url(pskParam);
-    if (psk.length !== 32) {
-        throw new Error(`PSK must be 32 bytes, got ${psk.length}`);
+    const psk = decodePSK(pskParam);
+    const label = params.get('label') ?? undefined;
+
+    return { address, psk, label, signed: false };
+}
+
+function parseSignedURI(params: URLSearchParams, options: ParsePSKExchangeURIOptions): PSKExchangeURI {
+    const fields: Partial<SignedFields> = {};
+    for (const name of SIGNED_FIELD_ORDER) {
+        const value = params.get(name);
+        if (value !== null) fields[name] = value;
     }
 
-    const label = params.get('label') ?? undefined;
+    const { addr: address, exp } = fields;
+    if (!address) {
+        throw new PSKExchangeError('Missing addr parameter in PSK exchange URI');
+    }
+    if (!exp || !/^\d+$/.test(exp)) {
+        throw new PSKExchangeError('Missing or invalid exp parameter in PSK exchange URI');
+    }
+    const sigParam = params.get('sig');
+    if (!sigParam) {
+        throw new PSKExchangeError('Missing sig parameter in PSK exchange URI');
+    }
+
+    let verifyingKey: Uint8Array;
+    try {
+        verifyingKey = algosdk.decodeAddress(address).publicKey;
+    } catch {
+        throw new PSKExchangeError('Invalid addr parameter in PSK exchange URI');
+    }
+
+    let valid = false;
+    try {
+        const signature = fromBase64Url(sigParam);
+        valid = signature.length === 64
+            && ed25519.verify(signature, signingPayload(fields as SignedFields), verifyingKey);
+    } catch {
+        valid = false;
+    }
+    if (!valid) {
+        throw new PSKExchangeError('PSK exchange URI signature is invalid');
+    }
+
+    const expiresAt = new Date(Number(exp) * 1000);
+    if ((options.now ?? new Date()).getTime() >= expiresAt.getTime()) {
+        throw new PSKExchangeError(`PSK exchange URI expired at ${expiresAt.toISOString()}`);
+    }
+
+    const { nonce } = fields;
+    if (nonce !== undefined && options.usedNonces?.has(nonce)) {
+        throw new PSKExchangeError('PSK exchange URI has already been used');
+    }
+
+    let psk: Uint8Array;
+    if (fields.wpsk !== undefined) {
+        if (options.password === undefined) {
+            throw new PSKExchangeError('PSK exchange URI requires a password');
+        }
+        if (!fields.salt) {
+            throw new PSKExchangeError('Missing salt parameter in PSK exchange URI');
+        }
+        psk = unwrapPSK(fromBase64Url(fields.wpsk), options.password, fromBase64Url(fields.salt), address);
+    } else if (fields.psk !== undefined) {
+        psk = decodePSK(fields.psk);
+    } else {
+        throw new PSKExchangeError('Missing psk parameter in PSK exchange URI');
+    }
+
+    // Only consume the nonce once the link has been fully accepted
+    if (nonce !== undefined) {
+        options.usedNonces?.add(nonce);
+    }
+
+    return { address, psk, label: fields.label, signed: true, expiresAt, nonce };
+}
+
+/**
+ * Builds the signed message: a domain tag followed by each field as
+ * length-prefixed UTF-8 (absent fields have length 0xffff)
+ */
+function signingPayload(fields: SignedFields): Uint8Array {
+    const encoder = new TextEncoder();
+    const parts: Uint8Array[] = [encoder.encode(SIGNATURE_DOMAIN)];
+
+    for (const name of SIGNED_FIELD_ORDER) {
+        const value = fields[name];
+        const bytes = value === undefined ? new Uint8Array(0) : encoder.encode(value);
+        const length = new Uint8Array(2);
+        new DataView(length.buffer).setUint16(0, value === undefined ? 0xffff : bytes.length);
+        parts.push(length, bytes);
+    }
+
+    const payload = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+    let offset = 0;
+    for (const part of parts) {
+        payload.set(part, offset);
+        offset += part.length;
+    }
+    return payload;
+}
 
-    return { address, psk, label };
+function wrapPSK(psk: Uint8Array, password: string, salt: Uint8Array, address: string): Uint8Array {
+    const key = pbkdf2(sha256, password, salt, { c: WRAP_ITERATIONS, dkLen: 32 });
+    const nonce = randomBytes(WRAP_NONCE_SIZE);
+    const ciphertext = chacha20poly1305(key, nonce, new TextEncoder().encode(address)).encrypt(psk);
+
+    const wrapped = new Uint8Array(nonce.length + ciphertext.length);
+    wrapped.set(nonce);
+    wrapped.set(ciphertext, nonce.length);
+    return wrapped;
+}
+
+function unwrapPSK(wrapped: Uint8Array, password: string, salt: Uint8Array, address: string): Uint8Array {
+    const key = pbkdf2(sha256, password, salt, { c: WRAP_ITERATIONS, dkLen: 32 });
+    const nonce = wrapped.slice(0, WRAP_NONCE_SIZE);
+    const ciphertext = wrapped.slice(WRAP_NONCE_SIZE);
+
+    try {
+        return decodePSKBytes(chacha20poly1305(key, nonce, new TextEncoder().encode(address)).decrypt(ciphertext));
+    } catch (error) {
+        if (error instanceof PSKExchangeError) throw error;
+        throw new PSKExchangeError('Wrong password for PSK exchange URI');
+    }
+}
+
+function decodePSK(encoded: string): Uint8Array {
+    return decodePSKBytes(fromBase64Url(encoded));
+}
+
+function decodePSKBytes(psk: Uint8Array): Uint8Array {
+    if (psk.length !== 32) {
+        throw new PSKExchangeError(`PSK must be 32 bytes, got ${psk.length}`);
+    }
+    return psk;
 }
@@ -0,0 +1,129 @@
+/**
+ * AlgoChat - File PSK State Storage
+ *
+ * Persists PSK session counters to a JSON file so replay protection
+ * survives restarts.
+ */
+
+import { mkdir, readFile, writeFile, unlink, chmod, stat, rename } from 'node:fs/promises';
+import { dirname, join } from 'node:path';
+import { homedir } from 'node:os';
+import type { PSKSessionSnapshot } from './types';
+import type { PSKStateStorage } from './storage';
+
+/** Default directory name for AlgoChat data */
+const DEFAULT_DIRECTORY = '.algochat';
+
+/** Default filename for PSK session state */
+const DEFAULT_FILENAME = 'psk-sessions.json';
+
+/**
+ * File-based persistent storage for PSK session state.
+ *
+ * Stores all sessions as JSON in `~/.algochat/psk-sessions.json`.
+ * Only counters are stored; the PSKs themselves never touch the file.
+ *
+ * @example
+ * ```typescript
+ * const storage = new FilePSKStateStorage();
+ * const session = await PSKSession.open('PEER_ADDRESS', psk, storage);
+ * ```
+ */
+export class FilePSKStateStorage implements PSKStateStorage {
+    private customPath: string | null;
+
+    /**
+     * Creates a new file-based PSK state storage.
+     *
+     * @param customPath - Optional custom file path (for testing)
+     */
+    constructor(customPath?: string) {
+        this.customPath = customPath ?? null;
+    }
+
+    /** Loads a session snapshot from the state file */
+    async load(sessionId: string): Promise<PSKSessionSnapshot | undefined> {
+        const sessions = await this.readAll();
+        return sessions[sessionId];
+    }
+
+    /** Saves a session snapshot to the state file */
+    async save(sessionId: string, snapshot: PSKSessionSnapshot): Promise<void> {
+        const sessions = await this.readAll();
+        sessions[sessionId] = snapshot;
+        await this.writeAll(sessions);
+    }
+
+    /** Deletes a session snapshot from the state file */
+    async delete(sessionId: string): Promise<void> {
+        const sessions = await this.readAll();
+        if (!(sessionId in sessions)) {
+            return;
+        }
+        delete sessions[sessionId];
+        await this.writeAll(sessions);
+    }
+
+    /** Lists all stored session IDs */
+    async list(): Promise<string[]> {
+        return Object.keys(await this.readAll());
+    }
+
+    /** Reads every stored session */
+    private async readAll(): Promise<Record<string, PSKSessionSnapshot>> {
+        const filePath = this.getStateFilePath();
+
+        try {
+            await stat(filePath);
+        } catch {
+            // File doesn't exist
+            return {};
+        }
+
+        const json = await readFile(filePath, 'utf8');
+        return JSON.parse(json) as Record<string, PSKSessionSnapshot>;
+    }
+
+    /** Writes every session, deleting the file when none remain */
+    private async writeAll(sessions: Record<string, PSKSessionSnapshot>): Promise<void> {
+        const filePath = this.getStateFilePath();
+
+        if (Object.keys(sessions).length === 0) {
+            try {
+                await unlink(filePath);
+            } catch (e) {
+                // File doesn't exist, that's fine
+                if ((e as NodeJS.ErrnoException).code !== 'ENOENT') {
+                    throw e;
+                }
+            }
+            return;
+        }
+
+        const json = JSON.stringify(sessions, null, 2);
+
+        // Ensure directory exists
+        await mkdir(dirname(filePath), { recursive: true });
+
+        // Write atomically by writing to temp file first
+        const tempPath = `${filePath}.tmp`;
+        await writeFile(tempPath, json, 'utf8');
+
+        // Set restrictive permissions on Unix
+        if (process.platform !== 'win32') {
+            await chmod(tempPath, 0o600);
+        }
+
+        // Rename to final path (atomic on most filesystems)
+        await rename(tempPath, filePath);
+    }
+
+    /** Gets the state file path */
+    private getStateFilePath(): string {
+        if (this.customPath) {
+            return this.customPath;
+        }
+
+        return join(homedir(), DEFAULT_DIRECTORY, DEFAULT_FILENAME);
+    }
+}
@@ -0,0 +1,203 @@
+/**
+ * AlgoChat Web - In-Band PSK Handshake Tests
+ */
+
+import { describe, test, expect } from 'bun:test';
+import {
+    PSKHandshakeManager,
+    PSKHandshakeError,
+    parsePSKHandshakePayload,
+    encodePSKHandshakePayload,
+    isPSKHandshakePayload,
+    deriveHandshakePSK,
+    computeHandshakeMAC,
+    type PSKHandshakePayload,
+} from './handshake';
+
+const ALICE = 'ALICE_ADDR';
+const BOB = 'BOB_ADDR';
+
+/** Sends a payload through its JSON encoding, as it travels in an envelope */
+function transmit(payload: PSKHandshakePayload): PSKHandshakePayload {
+    const parsed = parsePSKHandshakePayload(encodePSKHandshakePayload(payload));
+    if (!parsed) throw new Error('payload did not parse');
+    return parsed;
+}
+
+describe('PSK Handshake Payloads', () => {
+    test('round-trips every step', () => {
+        const alice = new PSKHandshakeManager();
+        const bob = new PSKHandshakeManager();
+
+        const proposal = alice.propose(BOB, { forwardSecrecy: true }).payload;
+        expect(transmit(proposal)).toEqual({ ...proposal, mac: undefined, reason: undefined });
+        bob.receive(ALICE, transmit(proposal));
+
+        const acceptance = bob.accept(proposal.id).payload;
+        expect(transmit(acceptance).mac).toBe(acceptance.mac);
+    });
+
+    test('rejects malformed payloads', () => {
+        expect(parsePSKHandshakePayload('hello')).toBeNull();
+        expect(parsePSKHandshakePayload('{"type":"key-publish"}')).toBeNull();
+        expect(parsePSKHandshakePayload('{"type":"psk-handshake","step":"propose","id":"00"}')).toBeNull();
+        expect(parsePSKHandshakePayload(JSON.stringify({
+            type: 'psk-handshake', step: 'propose', id: '00'.repeat(16), share: 'zz'.repeat(32),
+        }))).toBeNull();
+        expect(parsePSKHandshakePayload(JSON.stringify({
+            type: 'psk-handshake', step: 'unknown', id: '00'.repeat(16),
+        }))).toBeNull();
+    });
+
+    test('detects control payloads in raw bytes', () => {
+        const payload = new PSKHandshakeManager().propose(BOB).payload;
+        const bytes = new TextEncoder().encode(encodePSKHandshakePayload(payload));
+
+        expect(isPSKHandshakePayload(bytes)).toBe(true);
+        expect(isPSKHandshakePayload(new TextEncoder().encode('{"text":"hi"}'))).toBe(false);
+    });
+
+    test('both shares contribute to the PSK', () => {
+        const id = '11'.repeat(16);
+        const a = new Uint8Array(32).fill(1);
+        const b = new Uint8Array(32).fill(2);
+
+        expect(deriveHandshakePSK(id, a, b)).not.toEqual(deriveHandshakePSK(id, a, a));
+        expect(deriveHandshakePSK(id, a, b)).not.toEqual(deriveHandshakePSK(id, b, b));
+        expect(deriveHandshakePSK(id, a, b)).not.toEqual(deriveHandshakePSK('22'.repeat(16), a, b));
+    });
+
+    test('MACs are bound to the step', () => {
+        const psk = new Uint8Array(32).fill(7);
+        const id = '11'.repeat(16);
+
+        expect(computeHandshakeMAC(psk, id, 'accept')).not.toEqual(computeHandshakeMAC(psk, id, 'confirm'));
+    });
+});
+
+describe('PSKHandshakeManager', () => {
+    test('establishes the same PSK on both sides', () => {
+        const alice = new PSKHandshakeManager();
+        const bob = new PSKHandshakeManager();
+
+        const proposal = alice.propose(BOB);
+        expect(proposal.handshake.state).toBe('pending');
+
+        const incoming = bob.receive(ALICE, transmit(proposal.payload));
+        expect(incoming?.handshake.role).toBe('responder');
+        expect(incoming?.handshake.state).toBe('pending');
+        expect(incoming?.reply).toBeUndefined();
+
+        const acceptance = bob.accept(proposal.payload.id);
+        expect(acceptance.handshake.state).toBe('pending');
+        expect(acceptance.handshake.psk).toBeUndefined();
+
+        const accepted = alice.receive(BOB, transmit(acceptance.payload));
+        expect(accepted?.handshake.state).toBe('established');
+        expect(accepted?.reply?.step).toBe('confirm');
+
+        const confirmed = bob.receive(ALICE, transmit(accepted!.reply!));
+        expect(confirmed?.handshake.state).toBe('established');
+
+        expect(confirmed?.handshake.psk).toEqual(accepted!.handshake.psk!);
+        expect(confirmed?.handshake.psk?.length).toBe(32);
+    });
+
+    test('carries the forward secrecy option to the responder', () => {
+        const alice = new PSKHandshakeManager();
+        const bob = new PSKHandshakeManager();
+
+        const proposal = alice.propose(BOB, { forwardSecrecy: true });
+        expect(bob.receive(ALICE, transmit(proposal.payload))?.handshake.forwardSecrecy).toBe(true);
+    });
+
+    test('rejects on a bad acceptance MAC', () => {
+        const alice = new PSKHandshakeManager();
+        const bob = new PSKHandshakeManager();
+
+        const proposal = alice.propose(BOB);
+        bob.receive(ALICE, transmit(proposal.payload));
+        const acceptance = transmit(bob.accept(proposal.payload.id).payload);
+        acceptance.mac = '00'.repeat(32);
+
+        const result = alice.receive(BOB, acceptance);
+        expect(result?.handshake.state).toBe('rejected');
+        expect(result?.handshake.reason).toMatch(/confirmation failed/);
+        expect(result?.reply).toBeUndefined();
+    });
+
+    test('rejects on a bad confirmation MAC', () => {
+        const alice = new PSKHandshakeManager();
+        const bob = new PSKHandshakeManager();
+
+        const proposal = alice.propose(BOB);
+        bob.receive(ALICE, transmit(proposal.payload));
+        alice.receive(BOB, transmit(bob.accept(proposal.payload.id).payload));
+
+        const result = bob.receive(ALICE, { type: 'psk-handshake', step: 'confirm', id: proposal.payload.id, mac: '00'.repeat(32) });
+        expect(result?.handshake.state).toBe('rejected');
+        expect(result?.handshake.psk).toBeUndefined();
+    });
+
+    test('the responder can reject a proposal', () => {
+        const alice = new PSKHandshakeManager();
+        const bob = new PSKHandshakeManager();
+
+        const proposal = alice.propose(BOB);
+        bob.receive(ALICE, transmit(proposal.payload));
+
+        const rejection = bob.reject(proposal.payload.id, 'not now');
+        expect(rejection.handshake.state).toBe('rejected');
+
+        const result = alice.receive(BOB, transmit(rejection.payload));
+        expect(result?.handshake.state).toBe('rejected');
+        expect(result?.handshake.reason).toBe('not now');
+        expect(() => bob.accept(proposal.payload.id)).toThrow(PSKHandshakeError);
+    });
+
+    test('ignores payloads from other peers and repeated messages', () => {
+        const alice = new PSKHandshakeManager();
+        const bob = new PSKHandshakeManager();
+
+        const proposal = alice.propose(BOB);
+        bob.receive(ALICE, transmit(proposal.payload));
+        const acceptance = transmit(bob.accept(proposal.payload.id).payload);
+
+        expect(alice.receive('MALLORY_ADDR', acceptance)).toBeNull();
+        expect(bob.receive(ALICE, transmit(proposal.payload))).toBeNull();
+
+        alice.receive(BOB, acceptance);
+        alice.markReplySent(proposal.payload.id);
+        expect(alice.receive(BOB, acceptance)).toBeNull();
+    });
+
+    test('offers an unsent confirmation again', () => {
+        const alice = new PSKHandshakeManager();
+        const bob = new PSKHandshakeManager();
+
+        const proposal = alice.propose(BOB);
+        bob.receive(ALICE, transmit(proposal.payload));
+        const acceptance = transmit(bob.accept(proposal.payload.id).payload);
+
+        const first = alice.receive(BOB, acceptance);
+        const second = alice.receive(BOB, acceptance);
+        expect(second?.reply).toEqual(first!.reply!);
+    });
+
+    test('only the responder can accept', () => {
+        const alice = new PSKHandshakeManager();
+        const proposal = alice.propose(BOB);
+
+        expect(() => alice.accept(proposal.payload.id)).toThrow(PSKHandshakeError);
+        expect(() => alice.accept('ff'.repeat(16))).toThrow(PSKHandshakeError);
+    });
+
+    test('lists handshakes by peer', () => {
+        const alice = new PSKHandshakeManager();
+        alice.propose(BOB);
+        alice.propose('CAROL_ADDR');
+
+        expect(alice.list().length).toBe(2);
+        expect(alice.list(BOB).map(h => h.peer)).toEqual([BOB]);
+    });
+});
@@ -0,0 +1,459 @@
+/**
+ * AlgoChat Web - In-Band PSK Handshake
+ *
+ * Agrees on a PSK over standard AlgoChat envelopes using JSON control
+ * payloads, as an alternative to out-of-band exchange URIs:
+ *
+ *   initiator -> responder: propose { id, share_i }
+ *   responder -> initiator: accept  { id, share_r, mac_r }  (or reject)
+ *   initiator -> responder: confirm { id, mac_i }
+ *
+ * Both sides derive psk = HKDF(share_i || share_r, id). Each MAC proves the
+ * sender derived the same PSK, so the handshake only completes when both
+ * sides hold it.
+ */
+
+import { hkdf } from '@noble/hashes/hkdf';
+import { hmac } from '@noble/hashes/hmac';
+import { sha256 } from '@noble/hashes/sha256';
+import { bytesToHex, hexToBytes } from '@noble/hashes/utils';
+import { randomBytes } from '@noble/ciphers/webcrypto';
+
+const HANDSHAKE_INFO = new TextEncoder().encode('AlgoChat-PSK-Handshake');
+const MAC_INFO_PREFIX = new TextEncoder().encode('AlgoChat-PSK-Handshake-');
+
+/** Value of the `type` field marking handshake control payloads */
+export const PSK_HANDSHAKE_TYPE = 'psk-handshake';
+
+/** Handshake message kinds */
+export type PSKHandshakeStep = 'propose' | 'accept' | 'confirm' | 'reject';
+
+/** Handshake lifecycle state */
+export type PSKHandshakeState = 'pending' | 'established' | 'rejected';
+
+/** Which side of the handshake we are */
+export type PSKHandshakeRole = 'initiator' | 'responder';
+
+/** Control payload sent inside a standard envelope */
+export interface PSKHandshakePayload {
+    type: typeof PSK_HANDSHAKE_TYPE;
+    step: PSKHandshakeStep;
+    /** Handshake ID (16 bytes, hex) */
+    id: string;
+    /** Key share (32 bytes, hex) - propose and accept */
+    share?: string;
+    /** Key confirmation MAC (32 bytes, hex) - accept and confirm */
+    mac?: string;
+    /** Whether the PSK session should use the forward-secure chain ratchet - propose */
+    forwardSecrecy?: boolean;
+    /** Optional human-readable reason - reject */
+    reason?: string;
+}
+
+/** Public view of a handshake */
+export interface PSKHandshake {
+    id: string;
+    /** The other party's address */
+    peer: string;
+    role: PSKHandshakeRole;
+    state: PSKHandshakeState;
+    forwardSecrecy: boolean;
+    /** The agreed PSK, once established */
+    psk?: Uint8Array;
+    /** Why the handshake was rejected */
+    reason?: string;
+}
+
+/** A handshake action and the payload to send for it */
+export interface PSKHandshakeMessage {
+    handshake: PSKHandshake;
+    payload: PSKHandshakePayload;
+}
+
+/** Result of processing a handshake message */
+export interface PSKHandshakeResult {
+    handshake: PSKHandshake;
+    /** Payload to send back to the peer, if any */
+    reply?: PSKHandshakePayload;
+}
+
+export class PSKHandshakeError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'PSKHandshakeError';
+    }
+}
+
+/** Internal handshake record holding the secret shares */
+interface HandshakeRecord {
+    id: string;
+    peer: string;
+    role: PSKHandshakeRole;
+    state: PSKHandshakeState;
+    forwardSecrecy: boolean;
+    ownShare?: Uint8Array;
+    peerShare?: Uint8Array;
+    psk?: Uint8Array;
+    reason?: string;
+    /** Confirmation owed to the peer until the caller reports it sent */
+    unsentReply?: PSKHandshakePayload;
+}
+
+/**
+ * Checks whether decrypted bytes are a handshake control payload.
+ */
+export function isPSKHandshakePayload(data: Uint8Array): boolean {
+    if (data.length === 0 || data[0] !== 0x7b) {
+        // 0x7b = '{'
+        return false;
+    }
+
+    return parsePSKHandshakePayload(new TextDecoder().decode(data)) !== null;
+}
+
+/**
+ * Parses a handshake control payload from decrypted message text.
+ *
+ * @returns The payload, or null if the text is not a well-formed handshake payload
+ */
+export function parsePSKHandshakePayload(text: string): PSKHandshakePayload | null {
+    if (!text.startsWith('{')) return null;
+
+    let json: Record<string, unknown>;
+    try {
+        json = JSON.parse(text);
+    } catch {
+        return null;
+    }
+
+    if (json.type !== PSK_HANDSHAKE_TYPE || typeof json.id !== 'string' || !isHex(json.id, 16)) {
+        return null;
+    }
+
+    switch (json.step) {
+        case 'propose':
+            if (!isHex(json.share, 32)) return null;
+            break;
+        case 'accept':
+            if (!isHex(json.share, 32) || !isHex(json.mac, 32)) return null;
+            break;
+        case 'confirm':
+            if (!isHex(json.mac, 32)) return null;
+            break;
+        case 'reject':
+            break;
+        default:
+            return null;
+    }
+
+    return {
+        type: PSK_HANDSHAKE_TYPE,
+        step: json.step,
+        id: json.id,
+        share: json.share as string | undefined,
+        mac: json.mac as string | undefined,
+        forwardSecrecy: json.forwardSecrecy === true ? true : undefined,
+        reason: typeof json.reason === 'string' ? json.reason : undefined,
+    };
+}
+
+/**
+ * Encodes a handshake payload as message text.
+ */
+export function encodePSKHandshakePayload(payload: PSKHandshakePayload): string {
+    return JSON.stringify(payload);
+}
+
+/**
+ * Derives the PSK agreed by a handshake.
+ *
+ * @param id - Handshake ID (hex)
+ * @param initiatorShare - Initiator's key share (32 bytes)
+ * @param responderShare - Responder's key share (32 bytes)
+ * @returns 32-byte PSK
+ */
+export function deriveHandshakePSK(id: string, initiatorShare: Uint8Array, responderShare: Uint8Array): Uint8Array {
+    const ikm = new Uint8Array(64);
+    ikm.set(initiatorShare);
+    ikm.set(responderShare, 32);
+    return hkdf(sha256, ikm, hexToBytes(id), HANDSHAKE_INFO, 32);
+}
+
+/**
+ * Computes the key confirmation MAC for a handshake step.
+ *
+ * @param psk - The derived PSK
+ * @param id - Handshake ID (hex)
+ * @param step - 'accept' (responder) or 'confirm' (initiator)
+ * @returns 32-byte HMAC-SHA256
+ */
+export function computeHandshakeMAC(psk: Uint8Array, id: string, step: 'accept' | 'confirm'): Uint8Array {
+    const label = new TextEncoder().encode(step);
+    const idBytes = hexToBytes(id);
+    const message = new Uint8Array(MAC_INFO_PREFIX.length + label.length + idBytes.length);
+    message.set(MAC_INFO_PREFIX);
+    message.set(label, MAC_INFO_PREFIX.length);
+    message.set(idBytes, MAC_INFO_PREFIX.length + label.length);
+    return hmac(sha256, psk, message);
+}
+
+/**
+ * Tracks PSK handshakes with any number of peers
+ *
+ * The manager only builds and processes payloads; sending them is up to the
+ * caller (see `AlgorandService.proposePSK`).
+ *
+ * @example
+ * ```typescript
+ * const manager = new PSKHandshakeManager();
+ * const { payload } = manager.propose('BOB...');
+ * // send encodePSKHandshakePayload(payload) in a standard envelope
+ *
+ * // later, for each received control payload:
+ * const result = manager.receive('BOB...', parsed);
+ * if (result?.handshake.state === 'established') useKey(result.handshake.psk);
+ * ```
+ */
+export class PSKHandshakeManager {
+    private handshakes = new Map<string, HandshakeRecord>();
+
+    /**
+     * Starts a handshake with a peer
+     *
+     * @param peer - The peer's address
+     * @param options - Ask the peer to use the forward-secure chain ratchet
+     */
+    propose(peer: string, options: { forwardSecrecy?: boolean } = {}): PSKHandshakeMessage {
+        const id = bytesToHex(randomBytes(16));
+        const ownShare = randomBytes(32);
+
+        const record: HandshakeRecord = {
+            id,
+            peer,
+            role: 'initiator',
+            state: 'pending',
+            forwardSecrecy: options.forwardSecrecy ?? false,
+            ownShare,
+        };
+        this.handshakes.set(id, record);
+
+        return {
+            handshake: toPublic(record),
+            payload: {
+                type: PSK_HANDSHAKE_TYPE,
+                step: 'propose',
+                id,
+                share: bytesToHex(ownShare),
+                forwardSecrecy: record.forwardSecrecy || undefined,
+            },
+        };
+    }
+
+    /**
+     * Accepts a proposal received from a peer
+     *
+     * The handshake stays pending until the initiator's confirmation arrives.
+     *
+     * @throws PSKHandshakeError if there is no pending proposal with this ID
+     */
+    accept(id: string): PSKHandshakeMessage {
+        const record = this.pendingRecord(id, 'responder');
+        if (record.ownShare) {
+            throw new PSKHandshakeError(`Handshake ${id} was already accepted`);
+        }
+
+        const ownShare = randomBytes(32);
+        record.ownShare = ownShare;
+        record.psk = deriveHandshakePSK(id, record.peerShare!, ownShare);
+
+        return {
+            handshake: toPublic(record),
+            payload: {
+                type: PSK_HANDSHAKE_TYPE,
+                step: 'accept',
+                id,
+                share: bytesToHex(ownShare),
+                mac: bytesToHex(computeHandshakeMAC(record.psk, id, 'accept')),
+            },
+        };
+    }
+
+    /**
+     * Rejects or cancels a pending handshake
+     *
+     * @throws PSKHandshakeError if there is no pending handshake with this ID
+     */
+    reject(id: string, reason?: string): PSKHandshakeMessage {
+        const record = this.pendingRecord(id);
+        markRejected(record, reason);
+
+        return {
+            handshake: toPublic(record),
+            payload: { type: PSK_HANDSHAKE_TYPE, step: 'reject', id, reason },
+        };
+    }
+
+    /**
+     * Processes a handshake payload received from a peer
+     *
+     * Payloads that don't match a pending handshake with that peer are
+     * ignored, so processing the same message again is harmless. A
+     * confirmation owed to the peer is returned as `reply` until
+     * `markReplySent` is called.
+     *
+     * @returns The updated handshake, or null if the payload was ignored
+     */
+    receive(peer: string, payload: PSKHandshakePayload): PSKHandshakeResult | null {
+        const existing = this.handshakes.get(payload.id);
+
+        if (payload.step === 'propose') {
+            if (existing) return null;
+
+            const record: HandshakeRecord = {
+                id: payload.id,
+                peer,
+                role: 'responder',
+                state: 'pending',
+                forwardSecrecy: payload.forwardSecrecy ?? false,
+                peerShare: hexToBytes(payload.share!),
+            };
+            this.handshakes.set(payload.id, record);
+            return { handshake: toPublic(record) };
+        }
+
+        if (!existing || existing.peer !== peer) return null;
+
+        switch (payload.step) {
+            case 'accept':
+                return this.receiveAccept(existing, payload);
+            case 'confirm':
+                return this.receiveConfirm(existing, payload);
+            case 'reject':
+                if (existing.state !== 'pending') return null;
+                markRejected(existing, payload.reason ?? 'Rejected by peer');
+                return { handshake: toPublic(existing) };
+        }
+    }
+
+    /**
+     * Records that the confirmation for a handshake was delivered
+     */
+    markReplySent(id: string): void {
+        const record = this.handshakes.get(id);
+        if (record) {
+            record.unsentReply = undefined;
+        }
+    }
+
+    /**
+     * Gets a handshake by ID
+     */
+    get(id: string): PSKHandshake | undefined {
+        const record = this.handshakes.get(id);
+        return record ? toPublic(record) : undefined;
+    }
+
+    /**
+     * Lists handshakes, optionally only those with one peer
+     */
+    list(peer?: string): PSKHandshake[] {
+        return Array.from(this.handshakes.values())
+            .filter(record => peer === undefined || record.peer === peer)
+            .map(toPublic);
+    }
+
+    private receiveAccept(record: HandshakeRecord, payload: PSKHandshakePayload): PSKHandshakeResult | null {
+        if (record.role !== 'initiator') return null;
+
+        // Re-processing the accept after establishing only re-offers an unsent confirmation
+        if (record.state === 'established') {
+            return record.unsentReply ? { handshake: toPublic(record), reply: record.unsentReply } : null;
+        }
+        if (record.state !== 'pending') return null;
+
+        const psk = deriveHandshakePSK(record.id, record.ownShare!, hexToBytes(payload.share!));
+        if (!macEquals(computeHandshakeMAC(psk, record.id, 'accept'), hexToBytes(payload.mac!))) {
+            psk.fill(0);
+            markRejected(record, 'Key confirmation failed');
+            return { handshake: toPublic(record) };
+        }
+
+        establish(record, psk);
+        record.unsentReply = {
+            type: PSK_HANDSHAKE_TYPE,
+            step: 'confirm',
+            id: record.id,
+            mac: bytesToHex(computeHandshakeMAC(psk, record.id, 'confirm')),
+        };
+
+        return { handshake: toPublic(record), reply: record.unsentReply };
+    }
+
+    private receiveConfirm(record: HandshakeRecord, payload: PSKHandshakePayload): PSKHandshakeResult | null {
+        if (record.role !== 'responder' || record.state !== 'pending' || !record.psk) return null;
+
+        if (!macEquals(computeHandshakeMAC(record.psk, record.id, 'confirm'), hexToBytes(payload.mac!))) {
+            markRejected(record, 'Key confirmation failed');
+            return { handshake: toPublic(record) };
+        }
+
+        establish(record, record.psk);
+        return { handshake: toPublic(record) };
+    }
+
+    private pendingRecord(id: string, role?: PSKHandshakeRole): HandshakeRecord {
+        const record = this.handshakes.get(id);
+        if (!record || record.state !== 'pending' || (role && record.role !== role)) {
+            throw new PSKHandshakeError(`No pending handshake with ID ${id}`);
+        }
+        return record;
+    }
+}
+
+/** Moves a record to established and erases its shares */
+function establish(record: HandshakeRecord, psk: Uint8Array): void {
+    record.state = 'established';
+    record.psk = psk;
+    record.ownShare?.fill(0);
+    record.peerShare?.fill(0);
+    record.ownShare = undefined;
+    record.peerShare = undefined;
+}
+
+/** Moves a record to rejected and erases its key material */
+function markRejected(record: HandshakeRecord, reason?: string): void {
+    record.state = 'rejected';
+    record.reason = reason;
+    record.ownShare?.fill(0);
+    record.peerShare?.fill(0);
+    record.psk?.fill(0);
+    record.ownShare = undefined;
+    record.peerShare = undefined;
+    record.psk = undefined;
+}
+
+function toPublic(record: HandshakeRecord): PSKHandshake {
+    return {
+        id: record.id,
+        peer: record.peer,
+        role: record.role,
+        state: record.state,
+        forwardSecrecy: record.forwardSecrecy,
+        psk: record.state === 'established' && record.psk ? new Uint8Array(record.psk) : undefined,
+        reason: record.reason,
+    };
+}
+
+/** Constant-time MAC comparison */
+function macEquals(a: Uint8Array, b: Uint8Array): boolean {
+    if (a.length !== b.length) return false;
+    let diff = 0;
+    for (let i = 0; i < a.length; i++) {
+        diff |= a[i] ^ b[i];
+    }
+    return diff === 0;
+}
+
+function isHex(value: unknown, byteLength: number): value is string {
+    return typeof value === 'string' && value.length === byteLength * 2 && /^[0-9a-f]+$/i.test(value);
+}
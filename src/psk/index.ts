@@ -6,7 +6,16 @@
  */
 
 // Types and constants
-export { PSK_PROTOCOL, type PSKEnvelope, type PSKState } from './types';
+export {
+    PSK_PROTOCOL,
+    type PSKEnvelope,
+    type PSKState,
+    type SerializedPSKState,
+    type PSKSessionSnapshot,
+    type SerializedPSKChain,
+    type SerializedPSKGeneration,
+    type SerializedPSKRekey,
+} from './types';
 
 // Ratchet key derivation
 export {
@@ -17,6 +26,14 @@ export {
     deriveSenderKey,
 } from './ratchet';
 
+// Forward-secure chain ratchet
+export {
+    deriveChainSeed,
+    deriveNextSessionPSK,
+    PSKChain,
+    PSKChainError,
+} from './chain';
+
 // Envelope encoding/decoding
 export {
     encodePSKEnvelope,
@@ -31,12 +48,56 @@ export {
     validateCounter,
     recordReceive,
     advanceSendCounter,
+    serializePSKState,
+    deserializePSKState,
 } from './state';
 
+// Sessions and state persistence
+export { PSKSession, PSKReplayError, fingerprintPSK, type PSKSessionOptions } from './session';
+export { type PSKStateStorage, InMemoryPSKStateStorage } from './storage';
+// FilePSKStateStorage - Node.js only, import from 'ts-algochat/node' if needed
+
+// In-band handshake
+export {
+    PSK_HANDSHAKE_TYPE,
+    type PSKHandshakeStep,
+    type PSKHandshakeState,
+    type PSKHandshakeRole,
+    type PSKHandshakePayload,
+    type PSKHandshake,
+    type PSKHandshakeMessage,
+    type PSKHandshakeResult,
+    PSKHandshakeError,
+    PSKHandshakeManager,
+    isPSKHandshakePayload,
+    parsePSKHandshakePayload,
+    encodePSKHandshakePayload,
+    deriveHandshakePSK,
+    computeHandshakeMAC,
+} from './handshake';
+
+// Rekey
+export {
+    PSK_REKEY_TYPE,
+    type PSKRekeyPayload,
+    type PSKGeneration,
+    type PSKGenerationKey,
+    PSKRekeyError,
+    PSKKeyring,
+    parsePSKRekeyPayload,
+    encodePSKRekeyPayload,
+    deriveRekeyPSK,
+} from './rekey';
+
 // Exchange URI
 export {
     createPSKExchangeURI,
     parsePSKExchangeURI,
+    createSignedPSKExchangeURI,
+    PSKExchangeError,
+    type SignedPSKExchangeURIOptions,
+    type ParsePSKExchangeURIOptions,
+    type PSKExchangeURI,
 } from './exchange';
 
 // Encryption/Decryption
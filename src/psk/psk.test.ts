@@ -3,6 +3,7 @@
  */
 
 import { describe, test, expect } from 'bun:test';
+import algosdk from 'algosdk';
 import { deriveEncryptionKeys, uint8ArrayEquals } from '../crypto/keys';
 import {
     deriveSessionPSK,
@@ -26,7 +27,9 @@ import {
 } from './state';
 import {
     createPSKExchangeURI,
+    createSignedPSKExchangeURI,
     parsePSKExchangeURI,
+    PSKExchangeError,
 } from './exchange';
 import { PSK_PROTOCOL } from './types';
 
@@ -307,6 +310,38 @@ describe('PSK Encrypt/Decrypt', () => {
     });
 });
 
+describe('PSK Padded Encryption', () => {
+    const aliceKeys = deriveEncryptionKeys(new Uint8Array(32).fill(1));
+    const bobKeys = deriveEncryptionKeys(new Uint8Array(32).fill(2));
+    const currentPSK = derivePSKAtCounter(INITIAL_PSK, 0);
+
+    test('bucket padding gives equal ciphertext sizes and decrypts', () => {
+        const short = encryptPSKMessage('hi', aliceKeys.publicKey, bobKeys.publicKey, currentPSK, 0, 'bucket');
+        const longer = encryptPSKMessage(
+            'a somewhat longer message',
+            aliceKeys.publicKey,
+            bobKeys.publicKey,
+            currentPSK,
+            0,
+            'bucket',
+        );
+
+        expect(short.ciphertext.length).toBe(longer.ciphertext.length);
+        expect(decryptPSKMessage(longer, bobKeys.privateKey, bobKeys.publicKey, currentPSK)?.text).toBe(
+            'a somewhat longer message',
+        );
+        expect(decryptPSKMessage(short, aliceKeys.privateKey, aliceKeys.publicKey, currentPSK)?.text).toBe('hi');
+    });
+
+    test('random padding stays within the PSK payload limit', () => {
+        const envelope = encryptPSKMessage('hello', aliceKeys.publicKey, bobKeys.publicKey, currentPSK, 0, 'random');
+
+        expect(envelope.ciphertext.length).toBeLessThanOrEqual(PSK_PROTOCOL.MAX_PAYLOAD_SIZE + 16);
+        expect(encodePSKEnvelope(envelope).length).toBeLessThanOrEqual(1024);
+        expect(decryptPSKMessage(envelope, bobKeys.privateKey, bobKeys.publicKey, currentPSK)?.text).toBe('hello');
+    });
+});
+
 describe('PSK State Counter Management', () => {
     test('createPSKState initializes with zeros', () => {
         const state = createPSKState();
@@ -448,3 +483,89 @@ describe('PSK Exchange URI', () => {
         expect(parsed.label).toBe(label);
     });
 });
+
+describe('Signed PSK Exchange URI', () => {
+    const account = algosdk.generateAccount();
+    const address = account.addr.toString();
+    const psk = new Uint8Array(32).fill(0x5a);
+
+    /** Replaces one query parameter, keeping the rest of the URI */
+    function withParam(uri: string, name: string, value: string): string {
+        const [prefix, query] = uri.split('?');
+        const params = new URLSearchParams(query);
+        params.set(name, value);
+        return `${prefix}?${params.toString()}`;
+    }
+
+    test('round-trips and verifies the issuer', () => {
+        const expiresAt = new Date(Date.now() + 60_000);
+        const uri = createSignedPSKExchangeURI(account, psk, { label: 'Chat & Co', expiresAt });
+        const parsed = parsePSKExchangeURI(uri);
+
+        expect(uri.startsWith('algochat-psk://v2?')).toBe(true);
+        expect(parsed.address).toBe(address);
+        expect(uint8ArrayEquals(parsed.psk, psk)).toBe(true);
+        expect(parsed.label).toBe('Chat & Co');
+        expect(parsed.signed).toBe(true);
+        expect(parsed.expiresAt?.getTime()).toBe(Math.floor(expiresAt.getTime() / 1000) * 1000);
+    });
+
+    test('rejects tampered fields', () => {
+        const uri = createSignedPSKExchangeURI(account, psk, { label: 'original' });
+        const other = algosdk.generateAccount().addr.toString();
+
+        expect(() => parsePSKExchangeURI(withParam(uri, 'label', 'changed'))).toThrow(PSKExchangeError);
+        expect(() => parsePSKExchangeURI(withParam(uri, 'addr', other))).toThrow(/signature/);
+        expect(() => parsePSKExchangeURI(withParam(uri, 'exp', '99999999999'))).toThrow(/signature/);
+        expect(() => parsePSKExchangeURI(withParam(uri, 'psk', 'A'.repeat(43)))).toThrow(/signature/);
+        expect(() => parsePSKExchangeURI(uri.replace(/&label=[^&]*/, ''))).toThrow(/signature/);
+    });
+
+    test('rejects a malformed signature or key as an exchange error', () => {
+        const uri = createSignedPSKExchangeURI(account, psk);
+
+        expect(() => parsePSKExchangeURI(withParam(uri, 'sig', '!!not base64!!'))).toThrow(PSKExchangeError);
+        expect(() => parsePSKExchangeURI(withParam(uri, 'sig', '!!not base64!!'))).toThrow(/signature/);
+        expect(() => parsePSKExchangeURI('algochat-psk://v1?addr=ADDR&psk=!!not base64!!')).toThrow(PSKExchangeError);
+    });
+
+    test('rejects links signed by another account', () => {
+        const uri = createSignedPSKExchangeURI(algosdk.generateAccount(), psk);
+        const sig = new URLSearchParams(uri.split('?')[1]).get('sig')!;
+        const forged = withParam(createSignedPSKExchangeURI(account, psk), 'sig', sig);
+
+        expect(() => parsePSKExchangeURI(forged)).toThrow(/signature/);
+    });
+
+    test('rejects expired links', () => {
+        const uri = createSignedPSKExchangeURI(account, psk, { expiresAt: new Date(Date.now() + 60_000) });
+
+        expect(() => parsePSKExchangeURI(uri, { now: new Date(Date.now() + 120_000) })).toThrow(/expired/);
+    });
+
+    test('one-time links are refused once used', () => {
+        const usedNonces = new Set<string>();
+        const uri = createSignedPSKExchangeURI(account, psk, { oneTime: true });
+
+        const parsed = parsePSKExchangeURI(uri, { usedNonces });
+        expect(parsed.nonce).toBeDefined();
+        expect(() => parsePSKExchangeURI(uri, { usedNonces })).toThrow(/already been used/);
+        expect(createSignedPSKExchangeURI(account, psk, { oneTime: true })).not.toContain(parsed.nonce!);
+    });
+
+    test('wraps the PSK with a password', () => {
+        const uri = createSignedPSKExchangeURI(account, psk, { password: 'correct horse' });
+
+        expect(new URLSearchParams(uri.split('?')[1]).has('psk')).toBe(false);
+        expect(() => parsePSKExchangeURI(uri)).toThrow(/requires a password/);
+        expect(() => parsePSKExchangeURI(uri, { password: 'wrong' })).toThrow(/Wrong password/);
+        expect(uint8ArrayEquals(parsePSKExchangeURI(uri, { password: 'correct horse' }).psk, psk)).toBe(true);
+    });
+
+    test('unsigned links can be refused', () => {
+        const uri = createPSKExchangeURI(address, psk);
+
+        expect(parsePSKExchangeURI(uri).signed).toBe(false);
+        expect(() => parsePSKExchangeURI(uri, { requireSigned: true })).toThrow(PSKExchangeError);
+    });
+});
@@ -0,0 +1,115 @@
+/**
+ * AlgoChat Web - PSK Rekey Tests
+ */
+
+import { describe, test, expect } from 'bun:test';
+import {
+    PSKKeyring,
+    PSKRekeyError,
+    parsePSKRekeyPayload,
+    encodePSKRekeyPayload,
+    deriveRekeyPSK,
+} from './rekey';
+
+const initialPSK = new Uint8Array(32).fill(0xaa);
+const nextPSK = new Uint8Array(32).fill(0xbb);
+const share = 'ab'.repeat(32);
+
+describe('PSK Rekey Payloads', () => {
+    test('round-trips announcements and acknowledgements', () => {
+        const announce = { type: 'psk-rekey' as const, step: 'announce' as const, generation: 1, share };
+        const ack = { ...announce, step: 'ack' as const, startCounter: 12 };
+
+        expect(parsePSKRekeyPayload(encodePSKRekeyPayload(announce))).toEqual({ ...announce, startCounter: undefined });
+        expect(parsePSKRekeyPayload(encodePSKRekeyPayload(ack))).toEqual(ack);
+    });
+
+    test('rejects malformed payloads', () => {
+        expect(parsePSKRekeyPayload('hello')).toBeNull();
+        expect(parsePSKRekeyPayload('{"type":"psk-handshake"}')).toBeNull();
+        expect(parsePSKRekeyPayload(JSON.stringify({ type: 'psk-rekey', step: 'announce', generation: 0, share }))).toBeNull();
+        expect(parsePSKRekeyPayload(JSON.stringify({ type: 'psk-rekey', step: 'announce', generation: 1, share: 'zz' }))).toBeNull();
+        expect(parsePSKRekeyPayload(JSON.stringify({ type: 'psk-rekey', step: 'ack', generation: 1, share }))).toBeNull();
+    });
+
+    test('the new PSK depends on every input', () => {
+        const a = new Uint8Array(32).fill(1);
+        const b = new Uint8Array(32).fill(2);
+        const psk = deriveRekeyPSK(initialPSK, 1, a, b);
+
+        expect(psk.length).toBe(32);
+        expect(psk).not.toEqual(deriveRekeyPSK(nextPSK, 1, a, b));
+        expect(psk).not.toEqual(deriveRekeyPSK(initialPSK, 2, a, b));
+        expect(psk).not.toEqual(deriveRekeyPSK(initialPSK, 1, b, a));
+    });
+});
+
+describe('PSKKeyring', () => {
+    test('selects the generation covering each counter', () => {
+        const keyring = PSKKeyring.create(initialPSK);
+        keyring.add(1, nextPSK, { sendStart: 10, receiveStart: 20 });
+
+        expect(keyring.sendKeyAt(9).generation).toBe(0);
+        expect(keyring.sendKeyAt(10).generation).toBe(1);
+        expect(keyring.receiveKeysAt(19).map(k => k.generation)).toEqual([0]);
+        expect(keyring.receiveKeysAt(20).map(k => k.generation)).toEqual([1]);
+        expect(keyring.currentGeneration).toBe(1);
+    });
+
+    test('tries both generations until the peer switch point is seen', () => {
+        const keyring = PSKKeyring.create(initialPSK);
+        keyring.add(1, nextPSK, { sendStart: 6, receiveStart: null, receiveAfter: 4 });
+
+        expect(keyring.receiveKeysAt(4).map(k => k.generation)).toEqual([0]);
+        expect(keyring.receiveKeysAt(8).map(k => k.generation)).toEqual([1, 0]);
+
+        keyring.recordReceive(1, 8);
+        expect(keyring.receiveKeysAt(8).map(k => k.generation)).toEqual([1]);
+        expect(keyring.receiveKeysAt(7).map(k => k.generation)).toEqual([1, 0]);
+    });
+
+    test('a generation is not used for sending before its start', () => {
+        const keyring = PSKKeyring.create(initialPSK);
+        keyring.add(1, nextPSK, { sendStart: null, receiveStart: 5 });
+
+        expect(keyring.currentGeneration).toBe(0);
+        expect(keyring.latestGeneration).toBe(1);
+        expect(keyring.sendKeyAt(100).generation).toBe(0);
+    });
+
+    test('only adds the next generation', () => {
+        const keyring = PSKKeyring.create(initialPSK);
+        expect(() => keyring.add(2, nextPSK, { sendStart: 0, receiveStart: 0 })).toThrow(PSKRekeyError);
+    });
+
+    test('prunes a generation once the window moved past the switch', () => {
+        const keyring = PSKKeyring.create(initialPSK);
+        keyring.add(1, nextPSK, { sendStart: 10, receiveStart: 20 });
+
+        expect(keyring.prune(219)).toEqual([]);
+        expect(keyring.prune(220)).toEqual([0]);
+        expect(keyring.generations[0].pruned).toBe(true);
+        expect(() => keyring.sendKeyAt(5)).toThrow(PSKRekeyError);
+        expect(() => keyring.receiveKeysAt(15)).toThrow(PSKRekeyError);
+        expect(keyring.sendKeyAt(10).psk).toEqual(nextPSK);
+    });
+
+    test('does not prune before both sides switched', () => {
+        const keyring = PSKKeyring.create(initialPSK);
+        keyring.add(1, nextPSK, { sendStart: 10, receiveStart: null, receiveAfter: 5 });
+
+        expect(keyring.prune(1000)).toEqual([]);
+    });
+
+    test('round-trips through JSON without the initial PSK', () => {
+        const keyring = PSKKeyring.create(initialPSK);
+        keyring.add(1, nextPSK, { sendStart: 10, receiveStart: null, receiveAfter: 5 });
+
+        const json = JSON.stringify(keyring.serialize());
+        expect(json).not.toContain('aa'.repeat(32));
+
+        const restored = PSKKeyring.deserialize(initialPSK, JSON.parse(json));
+        expect(restored.generations).toEqual(keyring.generations);
+        expect(restored.receiveKeysAt(8).map(k => k.psk)).toEqual([nextPSK, initialPSK]);
+    });
+});
@@ -0,0 +1,363 @@
+/**
+ * AlgoChat Web - PSK Rekey
+ *
+ * Replaces the PSK of a running session with a new generation, agreed
+ * inside the current PSK channel:
+ *
+ *   initiator -> responder: announce { generation, share_i }
+ *   responder -> initiator: ack      { generation, share_r, startCounter }
+ *
+ *   psk[g + 1] = HKDF(share_i || share_r, salt = psk[g], generation)
+ *
+ * The envelope carries no generation, so each generation records the
+ * counter range it covers in each direction. The responder switches right
+ * after its ack (`startCounter`); the initiator switches once the ack
+ * arrives, and the responder learns that point from the first envelope
+ * that decrypts with the new generation.
+ */
+
+import { hkdf } from '@noble/hashes/hkdf';
+import { sha256 } from '@noble/hashes/sha256';
+import { bytesToHex, hexToBytes } from '@noble/hashes/utils';
+import { PSK_PROTOCOL, type SerializedPSKGeneration } from './types';
+
+const REKEY_INFO_PREFIX = new TextEncoder().encode('AlgoChat-PSK-Rekey');
+
+/** Value of the `type` field marking rekey control payloads */
+export const PSK_REKEY_TYPE = 'psk-rekey';
+
+/** Rekey control payload, sent as the plaintext of a PSK envelope */
+export interface PSKRekeyPayload {
+    type: typeof PSK_REKEY_TYPE;
+    step: 'announce' | 'ack';
+    /** The generation being introduced */
+    generation: number;
+    /** Key share (32 bytes, hex) */
+    share: string;
+    /** First counter the responder encrypts with the new generation - ack */
+    startCounter?: number;
+}
+
+/** Public view of a PSK generation */
+export interface PSKGeneration {
+    generation: number;
+    /** First own counter encrypted with this generation, null until we switch */
+    sendStart: number | null;
+    /** First peer counter known to use this generation, null until seen */
+    receiveStart: number | null;
+    /** Whether the key material has been erased */
+    pruned: boolean;
+}
+
+/** A generation's PSK */
+export interface PSKGenerationKey {
+    generation: number;
+    psk: Uint8Array;
+}
+
+export class PSKRekeyError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'PSKRekeyError';
+    }
+}
+
+/** Internal generation record */
+interface GenerationRecord {
+    generation: number;
+    psk: Uint8Array | null;
+    sendStart: number | null;
+    receiveStart: number | null;
+    receiveAfter?: number;
+}
+
+/**
+ * Parses a rekey control payload from decrypted message text.
+ *
+ * @returns The payload, or null if the text is not a well-formed rekey payload
+ */
+export function parsePSKRekeyPayload(text: string): PSKRekeyPayload | null {
+    if (!text.startsWith('{')) return null;
+
+    let json: Record<string, unknown>;
+    try {
+        json = JSON.parse(text);
+    } catch {
+        return null;
+    }
+
+    if (json.type !== PSK_REKEY_TYPE || (json.step !== 'announce' && json.step !== 'ack')) {
+        return null;
+    }
+    if (!isCounter(json.generation) || json.generation < 1) return null;
+    if (typeof json.share !== 'string' || !/^[0-9a-f]{64}$/i.test(json.share)) return null;
+    if (json.step === 'ack' && !isCounter(json.startCounter)) return null;
+
+    return {
+        type: PSK_REKEY_TYPE,
+        step: json.step,
+        generation: json.generation,
+        share: json.share,
+        startCounter: json.step === 'ack' ? (json.startCounter as number) : undefined,
+    };
+}
+
+/**
+ * Encodes a rekey payload as message text.
+ */
+export function encodePSKRekeyPayload(payload: PSKRekeyPayload): string {
+    return JSON.stringify(payload);
+}
+
+/**
+ * Derives the PSK of a new generation.
+ *
+ * @param previousPSK - PSK of the generation being replaced (32 bytes)
+ * @param generation - The new generation number
+ * @param initiatorShare - Initiator's key share (32 bytes)
+ * @param responderShare - Responder's key share (32 bytes)
+ * @returns 32-byte PSK
+ */
+export function deriveRekeyPSK(
+    previousPSK: Uint8Array,
+    generation: number,
+    initiatorShare: Uint8Array,
+    responderShare: Uint8Array
+): Uint8Array {
+    const ikm = new Uint8Array(64);
+    ikm.set(initiatorShare);
+    ikm.set(responderShare, 32);
+
+    const info = new Uint8Array(REKEY_INFO_PREFIX.length + 4);
+    info.set(REKEY_INFO_PREFIX);
+    new DataView(info.buffer).setUint32(REKEY_INFO_PREFIX.length, generation);
+
+    return hkdf(sha256, ikm, previousPSK, info, 32);
+}
+
+/**
+ * The PSK generations of a session and the counter ranges they cover
+ *
+ * Generation 0 is the initial PSK and covers every counter until a later
+ * generation takes over. Ranges are kept after pruning, so a lookup for a
+ * pruned range fails clearly instead of trying the wrong key.
+ */
+export class PSKKeyring {
+    private constructor(private records: GenerationRecord[]) {}
+
+    /**
+     * Creates a keyring holding only the initial PSK
+     */
+    static create(initialPSK: Uint8Array): PSKKeyring {
+        return new PSKKeyring([
+            { generation: 0, psk: new Uint8Array(initialPSK), sendStart: 0, receiveStart: 0 },
+        ]);
+    }
+
+    /**
+     * Creates a keyring whose initial PSK was already erased, for
+     * forward-secure sessions restored without it
+     */
+    static erased(): PSKKeyring {
+        return new PSKKeyring([{ generation: 0, psk: null, sendStart: 0, receiveStart: 0 }]);
+    }
+
+    /**
+     * Restores a keyring from its serialized form
+     *
+     * @param initialPSK - The initial PSK (generation 0 is not serialized)
+     * @param data - Serialized generations
+     */
+    static deserialize(initialPSK: Uint8Array, data: SerializedPSKGeneration[]): PSKKeyring {
+        const records = data.map((item): GenerationRecord => ({
+            generation: item.generation,
+            psk: item.pruned ? null : item.generation === 0 ? new Uint8Array(initialPSK) : hexToBytes(item.psk!),
+            sendStart: item.sendStart,
+            receiveStart: item.receiveStart,
+            receiveAfter: item.receiveAfter,
+        }));
+        return new PSKKeyring(records.sort((a, b) => a.generation - b.generation));
+    }
+
+    /** Newest generation we send with */
+    get currentGeneration(): number {
+        for (let i = this.records.length - 1; i >= 0; i--) {
+            if (this.records[i].sendStart !== null) return this.records[i].generation;
+        }
+        return 0;
+    }
+
+    /** Newest generation known */
+    get latestGeneration(): number {
+        return this.records[this.records.length - 1].generation;
+    }
+
+    /** Whether the keyring holds more than the initial PSK */
+    get hasRekeyed(): boolean {
+        return this.records.length > 1;
+    }
+
+    /** All generations and their counter ranges */
+    get generations(): PSKGeneration[] {
+        return this.records.map(record => ({
+            generation: record.generation,
+            sendStart: record.sendStart,
+            receiveStart: record.receiveStart,
+            pruned: record.psk === null,
+        }));
+    }
+
+    /**
+     * Gets the PSK of a generation
+     *
+     * @throws PSKRekeyError if the generation is unknown or pruned
+     */
+    keyOf(generation: number): Uint8Array {
+        const record = this.records.find(r => r.generation === generation);
+        if (!record) {
+            throw new PSKRekeyError(`Unknown PSK generation ${generation}`);
+        }
+        return requireKey(record);
+    }
+
+    /**
+     * Gets the generation key for one of our own counters
+     *
+     * @throws PSKRekeyError if the generation covering the counter was pruned
+     */
+    sendKeyAt(counter: number): PSKGenerationKey {
+        for (let i = this.records.length - 1; i >= 0; i--) {
+            const record = this.records[i];
+            if (record.sendStart !== null && counter >= record.sendStart) {
+                return { generation: record.generation, psk: requireKey(record) };
+            }
+        }
+        throw new PSKRekeyError(`No PSK generation covers counter ${counter}`);
+    }
+
+    /**
+     * Gets the generation keys to try, newest first, for a peer counter
+     *
+     * Usually one key. Between a peer's announcement and the first envelope
+     * seen from the new generation, the switch point is unknown, so both
+     * the new and the old generation are returned.
+     *
+     * @throws PSKRekeyError if the generation covering the counter was pruned
+     */
+    receiveKeysAt(counter: number): PSKGenerationKey[] {
+        const candidates: PSKGenerationKey[] = [];
+
+        for (let i = this.records.length - 1; i >= 0; i--) {
+            const record = this.records[i];
+
+            if (record.receiveStart !== null && counter >= record.receiveStart) {
+                candidates.push({ generation: record.generation, psk: requireKey(record) });
+                return candidates;
+            }
+
+            if (record.receiveAfter !== undefined && counter > record.receiveAfter && record.psk) {
+                candidates.push({ generation: record.generation, psk: record.psk });
+            }
+        }
+
+        if (candidates.length === 0) {
+            throw new PSKRekeyError(`No PSK generation covers counter ${counter}`);
+        }
+        return candidates;
+    }
+
+    /**
+     * Adds a new generation
+     */
+    add(
+        generation: number,
+        psk: Uint8Array,
+        range: { sendStart: number | null; receiveStart: number | null; receiveAfter?: number }
+    ): void {
+        if (generation !== this.latestGeneration + 1) {
+            throw new PSKRekeyError(`Expected generation ${this.latestGeneration + 1}, got ${generation}`);
+        }
+        this.records.push({ generation, psk, ...range });
+    }
+
+    /**
+     * Records that a peer counter decrypted with a generation, narrowing its range
+     */
+    recordReceive(generation: number, counter: number): void {
+        const record = this.records.find(r => r.generation === generation);
+        if (record && (record.receiveStart === null || counter < record.receiveStart)) {
+            record.receiveStart = counter;
+        }
+    }
+
+    /**
+     * Erases generations no longer needed for in-flight messages
+     *
+     * A generation is pruned once the next one is used in both directions and
+     * the replay window has moved past the peer's switch point, so no
+     * acceptable peer counter can still use it. Own messages and history in
+     * pruned ranges can no longer be decrypted.
+     *
+     * @param peerLastCounter - Highest peer counter received
+     * @returns The pruned generation numbers
+     */
+    prune(peerLastCounter: number): number[] {
+        const pruned: number[] = [];
+        const lowerBound = peerLastCounter - PSK_PROTOCOL.COUNTER_WINDOW;
+
+        for (let i = 0; i < this.records.length - 1; i++) {
+            const record = this.records[i];
+            const next = this.records[i + 1];
+
+            if (!record.psk) continue;
+            if (next.sendStart === null || next.receiveStart === null || lowerBound < next.receiveStart) break;
+
+            record.psk.fill(0);
+            record.psk = null;
+            pruned.push(record.generation);
+        }
+
+        return pruned;
+    }
+
+    /**
+     * Returns the JSON-serializable state of the keyring
+     *
+     * Contains the PSKs of later generations; store it as carefully as the
+     * initial PSK.
+     */
+    serialize(): SerializedPSKGeneration[] {
+        return this.records.map(record => {
+            const item: SerializedPSKGeneration = {
+                generation: record.generation,
+                sendStart: record.sendStart,
+                receiveStart: record.receiveStart,
+            };
+            if (record.receiveAfter !== undefined) item.receiveAfter = record.receiveAfter;
+            if (record.psk === null) item.pruned = true;
+            else if (record.generation !== 0) item.psk = bytesToHex(record.psk);
+            return item;
+        });
+    }
+
+    /**
+     * Overwrites all key material held by the keyring
+     */
+    erase(): void {
+        for (const record of this.records) {
+            record.psk?.fill(0);
+            record.psk = null;
+        }
+    }
+}
+
+function requireKey(record: GenerationRecord): Uint8Array {
+    if (!record.psk) {
+        throw new PSKRekeyError(`PSK generation ${record.generation} has been pruned`);
+    }
+    return record.psk;
+}
+
+function isCounter(value: unknown): value is number {
+    return typeof value === 'number' && Number.isInteger(value) && value >= 0 && value <= 0xffffffff;
+}
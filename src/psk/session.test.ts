@@ -0,0 +1,493 @@
+/**
+ * AlgoChat Web - PSK Session Tests
+ */
+
+import { describe, test, expect } from 'bun:test';
+import { mkdtemp, rm, stat } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { deriveEncryptionKeys } from '../crypto/keys';
+import { PSKSession, PSKReplayError } from './session';
+import { PSKChainError } from './chain';
+import { PSKRekeyError } from './rekey';
+import { derivePSKAtCounter } from './ratchet';
+import { decryptPSKMessage } from './encryption';
+import { PSK_PROTOCOL } from './types';
+import { InMemoryPSKStateStorage } from './storage';
+import { FilePSKStateStorage } from './file-psk-state-storage';
+import { createPSKState, recordReceive, serializePSKState, deserializePSKState } from './state';
+
+const psk = new Uint8Array(32).fill(0x42);
+const alice = deriveEncryptionKeys(new Uint8Array(32).fill(1));
+const bob = deriveEncryptionKeys(new Uint8Array(32).fill(2));
+
+describe('PSK State Serialization', () => {
+    test('round-trips through JSON', () => {
+        let state = createPSKState();
+        state = recordReceive(state, 7);
+        state = recordReceive(state, 3);
+
+        const json = JSON.stringify(serializePSKState(state));
+        const restored = deserializePSKState(JSON.parse(json));
+
+        expect(restored.sendCounter).toBe(0);
+        expect(restored.peerLastCounter).toBe(7);
+        expect(restored.seenCounters).toEqual(new Set([3, 7]));
+    });
+
+    test('sorts seen counters', () => {
+        let state = createPSKState();
+        state = recordReceive(state, 9);
+        state = recordReceive(state, 2);
+
+        expect(serializePSKState(state).seenCounters).toEqual([2, 9]);
+    });
+});
+
+describe('PSKSession', () => {
+    test('encrypts with increasing counters', async () => {
+        const session = await PSKSession.open('BOB', psk);
+
+        const first = await session.encrypt('one', alice.publicKey, bob.publicKey);
+        const second = await session.encrypt('two', alice.publicKey, bob.publicKey);
+
+        expect(first.ratchetCounter).toBe(0);
+        expect(second.ratchetCounter).toBe(1);
+        expect(session.currentState.sendCounter).toBe(2);
+    });
+
+    test('decrypts peer messages and records their counters', async () => {
+        const sender = await PSKSession.open('BOB', psk);
+        const receiver = await PSKSession.open('ALICE', psk);
+
+        const envelope = await sender.encrypt('hello', alice.publicKey, bob.publicKey);
+        const content = await receiver.decrypt(envelope, bob.privateKey, bob.publicKey);
+
+        expect(content?.text).toBe('hello');
+        expect(receiver.currentState.seenCounters.has(0)).toBe(true);
+    });
+
+    test('rejects replayed counters', async () => {
+        const sender = await PSKSession.open('BOB', psk);
+        const receiver = await PSKSession.open('ALICE', psk);
+
+        const envelope = await sender.encrypt('once', alice.publicKey, bob.publicKey);
+        await receiver.decrypt(envelope, bob.privateKey, bob.publicKey);
+
+        await expect(receiver.decrypt(envelope, bob.privateKey, bob.publicKey)).rejects.toThrow(PSKReplayError);
+    });
+
+    test('accepts the same message ID again', async () => {
+        const sender = await PSKSession.open('BOB', psk);
+        const receiver = await PSKSession.open('ALICE', psk);
+
+        const envelope = await sender.encrypt('again', alice.publicKey, bob.publicKey);
+        await receiver.decrypt(envelope, bob.privateKey, bob.publicKey, 'tx-1');
+
+        expect((await receiver.decrypt(envelope, bob.privateKey, bob.publicKey, 'tx-1'))?.text).toBe('again');
+        await expect(receiver.decrypt(envelope, bob.privateKey, bob.publicKey, 'tx-2')).rejects.toThrow(PSKReplayError);
+    });
+
+    test('decrypts own messages without touching counters', async () => {
+        const session = await PSKSession.open('BOB', psk);
+
+        const envelope = await session.encrypt('mine', alice.publicKey, bob.publicKey);
+        const content = await session.decrypt(envelope, alice.privateKey, alice.publicKey);
+
+        expect(content?.text).toBe('mine');
+        expect(session.currentState.seenCounters.size).toBe(0);
+    });
+
+    test('does not record counters of messages that fail to decrypt', async () => {
+        const sender = await PSKSession.open('BOB', new Uint8Array(32).fill(0x99));
+        const receiver = await PSKSession.open('ALICE', psk);
+
+        const envelope = await sender.encrypt('wrong key', alice.publicKey, bob.publicKey);
+
+        await expect(receiver.decrypt(envelope, bob.privateKey, bob.publicKey)).rejects.toThrow();
+        expect(receiver.currentState.seenCounters.size).toBe(0);
+    });
+
+    test('rejects PSKs that are not 32 bytes', async () => {
+        await expect(PSKSession.open('BOB', new Uint8Array(16))).rejects.toThrow(/32 bytes/);
+    });
+
+    describe('persistence', () => {
+        test('restores counters when reopened', async () => {
+            const storage = new InMemoryPSKStateStorage();
+            const sender = await PSKSession.open('BOB', psk);
+            const receiver = await PSKSession.open('ALICE', psk, storage);
+
+            const envelope = await sender.encrypt('persisted', alice.publicKey, bob.publicKey);
+            await receiver.decrypt(envelope, bob.privateKey, bob.publicKey, 'tx-1');
+
+            const reopened = await PSKSession.open('ALICE', psk, storage);
+            expect(reopened.currentState.seenCounters.has(0)).toBe(true);
+            await expect(reopened.decrypt(envelope, bob.privateKey, bob.publicKey, 'tx-replay')).rejects.toThrow(PSKReplayError);
+            expect((await reopened.decrypt(envelope, bob.privateKey, bob.publicKey, 'tx-1'))?.text).toBe('persisted');
+        });
+
+        test('persists the send counter before encrypting', async () => {
+            const storage = new InMemoryPSKStateStorage();
+            const session = await PSKSession.open('BOB', psk, storage);
+            await session.encrypt('one', alice.publicKey, bob.publicKey);
+
+            const reopened = await PSKSession.open('BOB', psk, storage);
+            const envelope = await reopened.encrypt('two', alice.publicKey, bob.publicKey);
+            expect(envelope.ratchetCounter).toBe(1);
+        });
+
+        test('discards state stored for a different PSK', async () => {
+            const storage = new InMemoryPSKStateStorage();
+            const session = await PSKSession.open('BOB', psk, storage);
+            await session.encrypt('one', alice.publicKey, bob.publicKey);
+
+            const other = await PSKSession.open('BOB', new Uint8Array(32).fill(0x43), storage);
+            expect(other.currentState.sendCounter).toBe(0);
+        });
+
+        test('reset clears counters and storage', async () => {
+            const storage = new InMemoryPSKStateStorage();
+            const session = await PSKSession.open('BOB', psk, storage);
+            await session.encrypt('one', alice.publicKey, bob.publicKey);
+
+            await session.reset();
+
+            expect(session.currentState.sendCounter).toBe(0);
+            expect(await storage.list()).toEqual([]);
+        });
+
+        test('snapshot does not contain the PSK', async () => {
+            const session = await PSKSession.open('BOB', psk);
+            const json = JSON.stringify(session.snapshot());
+
+            expect(json).not.toContain(Buffer.from(psk).toString('hex'));
+            expect(json).not.toContain(Buffer.from(psk).toString('base64'));
+        });
+    });
+});
+
+describe('PSKSession forward secrecy', () => {
+    const fs = { forwardSecrecy: true };
+
+    async function openPair() {
+        const aliceSession = await PSKSession.open('BOB', psk, new InMemoryPSKStateStorage(), fs);
+        const bobSession = await PSKSession.open('ALICE', psk, new InMemoryPSKStateStorage(), fs);
+        return { aliceSession, bobSession };
+    }
+
+    test('exchanges messages in both directions', async () => {
+        const { aliceSession, bobSession } = await openPair();
+
+        const toBob = await aliceSession.encrypt('hi bob', alice.publicKey, bob.publicKey);
+        expect((await bobSession.decrypt(toBob, bob.privateKey, bob.publicKey))?.text).toBe('hi bob');
+
+        const toAlice = await bobSession.encrypt('hi alice', bob.publicKey, alice.publicKey);
+        expect((await aliceSession.decrypt(toAlice, alice.privateKey, alice.publicKey))?.text).toBe('hi alice');
+    });
+
+    test('does not interoperate with the stateless ratchet', async () => {
+        const sender = await PSKSession.open('BOB', psk, new InMemoryPSKStateStorage(), fs);
+        const receiver = await PSKSession.open('ALICE', psk);
+
+        const envelope = await sender.encrypt('mismatch', alice.publicKey, bob.publicKey);
+        await expect(receiver.decrypt(envelope, bob.privateKey, bob.publicKey)).rejects.toThrow();
+    });
+
+    test('erases the initial PSK once both directions have started', async () => {
+        const { aliceSession, bobSession } = await openPair();
+
+        const toBob = await aliceSession.encrypt('one', alice.publicKey, bob.publicKey);
+        expect(aliceSession.holdsInitialPSK).toBe(true);
+        await bobSession.decrypt(toBob, bob.privateKey, bob.publicKey);
+
+        const toAlice = await bobSession.encrypt('two', bob.publicKey, alice.publicKey);
+        expect(bobSession.holdsInitialPSK).toBe(false);
+        await aliceSession.decrypt(toAlice, alice.privateKey, alice.publicKey);
+        expect(aliceSession.holdsInitialPSK).toBe(false);
+        expect(aliceSession.generations.every(g => g.pruned)).toBe(true);
+
+        const json = JSON.stringify(aliceSession.snapshot());
+        expect(json).not.toContain(Buffer.from(psk).toString('hex'));
+    });
+
+    test('erases keys of past sessions and keeps late messages decryptable', async () => {
+        const { aliceSession, bobSession } = await openPair();
+
+        const envelopes = [];
+        for (let i = 0; i < 105; i++) {
+            envelopes.push(await aliceSession.encrypt(`msg ${i}`, alice.publicKey, bob.publicKey));
+        }
+
+        // Deliver everything except message 3, crossing the 100-message boundary
+        for (const envelope of envelopes) {
+            if (envelope.ratchetCounter === 3) continue;
+            await bobSession.decrypt(envelope, bob.privateKey, bob.publicKey, `tx-${envelope.ratchetCounter}`);
+        }
+
+        // The late message still decrypts from the skipped-key store, once
+        const late = envelopes[3];
+        expect((await bobSession.decrypt(late, bob.privateKey, bob.publicKey, 'tx-3'))?.text).toBe('msg 3');
+
+        // Keys from the first session are gone, even for messages already read
+        await expect(bobSession.decrypt(late, bob.privateKey, bob.publicKey, 'tx-3')).rejects.toThrow(PSKChainError);
+        await expect(bobSession.decrypt(envelopes[0], bob.privateKey, bob.publicKey, 'tx-0')).rejects.toThrow(PSKChainError);
+
+        // Messages of the current session can be read again
+        expect((await bobSession.decrypt(envelopes[101], bob.privateKey, bob.publicKey, 'tx-101'))?.text).toBe('msg 101');
+
+        // The sender can no longer read its own messages from the first session
+        await expect(aliceSession.decrypt(envelopes[0], alice.privateKey, alice.publicKey)).rejects.toThrow(PSKChainError);
+    });
+
+    test('forged envelopes do not advance the receive chain', async () => {
+        const { bobSession } = await openPair();
+        const forger = await PSKSession.open('BOB', new Uint8Array(32).fill(0x99), new InMemoryPSKStateStorage(), fs);
+
+        const forged = await forger.encrypt('forged', alice.publicKey, bob.publicKey);
+        forged.ratchetCounter = 150;
+        await expect(bobSession.decrypt(forged, bob.privateKey, bob.publicKey)).rejects.toThrow();
+
+        expect(bobSession.snapshot().chains?.receive).toBeUndefined();
+    });
+
+    test('restores chains from storage', async () => {
+        const storage = new InMemoryPSKStateStorage();
+        const sender = await PSKSession.open('BOB', psk, new InMemoryPSKStateStorage(), fs);
+        const receiver = await PSKSession.open('ALICE', psk, storage, fs);
+
+        const first = await sender.encrypt('first', alice.publicKey, bob.publicKey);
+        await receiver.decrypt(first, bob.privateKey, bob.publicKey);
+
+        const reopened = await PSKSession.open('ALICE', psk, storage, fs);
+        const second = await sender.encrypt('second', alice.publicKey, bob.publicKey);
+        expect((await reopened.decrypt(second, bob.privateKey, bob.publicKey))?.text).toBe('second');
+    });
+
+    test('restores a session that erased its PSK by session id', async () => {
+        const storage = new InMemoryPSKStateStorage();
+        const aliceSession = await PSKSession.open('BOB', psk, storage, fs);
+        const bobSession = await PSKSession.open('ALICE', psk, new InMemoryPSKStateStorage(), fs);
+
+        const toBob = await aliceSession.encrypt('one', alice.publicKey, bob.publicKey);
+        await bobSession.decrypt(toBob, bob.privateKey, bob.publicKey);
+        expect(await PSKSession.restore('BOB', storage)).toBeUndefined();
+
+        const toAlice = await bobSession.encrypt('two', bob.publicKey, alice.publicKey);
+        await aliceSession.decrypt(toAlice, alice.privateKey, alice.publicKey, 'tx-two');
+
+        // Restart: only the stored snapshot is left
+        const restored = (await PSKSession.restore('BOB', storage))!;
+        expect(restored.holdsInitialPSK).toBe(false);
+        expect(restored.pskId).toBe(aliceSession.pskId);
+        expect(restored.currentState.sendCounter).toBe(1);
+
+        const again = await restored.encrypt('three', alice.publicKey, bob.publicKey);
+        expect(again.ratchetCounter).toBe(1);
+        expect((await bobSession.decrypt(again, bob.privateKey, bob.publicKey))?.text).toBe('three');
+
+        const reply = await bobSession.encrypt('four', bob.publicKey, alice.publicKey);
+        expect((await restored.decrypt(reply, alice.privateKey, alice.publicKey))?.text).toBe('four');
+        await expect(restored.decrypt(toAlice, alice.privateKey, alice.publicKey)).rejects.toThrow(PSKReplayError);
+    });
+
+    test('discards state stored for the other ratchet mode', async () => {
+        const storage = new InMemoryPSKStateStorage();
+        const session = await PSKSession.open('BOB', psk, storage);
+        await session.encrypt('one', alice.publicKey, bob.publicKey);
+
+        const forwardSecure = await PSKSession.open('BOB', psk, storage, fs);
+        expect(forwardSecure.currentState.sendCounter).toBe(0);
+    });
+});
+
+describe('PSKSession rekey', () => {
+    async function openPair(aliceStorage = new InMemoryPSKStateStorage()) {
+        const aliceSession = await PSKSession.open('BOB', psk, aliceStorage);
+        const bobSession = await PSKSession.open('ALICE', psk);
+        return { aliceSession, bobSession };
+    }
+
+    /** Alice announces, Bob acknowledges, Alice reads the acknowledgement */
+    async function rekeyPair(aliceStorage?: InMemoryPSKStateStorage) {
+        const { aliceSession, bobSession } = await openPair(aliceStorage);
+
+        const announce = await aliceSession.rekey(alice.publicKey, bob.publicKey);
+        await bobSession.decrypt(announce, bob.privateKey, bob.publicKey, 'announce');
+        expect(bobSession.pendingRekeyAck).toBe(true);
+
+        const ack = await bobSession.acknowledgeRekey(bob.publicKey, alice.publicKey);
+        await aliceSession.decrypt(ack, alice.privateKey, alice.publicKey, 'ack');
+
+        return { aliceSession, bobSession, announce, ack };
+    }
+
+    test('switches both sides to a new generation', async () => {
+        const { aliceSession, bobSession } = await rekeyPair();
+
+        expect(aliceSession.generation).toBe(1);
+        expect(bobSession.generation).toBe(1);
+        expect(aliceSession.rekeyInProgress).toBe(false);
+        expect(bobSession.pendingRekeyAck).toBe(false);
+
+        const toBob = await aliceSession.encrypt('new key', alice.publicKey, bob.publicKey);
+        expect((await bobSession.decrypt(toBob, bob.privateKey, bob.publicKey))?.text).toBe('new key');
+
+        const toAlice = await bobSession.encrypt('new key too', bob.publicKey, alice.publicKey);
+        expect((await aliceSession.decrypt(toAlice, alice.privateKey, alice.publicKey))?.text).toBe('new key too');
+
+        // The new generation no longer decrypts with the initial PSK
+        const currentPSK = derivePSKAtCounter(psk, toAlice.ratchetCounter);
+        expect(() => decryptPSKMessage(toAlice, alice.privateKey, alice.publicKey, currentPSK)).toThrow();
+    });
+
+    test('keeps using the old generation until the acknowledgement arrives', async () => {
+        const { aliceSession, bobSession } = await openPair();
+
+        const announce = await aliceSession.rekey(alice.publicKey, bob.publicKey);
+        const beforeAck = await aliceSession.encrypt('still old', alice.publicKey, bob.publicKey);
+        expect(aliceSession.generation).toBe(0);
+
+        await bobSession.decrypt(announce, bob.privateKey, bob.publicKey);
+        await bobSession.acknowledgeRekey(bob.publicKey, alice.publicKey);
+        expect((await bobSession.decrypt(beforeAck, bob.privateKey, bob.publicKey))?.text).toBe('still old');
+        expect(bobSession.generations[1].receiveStart).toBeNull();
+    });
+
+    test('rekey payloads are delivered as content', async () => {
+        const { aliceSession, bobSession } = await openPair();
+
+        const announce = await aliceSession.rekey(alice.publicKey, bob.publicKey);
+        const content = await bobSession.decrypt(announce, bob.privateKey, bob.publicKey);
+        expect(JSON.parse(content!.text).type).toBe('psk-rekey');
+    });
+
+    test('re-reads history across generations', async () => {
+        const { aliceSession, bobSession, announce } = await rekeyPair();
+
+        const newer = await aliceSession.encrypt('after', alice.publicKey, bob.publicKey);
+        await bobSession.decrypt(newer, bob.privateKey, bob.publicKey, 'newer');
+
+        for (const [envelope, expected] of [[announce, 'psk-rekey'], [newer, 'after']] as const) {
+            const keys = bobSession.generationKeysFor(envelope, bob.publicKey);
+            const text = keys
+                .map(key => {
+                    try {
+                        const currentPSK = derivePSKAtCounter(key.psk, envelope.ratchetCounter);
+                        return decryptPSKMessage(envelope, bob.privateKey, bob.publicKey, currentPSK)?.text;
+                    } catch {
+                        return undefined;
+                    }
+                })
+                .find(Boolean);
+            expect(text).toContain(expected);
+        }
+
+        expect(aliceSession.generationKeysFor(announce, alice.publicKey)[0].generation).toBe(0);
+        expect(aliceSession.generationKeysFor(newer, alice.publicKey)[0].generation).toBe(1);
+
+        // Re-fetching the same transactions still works through the session
+        expect((await bobSession.decrypt(announce, bob.privateKey, bob.publicKey, 'announce'))?.text).toContain('psk-rekey');
+        expect((await bobSession.decrypt(newer, bob.privateKey, bob.publicKey, 'newer'))?.text).toBe('after');
+    });
+
+    test('resolves simultaneous announcements to one generation', async () => {
+        const { aliceSession, bobSession } = await openPair();
+
+        const fromAlice = await aliceSession.rekey(alice.publicKey, bob.publicKey);
+        const fromBob = await bobSession.rekey(bob.publicKey, alice.publicKey);
+        await bobSession.decrypt(fromAlice, bob.privateKey, bob.publicKey);
+        await aliceSession.decrypt(fromBob, alice.privateKey, alice.publicKey);
+
+        // Exactly one side yields and acknowledges
+        const [responder, initiator, responderKeys, initiatorKeys] = aliceSession.pendingRekeyAck
+            ? [aliceSession, bobSession, alice, bob]
+            : [bobSession, aliceSession, bob, alice];
+        expect(responder.pendingRekeyAck).toBe(true);
+        expect(initiator.rekeyInProgress).toBe(true);
+
+        const ack = await responder.acknowledgeRekey(responderKeys.publicKey, initiatorKeys.publicKey);
+        await initiator.decrypt(ack, initiatorKeys.privateKey, initiatorKeys.publicKey);
+
+        const message = await initiator.encrypt('agreed', initiatorKeys.publicKey, responderKeys.publicKey);
+        expect((await responder.decrypt(message, responderKeys.privateKey, responderKeys.publicKey))?.text).toBe('agreed');
+    });
+
+    test('prunes the old generation once it can no longer arrive', async () => {
+        const { aliceSession, bobSession, announce } = await rekeyPair();
+
+        // Alice needs a message in the new generation from Bob, then the window to move on
+        for (let i = 0; i < PSK_PROTOCOL.COUNTER_WINDOW + 1; i++) {
+            const envelope = await bobSession.encrypt(`msg ${i}`, bob.publicKey, alice.publicKey);
+            await aliceSession.decrypt(envelope, alice.privateKey, alice.publicKey);
+        }
+
+        expect(await aliceSession.pruneGenerations()).toEqual([0]);
+        expect(() => aliceSession.generationKeysFor(announce, alice.publicKey)).toThrow(PSKRekeyError);
+        expect(aliceSession.snapshot().generations?.[0].pruned).toBe(true);
+    });
+
+    test('persists generations and pending rekeys', async () => {
+        const storage = new InMemoryPSKStateStorage();
+        await rekeyPair(storage);
+
+        const reopened = await PSKSession.open('BOB', psk, storage);
+        expect(reopened.generation).toBe(1);
+
+        const pending = await PSKSession.open('BOB', psk, storage);
+        await pending.rekey(alice.publicKey, bob.publicKey);
+        expect((await PSKSession.open('BOB', psk, storage)).rekeyInProgress).toBe(true);
+    });
+
+    test('refuses to rekey twice or with forward secrecy', async () => {
+        const { aliceSession, bobSession } = await openPair();
+        await aliceSession.rekey(alice.publicKey, bob.publicKey);
+
+        await expect(aliceSession.rekey(alice.publicKey, bob.publicKey)).rejects.toThrow(PSKRekeyError);
+        await expect(bobSession.acknowledgeRekey(bob.publicKey, alice.publicKey)).rejects.toThrow(PSKRekeyError);
+
+        const forwardSecure = await PSKSession.open('BOB', psk, new InMemoryPSKStateStorage(), { forwardSecrecy: true });
+        await expect(forwardSecure.rekey(alice.publicKey, bob.publicKey)).rejects.toThrow(PSKRekeyError);
+    });
+});
+
+describe('FilePSKStateStorage', () => {
+    test('persists sessions to a file', async () => {
+        const dir = await mkdtemp(join(tmpdir(), 'algochat-psk-'));
+        const path = join(dir, 'nested', 'psk-sessions.json');
+
+        try {
+            const storage = new FilePSKStateStorage(path);
+            const session = await PSKSession.open('BOB', psk, storage);
+            await session.encrypt('one', alice.publicKey, bob.publicKey);
+            await session.encrypt('two', alice.publicKey, bob.publicKey);
+
+            const reopened = await PSKSession.open('BOB', psk, new FilePSKStateStorage(path));
+            expect(reopened.currentState.sendCounter).toBe(2);
+            expect(await storage.list()).toEqual(['BOB']);
+
+            if (process.platform !== 'win32') {
+                expect((await stat(path)).mode & 0o777).toBe(0o600);
+            }
+        } finally {
+            await rm(dir, { recursive: true, force: true });
+        }
+    });
+
+    test('removes the file when the last session is deleted', async () => {
+        const dir = await mkdtemp(join(tmpdir(), 'algochat-psk-'));
+        const path = join(dir, 'psk-sessions.json');
+
+        try {
+            const storage = new FilePSKStateStorage(path);
+            const session = await PSKSession.open('BOB', psk, storage);
+            await session.encrypt('one', alice.publicKey, bob.publicKey);
+            await storage.delete('BOB');
+
+            await expect(storage.list()).resolves.toEqual([]);
+            await expect(stat(path)).rejects.toThrow();
+        } finally {
+            await rm(dir, { recursive: true, force: true });
+        }
+    });
+});
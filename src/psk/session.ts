@@ -0,0 +1,642 @@
+/**
+ * AlgoChat Web - PSK Session
+ *
+ * Stateful wrapper around the PSK v1.1 ratchet that manages send/receive
+ * counters automatically and persists them through a PSKStateStorage.
+ */
+
+import { sha256 } from '@noble/hashes/sha256';
+import { bytesToHex, hexToBytes } from '@noble/hashes/utils';
+import { randomBytes } from '@noble/ciphers/webcrypto';
+import { uint8ArrayEquals } from '../crypto/keys';
+import type { DecryptedContent, PaddingMode } from '../models/types';
+import {
+    PSK_PROTOCOL,
+    type PSKEnvelope,
+    type PSKSessionSnapshot,
+    type PSKState,
+    type SerializedPSKRekey,
+} from './types';
+import { derivePSKAtCounter } from './ratchet';
+import { PSKChain, PSKChainError } from './chain';
+import {
+    PSK_REKEY_TYPE,
+    PSKKeyring,
+    PSKRekeyError,
+    deriveRekeyPSK,
+    encodePSKRekeyPayload,
+    parsePSKRekeyPayload,
+    type PSKGeneration,
+    type PSKGenerationKey,
+} from './rekey';
+import {
+    createPSKState,
+    validateCounter,
+    recordReceive,
+    advanceSendCounter,
+    serializePSKState,
+    deserializePSKState,
+} from './state';
+import { encryptPSKMessage, decryptPSKMessage } from './encryption';
+import { InMemoryPSKStateStorage, type PSKStateStorage } from './storage';
+
+export class PSKReplayError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'PSKReplayError';
+    }
+}
+
+/** Options for opening a PSK session */
+export interface PSKSessionOptions {
+    /**
+     * Use the forward-secure chain ratchet instead of deriving every key from
+     * the initial PSK. Both peers must enable it. Keys of past sessions are
+     * erased, so messages from them can only be decrypted once, and our own
+     * sent messages only until the send chain moves to the next session.
+     */
+    forwardSecrecy?: boolean;
+}
+
+/** Rekey in progress */
+interface RekeyState {
+    generation: number;
+    role: 'initiator' | 'responder';
+    /** Our key share (initiator) or the peer's (responder) */
+    share: Uint8Array;
+    /** Counter of the peer's announcement (responder) */
+    announceCounter?: number;
+}
+
+/**
+ * A PSK v1.1 conversation with a single peer
+ *
+ * Every `encrypt` advances the send counter and every accepted `decrypt`
+ * records the peer's counter; both are saved to storage before returning,
+ * so replay protection survives restarts.
+ *
+ * `rekey` replaces the PSK with a new generation agreed inside the session
+ * (see `PSKKeyring`); rekey payloads received in `decrypt` are applied
+ * automatically.
+ *
+ * With `forwardSecrecy`, each direction uses a `PSKChain` and the session
+ * erases its copy of the initial PSK once both chains exist. Callers must
+ * also discard their own copy for the guarantee to hold, and reopen the
+ * session after a restart with `restore`.
+ *
+ * @example
+ * ```typescript
+ * const session = await PSKSession.open('PEER_ADDRESS', psk, storage);
+ * const envelope = await session.encrypt('Hello', myPublicKey, peerPublicKey);
+ * const content = await session.decrypt(received, myPrivateKey, myPublicKey, txid);
+ * ```
+ */
+export class PSKSession {
+    private constructor(
+        public readonly sessionId: string,
+        private initialPSK: Uint8Array | null,
+        /** Fingerprint of the initial PSK (see `fingerprintPSK`) */
+        public readonly pskId: string,
+        private readonly storage: PSKStateStorage,
+        public readonly forwardSecrecy: boolean,
+        private state: PSKState,
+        private receivedIds: Map<number, string>,
+        private keyring: PSKKeyring,
+        private rekeyState?: RekeyState,
+        private sendChain?: PSKChain,
+        private receiveChain?: PSKChain
+    ) {
+        this.eraseInitialPSKIfUnused();
+    }
+
+    /**
+     * Opens a session, restoring its counters from storage
+     *
+     * State stored for a different PSK or ratchet mode is discarded and the
+     * session starts fresh.
+     *
+     * @param sessionId - Storage key for the session (usually the peer's address)
+     * @param initialPSK - The shared pre-shared key (32 bytes)
+     * @param storage - Where counters are persisted (default: in-memory)
+     * @param options - Session options
+     */
+    static async open(
+        sessionId: string,
+        initialPSK: Uint8Array,
+        storage: PSKStateStorage = new InMemoryPSKStateStorage(),
+        options: PSKSessionOptions = {}
+    ): Promise<PSKSession> {
+        if (initialPSK.length !== 32) {
+            throw new Error(`PSK must be 32 bytes, got ${initialPSK.length}`);
+        }
+
+        const forwardSecrecy = options.forwardSecrecy ?? false;
+        const pskId = fingerprintPSK(initialPSK);
+        const snapshot = await storage.load(sessionId);
+
+        if (snapshot && snapshot.pskId === pskId && (snapshot.forwardSecrecy ?? false) === forwardSecrecy) {
+            const receivedIds = new Map(
+                Object.entries(snapshot.receivedIds).map(([counter, id]) => [Number(counter), id])
+            );
+            const chains = snapshot.chains ?? {};
+            return new PSKSession(
+                sessionId,
+                new Uint8Array(initialPSK),
+                pskId,
+                storage,
+                forwardSecrecy,
+                deserializePSKState(snapshot.state),
+                receivedIds,
+                snapshot.generations
+                    ? PSKKeyring.deserialize(initialPSK, snapshot.generations)
+                    : PSKKeyring.create(initialPSK),
+                snapshot.rekey ? deserializeRekey(snapshot.rekey) : undefined,
+                chains.send ? PSKChain.deserialize(chains.send, 0) : undefined,
+                chains.receive ? PSKChain.deserialize(chains.receive) : undefined
+            );
+        }
+
+        return new PSKSession(
+            sessionId,
+            new Uint8Array(initialPSK),
+            pskId,
+            storage,
+            forwardSecrecy,
+            createPSKState(),
+            new Map(),
+            PSKKeyring.create(initialPSK)
+        );
+    }
+
+    /**
+     * Restores a forward-secure session from storage without its initial PSK
+     *
+     * Once both chains exist the session no longer needs the initial PSK and
+     * erases it, so after a restart it is reopened here, by session id, from
+     * its stored chains.
+     *
+     * @param sessionId - Storage key for the session (usually the peer's address)
+     * @param storage - Where the session was persisted
+     * @returns The session, or undefined if none is stored or it still needs the initial PSK
+     */
+    static async restore(sessionId: string, storage: PSKStateStorage): Promise<PSKSession | undefined> {
+        const snapshot = await storage.load(sessionId);
+        if (!snapshot?.forwardSecrecy || !snapshot.chains?.send || !snapshot.chains.receive) {
+            return undefined;
+        }
+
+        return new PSKSession(
+            sessionId,
+            null,
+            snapshot.pskId,
+            storage,
+            true,
+            deserializePSKState(snapshot.state),
+            new Map(Object.entries(snapshot.receivedIds).map(([counter, id]) => [Number(counter), id])),
+            PSKKeyring.erased(),
+            undefined,
+            PSKChain.deserialize(snapshot.chains.send, 0),
+            PSKChain.deserialize(snapshot.chains.receive)
+        );
+    }
+
+    /**
+     * The current counter state
+     */
+    get currentState(): PSKState {
+        return {
+            sendCounter: this.state.sendCounter,
+            peerLastCounter: this.state.peerLastCounter,
+            seenCounters: new Set(this.state.seenCounters),
+        };
+    }
+
+    /**
+     * Whether the session still holds the initial PSK
+     *
+     * Always true without forward secrecy.
+     */
+    get holdsInitialPSK(): boolean {
+        return this.initialPSK !== null;
+    }
+
+    /** Generation of the PSK used for sending */
+    get generation(): number {
+        return this.keyring.currentGeneration;
+    }
+
+    /** All PSK generations and the counter ranges they cover */
+    get generations(): PSKGeneration[] {
+        return this.keyring.generations;
+    }
+
+    /** Whether the peer announced a rekey that still needs `acknowledgeRekey` */
+    get pendingRekeyAck(): boolean {
+        return this.rekeyState?.role === 'responder';
+    }
+
+    /** Whether we announced a rekey that the peer has not acknowledged yet */
+    get rekeyInProgress(): boolean {
+        return this.rekeyState?.role === 'initiator';
+    }
+
+    /**
+     * Encrypts a message with the next send counter
+     *
+     * The counter is persisted before encryption, so a counter is never
+     * reused even if the process stops before the message is sent.
+     *
+     * @param plaintext - Message text (or JSON payload) to encrypt
+     * @param senderPublicKey - Our X25519 public key
+     * @param recipientPublicKey - The peer's X25519 public key
+     * @param padding - Length-hiding padding applied before encryption (default: 'none')
+     */
+    async encrypt(
+        plaintext: string,
+        senderPublicKey: Uint8Array,
+        recipientPublicKey: Uint8Array,
+        padding: PaddingMode = 'none'
+    ): Promise<PSKEnvelope> {
+        const { counter, state } = advanceSendCounter(this.state);
+        this.state = state;
+
+        let currentPSK: Uint8Array;
+        if (this.forwardSecrecy) {
+            this.sendChain ??= PSKChain.create(this.requireInitialPSK(), senderPublicKey, 0);
+            currentPSK = this.sendChain.keyAt(counter);
+            this.sendChain.advanceTo(counter);
+            this.eraseInitialPSKIfUnused();
+        } else {
+            currentPSK = derivePSKAtCounter(this.keyring.sendKeyAt(counter).psk, counter);
+        }
+
+        await this.persist();
+
+        return encryptPSKMessage(plaintext, senderPublicKey, recipientPublicKey, currentPSK, counter, padding);
+    }
+
+    /**
+     * Decrypts an envelope exchanged in this session
+     *
+     * Envelopes we sent are decrypted without touching the counters. For the
+     * peer's envelopes the counter must be new and inside the window; it is
+     * recorded only after decryption succeeds. When `messageId` is given, the
+     * same message can be decrypted again (e.g. when re-fetching history),
+     * unless forward secrecy has already erased its key.
+     *
+     * @param envelope - PSK envelope to decrypt
+     * @param myPrivateKey - Our X25519 private key
+     * @param myPublicKey - Our X25519 public key
+     * @param messageId - Stable ID of the message (e.g. transaction ID)
+     * @returns Decrypted content, or null for key-publish payloads
+     * @throws PSKReplayError if the counter was already used or is outside the window
+     * @throws PSKChainError if forward secrecy has erased the counter's key
+     */
+    async decrypt(
+        envelope: PSKEnvelope,
+        myPrivateKey: Uint8Array,
+        myPublicKey: Uint8Array,
+        messageId?: string
+    ): Promise<DecryptedContent | null> {
+        const counter = envelope.ratchetCounter;
+
+        // Replay protection only applies to the peer's counters
+        if (uint8ArrayEquals(envelope.senderPublicKey, myPublicKey)) {
+            const currentPSK = this.forwardSecrecy
+                ? (this.sendChain ?? PSKChain.create(this.requireInitialPSK(), myPublicKey, 0)).keyAt(counter)
+                : derivePSKAtCounter(this.keyring.sendKeyAt(counter).psk, counter);
+            return decryptPSKMessage(envelope, myPrivateKey, myPublicKey, currentPSK);
+        }
+
+        const recordedId = this.receivedIds.get(counter);
+
+        if (recordedId !== undefined) {
+            if (messageId === undefined || recordedId !== messageId) {
+                throw new PSKReplayError(`Counter ${counter} already used`);
+            }
+            return this.decryptFromPeer(envelope, myPrivateKey, myPublicKey).content;
+        }
+
+        if (!validateCounter(this.state, counter)) {
+            throw new PSKReplayError(`Counter ${counter} replayed or outside window`);
+        }
+
+        // A chain is only kept once a message from it decrypts, so forged
+        // envelopes can neither seed nor advance it
+        const chain = this.forwardSecrecy
+            ? this.receiveChain ?? PSKChain.create(this.requireInitialPSK(), envelope.senderPublicKey)
+            : undefined;
+        const { content, generation } = this.decryptFromPeer(envelope, myPrivateKey, myPublicKey, chain);
+
+        this.state = recordReceive(this.state, counter);
+        if (messageId !== undefined) {
+            this.receivedIds.set(counter, messageId);
+        }
+        this.pruneReceivedIds();
+
+        if (chain) {
+            const lowerBound = this.state.peerLastCounter - PSK_PROTOCOL.COUNTER_WINDOW;
+            const mayArrive = (c: number) => c >= lowerBound && !this.state.seenCounters.has(c);
+            chain.advanceTo(counter, mayArrive);
+            chain.pruneSkippedKeys(mayArrive);
+            this.receiveChain = chain;
+            this.eraseInitialPSKIfUnused();
+        } else {
+            this.keyring.recordReceive(generation, counter);
+            if (content) {
+                this.applyRekeyPayload(content.text, counter);
+            }
+        }
+
+        await this.persist();
+
+        return content;
+    }
+
+    // MARK: - Rekey
+
+    /**
+     * Announces a new PSK generation to the peer
+     *
+     * Returns the announcement envelope to send. We keep sending with the
+     * current generation until the peer's acknowledgement is decrypted.
+     *
+     * @throws PSKRekeyError with forward secrecy or while a rekey is in progress
+     */
+    async rekey(senderPublicKey: Uint8Array, recipientPublicKey: Uint8Array): Promise<PSKEnvelope> {
+        if (this.forwardSecrecy) {
+            throw new PSKRekeyError('Rekeying is not supported with forward secrecy');
+        }
+        if (this.rekeyState) {
+            throw new PSKRekeyError('A rekey is already in progress');
+        }
+
+        const generation = this.keyring.latestGeneration + 1;
+        const share = randomBytes(32);
+        this.rekeyState = { generation, role: 'initiator', share };
+
+        const payload = encodePSKRekeyPayload({
+            type: PSK_REKEY_TYPE,
+            step: 'announce',
+            generation,
+            share: bytesToHex(share),
+        });
+        return this.encrypt(payload, senderPublicKey, recipientPublicKey);
+    }
+
+    /**
+     * Acknowledges the peer's rekey announcement and switches to the new generation
+     *
+     * Returns the acknowledgement envelope to send. It is still encrypted
+     * with the old generation; every later message uses the new one.
+     *
+     * @throws PSKRekeyError if no announcement is waiting
+     */
+    async acknowledgeRekey(senderPublicKey: Uint8Array, recipientPublicKey: Uint8Array): Promise<PSKEnvelope> {
+        const rekey = this.rekeyState;
+        if (rekey?.role !== 'responder') {
+            throw new PSKRekeyError('No rekey announcement to acknowledge');
+        }
+
+        const share = randomBytes(32);
+        const startCounter = this.state.sendCounter + 1;
+        const psk = deriveRekeyPSK(this.keyring.keyOf(rekey.generation - 1), rekey.generation, rekey.share, share);
+
+        this.keyring.add(rekey.generation, psk, {
+            sendStart: startCounter,
+            receiveStart: null,
+            receiveAfter: rekey.announceCounter,
+        });
+        this.clearRekey();
+
+        const payload = encodePSKRekeyPayload({
+            type: PSK_REKEY_TYPE,
+            step: 'ack',
+            generation: rekey.generation,
+            share: bytesToHex(share),
+            startCounter,
+        });
+        return this.encrypt(payload, senderPublicKey, recipientPublicKey);
+    }
+
+    /**
+     * Gets the generation keys that may have encrypted an envelope, newest first
+     *
+     * Lets `decryptPSKMessage` callers re-read history: pass
+     * `derivePSKAtCounter(key.psk, envelope.ratchetCounter)` for each
+     * candidate until one decrypts.
+     *
+     * @throws PSKRekeyError if the covering generation was pruned
+     */
+    generationKeysFor(envelope: PSKEnvelope, myPublicKey: Uint8Array): PSKGenerationKey[] {
+        if (uint8ArrayEquals(envelope.senderPublicKey, myPublicKey)) {
+            return [this.keyring.sendKeyAt(envelope.ratchetCounter)];
+        }
+        return this.keyring.receiveKeysAt(envelope.ratchetCounter);
+    }
+
+    /**
+     * Erases PSK generations no longer needed for in-flight messages
+     *
+     * Call once history has been synced; messages in pruned ranges can no
+     * longer be decrypted.
+     *
+     * @returns The pruned generation numbers
+     */
+    async pruneGenerations(): Promise<number[]> {
+        const pruned = this.keyring.prune(this.state.peerLastCounter);
+        if (pruned.length > 0) {
+            await this.persist();
+        }
+        return pruned;
+    }
+
+    /**
+     * Applies a rekey payload received from the peer
+     */
+    private applyRekeyPayload(text: string, counter: number): void {
+        const payload = parsePSKRekeyPayload(text);
+        if (!payload || payload.generation !== this.keyring.latestGeneration + 1) return;
+
+        if (payload.step === 'announce') {
+            // Both sides announced at once: the smaller share wins on both sides
+            if (this.rekeyState?.role === 'initiator' && bytesToHex(this.rekeyState.share) < payload.share) {
+                return;
+            }
+
+            this.clearRekey();
+            this.rekeyState = {
+                generation: payload.generation,
+                role: 'responder',
+                share: hexToBytes(payload.share),
+                announceCounter: counter,
+            };
+            return;
+        }
+
+        const rekey = this.rekeyState;
+        if (rekey?.role !== 'initiator' || rekey.generation !== payload.generation) return;
+
+        const psk = deriveRekeyPSK(
+            this.keyring.keyOf(rekey.generation - 1),
+            rekey.generation,
+            rekey.share,
+            hexToBytes(payload.share)
+        );
+        this.keyring.add(rekey.generation, psk, {
+            sendStart: this.state.sendCounter,
+            receiveStart: payload.startCounter!,
+        });
+        this.clearRekey();
+    }
+
+    private clearRekey(): void {
+        this.rekeyState?.share.fill(0);
+        this.rekeyState = undefined;
+    }
+
+    /**
+     * Returns the JSON-serializable state of the session
+     *
+     * After a rekey this includes the PSKs of later generations, and with
+     * forward secrecy the chain keys; both are secret.
+     */
+    snapshot(): PSKSessionSnapshot {
+        const receivedIds: Record<string, string> = {};
+        for (const [counter, id] of this.receivedIds) {
+            receivedIds[String(counter)] = id;
+        }
+
+        const snapshot: PSKSessionSnapshot = {
+            pskId: this.pskId,
+            state: serializePSKState(this.state),
+            receivedIds,
+        };
+
+        if (this.keyring.hasRekeyed) {
+            snapshot.generations = this.keyring.serialize();
+        }
+        if (this.rekeyState) {
+            snapshot.rekey = serializeRekey(this.rekeyState);
+        }
+
+        if (this.forwardSecrecy) {
+            snapshot.forwardSecrecy = true;
+            snapshot.chains = {
+                send: this.sendChain?.serialize(),
+                receive: this.receiveChain?.serialize(),
+            };
+        }
+
+        return snapshot;
+    }
+
+    /**
+     * Resets the counters and removes the session from storage
+     *
+     * A forward-secure session that has erased its initial PSK must be
+     * reopened with the PSK before it can be used again.
+     */
+    async reset(): Promise<void> {
+        this.state = createPSKState();
+        this.receivedIds.clear();
+        this.clearRekey();
+        this.keyring.erase();
+        if (this.initialPSK) {
+            this.keyring = PSKKeyring.create(this.initialPSK);
+        }
+        this.sendChain?.erase();
+        this.receiveChain?.erase();
+        this.sendChain = undefined;
+        this.receiveChain = undefined;
+        await this.storage.delete(this.sessionId);
+    }
+
+    /**
+     * Decrypts a peer envelope with the receive chain (forward secrecy) or the
+     * PSK generations that may cover its counter
+     */
+    private decryptFromPeer(
+        envelope: PSKEnvelope,
+        myPrivateKey: Uint8Array,
+        myPublicKey: Uint8Array,
+        chain = this.receiveChain
+    ): { content: DecryptedContent | null; generation: number } {
+        const counter = envelope.ratchetCounter;
+
+        if (this.forwardSecrecy) {
+            const currentPSK = (chain ?? PSKChain.create(this.requireInitialPSK(), envelope.senderPublicKey)).keyAt(counter);
+            return { content: decryptPSKMessage(envelope, myPrivateKey, myPublicKey, currentPSK), generation: 0 };
+        }
+
+        let lastError: unknown;
+        for (const { generation, psk } of this.keyring.receiveKeysAt(counter)) {
+            try {
+                const currentPSK = derivePSKAtCounter(psk, counter);
+                return { content: decryptPSKMessage(envelope, myPrivateKey, myPublicKey, currentPSK), generation };
+            } catch (error) {
+                lastError = error;
+            }
+        }
+        throw lastError;
+    }
+
+    private requireInitialPSK(): Uint8Array {
+        if (!this.initialPSK) {
+            throw new PSKChainError('Initial PSK has been erased; reopen the session with the PSK');
+        }
+        return this.initialPSK;
+    }
+
+    /**
+     * Erases the initial PSK, and the keyring's copy of it, once both chains
+     * have been derived from it
+     */
+    private eraseInitialPSKIfUnused(): void {
+        if (this.forwardSecrecy && this.initialPSK && this.sendChain && this.receiveChain) {
+            this.initialPSK.fill(0);
+            this.initialPSK = null;
+            this.keyring.erase();
+        }
+    }
+
+    /**
+     * Drops message IDs for counters that fell out of the window
+     */
+    private pruneReceivedIds(): void {
+        for (const counter of this.receivedIds.keys()) {
+            if (!this.state.seenCounters.has(counter)) {
+                this.receivedIds.delete(counter);
+            }
+        }
+    }
+
+    private async persist(): Promise<void> {
+        await this.storage.save(this.sessionId, this.snapshot());
+    }
+}
+
+function serializeRekey(rekey: RekeyState): SerializedPSKRekey {
+    return {
+        generation: rekey.generation,
+        role: rekey.role,
+        share: bytesToHex(rekey.share),
+        announceCounter: rekey.announceCounter,
+    };
+}
+
+function deserializeRekey(data: SerializedPSKRekey): RekeyState {
+    return {
+        generation: data.generation,
+        role: data.role,
+        share: hexToBytes(data.share),
+        announceCounter: data.announceCounter,
+    };
+}
+
+/**
+ * Short fingerprint identifying which PSK a stored state belongs to
+ */
+export function fingerprintPSK(psk: Uint8Array): string {
+    return bytesToHex(sha256(psk).slice(0, 8));
+}
@@ -4,7 +4,7 @@
  * Manages send/receive counters for replay protection with a sliding window.
  */
 
-import { PSK_PROTOCOL, type PSKState } from './types';
+import { PSK_PROTOCOL, type PSKState, type SerializedPSKState } from './types';
 
 /**
  * Creates a new PSK state with initial counter values.
@@ -89,3 +89,31 @@ export function advanceSendCounter(state: PSKState): { counter: number; state: P
         },
     };
 }
+
+/**
+ * Converts a PSK state to a JSON-serializable object.
+ *
+ * @param state - PSK state to serialize
+ * @returns Plain object with seenCounters as a sorted array
+ */
+export function serializePSKState(state: PSKState): SerializedPSKState {
+    return {
+        sendCounter: state.sendCounter,
+        peerLastCounter: state.peerLastCounter,
+        seenCounters: Array.from(state.seenCounters).sort((a, b) => a - b),
+    };
+}
+
+/**
+ * Restores a PSK state from its serialized form.
+ *
+ * @param data - Serialized state
+ * @returns PSK state
+ */
+export function deserializePSKState(data: SerializedPSKState): PSKState {
+    return {
+        sendCounter: data.sendCounter,
+        peerLastCounter: data.peerLastCounter,
+        seenCounters: new Set(data.seenCounters),
+    };
+}
@@ -0,0 +1,63 @@
+/**
+ * AlgoChat Web - PSK State Storage
+ *
+ * Storage interface for persisting PSK session counters across restarts.
+ */
+
+import type { PSKSessionSnapshot } from './types';
+
+/**
+ * Storage interface for PSK session state
+ *
+ * Implementations can use in-memory, localStorage, IndexedDB, files, etc.
+ * Sessions are keyed by an opaque ID (usually the peer's address).
+ */
+export interface PSKStateStorage {
+    /**
+     * Loads a session snapshot, or undefined if none is stored
+     */
+    load(sessionId: string): Promise<PSKSessionSnapshot | undefined>;
+
+    /**
+     * Saves a session snapshot, replacing any existing one
+     */
+    save(sessionId: string, snapshot: PSKSessionSnapshot): Promise<void>;
+
+    /**
+     * Deletes a session snapshot
+     */
+    delete(sessionId: string): Promise<void>;
+
+    /**
+     * Lists all stored session IDs
+     */
+    list(): Promise<string[]>;
+}
+
+/**
+ * In-memory storage implementation
+ *
+ * State is lost when the process exits, so replay protection only lasts
+ * for the lifetime of the process.
+ */
+export class InMemoryPSKStateStorage implements PSKStateStorage {
+    private snapshots = new Map<string, string>();
+
+    public async load(sessionId: string): Promise<PSKSessionSnapshot | undefined> {
+        const json = this.snapshots.get(sessionId);
+        return json ? JSON.parse(json) as PSKSessionSnapshot : undefined;
+    }
+
+    public async save(sessionId: string, snapshot: PSKSessionSnapshot): Promise<void> {
+        // Store serialized so callers can't mutate stored state
+        this.snapshots.set(sessionId, JSON.stringify(snapshot));
+    }
+
+    public async delete(sessionId: string): Promise<void> {
+        this.snapshots.delete(sessionId);
+    }
+
+    public async list(): Promise<string[]> {
+        return Array.from(this.snapshots.keys());
+    }
+}
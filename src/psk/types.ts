@@ -14,6 +14,7 @@ export const PSK_PROTOCOL = {
     MAX_PAYLOAD_SIZE: 878,
     SESSION_SIZE: 100,
     COUNTER_WINDOW: 200,
+    MAX_SKIPPED_KEYS: 200,
 } as const;
 
 /** PSK envelope wire format */
@@ -34,3 +35,71 @@ export interface PSKState {
     peerLastCounter: number;
     seenCounters: Set<number>;
 }
+
+/** JSON-serializable form of PSKState */
+export interface SerializedPSKState {
+    sendCounter: number;
+    peerLastCounter: number;
+    seenCounters: number[];
+}
+
+/** JSON-serializable form of a forward-secure PSK chain */
+export interface SerializedPSKChain {
+    sessionIndex: number;
+    /** Current session PSK (hex) */
+    sessionPSK: string;
+    /** Skipped position PSKs (hex) by counter */
+    skipped: Record<string, string>;
+}
+
+/** JSON-serializable form of a PSK generation */
+export interface SerializedPSKGeneration {
+    generation: number;
+    /** PSK (hex). Absent for generation 0, which is the initial PSK, and once pruned */
+    psk?: string;
+    /** Whether the key material has been erased */
+    pruned?: boolean;
+    /** First own counter encrypted with this generation, null until we switch */
+    sendStart: number | null;
+    /** First peer counter known to use this generation, null until seen */
+    receiveStart: number | null;
+    /** Peer counters up to this one are known to use an older generation */
+    receiveAfter?: number;
+}
+
+/** JSON-serializable form of a rekey in progress */
+export interface SerializedPSKRekey {
+    generation: number;
+    role: 'initiator' | 'responder';
+    /** Our key share (initiator) or the peer's (responder), hex */
+    share: string;
+    /** Counter of the peer's announcement (responder) */
+    announceCounter?: number;
+}
+
+/** Persisted state of a PSK session */
+export interface PSKSessionSnapshot {
+    /** Fingerprint of the initial PSK the state belongs to */
+    pskId: string;
+    /** Whether the session uses the forward-secure chain ratchet */
+    forwardSecrecy?: boolean;
+    /**
+     * Forward-secure chain state by direction (secret key material). Absent
+     * until the direction's first message.
+     */
+    chains?: {
+        send?: SerializedPSKChain;
+        receive?: SerializedPSKChain;
+    };
+    /**
+     * PSK generations after rekeying (secret key material). Absent until the
+     * first rekey.
+     */
+    generations?: SerializedPSKGeneration[];
+    /** Rekey in progress (secret key share) */
+    rekey?: SerializedPSKRekey;
+    /** Counter state */
+    state: SerializedPSKState;
+    /** Message ID that delivered each received counter still inside the window */
+    receivedIds: Record<string, string>;
+}
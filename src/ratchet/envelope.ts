@@ -0,0 +1,79 @@
+/**
+ * AlgoChat Web - Double Ratchet Envelope Encoding/Decoding
+ *
+ * Wire format (74-byte header):
+ *   [0]:       version (0x01)
+ *   [1]:       protocolId (0x04)
+ *   [2..33]:   senderPublicKey (32 bytes, static)
+ *   [34..65]:  ratchetPublicKey (32 bytes)
+ *   [66..69]:  previousChainLength (4 bytes, big-endian uint32)
+ *   [70..73]:  messageNumber (4 bytes, big-endian uint32)
+ *   [74..]:    ciphertext + 16-byte tag
+ *
+ * The header is authenticated as associated data.
+ */
+
+import { RATCHET_PROTOCOL, type RatchetEnvelope } from './types';
+
+export class RatchetEnvelopeError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'RatchetEnvelopeError';
+    }
+}
+
+/**
+ * Encodes a RatchetEnvelope to bytes for transaction note.
+ */
+export function encodeRatchetEnvelope(envelope: RatchetEnvelope): Uint8Array {
+    const header = encodeRatchetHeader(envelope);
+    const result = new Uint8Array(header.length + envelope.ciphertext.length);
+    result.set(header);
+    result.set(envelope.ciphertext, header.length);
+    return result;
+}
+
+/**
+ * Decodes bytes from transaction note to RatchetEnvelope.
+ */
+export function decodeRatchetEnvelope(data: Uint8Array): RatchetEnvelope {
+    if (!isRatchetMessage(data)) {
+        throw new RatchetEnvelopeError('Not a Double Ratchet message');
+    }
+    if (data.length < RATCHET_PROTOCOL.HEADER_SIZE + RATCHET_PROTOCOL.TAG_SIZE) {
+        throw new RatchetEnvelopeError(`Data too short: ${data.length} bytes`);
+    }
+
+    const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+    return {
+        version: data[0],
+        protocolId: data[1],
+        senderPublicKey: data.slice(2, 34),
+        ratchetPublicKey: data.slice(34, 66),
+        previousChainLength: view.getUint32(66),
+        messageNumber: view.getUint32(70),
+        ciphertext: data.slice(RATCHET_PROTOCOL.HEADER_SIZE),
+    };
+}
+
+/**
+ * Checks if data is a Double Ratchet message
+ */
+export function isRatchetMessage(data: Uint8Array): boolean {
+    return data.length >= 2 && data[0] === RATCHET_PROTOCOL.VERSION && data[1] === RATCHET_PROTOCOL.PROTOCOL_ID;
+}
+
+/**
+ * Encodes the envelope header, which is also the associated data
+ */
+export function encodeRatchetHeader(envelope: Omit<RatchetEnvelope, 'ciphertext'>): Uint8Array {
+    const header = new Uint8Array(RATCHET_PROTOCOL.HEADER_SIZE);
+    const view = new DataView(header.buffer);
+    header[0] = envelope.version;
+    header[1] = envelope.protocolId;
+    header.set(envelope.senderPublicKey, 2);
+    header.set(envelope.ratchetPublicKey, 34);
+    view.setUint32(66, envelope.previousChainLength);
+    view.setUint32(70, envelope.messageNumber);
+    return header;
+}
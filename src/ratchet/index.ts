@@ -0,0 +1,37 @@
+/**
+ * AlgoChat Web - Double Ratchet Protocol Module
+ *
+ * Provides Double Ratchet sessions bootstrapped from the peers' static
+ * encryption keys, with forward secrecy and post-compromise security.
+ */
+
+// Types and constants
+export {
+    RATCHET_PROTOCOL,
+    type RatchetEnvelope,
+    type RatchetState,
+    type RatchetSessionSnapshot,
+} from './types';
+
+// Envelope encoding/decoding
+export {
+    encodeRatchetEnvelope,
+    decodeRatchetEnvelope,
+    isRatchetMessage,
+    RatchetEnvelopeError,
+} from './envelope';
+
+// Ratchet state
+export {
+    createRatchetState,
+    ratchetEncrypt,
+    ratchetDecrypt,
+    serializeRatchetState,
+    deserializeRatchetState,
+    RatchetError,
+} from './state';
+
+// Sessions and state persistence
+export { RatchetSession } from './session';
+export { type RatchetStateStorage, InMemoryRatchetStateStorage } from './storage';
+export { type RatchetMessageStore, InMemoryRatchetMessageStore } from './message-store';
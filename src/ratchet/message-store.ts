@@ -0,0 +1,74 @@
+/**
+ * AlgoChat Web - Double Ratchet Message Store
+ *
+ * Storage interface for the contents of ratchet messages. Message keys are
+ * erased once used, so our own messages can never be decrypted again and a
+ * received one only once; the store is what keeps them readable.
+ */
+
+import type { DecryptedContent } from '../models/types';
+
+/** Default max messages kept by `InMemoryRatchetMessageStore` */
+const DEFAULT_MAX_MESSAGES = 1000;
+
+/**
+ * Storage interface for decrypted ratchet messages
+ *
+ * Contents are plaintext. Implementations can use in-memory, localStorage,
+ * IndexedDB, files, etc. Messages are keyed by transaction ID.
+ */
+export interface RatchetMessageStore {
+    /**
+     * Loads a message's content, or undefined if none is stored
+     */
+    load(txid: string): Promise<DecryptedContent | undefined>;
+
+    /**
+     * Saves a message's content, replacing any existing one
+     */
+    save(txid: string, content: DecryptedContent): Promise<void>;
+
+    /**
+     * Deletes a message's content
+     */
+    delete(txid: string): Promise<void>;
+}
+
+/**
+ * In-memory storage implementation
+ *
+ * Keeps the most recently saved messages, up to a limit. Contents are lost
+ * when the process exits; our own messages then come back unreadable and
+ * received ones are no longer returned.
+ */
+export class InMemoryRatchetMessageStore implements RatchetMessageStore {
+    private contents = new Map<string, string>();
+
+    /**
+     * @param maxMessages - Messages kept before the oldest is dropped (default: 1000)
+     */
+    constructor(private readonly maxMessages: number = DEFAULT_MAX_MESSAGES) {}
+
+    public async load(txid: string): Promise<DecryptedContent | undefined> {
+        const json = this.contents.get(txid);
+        return json ? JSON.parse(json) as DecryptedContent : undefined;
+    }
+
+    public async save(txid: string, content: DecryptedContent): Promise<void> {
+        // Delete first to refresh insertion order (Map iterates in insertion order)
+        this.contents.delete(txid);
+        // Store serialized so callers can't mutate stored content
+        this.contents.set(txid, JSON.stringify(content));
+
+        if (this.contents.size > this.maxMessages) {
+            const oldest = this.contents.keys().next().value;
+            if (oldest !== undefined) {
+                this.contents.delete(oldest);
+            }
+        }
+    }
+
+    public async delete(txid: string): Promise<void> {
+        this.contents.delete(txid);
+    }
+}
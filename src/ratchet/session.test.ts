@@ -0,0 +1,248 @@
+/**
+ * AlgoChat Web - Double Ratchet Session Tests
+ */
+
+import { describe, test, expect } from 'bun:test';
+import { deriveEncryptionKeys } from '../crypto/keys';
+import { decodeNote } from '../crypto/envelope';
+import type { X25519KeyPair } from '../models/types';
+import { RatchetSession } from './session';
+import { InMemoryRatchetStateStorage } from './storage';
+import { InMemoryRatchetMessageStore } from './message-store';
+import { RATCHET_PROTOCOL, type RatchetEnvelope } from './types';
+import { encodeRatchetEnvelope, decodeRatchetEnvelope, isRatchetMessage, RatchetEnvelopeError } from './envelope';
+import {
+    RatchetError,
+    createRatchetState,
+    ratchetEncrypt,
+    ratchetDecrypt,
+    serializeRatchetState,
+    deserializeRatchetState,
+} from './state';
+
+const alice = deriveEncryptionKeys(new Uint8Array(32).fill(1));
+const bob = deriveEncryptionKeys(new Uint8Array(32).fill(2));
+
+/** The initiator is the peer with the lower static public key */
+const [initiator, responder] = Buffer.compare(alice.publicKey, bob.publicKey) < 0 ? [alice, bob] : [bob, alice];
+
+async function openPair(
+    first: X25519KeyPair = alice,
+    second: X25519KeyPair = bob
+): Promise<[RatchetSession, RatchetSession]> {
+    return [
+        await RatchetSession.open('second', first, second.publicKey),
+        await RatchetSession.open('first', second, first.publicKey),
+    ];
+}
+
+describe('Double Ratchet Envelope', () => {
+    test('round-trips through a note', async () => {
+        const [aliceSession] = await openPair();
+        const envelope = await aliceSession.encrypt('hello');
+        const encoded = encodeRatchetEnvelope(envelope);
+
+        expect(isRatchetMessage(encoded)).toBe(true);
+        expect(encoded.length).toBe(RATCHET_PROTOCOL.HEADER_SIZE + 5 + RATCHET_PROTOCOL.TAG_SIZE);
+        expect(decodeRatchetEnvelope(encoded)).toEqual(envelope);
+        expect(decodeNote(encoded).kind).toBe('ratchet');
+    });
+
+    test('rejects other and truncated notes', () => {
+        expect(isRatchetMessage(new Uint8Array([0x01, 0x01]))).toBe(false);
+        expect(() => decodeRatchetEnvelope(new Uint8Array([0x01, 0x02, 0x00]))).toThrow(RatchetEnvelopeError);
+        expect(() => decodeRatchetEnvelope(new Uint8Array([0x01, 0x04, 0x00]))).toThrow(/too short/);
+    });
+
+    test('fills a 1024-byte note at the payload limit', async () => {
+        const [aliceSession] = await openPair();
+        const limit = 'x'.repeat(RATCHET_PROTOCOL.MAX_PAYLOAD_SIZE);
+
+        expect(encodeRatchetEnvelope(await aliceSession.encrypt(limit)).length).toBe(1024);
+        await expect(aliceSession.encrypt(limit + 'x')).rejects.toThrow(RatchetError);
+    });
+});
+
+describe('Double Ratchet State', () => {
+    test('refuses a session with our own key', () => {
+        expect(() => createRatchetState(alice, alice.publicKey)).toThrow(RatchetError);
+    });
+
+    test('starts the responder on its static key', () => {
+        const state = createRatchetState(responder, initiator.publicKey);
+        const { envelope } = ratchetEncrypt(state, new TextEncoder().encode('hi'));
+
+        expect(state.sendingKeyPair).toBeUndefined();
+        expect(envelope.ratchetPublicKey).toEqual(responder.publicKey);
+    });
+
+    test('leaves its input state untouched', () => {
+        const state = createRatchetState(initiator, responder.publicKey);
+        const before = serializeRatchetState(state);
+        const { envelope } = ratchetEncrypt(state, new TextEncoder().encode('hi'));
+        ratchetDecrypt(createRatchetState(responder, initiator.publicKey), envelope, responder.privateKey);
+
+        expect(serializeRatchetState(state)).toEqual(before);
+    });
+
+    test('round-trips through JSON', () => {
+        let state = createRatchetState(initiator, responder.publicKey);
+        state = ratchetEncrypt(state, new Uint8Array([1])).state;
+
+        const restored = deserializeRatchetState(JSON.parse(JSON.stringify(serializeRatchetState(state))));
+        expect(restored).toEqual(state);
+    });
+});
+
+describe('RatchetSession', () => {
+    test('exchanges messages in both directions', async () => {
+        const [aliceSession, bobSession] = await openPair();
+
+        for (let i = 0; i < 3; i++) {
+            const toBob = await aliceSession.encrypt(`ping ${i}`);
+            expect((await bobSession.decrypt(toBob)).text).toBe(`ping ${i}`);
+
+            const toAlice = await bobSession.encrypt(`pong ${i}`);
+            expect((await aliceSession.decrypt(toAlice)).text).toBe(`pong ${i}`);
+        }
+    });
+
+    test('lets either peer send first', async () => {
+        const [initiatorSession, responderSession] = await openPair(initiator, responder);
+
+        const first = await responderSession.encrypt('responder first');
+        const second = await initiatorSession.encrypt('initiator too');
+
+        expect((await initiatorSession.decrypt(first)).text).toBe('responder first');
+        expect((await responderSession.decrypt(second)).text).toBe('initiator too');
+    });
+
+    test('uses a new ratchet key after every reply', async () => {
+        const [aliceSession, bobSession] = await openPair();
+
+        const first = await aliceSession.encrypt('one');
+        const again = await aliceSession.encrypt('two');
+        await bobSession.decrypt(first);
+        await aliceSession.decrypt(await bobSession.encrypt('reply'));
+        const third = await aliceSession.encrypt('three');
+
+        expect(again.ratchetPublicKey).toEqual(first.ratchetPublicKey);
+        expect(third.ratchetPublicKey).not.toEqual(first.ratchetPublicKey);
+        expect(third.previousChainLength).toBe(2);
+        expect(third.messageNumber).toBe(0);
+    });
+
+    test('decrypts skipped and out-of-order messages once', async () => {
+        const [aliceSession, bobSession] = await openPair();
+
+        const sent: RatchetEnvelope[] = [];
+        for (let i = 0; i < 3; i++) sent.push(await aliceSession.encrypt(`a${i}`));
+        await aliceSession.decrypt(await bobSession.encrypt('ack'));
+        for (let i = 3; i < 5; i++) sent.push(await aliceSession.encrypt(`a${i}`));
+
+        // The new chain arrives first; the old chain's keys are kept
+        expect((await bobSession.decrypt(sent[4])).text).toBe('a4');
+        expect((await bobSession.decrypt(sent[1])).text).toBe('a1');
+        expect((await bobSession.decrypt(sent[3])).text).toBe('a3');
+        expect((await bobSession.decrypt(sent[0])).text).toBe('a0');
+        expect((await bobSession.decrypt(sent[2])).text).toBe('a2');
+
+        await expect(bobSession.decrypt(sent[1])).rejects.toThrow(RatchetError);
+        await expect(bobSession.decrypt(sent[4])).rejects.toThrow(/already decrypted/);
+    });
+
+    test('rejects messages that skip too far', async () => {
+        const [aliceSession, bobSession] = await openPair();
+        const envelope = await aliceSession.encrypt('far ahead');
+
+        // Renumbering breaks the tag, but the skip limit is checked first
+        const skipped = { ...envelope, messageNumber: RATCHET_PROTOCOL.MAX_SKIP + 1 };
+        await expect(bobSession.decrypt(skipped)).rejects.toThrow(/Too many skipped/);
+        expect((await bobSession.decrypt(envelope)).text).toBe('far ahead');
+    });
+
+    test('rejects tampered envelopes without advancing', async () => {
+        const [aliceSession, bobSession] = await openPair();
+        const envelope = await aliceSession.encrypt('intact');
+
+        const ciphertext = new Uint8Array(envelope.ciphertext);
+        ciphertext[0] ^= 0xff;
+        await expect(bobSession.decrypt({ ...envelope, ciphertext })).rejects.toThrow(/does not decrypt/);
+        await expect(bobSession.decrypt({ ...envelope, previousChainLength: 1 })).rejects.toThrow(/does not decrypt/);
+
+        const mallory = deriveEncryptionKeys(new Uint8Array(32).fill(3));
+        await expect(bobSession.decrypt({ ...envelope, senderPublicKey: mallory.publicKey })).rejects.toThrow(/session peer/);
+
+        expect((await bobSession.decrypt(envelope)).text).toBe('intact');
+    });
+
+    test('recovers from a compromise once both peers have ratcheted', async () => {
+        const [aliceSession, bobSession] = await openPair();
+
+        await bobSession.decrypt(await aliceSession.encrypt('before'));
+        await aliceSession.decrypt(await bobSession.encrypt('reply'));
+        const after = await aliceSession.encrypt('after');
+
+        // Bob's static key alone no longer opens the conversation
+        const attacker = await RatchetSession.open('attacker', bob, alice.publicKey);
+        await expect(attacker.decrypt(after)).rejects.toThrow(RatchetError);
+        expect((await bobSession.decrypt(after)).text).toBe('after');
+    });
+
+    test('pads messages and parses replies', async () => {
+        const [aliceSession, bobSession] = await openPair();
+
+        const envelope = await aliceSession.encrypt(
+            JSON.stringify({ text: 'sure', replyTo: { txid: 'TX1', preview: 'lunch?' } }),
+            'bucket'
+        );
+        expect(envelope.ciphertext.length).toBe(64 + RATCHET_PROTOCOL.TAG_SIZE);
+
+        const content = await bobSession.decrypt(envelope);
+        expect(content.text).toBe('sure');
+        expect(content.replyToId).toBe('TX1');
+    });
+
+    test('restores sessions from storage', async () => {
+        const storage = new InMemoryRatchetStateStorage();
+        const aliceSession = await RatchetSession.open('bob', alice, bob.publicKey, storage);
+        const bobSession = await RatchetSession.open('alice', bob, alice.publicKey);
+
+        await bobSession.decrypt(await aliceSession.encrypt('one'));
+        await aliceSession.decrypt(await bobSession.encrypt('two'));
+
+        const reopened = await RatchetSession.open('bob', alice, bob.publicKey, storage);
+        expect((await bobSession.decrypt(await reopened.encrypt('three'))).text).toBe('three');
+        expect(await storage.list()).toEqual(['bob']);
+    });
+
+    test('starts fresh when the peer key changes', async () => {
+        const storage = new InMemoryRatchetStateStorage();
+        const aliceSession = await RatchetSession.open('peer', alice, bob.publicKey, storage);
+        await aliceSession.encrypt('to bob');
+
+        const carol = deriveEncryptionKeys(new Uint8Array(32).fill(4));
+        const reopened = await RatchetSession.open('peer', alice, carol.publicKey, storage);
+        const carolSession = await RatchetSession.open('alice', carol, alice.publicKey);
+
+        expect(reopened.peerPublicKey).toEqual(carol.publicKey);
+        expect((await carolSession.decrypt(await reopened.encrypt('to carol'))).text).toBe('to carol');
+    });
+});
+
+describe('InMemoryRatchetMessageStore', () => {
+    test('keeps the most recently saved messages up to its limit', async () => {
+        const store = new InMemoryRatchetMessageStore(2);
+        await store.save('tx-1', { text: 'one' });
+        await store.save('tx-2', { text: 'two' });
+        await store.save('tx-1', { text: 'one again' });
+        await store.save('tx-3', { text: 'three' });
+
+        expect(await store.load('tx-2')).toBeUndefined();
+        expect(await store.load('tx-1')).toEqual({ text: 'one again' });
+        expect(await store.load('tx-3')).toEqual({ text: 'three' });
+
+        await store.delete('tx-3');
+        expect(await store.load('tx-3')).toBeUndefined();
+    });
+});
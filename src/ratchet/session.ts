@@ -0,0 +1,129 @@
+/**
+ * AlgoChat Web - Double Ratchet Session
+ *
+ * Stateful wrapper around the Double Ratchet that persists the session
+ * through a RatchetStateStorage after every message.
+ */
+
+import { bytesToHex } from '@noble/hashes/utils';
+import { padPayload, unpadPayload } from '../crypto/padding';
+import { decodePayload, payloadToContent } from '../models/payload';
+import type { DecryptedContent, PaddingMode, X25519KeyPair } from '../models/types';
+import { RATCHET_PROTOCOL, type RatchetEnvelope, type RatchetState } from './types';
+import {
+    RatchetError,
+    createRatchetState,
+    ratchetEncrypt,
+    ratchetDecrypt,
+    serializeRatchetState,
+    deserializeRatchetState,
+} from './state';
+import { InMemoryRatchetStateStorage, type RatchetStateStorage } from './storage';
+
+/**
+ * A Double Ratchet conversation with a single peer
+ *
+ * Message keys are erased once used, so each received message decrypts
+ * exactly once and our own sent messages cannot be decrypted at all.
+ * Keep decrypted messages yourself (e.g. in a MessageCache) if history
+ * must be shown again.
+ *
+ * @example
+ * ```typescript
+ * const session = await RatchetSession.open('PEER_ADDRESS', myKeys, peerPublicKey, storage);
+ * const envelope = await session.encrypt('Hello');
+ * const content = await session.decrypt(received);
+ * ```
+ */
+export class RatchetSession {
+    private constructor(
+        public readonly sessionId: string,
+        private readonly ourKeys: X25519KeyPair,
+        private readonly storage: RatchetStateStorage,
+        private state: RatchetState
+    ) {}
+
+    /**
+     * Opens a session, restoring it from storage
+     *
+     * State stored for a different key pair or peer key is discarded and the
+     * session starts fresh from the static keys.
+     *
+     * @param sessionId - Storage key for the session (usually the peer's address)
+     * @param ourKeys - Our static X25519 key pair
+     * @param peerPublicKey - The peer's static X25519 public key
+     * @param storage - Where the session is persisted (default: in-memory)
+     */
+    static async open(
+        sessionId: string,
+        ourKeys: X25519KeyPair,
+        peerPublicKey: Uint8Array,
+        storage: RatchetStateStorage = new InMemoryRatchetStateStorage()
+    ): Promise<RatchetSession> {
+        const snapshot = await storage.load(sessionId);
+
+        if (
+            snapshot &&
+            snapshot.ourPublicKey === bytesToHex(ourKeys.publicKey) &&
+            snapshot.peerPublicKey === bytesToHex(peerPublicKey)
+        ) {
+            return new RatchetSession(sessionId, ourKeys, storage, deserializeRatchetState(snapshot));
+        }
+
+        return new RatchetSession(sessionId, ourKeys, storage, createRatchetState(ourKeys, peerPublicKey));
+    }
+
+    /** The peer's static X25519 public key */
+    get peerPublicKey(): Uint8Array {
+        return new Uint8Array(this.state.peerPublicKey);
+    }
+
+    /**
+     * Encrypts a message with the next sending key
+     *
+     * The advanced state is persisted before the envelope is returned, so a
+     * message key is never reused.
+     *
+     * @param plaintext - Message text (or JSON payload) to encrypt
+     * @param padding - Length-hiding padding applied before encryption (default: 'none')
+     * @throws RatchetError if the message is too large
+     */
+    async encrypt(plaintext: string, padding: PaddingMode = 'none'): Promise<RatchetEnvelope> {
+        const messageBytes = new TextEncoder().encode(plaintext);
+        if (messageBytes.length > RATCHET_PROTOCOL.MAX_PAYLOAD_SIZE) {
+            throw new RatchetError(`Message too large: ${messageBytes.length} bytes, max ${RATCHET_PROTOCOL.MAX_PAYLOAD_SIZE}`);
+        }
+
+        const { envelope, state } = ratchetEncrypt(
+            this.state,
+            padPayload(messageBytes, padding, RATCHET_PROTOCOL.MAX_PAYLOAD_SIZE)
+        );
+        this.state = state;
+        await this.persist();
+
+        return envelope;
+    }
+
+    /**
+     * Decrypts an envelope sent by the peer
+     *
+     * The session only advances when decryption succeeds, so forged or
+     * replayed envelopes leave it untouched.
+     *
+     * @throws RatchetError if the envelope is not from the peer, was already
+     *   decrypted, skips too many messages or does not decrypt
+     */
+    async decrypt(envelope: RatchetEnvelope): Promise<DecryptedContent> {
+        const { plaintext, state } = ratchetDecrypt(this.state, envelope, this.ourKeys.privateKey);
+        const content = payloadToContent(decodePayload(new TextDecoder().decode(unpadPayload(plaintext))));
+
+        this.state = state;
+        await this.persist();
+
+        return content;
+    }
+
+    private async persist(): Promise<void> {
+        await this.storage.save(this.sessionId, serializeRatchetState(this.state));
+    }
+}
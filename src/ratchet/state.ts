@@ -0,0 +1,312 @@
+/**
+ * AlgoChat Web - Double Ratchet State
+ *
+ * Symmetric-key and Diffie-Hellman ratchets over X25519, bootstrapped from
+ * the peers' static encryption keys.
+ *
+ * The peer with the lower static public key is the initiator: it starts
+ * with a fresh ratchet key, while the responder starts on its static key.
+ * Either side may send first. Every reply carries a new ratchet key, so
+ * once both peers have sent, a stolen static key or session state no longer
+ * decrypts later messages (post-compromise security), and used message keys
+ * are erased (forward secrecy).
+ *
+ * All functions return a new state and leave their input untouched.
+ */
+
+import { chacha20poly1305 } from '@noble/ciphers/chacha';
+import { hkdf } from '@noble/hashes/hkdf';
+import { hmac } from '@noble/hashes/hmac';
+import { sha256 } from '@noble/hashes/sha256';
+import { bytesToHex, hexToBytes } from '@noble/hashes/utils';
+import { generateEphemeralKeyPair, uint8ArrayEquals, x25519ECDH } from '../crypto/keys';
+import type { X25519KeyPair } from '../models/types';
+import { RATCHET_PROTOCOL, type RatchetEnvelope, type RatchetSessionSnapshot, type RatchetState } from './types';
+import { encodeRatchetHeader } from './envelope';
+
+const RATCHET_SALT = new TextEncoder().encode('AlgoChatRatchetV1');
+const ROOT_INFO = new TextEncoder().encode('AlgoChatRatchetRoot');
+const RESPONDER_CHAIN_INFO = new TextEncoder().encode('AlgoChatRatchetResponderChain');
+const MESSAGE_INFO = new TextEncoder().encode('AlgoChatRatchetMessage');
+const MESSAGE_KEY_SEED = new Uint8Array([0x01]);
+const CHAIN_KEY_SEED = new Uint8Array([0x02]);
+
+export class RatchetError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'RatchetError';
+    }
+}
+
+/**
+ * Creates the initial state of a session with a peer
+ *
+ * Both peers derive matching states from their static keys alone.
+ *
+ * @param ourKeys - Our static X25519 key pair
+ * @param peerPublicKey - The peer's static X25519 public key
+ * @throws RatchetError if both keys are the same
+ */
+export function createRatchetState(ourKeys: X25519KeyPair, peerPublicKey: Uint8Array): RatchetState {
+    const order = compareKeys(ourKeys.publicKey, peerPublicKey);
+    if (order === 0) {
+        throw new RatchetError('Cannot open a ratchet session with our own key');
+    }
+
+    const [low, high] = order < 0 ? [ourKeys.publicKey, peerPublicKey] : [peerPublicKey, ourKeys.publicKey];
+    const info = new Uint8Array(64);
+    info.set(low);
+    info.set(high, 32);
+
+    const sharedSecret = hkdf(sha256, x25519ECDH(ourKeys.privateKey, peerPublicKey), RATCHET_SALT, info, 32);
+    const responderChain = hkdf(sha256, sharedSecret, RATCHET_SALT, RESPONDER_CHAIN_INFO, 32);
+
+    const state: RatchetState = {
+        ourPublicKey: new Uint8Array(ourKeys.publicKey),
+        peerPublicKey: new Uint8Array(peerPublicKey),
+        rootKey: sharedSecret,
+        sendingChain: responderChain,
+        sendCount: 0,
+        receiveCount: 0,
+        previousSendCount: 0,
+        skipped: new Map(),
+    };
+
+    if (order < 0) {
+        // Initiator: ratchet away from our static key right away and
+        // receive the responder's first chain on its static key
+        const sendingKeyPair = generateEphemeralKeyPair();
+        const [rootKey, sendingChain] = deriveRootKeys(sharedSecret, x25519ECDH(sendingKeyPair.privateKey, peerPublicKey));
+        state.rootKey = rootKey;
+        state.sendingChain = sendingChain;
+        state.sendingKeyPair = sendingKeyPair;
+        state.receivingKey = new Uint8Array(peerPublicKey);
+        state.receivingChain = responderChain;
+    }
+
+    return state;
+}
+
+/**
+ * Encrypts a message with the next key of the sending chain
+ *
+ * @param state - Current session state
+ * @param plaintext - Payload bytes (already padded)
+ * @returns The envelope and the advanced state
+ * @throws RatchetError if the payload is too large
+ */
+export function ratchetEncrypt(
+    state: RatchetState,
+    plaintext: Uint8Array
+): { envelope: RatchetEnvelope; state: RatchetState } {
+    if (plaintext.length > RATCHET_PROTOCOL.MAX_PAYLOAD_SIZE) {
+        throw new RatchetError(`Message too large: ${plaintext.length} bytes, max ${RATCHET_PROTOCOL.MAX_PAYLOAD_SIZE}`);
+    }
+
+    const next = cloneState(state);
+    const [messageKey, sendingChain] = deriveChainKeys(next.sendingChain);
+    next.sendingChain = sendingChain;
+
+    const envelope: RatchetEnvelope = {
+        version: RATCHET_PROTOCOL.VERSION,
+        protocolId: RATCHET_PROTOCOL.PROTOCOL_ID,
+        senderPublicKey: new Uint8Array(next.ourPublicKey),
+        ratchetPublicKey: new Uint8Array(next.sendingKeyPair?.publicKey ?? next.ourPublicKey),
+        previousChainLength: next.previousSendCount,
+        messageNumber: next.sendCount,
+        ciphertext: new Uint8Array(0),
+    };
+    next.sendCount += 1;
+
+    const { key, nonce } = deriveMessageCipher(messageKey);
+    envelope.ciphertext = chacha20poly1305(key, nonce, encodeRatchetHeader(envelope)).encrypt(plaintext);
+
+    return { envelope, state: next };
+}
+
+/**
+ * Decrypts a message from the peer
+ *
+ * Performs a Diffie-Hellman ratchet step when the envelope carries a new
+ * ratchet key. Keys of messages skipped on the way are kept, so messages
+ * that arrive late or out of order still decrypt, each exactly once.
+ *
+ * @param state - Current session state
+ * @param envelope - Envelope sent by the peer
+ * @param ourPrivateKey - Our static X25519 private key
+ * @returns The payload bytes (still padded) and the advanced state
+ * @throws RatchetError if the envelope is not from the peer, was already
+ *   decrypted, skips too many messages or does not decrypt
+ */
+export function ratchetDecrypt(
+    state: RatchetState,
+    envelope: RatchetEnvelope,
+    ourPrivateKey: Uint8Array
+): { plaintext: Uint8Array; state: RatchetState } {
+    if (!uint8ArrayEquals(envelope.senderPublicKey, state.peerPublicKey)) {
+        throw new RatchetError('Envelope was not sent by the session peer');
+    }
+
+    const next = cloneState(state);
+    const skippedId = skippedKeyId(envelope.ratchetPublicKey, envelope.messageNumber);
+    const skippedKey = next.skipped.get(skippedId);
+
+    if (skippedKey) {
+        next.skipped.delete(skippedId);
+        return { plaintext: decryptWithMessageKey(envelope, skippedKey), state: next };
+    }
+
+    if (!next.receivingKey || !uint8ArrayEquals(envelope.ratchetPublicKey, next.receivingKey)) {
+        skipMessageKeys(next, envelope.previousChainLength);
+        ratchetStep(next, envelope.ratchetPublicKey, ourPrivateKey);
+    }
+
+    if (envelope.messageNumber < next.receiveCount) {
+        throw new RatchetError(`Message ${envelope.messageNumber} was already decrypted or its key was dropped`);
+    }
+
+    skipMessageKeys(next, envelope.messageNumber);
+    const [messageKey, receivingChain] = deriveChainKeys(next.receivingChain!);
+    next.receivingChain = receivingChain;
+    next.receiveCount += 1;
+
+    return { plaintext: decryptWithMessageKey(envelope, messageKey), state: next };
+}
+
+/**
+ * Serializes a session state for storage
+ */
+export function serializeRatchetState(state: RatchetState): RatchetSessionSnapshot {
+    return {
+        ourPublicKey: bytesToHex(state.ourPublicKey),
+        peerPublicKey: bytesToHex(state.peerPublicKey),
+        rootKey: bytesToHex(state.rootKey),
+        sendingKeyPair: state.sendingKeyPair
+            ? {
+                publicKey: bytesToHex(state.sendingKeyPair.publicKey),
+                privateKey: bytesToHex(state.sendingKeyPair.privateKey),
+            }
+            : undefined,
+        receivingKey: state.receivingKey ? bytesToHex(state.receivingKey) : undefined,
+        sendingChain: bytesToHex(state.sendingChain),
+        receivingChain: state.receivingChain ? bytesToHex(state.receivingChain) : undefined,
+        sendCount: state.sendCount,
+        receiveCount: state.receiveCount,
+        previousSendCount: state.previousSendCount,
+        skipped: Object.fromEntries(Array.from(state.skipped, ([id, key]) => [id, bytesToHex(key)])),
+    };
+}
+
+/**
+ * Deserializes a session state from storage
+ */
+export function deserializeRatchetState(snapshot: RatchetSessionSnapshot): RatchetState {
+    return {
+        ourPublicKey: hexToBytes(snapshot.ourPublicKey),
+        peerPublicKey: hexToBytes(snapshot.peerPublicKey),
+        rootKey: hexToBytes(snapshot.rootKey),
+        sendingKeyPair: snapshot.sendingKeyPair
+            ? {
+                publicKey: hexToBytes(snapshot.sendingKeyPair.publicKey),
+                privateKey: hexToBytes(snapshot.sendingKeyPair.privateKey),
+            }
+            : undefined,
+        receivingKey: snapshot.receivingKey ? hexToBytes(snapshot.receivingKey) : undefined,
+        sendingChain: hexToBytes(snapshot.sendingChain),
+        receivingChain: snapshot.receivingChain ? hexToBytes(snapshot.receivingChain) : undefined,
+        sendCount: snapshot.sendCount,
+        receiveCount: snapshot.receiveCount,
+        previousSendCount: snapshot.previousSendCount,
+        skipped: new Map(Object.entries(snapshot.skipped).map(([id, key]) => [id, hexToBytes(key)])),
+    };
+}
+
+// MARK: - Ratchet Steps
+
+/**
+ * Moves to the peer's new ratchet key and starts new receiving and sending chains
+ */
+function ratchetStep(state: RatchetState, ratchetKey: Uint8Array, ourPrivateKey: Uint8Array): void {
+    const currentPrivateKey = state.sendingKeyPair?.privateKey ?? ourPrivateKey;
+    const [rootKey, receivingChain] = deriveRootKeys(state.rootKey, x25519ECDH(currentPrivateKey, ratchetKey));
+
+    const sendingKeyPair = generateEphemeralKeyPair();
+    const [nextRootKey, sendingChain] = deriveRootKeys(rootKey, x25519ECDH(sendingKeyPair.privateKey, ratchetKey));
+
+    state.previousSendCount = state.sendCount;
+    state.sendCount = 0;
+    state.receiveCount = 0;
+    state.receivingKey = new Uint8Array(ratchetKey);
+    state.receivingChain = receivingChain;
+    state.sendingKeyPair = sendingKeyPair;
+    state.sendingChain = sendingChain;
+    state.rootKey = nextRootKey;
+}
+
+/**
+ * Stores the keys of receiving-chain messages before `until`
+ */
+function skipMessageKeys(state: RatchetState, until: number): void {
+    if (!state.receivingChain || !state.receivingKey) {
+        return;
+    }
+    if (until - state.receiveCount > RATCHET_PROTOCOL.MAX_SKIP) {
+        throw new RatchetError(`Too many skipped messages: ${until - state.receiveCount}, max ${RATCHET_PROTOCOL.MAX_SKIP}`);
+    }
+
+    while (state.receiveCount < until) {
+        const [messageKey, receivingChain] = deriveChainKeys(state.receivingChain);
+        state.skipped.set(skippedKeyId(state.receivingKey, state.receiveCount), messageKey);
+        state.receivingChain = receivingChain;
+        state.receiveCount += 1;
+    }
+
+    // Map iteration follows insertion order, so the oldest keys go first
+    for (const id of state.skipped.keys()) {
+        if (state.skipped.size <= RATCHET_PROTOCOL.MAX_SKIPPED_KEYS) break;
+        state.skipped.delete(id);
+    }
+}
+
+function decryptWithMessageKey(envelope: RatchetEnvelope, messageKey: Uint8Array): Uint8Array {
+    const { key, nonce } = deriveMessageCipher(messageKey);
+    try {
+        return chacha20poly1305(key, nonce, encodeRatchetHeader(envelope)).decrypt(envelope.ciphertext);
+    } catch {
+        throw new RatchetError('Message does not decrypt with the session keys');
+    }
+}
+
+// MARK: - Key Derivation
+
+/** KDF_RK: new root key and chain key from a Diffie-Hellman output */
+function deriveRootKeys(rootKey: Uint8Array, dhOutput: Uint8Array): [Uint8Array, Uint8Array] {
+    const output = hkdf(sha256, dhOutput, rootKey, ROOT_INFO, 64);
+    return [output.slice(0, 32), output.slice(32)];
+}
+
+/** KDF_CK: message key and next chain key */
+function deriveChainKeys(chainKey: Uint8Array): [Uint8Array, Uint8Array] {
+    return [hmac(sha256, chainKey, MESSAGE_KEY_SEED), hmac(sha256, chainKey, CHAIN_KEY_SEED)];
+}
+
+/** Cipher key and nonce for a message key, which is used only once */
+function deriveMessageCipher(messageKey: Uint8Array): { key: Uint8Array; nonce: Uint8Array } {
+    const output = hkdf(sha256, messageKey, undefined, MESSAGE_INFO, 44);
+    return { key: output.slice(0, 32), nonce: output.slice(32) };
+}
+
+function skippedKeyId(ratchetKey: Uint8Array, messageNumber: number): string {
+    return `${bytesToHex(ratchetKey)}:${messageNumber}`;
+}
+
+function compareKeys(a: Uint8Array, b: Uint8Array): number {
+    for (let i = 0; i < Math.min(a.length, b.length); i++) {
+        if (a[i] !== b[i]) return a[i] - b[i];
+    }
+    return a.length - b.length;
+}
+
+function cloneState(state: RatchetState): RatchetState {
+    return deserializeRatchetState(serializeRatchetState(state));
+}
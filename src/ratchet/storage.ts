@@ -0,0 +1,64 @@
+/**
+ * AlgoChat Web - Double Ratchet State Storage
+ *
+ * Storage interface for persisting ratchet sessions across restarts.
+ */
+
+import type { RatchetSessionSnapshot } from './types';
+
+/**
+ * Storage interface for Double Ratchet session state
+ *
+ * Snapshots hold secret key material. Implementations can use in-memory,
+ * localStorage, IndexedDB, files, etc. Sessions are keyed by an opaque ID
+ * (usually the peer's address).
+ */
+export interface RatchetStateStorage {
+    /**
+     * Loads a session snapshot, or undefined if none is stored
+     */
+    load(sessionId: string): Promise<RatchetSessionSnapshot | undefined>;
+
+    /**
+     * Saves a session snapshot, replacing any existing one
+     */
+    save(sessionId: string, snapshot: RatchetSessionSnapshot): Promise<void>;
+
+    /**
+     * Deletes a session snapshot
+     */
+    delete(sessionId: string): Promise<void>;
+
+    /**
+     * Lists all stored session IDs
+     */
+    list(): Promise<string[]>;
+}
+
+/**
+ * In-memory storage implementation
+ *
+ * Sessions are lost when the process exits; messages received after that
+ * can no longer be decrypted until both peers start over.
+ */
+export class InMemoryRatchetStateStorage implements RatchetStateStorage {
+    private snapshots = new Map<string, string>();
+
+    public async load(sessionId: string): Promise<RatchetSessionSnapshot | undefined> {
+        const json = this.snapshots.get(sessionId);
+        return json ? JSON.parse(json) as RatchetSessionSnapshot : undefined;
+    }
+
+    public async save(sessionId: string, snapshot: RatchetSessionSnapshot): Promise<void> {
+        // Store serialized so callers can't mutate stored state
+        this.snapshots.set(sessionId, JSON.stringify(snapshot));
+    }
+
+    public async delete(sessionId: string): Promise<void> {
+        this.snapshots.delete(sessionId);
+    }
+
+    public async list(): Promise<string[]> {
+        return Array.from(this.snapshots.keys());
+    }
+}
@@ -0,0 +1,72 @@
+/**
+ * AlgoChat Web - Double Ratchet Protocol Types
+ *
+ * Constants and interfaces for Double Ratchet sessions.
+ */
+
+import type { X25519KeyPair } from '../models/types';
+
+/** Double Ratchet protocol constants */
+export const RATCHET_PROTOCOL = {
+    VERSION: 0x01,
+    PROTOCOL_ID: 0x04,
+    /** Version, protocol, sender key, ratchet key, previous chain length, message number */
+    HEADER_SIZE: 74,
+    TAG_SIZE: 16,
+    MAX_PAYLOAD_SIZE: 934,
+    /** Most message keys skipped in one chain before a message is rejected */
+    MAX_SKIP: 1000,
+    /** Most skipped message keys kept for late messages; the oldest are dropped first */
+    MAX_SKIPPED_KEYS: 200,
+} as const;
+
+/** Double Ratchet envelope wire format */
+export interface RatchetEnvelope {
+    version: number;
+    protocolId: number;
+    /** Sender's static X25519 public key */
+    senderPublicKey: Uint8Array;
+    /** Sender's current ratchet public key */
+    ratchetPublicKey: Uint8Array;
+    /** Number of messages in the sender's previous sending chain */
+    previousChainLength: number;
+    /** Number of the message in the current sending chain */
+    messageNumber: number;
+    ciphertext: Uint8Array;
+}
+
+/** State of a Double Ratchet session (secret key material) */
+export interface RatchetState {
+    /** Our static X25519 public key */
+    ourPublicKey: Uint8Array;
+    /** The peer's static X25519 public key */
+    peerPublicKey: Uint8Array;
+    rootKey: Uint8Array;
+    /** Our current ratchet key pair; absent while we still use our static key */
+    sendingKeyPair?: X25519KeyPair;
+    /** The peer's current ratchet public key; absent until the peer's first ratchet */
+    receivingKey?: Uint8Array;
+    sendingChain: Uint8Array;
+    /** Absent until the peer's first ratchet */
+    receivingChain?: Uint8Array;
+    sendCount: number;
+    receiveCount: number;
+    previousSendCount: number;
+    /** Message keys of skipped messages, by `<ratchet key hex>:<message number>` */
+    skipped: Map<string, Uint8Array>;
+}
+
+/** JSON-serializable form of RatchetState, keys as hex */
+export interface RatchetSessionSnapshot {
+    ourPublicKey: string;
+    peerPublicKey: string;
+    rootKey: string;
+    sendingKeyPair?: { publicKey: string; privateKey: string };
+    receivingKey?: string;
+    sendingChain: string;
+    receivingChain?: string;
+    sendCount: number;
+    receiveCount: number;
+    previousSendCount: number;
+    skipped: Record<string, string>;
+}
@@ -7,9 +7,14 @@
 
 import algosdk from 'algosdk';
 import type { Message, DiscoveredKey, MessageDirection, EncryptionOptions } from '../models/types';
-import { decryptMessage, decodeEnvelope, isChatMessage } from '../crypto';
+import { decodeEnvelope, isChatMessage, isSealedEnvelope, parseKeyAnnouncement, senderKeyAuthenticity } from '../crypto';
+import { parsePSKHandshakePayload } from '../psk';
 import { ChatError } from '../errors/ChatError';
+import type { IndexerClient, TransactionSearchOptions } from '../blockchain/interfaces';
+import type { NoteTransaction } from '../blockchain/types';
+import { AlgosdkIndexerClient } from '../blockchain/algosdk-clients';
 import type { ChatAccount } from './algorand.service';
+import { EncryptionPolicyRegistry } from './encryption-policy';
 
 /** Configuration for the message indexer */
 export interface MessageIndexerConfig {
@@ -23,9 +28,9 @@ export interface MessageIndexerConfig {
 
 /** Options for pagination */
 export interface PaginationOptions {
-    /** Minimum round (exclusive) */
+    /** Minimum round (inclusive) */
     afterRound?: number;
-    /** Maximum round (exclusive) */
+    /** Maximum round (inclusive) */
     beforeRound?: number;
     /** Maximum number of results */
     limit?: number;
@@ -43,25 +48,6 @@ export interface WaitForTransactionOptions {
     backoffMultiplier?: number;
 }
 
-/** Indexer transaction response shape */
-interface IndexerTransaction {
-    id: string;
-    sender: string;
-    txType: string;
-    note?: string;
-    roundTime?: number;
-    confirmedRound?: number;
-    paymentTransaction?: {
-        receiver?: string;
-        amount?: number;
-    };
-}
-
-interface IndexerSearchResponse {
-    transactions?: IndexerTransaction[];
-    nextToken?: string;
-}
-
 /**
  * Message Indexer Service
  *
@@ -71,17 +57,26 @@ interface IndexerSearchResponse {
  * - Public key discovery with metadata
  */
 export class MessageIndexer {
-    private indexerClient: algosdk.Indexer;
-    private encryptionOptions?: EncryptionOptions;
-
-    constructor(config: MessageIndexerConfig, encryptionOptions?: EncryptionOptions) {
-        // Pass empty string for port when not specified to avoid algosdk defaulting to 8080
-        this.indexerClient = new algosdk.Indexer(
-            config.indexerToken,
-            config.indexerServer,
-            config.indexerPort ?? ''
-        );
-        this.encryptionOptions = encryptionOptions;
+    private indexerClient: IndexerClient;
+    private policies: EncryptionPolicyRegistry;
+
+    /**
+     * Creates a new MessageIndexer
+     *
+     * @param config - Indexer connection settings, or the indexer client to use
+     * @param encryption - Default encryption options applied to every contact, or a
+     *                     registry of per-contact policies
+     */
+    constructor(config: MessageIndexerConfig | IndexerClient, encryption?: EncryptionOptions | EncryptionPolicyRegistry) {
+        if ('indexerServer' in config) {
+            // Pass empty string for port when not specified to avoid algosdk defaulting to 8080
+            this.indexerClient = new AlgosdkIndexerClient(
+                new algosdk.Indexer(config.indexerToken, config.indexerServer, config.indexerPort ?? '')
+            );
+        } else {
+            this.indexerClient = config;
+        }
+        this.policies = EncryptionPolicyRegistry.from(encryption);
     }
 
     /**
@@ -99,23 +94,19 @@ export class MessageIndexer {
         const { afterRound, beforeRound, limit = 50 } = options;
         const messages: Message[] = [];
 
-        let query = this.indexerClient
-            .searchForTransactions()
-            .address(chatAccount.address)
-            .limit(limit);
-
-        if (afterRound !== undefined) {
-            query = query.minRound(afterRound);
-        }
-
-        if (beforeRound !== undefined) {
-            query = query.maxRound(beforeRound);
-        }
+        const transactions = await this.search(chatAccount.address, {
+            minRound: afterRound,
+            maxRound: beforeRound,
+            limit,
+        });
 
-        const response = await query.do() as IndexerSearchResponse;
+        // Looked up on the first received message, to check envelope keys against
+        let participantKey: Promise<DiscoveredKey | undefined> | undefined;
+        const knownKey = () =>
+            (participantKey ??= this.findPublicKey(participantAddress).catch(() => undefined));
 
-        for (const tx of response.transactions ?? []) {
-            const message = this.processTransaction(tx, chatAccount, participantAddress);
+        for (const tx of transactions) {
+            const message = await this.processTransaction(tx, chatAccount, participantAddress, knownKey);
             if (message) {
                 messages.push(message);
             }
@@ -131,7 +122,7 @@ export class MessageIndexer {
      *
      * @param chatAccount - The current user's chat account
      * @param participantAddress - Address of the conversation participant
-     * @param beforeRound - Maximum round (exclusive)
+     * @param beforeRound - Maximum round (inclusive)
      * @param limit - Number of messages to fetch
      */
     public async fetchOlderMessages(
@@ -153,7 +144,7 @@ export class MessageIndexer {
      *
      * @param chatAccount - The current user's chat account
      * @param participantAddress - Address of the conversation participant
-     * @param afterRound - Minimum round (exclusive)
+     * @param afterRound - Minimum round (inclusive)
      * @param limit - Number of messages to fetch
      */
     public async fetchNewerMessages(
@@ -193,7 +184,7 @@ export class MessageIndexer {
 
         while (Date.now() < deadline) {
             try {
-                await this.indexerClient.lookupTransactionByID(txid).do();
+                await this.indexerClient.getTransaction(txid);
                 return true;
             } catch {
                 // Transaction not yet indexed, continue waiting
@@ -221,7 +212,9 @@ export class MessageIndexer {
     /**
      * Discovers a user's encryption public key
      *
-     * Returns full metadata about where the key was discovered.
+     * Returns full metadata about where the key was discovered. A signed key
+     * announcement is preferred; otherwise the key from the first chat
+     * envelope sent by the address is returned, unverified.
      *
      * @param address - Algorand address to discover key for
      * @param searchDepth - Maximum transactions to search (default: 1000)
@@ -230,45 +223,61 @@ export class MessageIndexer {
         address: string,
         searchDepth = 1000
     ): Promise<DiscoveredKey> {
-        const response = await this.indexerClient
-            .searchForTransactions()
-            .address(address)
-            .limit(searchDepth)
-            .do() as IndexerSearchResponse;
+        const transactions = await this.search(address, { limit: searchDepth });
+
+        let ed25519PublicKey: Uint8Array | undefined;
+        try {
+            ed25519PublicKey = algosdk.decodeAddress(address).publicKey;
+        } catch {
+            // Malformed address - announcements cannot be verified
+        }
+
+        let fallback: DiscoveredKey | undefined;
 
-        for (const tx of response.transactions ?? []) {
+        for (const tx of transactions) {
             // Only look at transactions SENT by this address
             if (tx.sender !== address) {
                 continue;
             }
 
-            if (!tx.note) {
+            if (tx.note.length === 0) {
                 continue;
             }
 
-            const noteBytes = base64ToBytes(tx.note);
+            const noteBytes = tx.note;
+            const metadata = {
+                address,
+                discoveredInTx: tx.txid,
+                discoveredAtRound: tx.confirmedRound,
+                discoveredAt: new Date(tx.roundTime * 1000),
+            };
 
-            if (!isChatMessage(noteBytes)) {
+            // Signed key announcement (self-payment)
+            if (tx.receiver === address) {
+                const announced = parseKeyAnnouncement(noteBytes, ed25519PublicKey);
+                if (announced?.isVerified) {
+                    return { ...announced, ...metadata };
+                }
+            }
+
+            if (fallback || !isChatMessage(noteBytes)) {
                 continue;
             }
 
             try {
                 const envelope = decodeEnvelope(noteBytes);
-
-                return {
-                    publicKey: envelope.senderPublicKey,
-                    isVerified: false,
-                    address,
-                    discoveredInTx: tx.id,
-                    discoveredAtRound: Number(tx.confirmedRound ?? 0),
-                    discoveredAt: new Date(Number(tx.roundTime ?? 0) * 1000),
-                };
+                if (isSealedEnvelope(envelope)) continue;
+                fallback = { publicKey: envelope.senderPublicKey, isVerified: false, ...metadata };
             } catch {
                 // Log but continue searching
                 continue;
             }
         }
 
+        if (fallback) {
+            return fallback;
+        }
+
         throw ChatError.publicKeyNotFound(address, searchDepth);
     }
 
@@ -279,7 +288,7 @@ export class MessageIndexer {
      */
     public async transactionExists(txid: string): Promise<boolean> {
         try {
-            await this.indexerClient.lookupTransactionByID(txid).do();
+            await this.indexerClient.getTransaction(txid);
             return true;
         } catch {
             return false;
@@ -288,25 +297,55 @@ export class MessageIndexer {
 
     /**
      * Gets the latest round from the indexer
+     *
+     * @throws ChatError with code NOT_CONFIGURED if the indexer client
+     *         does not implement `getLatestRound`
      */
     public async getLatestRound(): Promise<number> {
-        const health = await this.indexerClient.makeHealthCheck().do();
-        return Number(health.round);
+        if (!this.indexerClient.getLatestRound) {
+            throw ChatError.notConfigured('Indexer latest round lookup');
+        }
+        return this.indexerClient.getLatestRound();
     }
 
     // MARK: - Private Methods
 
-    private processTransaction(
-        tx: IndexerTransaction,
+    /**
+     * Searches an address's transactions
+     *
+     * Indexers without `searchTransactionsPaginated` return a single batch,
+     * which is filtered here by `maxRound`.
+     */
+    private async search(address: string, options: TransactionSearchOptions): Promise<NoteTransaction[]> {
+        if (this.indexerClient.searchTransactionsPaginated) {
+            const { transactions } = await this.indexerClient.searchTransactionsPaginated(address, options);
+            return transactions;
+        }
+
+        const { minRound, maxRound, limit } = options;
+        // searchTransactions takes an exclusive lower bound
+        const transactions = await this.indexerClient.searchTransactions(
+            address,
+            minRound !== undefined ? minRound - 1 : undefined,
+            limit
+        );
+        return maxRound !== undefined
+            ? transactions.filter(tx => tx.confirmedRound <= maxRound)
+            : transactions;
+    }
+
+    private async processTransaction(
+        tx: NoteTransaction,
         chatAccount: ChatAccount,
-        participantAddress: string
-    ): Message | null {
+        participantAddress: string,
+        knownKey: () => Promise<DiscoveredKey | undefined>
+    ): Promise<Message | null> {
         // Filter: payment transactions with notes
-        if (tx.txType !== 'pay' || !tx.note) {
+        if (tx.note.length === 0) {
             return null;
         }
 
-        const noteBytes = base64ToBytes(tx.note);
+        const noteBytes = tx.note;
 
         // Filter: AlgoChat messages
         if (!isChatMessage(noteBytes)) {
@@ -315,7 +354,7 @@ export class MessageIndexer {
 
         // Determine direction and filter by participant
         const sender: string = tx.sender;
-        const receiver: string | undefined = tx.paymentTransaction?.receiver;
+        const receiver: string = tx.receiver;
 
         if (!receiver) {
             return null;
@@ -341,24 +380,40 @@ export class MessageIndexer {
         // Decrypt message
         try {
             const envelope = decodeEnvelope(noteBytes);
-            const decrypted = decryptMessage(
+            if (!this.policies.allowsEnvelope(participantAddress, envelope)) {
+                return null;
+            }
+
+            const decrypted = this.policies.decrypt(
+                participantAddress,
                 envelope,
                 chatAccount.encryptionKeys.privateKey,
-                chatAccount.encryptionKeys.publicKey,
-                this.encryptionOptions
+                chatAccount.encryptionKeys.publicKey
             );
 
             if (!decrypted) {
                 return null; // Key-publish, skip
             }
 
+            if (decrypted.chunk) {
+                return null; // Part of a chunked message, reassembled by AlgorandService.fetchMessages
+            }
+
+            if (parsePSKHandshakePayload(decrypted.text)) {
+                return null; // PSK handshake control message, skip
+            }
+
+            const authenticity = direction === 'received'
+                ? senderKeyAuthenticity(decrypted.senderPublicKey ?? envelope.senderPublicKey, await knownKey())
+                : undefined;
+
             return {
-                id: tx.id,
+                id: tx.txid,
                 sender,
                 recipient: receiver,
                 content: decrypted.text,
-                timestamp: new Date(Number(tx.roundTime ?? 0) * 1000),
-                confirmedRound: Number(tx.confirmedRound ?? 0),
+                timestamp: new Date(tx.roundTime * 1000),
+                confirmedRound: tx.confirmedRound,
                 direction,
                 replyContext: decrypted.replyToId
                     ? {
@@ -366,6 +421,8 @@ export class MessageIndexer {
                           preview: decrypted.replyToPreview || '',
                       }
                     : undefined,
+                authenticity,
+                payload: decrypted.payload,
             };
         } catch {
             return null;
@@ -378,24 +435,3 @@ export class MessageIndexer {
 function sleep(ms: number): Promise<void> {
     return new Promise(resolve => setTimeout(resolve, ms));
 }
-
-function base64ToBytes(input: string | Uint8Array): Uint8Array {
-    if (input instanceof Uint8Array) {
-        return input;
-    }
-
-    if (typeof input !== 'string') {
-        return new Uint8Array(0);
-    }
-
-    // Convert base64url to standard base64
-    const standardBase64 = input.replace(/-/g, '+').replace(/_/g, '/');
-    const padded = standardBase64 + '='.repeat((4 - (standardBase64.length % 4)) % 4);
-
-    const binaryString = atob(padded);
-    const bytes = new Uint8Array(binaryString.length);
-    for (let i = 0; i < binaryString.length; i++) {
-        bytes[i] = binaryString.charCodeAt(i);
-    }
-    return bytes;
-}
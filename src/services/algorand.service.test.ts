@@ -5,10 +5,22 @@
  * Note: Network-dependent methods require mocking or integration tests.
  */
 
-import { describe, test, expect } from 'bun:test';
-import { AlgorandService, type AlgorandConfig } from './algorand.service';
-import { createRandomChatAccount } from './mnemonic.service';
-import { encryptMessage, encodeEnvelope } from '../crypto';
+import { describe, test, expect, setSystemTime } from 'bun:test';
+import algosdk from 'algosdk';
+import { AlgorandService, type AlgorandConfig, type ChatAccount } from './algorand.service';
+import { createRandomChatAccount, createChatAccountFromMnemonic } from './mnemonic.service';
+import { encryptMessage, encodeEnvelope, encodeKeyAnnouncement, encodeKeyRevocation, generateEphemeralKeyPair, encodeSafetyNumberPayload, GroupError, ChannelError } from '../crypto';
+import { isPSKMessage, InMemoryPSKStateStorage, PSK_PROTOCOL } from '../psk';
+import { isRatchetMessage, InMemoryRatchetStateStorage, InMemoryRatchetMessageStore } from '../ratchet';
+import { EncryptionPolicyRegistry } from './encryption-policy';
+import { ChatErrorCode } from '../errors/ChatError';
+import type { KeyChangedEvent } from './key-pinning';
+import { Conversation } from '../models/Conversation';
+import { InMemoryBlobStore } from '../storage/blob-store';
+import { InMemoryKeyStorage, type EncryptionKeyStorage } from '../storage/encryption-key-storage';
+import type { AttachmentPayload, EncryptionOptions, GroupUpdatePayload } from '../models/types';
+import type { AlgodClient, IndexerClient } from '../blockchain/interfaces';
+import type { NoteTransaction } from '../blockchain/types';
 
 const TEST_CONFIG: AlgorandConfig = {
     algodToken: 'test-token',
@@ -17,6 +29,125 @@ const TEST_CONFIG: AlgorandConfig = {
     indexerServer: 'https://testnet-idx.algonode.cloud',
 };
 
+/** Mock indexer that returns `transactions` from every search; tests may replace them */
+interface MockIndexerClient extends IndexerClient {
+    transactions: NoteTransaction[];
+}
+
+/** Builds a mock indexer that returns the given transactions from every search */
+function mockIndexerClient(transactions: NoteTransaction[] = []): MockIndexerClient {
+    const find = async (txid: string) => {
+        const tx = indexer.transactions.find(candidate => candidate.txid === txid);
+        if (!tx) throw new Error(`Transaction ${txid} not found`);
+        return tx;
+    };
+    const indexer: MockIndexerClient = {
+        transactions,
+        searchTransactions: async (_address, afterRound) =>
+            indexer.transactions.filter(tx => afterRound === undefined || tx.confirmedRound > afterRound),
+        searchTransactionsBetween: async () => indexer.transactions,
+        searchTransactionsPaginated: async (_address, options = {}) => ({
+            transactions: indexer.transactions.filter(tx =>
+                (options.minRound === undefined || tx.confirmedRound >= options.minRound) &&
+                (options.maxRound === undefined || tx.confirmedRound <= options.maxRound) &&
+                (!options.notePrefix || options.notePrefix.every((byte, i) => tx.note[i] === byte))
+            ),
+        }),
+        getTransaction: find,
+        waitForIndexer: find,
+    };
+    return indexer;
+}
+
+/** Builds a mock algod client that records submitted transactions (group members individually) */
+function mockAlgodClient() {
+    const submitted: Uint8Array[] = [];
+    const client: AlgodClient = {
+        getSuggestedParams: async () => ({
+            fee: 0,
+            minFee: 1000,
+            firstValid: 1000,
+            lastValid: 2000,
+            genesisId: 'testnet-v1.0',
+            genesisHash: new Uint8Array(32),
+        }),
+        getAccountInfo: async address => ({ address, amount: 0n, minBalance: 100000n }),
+        submitTransaction: async signed => {
+            submitted.push(signed);
+            return `tx-${submitted.length}`;
+        },
+        submitTransactionGroup: async signed => {
+            submitted.push(...signed);
+            return `tx-${submitted.length - signed.length + 1}`;
+        },
+        waitForConfirmation: async txid => ({ txid, confirmedRound: 100 }),
+        getCurrentRound: async () => 100,
+    };
+    return { client, submitted };
+}
+
+/**
+ * Creates a service running on mock clients
+ *
+ * @param algod - Algod client to share with other services (default: a new one)
+ */
+function mockService(
+    encryption?: EncryptionOptions | EncryptionPolicyRegistry,
+    algod = mockAlgodClient()
+) {
+    const indexer = mockIndexerClient();
+    const service = new AlgorandService({ algod: algod.client, indexer }, encryption);
+    return { service, indexer, algod, submitted: algod.submitted };
+}
+
+/** Wraps a note sent via the mock algod client as an indexer transaction */
+function toMockTransaction(
+    signed: Uint8Array,
+    id: string,
+    confirmedRound: number
+): NoteTransaction {
+    const { txn } = algosdk.decodeSignedTransaction(signed);
+    return {
+        txid: id,
+        sender: txn.sender.toString(),
+        receiver: txn.payment!.receiver.toString(),
+        note: txn.note,
+        roundTime: 1700000000 + confirmedRound,
+        confirmedRound,
+        amount: Number(txn.payment!.amount),
+    };
+}
+
+/** Wraps submitted transactions as tx-1, tx-2, ... confirmed one per round */
+function confirmAll(submitted: Uint8Array[], firstRound = 100): NoteTransaction[] {
+    return submitted.map((signed, i) => toMockTransaction(signed, `tx-${i + 1}`, firstRound + i));
+}
+
+/** Checks whether any byte array reachable from `value` equals `bytes` */
+function holdsBytes(value: unknown, bytes: Uint8Array, seen = new Set<unknown>()): boolean {
+    if (value === null || typeof value !== 'object' || seen.has(value)) return false;
+    seen.add(value);
+
+    if (value instanceof Uint8Array) {
+        return value.length === bytes.length && value.every((byte, i) => byte === bytes[i]);
+    }
+    const children = value instanceof Map ? [...value.keys(), ...value.values()] : Object.values(value);
+    return children.some(child => holdsBytes(child, bytes, seen));
+}
+
+/** A signed key announcement for the account, as `publishKey` sends it */
+function keyAnnouncement(account: ChatAccount, confirmedRound = 1): NoteTransaction {
+    return {
+        txid: `announce-${account.address}`,
+        sender: account.address,
+        receiver: account.address,
+        note: encodeKeyAnnouncement(account.encryptionKeys.publicKey, account.account.sk.slice(0, 32)),
+        roundTime: 1700000000 + confirmedRound,
+        confirmedRound,
+        amount: 0,
+    };
+}
+
 describe('AlgorandService', () => {
     describe('constructor', () => {
         test('creates service with valid config', () => {
@@ -39,6 +170,57 @@ describe('AlgorandService', () => {
             const service = new AlgorandService(TEST_CONFIG, { psk });
             expect(service).toBeDefined();
         });
+
+        test('runs on injected algod and indexer clients', async () => {
+            const alice = createRandomChatAccount().account;
+            const bob = createRandomChatAccount().account;
+
+            const algod = mockAlgodClient();
+            const sender = new AlgorandService({ algod: algod.client, indexer: mockIndexerClient([]) });
+            const result = await sender.sendMessage(alice, bob.address, bob.encryptionKeys.publicKey, 'hi', {
+                waitForConfirmation: true,
+            });
+            expect(result).toMatchObject({ txid: 'tx-1', confirmedRound: 100 });
+
+            const transactions = [toMockTransaction(algod.submitted[0], 'tx-1', 100)];
+            const receiver = new AlgorandService({ algod: algod.client, indexer: mockIndexerClient(transactions) });
+            const messages = await receiver.fetchMessages(bob, alice.address);
+            expect(messages.map(m => m.content)).toEqual(['hi']);
+            expect(await receiver.transactionExists('tx-1')).toBe(true);
+            expect(await receiver.transactionExists('tx-2')).toBe(false);
+        });
+    });
+
+    describe('message pagination', () => {
+        async function threeMessages(paginated: boolean) {
+            const alice = createRandomChatAccount().account;
+            const bob = createRandomChatAccount().account;
+            const { service: sender, submitted } = mockService();
+            for (const text of ['one', 'two', 'three']) {
+                await sender.sendMessage(alice, bob.address, bob.encryptionKeys.publicKey, text);
+            }
+
+            const { service: receiver, indexer } = mockService();
+            indexer.transactions = confirmAll(submitted);
+            if (!paginated) {
+                delete indexer.searchTransactionsPaginated;
+            }
+            return { receiver, alice, bob };
+        }
+
+        for (const paginated of [true, false]) {
+            const label = paginated ? 'paginated' : 'unpaginated';
+
+            test(`includes afterRound and excludes beforeRound (${label} indexer)`, async () => {
+                const { receiver, alice, bob } = await threeMessages(paginated);
+
+                const newer = await receiver.fetchMessages(bob, alice.address, 101);
+                expect(newer.map(m => m.confirmedRound)).toEqual([101, 102]);
+
+                const older = await receiver.fetchMessages(bob, alice.address, undefined, 50, 101);
+                expect(older.map(m => m.confirmedRound)).toEqual([100]);
+            });
+        }
     });
 
     describe('message encryption integration', () => {
@@ -162,49 +344,1476 @@ describe('AlgorandService', () => {
     });
 
     describe('key publish payload', () => {
-        test('key publish creates self-addressed envelope', () => {
+        test('publishKey sends a signed announcement that discovery verifies', async () => {
             const { account: chatAccount } = createRandomChatAccount();
 
-            const payload = JSON.stringify({ type: 'key-publish' });
+            const { service, indexer, submitted } = mockService();
 
-            // Self-encrypt like publishKey does
-            const envelope = encryptMessage(
-                payload,
-                chatAccount.encryptionKeys.publicKey,
-                chatAccount.encryptionKeys.publicKey // Self
-            );
+            await service.publishKey(chatAccount);
+            const announcement = toMockTransaction(submitted[0], 'tx-announce', 100);
+            expect(announcement.note.length).toBe(96);
 
-            // Sender public key should be set
-            expect(envelope.senderPublicKey.length).toBe(32);
+            // A later chat message is only used when no signed announcement exists
+            const bob = createRandomChatAccount().account;
+            const chat = encryptMessage('hi', chatAccount.encryptionKeys.publicKey, bob.encryptionKeys.publicKey);
+            const message: NoteTransaction = {
+                ...announcement,
+                txid: 'tx-chat',
+                receiver: bob.address,
+                note: encodeEnvelope(chat),
+                amount: 1000,
+            };
 
-            // Can encode to valid note
-            const note = encodeEnvelope(envelope);
-            expect(note.length).toBeLessThanOrEqual(1024);
+            indexer.transactions = [message, announcement];
+
+            const key = await service.discoverPublicKeyWithMetadata(chatAccount.address);
+            expect(key.isVerified).toBe(true);
+            expect(key.publicKey).toEqual(chatAccount.encryptionKeys.publicKey);
+            expect(key.discoveredInTx).toBe('tx-announce');
+        });
+
+        test('falls back to an unverified key from chat envelopes', async () => {
+            const alice = createRandomChatAccount().account;
+            const bob = createRandomChatAccount().account;
+
+            const envelope = encryptMessage('hi', alice.encryptionKeys.publicKey, bob.encryptionKeys.publicKey);
+            const { service, indexer } = mockService();
+            indexer.transactions = [{
+                txid: 'tx-chat',
+                sender: alice.address,
+                receiver: bob.address,
+                note: encodeEnvelope(envelope),
+                roundTime: 1700000000,
+                confirmedRound: 100,
+                amount: 1000,
+            }];
+
+            const key = await service.discoverPublicKeyWithMetadata(alice.address);
+            expect(key.isVerified).toBe(false);
+            expect(key.publicKey).toEqual(alice.encryptionKeys.publicKey);
+        });
+
+        test('ignores announcements signed by another account', async () => {
+            const alice = createRandomChatAccount().account;
+            const mallory = createRandomChatAccount().account;
+
+            const { service, indexer } = mockService();
+            indexer.transactions = [{
+                txid: 'tx-forged',
+                sender: alice.address,
+                receiver: alice.address,
+                note: encodeKeyAnnouncement(mallory.encryptionKeys.publicKey, mallory.account.sk.slice(0, 32)),
+                roundTime: 1700000000,
+                confirmedRound: 100,
+                amount: 0,
+            }];
+
+            await expect(service.discoverPublicKey(alice.address)).rejects.toThrow(/Public key not found for/);
+        });
+    });
+
+    describe('key rotation', () => {
+        test('announces a linked key that discovery verifies and the pin follows', async () => {
+            const { account: alice, mnemonic } = createRandomChatAccount();
+
+            const { service, indexer, submitted } = mockService();
+
+            await service.publishKey(alice);
+            const original = toMockTransaction(submitted[0], 'tx-announce', 100);
+            indexer.transactions = [original];
+            await service.discoverPublicKey(alice.address);
+
+            const { account: rotated, txid } = await service.rotateEncryptionKey(alice, { derive: true });
+            expect(txid).toBe('tx-2');
+            expect(rotated.keyVersion).toBe(1);
+            expect(rotated.encryptionKeys).toEqual(createChatAccountFromMnemonic(mnemonic, 1).encryptionKeys);
+
+            const rotation = toMockTransaction(submitted[1], 'tx-rotate', 101);
+            service.clearKeyCache();
+            indexer.transactions = [rotation, original];
+
+            const key = await service.discoverPublicKeyWithMetadata(alice.address);
+            expect(key).toMatchObject({ isVerified: true, keyVersion: 1, discoveredInTx: 'tx-rotate' });
+            expect(key.publicKey).toEqual(rotated.encryptionKeys.publicKey);
+            expect(key.previousKey).toEqual(alice.encryptionKeys.publicKey);
+            expect((await service.keyPinning.get(alice.address))?.publicKey).toEqual(rotated.encryptionKeys.publicKey);
+        });
+
+        test('keeps the old key current when the announcement fails', async () => {
+            const alice = createRandomChatAccount().account;
+            const storage = new InMemoryKeyStorage();
+            await storage.store(alice.encryptionKeys.privateKey, alice.address);
+
+            const algod = mockAlgodClient();
+            algod.client.submitTransaction = async () => {
+                throw new Error('transaction rejected');
+            };
+            const { service } = mockService(undefined, algod);
+            service.setEncryptionKeyStorage(storage);
+
+            await expect(service.rotateEncryptionKey(alice)).rejects.toThrow('transaction rejected');
+            expect(await storage.retrieve(alice.address)).toEqual(alice.encryptionKeys.privateKey);
+        });
+
+        test('reads messages sent to and from rotated-out keys', async () => {
+            const alice = createRandomChatAccount().account;
+            const bob = createRandomChatAccount().account;
+
+            const { service, indexer, algod, submitted } = mockService({ envelopeVersion: 2 });
+            const { service: bobService } = mockService({ envelopeVersion: 2 }, algod);
+
+            await bobService.sendMessage(bob, alice.address, alice.encryptionKeys.publicKey, 'to the old key');
+            await service.sendMessage(alice, bob.address, bob.encryptionKeys.publicKey, 'from the old key');
+            const { account: rotated } = await service.rotateEncryptionKey(alice);
+            await bobService.keyPinning.followRotation(alice.address, alice.encryptionKeys.publicKey, rotated.encryptionKeys.publicKey);
+            await bobService.sendMessage(bob, alice.address, rotated.encryptionKeys.publicKey, 'to the new key');
+
+            const transactions = confirmAll(submitted).filter(tx => tx.sender !== tx.receiver);
+            indexer.transactions = [keyAnnouncement(bob), ...transactions];
+
+            const messages = await service.fetchMessages(rotated, bob.address);
+            expect(messages.map(m => m.content)).toEqual(['to the old key', 'from the old key', 'to the new key']);
+        });
+
+        test('reads PSK and sealed-sender messages of rotated-out keys', async () => {
+            const alice = createRandomChatAccount().account;
+            const bob = createRandomChatAccount().account;
+
+            const { service, indexer, algod, submitted } = mockService({ envelopeVersion: 2, sealedSender: true });
+            const { service: bobService } = mockService(undefined, algod);
+            const psk = new Uint8Array(32).fill(0x42);
+            service.addPSKContact(bob.address, psk);
+            bobService.addPSKContact(alice.address, psk);
+
+            await bobService.sendPSKMessage(bob, alice.address, alice.encryptionKeys.publicKey, 'psk to the old key');
+            await service.sendPSKMessage(alice, bob.address, bob.encryptionKeys.publicKey, 'psk from the old key');
+            await service.sendMessage(alice, bob.address, bob.encryptionKeys.publicKey, 'sealed from the old key');
+            const { account: rotated } = await service.rotateEncryptionKey(alice);
+
+            const transactions = confirmAll(submitted).filter(tx => tx.sender !== tx.receiver);
+            indexer.transactions = [keyAnnouncement(bob), ...transactions];
+
+            const messages = await service.fetchMessages(rotated, bob.address);
+            expect(messages.map(m => m.content)).toEqual([
+                'psk to the old key',
+                'psk from the old key',
+                'sealed from the old key',
+            ]);
+        });
+
+        test('rotates with a key storage that cannot archive keys', async () => {
+            const alice = createRandomChatAccount().account;
+            const keys = new InMemoryKeyStorage();
+            const storage: EncryptionKeyStorage = {
+                store: (privateKey, address) => keys.store(privateKey, address),
+                retrieve: address => keys.retrieve(address),
+                hasKey: address => keys.hasKey(address),
+                delete: address => keys.delete(address),
+                listStoredAddresses: () => keys.listStoredAddresses(),
+            };
+
+            const { service } = mockService();
+            service.setEncryptionKeyStorage(storage);
+
+            const { account: rotated } = await service.rotateEncryptionKey(alice);
+            expect(await storage.retrieve(alice.address)).toEqual(rotated.encryptionKeys.privateKey);
+            expect(await service.fetchMessages(rotated, alice.address)).toEqual([]);
+        });
+    });
+
+    describe('key history', () => {
+        test('lists every key and discovery picks the newest in any indexer order', async () => {
+            const alice = createRandomChatAccount().account;
+
+            const { service, indexer, submitted } = mockService();
+            await service.publishKey(alice);
+            const { account: rotated } = await service.rotateEncryptionKey(alice);
+
+            // Oldest first, so the rotation is the last transaction seen
+            indexer.transactions = confirmAll(submitted);
+
+            const history = await service.discoverKeyHistory(alice.address);
+            expect(history.map(entry => entry.publicKey)).toEqual([
+                alice.encryptionKeys.publicKey,
+                rotated.encryptionKeys.publicKey,
+            ]);
+            expect(history[1]).toMatchObject({
+                isVerified: true,
+                isRevoked: false,
+                keyVersion: 1,
+                discoveredInTx: 'tx-2',
+                firstSeenRound: 101,
+                lastSeenRound: 101,
+            });
+
+            const key = await service.discoverPublicKeyWithMetadata(alice.address);
+            expect(key.publicKey).toEqual(rotated.encryptionKeys.publicKey);
+            expect(key.discoveredInTx).toBe('tx-2');
+        });
+
+        test('tracks message keys and marks revoked keys', async () => {
+            const alice = createRandomChatAccount().account;
+            const bob = createRandomChatAccount().account;
+
+            const { service, submitted } = mockService();
+
+            await service.sendMessage(alice, bob.address, bob.encryptionKeys.publicKey, 'one');
+            await service.sendMessage(alice, bob.address, bob.encryptionKeys.publicKey, 'two');
+            await service.revokeEncryptionKey(alice);
+
+            const { service: other, indexer } = mockService();
+            indexer.transactions = confirmAll(submitted).reverse();
+
+            const history = await other.discoverKeyHistory(alice.address);
+            expect(history).toHaveLength(1);
+            expect(history[0]).toMatchObject({
+                isVerified: false,
+                isRevoked: true,
+                discoveredInTx: 'tx-2',
+                firstSeenRound: 100,
+                lastSeenRound: 101,
+            });
+            await expect(other.discoverPublicKey(alice.address)).rejects.toMatchObject({
+                code: ChatErrorCode.KEY_REVOKED,
+            });
+        });
+    });
+
+    describe('key revocation', () => {
+        test('discovery skips a revoked key and sending to it fails', async () => {
+            const alice = createRandomChatAccount().account;
+            const bob = createRandomChatAccount().account;
+
+            const { service: aliceService, algod, submitted } = mockService();
+            await aliceService.publishKey(alice);
+            const { account: rotated } = await aliceService.rotateEncryptionKey(alice);
+            await aliceService.revokeEncryptionKey(rotated);
+
+            const { service, indexer } = mockService(undefined, algod);
+            indexer.transactions = confirmAll(submitted).reverse();
+
+            const key = await service.discoverPublicKeyWithMetadata(alice.address);
+            expect(key.publicKey).toEqual(alice.encryptionKeys.publicKey);
+            expect(key.discoveredInTx).toBe('tx-1');
+
+            await expect(
+                service.sendMessage(bob, alice.address, rotated.encryptionKeys.publicKey, 'hi')
+            ).rejects.toMatchObject({ code: ChatErrorCode.KEY_REVOKED });
+        });
+
+        test('checks cached keys for revocations only when refreshed', async () => {
+            const alice = createRandomChatAccount().account;
+            const seed = alice.account.sk.slice(0, 32);
+
+            const { service, indexer } = mockService();
+            indexer.transactions = [keyAnnouncement(alice, 100)];
+            const key = await service.discoverPublicKeyWithMetadata(alice.address);
+
+            let searches = 0;
+            const search = indexer.searchTransactionsPaginated!;
+            indexer.searchTransactionsPaginated = (address, options) => {
+                searches++;
+                return search(address, options);
+            };
+
+            indexer.transactions = [
+                {
+                    txid: 'tx-revoke',
+                    sender: alice.address,
+                    receiver: alice.address,
+                    note: encodeKeyRevocation(alice.encryptionKeys.publicKey, seed),
+                    confirmedRound: 101,
+                    roundTime: 1700000101,
+                },
+                ...indexer.transactions,
+            ];
+
+            // Cache hits make no indexer calls
+            expect(await service.discoverPublicKeyWithMetadata(alice.address)).toBe(key);
+            expect(searches).toBe(0);
+
+            expect(await service.refreshRevocations()).toEqual([alice.address]);
+            expect(searches).toBe(1);
+            await expect(service.discoverPublicKeyWithMetadata(alice.address)).rejects.toMatchObject({
+                code: ChatErrorCode.KEY_REVOKED,
+            });
+        });
+
+        test('checks a cached key for revocations once it has been served for an hour', async () => {
+            const alice = createRandomChatAccount().account;
+            const seed = alice.account.sk.slice(0, 32);
+
+            const { service, indexer } = mockService();
+            indexer.transactions = [keyAnnouncement(alice, 100)];
+            await service.discoverPublicKeyWithMetadata(alice.address);
+            indexer.transactions = [
+                {
+                    txid: 'tx-revoke',
+                    sender: alice.address,
+                    receiver: alice.address,
+                    note: encodeKeyRevocation(alice.encryptionKeys.publicKey, seed),
+                    confirmedRound: 101,
+                    roundTime: 1700000101,
+                },
+                ...indexer.transactions,
+            ];
+
+            setSystemTime(new Date(Date.now() + 60 * 60 * 1000));
+            try {
+                await expect(service.discoverPublicKeyWithMetadata(alice.address)).rejects.toMatchObject({
+                    code: ChatErrorCode.KEY_REVOKED,
+                });
+            } finally {
+                setSystemTime();
+            }
+        });
+
+        test('throws KEY_REVOKED when every key was revoked', async () => {
+            const alice = createRandomChatAccount().account;
+            const seed = alice.account.sk.slice(0, 32);
+            const self = { sender: alice.address, receiver: alice.address, roundTime: 1700000000, amount: 0 };
+
+            const { service, indexer } = mockService();
+            indexer.transactions = [
+                { ...self, txid: 'tx-revoke', confirmedRound: 101, note: encodeKeyRevocation(alice.encryptionKeys.publicKey, seed) },
+                { ...self, txid: 'tx-announce', confirmedRound: 100, note: encodeKeyAnnouncement(alice.encryptionKeys.publicKey, seed) },
+            ];
+
+            await expect(service.discoverPublicKey(alice.address)).rejects.toMatchObject({
+                code: ChatErrorCode.KEY_REVOKED,
+            });
         });
     });
 
     describe('discoverPublicKey error handling', () => {
         test('throws descriptive error when key not found', async () => {
-            const service = new AlgorandService(TEST_CONFIG);
+            // The mock indexer returns empty results
+            const { service } = mockService();
             const fakeAddress = 'AAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAY5HFKQ';
 
-            // Mock the indexer to return empty results
-            const mockIndexer = {
-                searchForTransactions: () => ({
-                    address: () => ({
-                        limit: () => ({
-                            do: async () => ({ transactions: [] }),
-                        }),
-                    }),
-                }),
-            };
-
-            // @ts-expect-error - accessing private property for testing
-            service.indexerClient = mockIndexer;
 
             await expect(service.discoverPublicKey(fakeAddress)).rejects.toThrow(
                 /Public key not found for/
             );
         });
     });
+
+    describe('PSK messages', () => {
+        const psk = new Uint8Array(32).fill(0x42);
+
+        test('sendPSKMessage requires a registered contact', async () => {
+            const { service } = mockService();
+            const alice = createRandomChatAccount().account;
+            const bob = createRandomChatAccount().account;
+
+            await expect(
+                service.sendPSKMessage(alice, bob.address, bob.encryptionKeys.publicKey, 'Hi')
+            ).rejects.toThrow(/not configured/);
+        });
+
+        test('addPSKContact rejects keys that are not 32 bytes', () => {
+            const service = new AlgorandService(TEST_CONFIG);
+            const bob = createRandomChatAccount().account;
+
+            expect(() => service.addPSKContact(bob.address, new Uint8Array(16))).toThrow(/32 bytes/);
+        });
+
+        test('sendPSKMessage advances the send counter and emits PSK envelopes', async () => {
+            const { service, submitted } = mockService();
+            const alice = createRandomChatAccount().account;
+            const bob = createRandomChatAccount().account;
+
+            service.addPSKContact(bob.address, psk);
+
+            await service.sendPSKMessage(alice, bob.address, bob.encryptionKeys.publicKey, 'one');
+            await service.sendPSKMessage(alice, bob.address, bob.encryptionKeys.publicKey, 'two');
+
+            const notes = submitted.map(signed => algosdk.decodeSignedTransaction(signed).txn.note);
+            expect(notes.every(isPSKMessage)).toBe(true);
+
+            // Ratchet counter lives at bytes 2..5 (big-endian)
+            expect(notes[0][5]).toBe(0);
+            expect(notes[1][5]).toBe(1);
+        });
+
+        test('fetchMessages merges PSK and standard messages into one timeline', async () => {
+            const alice = createRandomChatAccount().account;
+            const bob = createRandomChatAccount().account;
+
+            const { service: sender, indexer: senderIndexer, submitted } = mockService();
+            sender.addPSKContact(bob.address, psk);
+
+            await sender.sendMessage(alice, bob.address, bob.encryptionKeys.publicKey, 'standard');
+            await sender.sendPSKMessage(alice, bob.address, bob.encryptionKeys.publicKey, 'psk one');
+            await sender.sendPSKMessage(alice, bob.address, bob.encryptionKeys.publicKey, 'psk two', {
+                replyContext: { messageId: 'tx-1', preview: 'standard' },
+            });
+
+            const transactions = confirmAll(submitted);
+
+            const { service: receiver, indexer } = mockService();
+            indexer.transactions = [...transactions].reverse();
+            receiver.addPSKContact(alice.address, psk);
+
+            const messages = await receiver.fetchMessages(bob, alice.address);
+            expect(messages.map(m => m.content)).toEqual(['standard', 'psk one', 'psk two']);
+            expect(messages.every(m => m.direction === 'received')).toBe(true);
+            expect(messages[2].replyContext?.messageId).toBe('tx-1');
+
+            // Re-fetching the same history is not treated as a replay
+            const again = await receiver.fetchMessages(bob, alice.address);
+            expect(again.length).toBe(3);
+
+            // The sender can read its own PSK messages
+            senderIndexer.transactions = transactions;
+            const sent = await sender.fetchMessages(alice, bob.address);
+            expect(sent.map(m => m.content)).toEqual(['standard', 'psk one', 'psk two']);
+            expect(sent.every(m => m.direction === 'sent')).toBe(true);
+        });
+
+        test('fetchMessages skips PSK messages from contacts without a PSK', async () => {
+            const alice = createRandomChatAccount().account;
+            const bob = createRandomChatAccount().account;
+
+            const { service: sender, submitted } = mockService();
+            sender.addPSKContact(bob.address, psk);
+            await sender.sendPSKMessage(alice, bob.address, bob.encryptionKeys.publicKey, 'secret');
+
+            const { service: receiver, indexer } = mockService();
+            indexer.transactions = confirmAll(submitted);
+
+            expect(await receiver.fetchMessages(bob, alice.address)).toEqual([]);
+        });
+
+        test('fetchMessages rejects a replayed PSK counter in a new transaction', async () => {
+            const alice = createRandomChatAccount().account;
+            const bob = createRandomChatAccount().account;
+
+            const { service: sender, submitted } = mockService();
+            sender.addPSKContact(bob.address, psk);
+            await sender.sendPSKMessage(alice, bob.address, bob.encryptionKeys.publicKey, 'once');
+
+            const original = toMockTransaction(submitted[0], 'tx-1', 100);
+            const replay = { ...original, txid: 'tx-replay', confirmedRound: 101 };
+
+            const { service: receiver, indexer } = mockService();
+            indexer.transactions = [original, replay];
+            receiver.addPSKContact(alice.address, psk);
+
+            const messages = await receiver.fetchMessages(bob, alice.address);
+            expect(messages.map(m => m.id)).toEqual(['tx-1']);
+        });
+
+        test('fetchMessages authenticates the PSK sender key before using up its counter', async () => {
+            const alice = createRandomChatAccount().account;
+            const bob = createRandomChatAccount().account;
+            const mallory = createRandomChatAccount().account;
+
+            const { service: forger, submitted: forged } = mockService();
+            forger.addPSKContact(bob.address, psk);
+            await forger.sendPSKMessage(mallory, bob.address, bob.encryptionKeys.publicKey, 'forged');
+
+            const { service: sender, submitted } = mockService();
+            sender.addPSKContact(bob.address, psk);
+            await sender.sendPSKMessage(alice, bob.address, bob.encryptionKeys.publicKey, 'genuine');
+
+            // Both use counter 0; the forged note claims alice's address with mallory's key
+            const { service: receiver, indexer } = mockService();
+            indexer.transactions = [
+                keyAnnouncement(alice),
+                { ...toMockTransaction(forged[0], 'tx-forged', 100), sender: alice.address },
+                toMockTransaction(submitted[0], 'tx-genuine', 101),
+            ];
+            receiver.addPSKContact(alice.address, psk);
+
+            const messages = await receiver.fetchMessages(bob, alice.address);
+            expect(messages.map(m => [m.id, m.content, m.authenticity])).toEqual([['tx-genuine', 'genuine', 'verified']]);
+        });
+
+        test('replay protection survives a restart with shared PSK state storage', async () => {
+            const alice = createRandomChatAccount().account;
+            const bob = createRandomChatAccount().account;
+
+            const { service: sender, submitted } = mockService();
+            sender.addPSKContact(bob.address, psk);
+            await sender.sendPSKMessage(alice, bob.address, bob.encryptionKeys.publicKey, 'once');
+
+            const original = toMockTransaction(submitted[0], 'tx-1', 100);
+            const replay = { ...original, txid: 'tx-replay', confirmedRound: 101 };
+            const storage = new InMemoryPSKStateStorage();
+
+            const { service: first, indexer: firstIndexer } = mockService();
+            first.setPSKStateStorage(storage);
+            firstIndexer.transactions = [original];
+            first.addPSKContact(alice.address, psk);
+            expect((await first.fetchMessages(bob, alice.address)).map(m => m.id)).toEqual(['tx-1']);
+
+            const { service: restarted, indexer: restartedIndexer } = mockService();
+            restarted.setPSKStateStorage(storage);
+            restartedIndexer.transactions = [original, replay];
+            restarted.addPSKContact(alice.address, psk);
+            expect((await restarted.fetchMessages(bob, alice.address)).map(m => m.id)).toEqual(['tx-1']);
+        });
+
+        test('sendPSKMessage continues the persisted send counter', async () => {
+            const alice = createRandomChatAccount().account;
+            const bob = createRandomChatAccount().account;
+            const storage = new InMemoryPSKStateStorage();
+
+            for (const text of ['one', 'two']) {
+                const { service } = mockService();
+                service.setPSKStateStorage(storage);
+                service.addPSKContact(bob.address, psk);
+                await service.sendPSKMessage(alice, bob.address, bob.encryptionKeys.publicKey, text);
+            }
+
+            const snapshot = await storage.load(bob.address);
+            expect(snapshot?.state.sendCounter).toBe(2);
+        });
+
+        test('forward secrecy contacts use the chain ratchet', async () => {
+            const alice = createRandomChatAccount().account;
+            const bob = createRandomChatAccount().account;
+
+            const { service: sender, submitted } = mockService();
+            sender.addPSKContact(bob.address, psk, { forwardSecrecy: true });
+            expect(sender.encryptionPolicies.get(bob.address)?.forwardSecrecy).toBe(true);
+            await sender.sendPSKMessage(alice, bob.address, bob.encryptionKeys.publicKey, 'forward secure');
+
+            const transactions = confirmAll(submitted);
+
+            const { service: receiver, indexer: receiverIndexer } = mockService();
+            receiverIndexer.transactions = transactions;
+            receiver.addPSKContact(alice.address, psk, { forwardSecrecy: true });
+            expect((await receiver.fetchMessages(bob, alice.address)).map(m => m.content)).toEqual(['forward secure']);
+
+            const { service: stateless, indexer: statelessIndexer } = mockService();
+            statelessIndexer.transactions = transactions;
+            stateless.addPSKContact(alice.address, psk);
+            expect(await stateless.fetchMessages(bob, alice.address)).toEqual([]);
+        });
+
+        test('forward secrecy contacts keep no PSK once messages went both ways', async () => {
+            const alice = createRandomChatAccount().account;
+            const bob = createRandomChatAccount().account;
+
+            const { service: aliceService, indexer: aliceIndexer, submitted: aliceSubmitted } = mockService();
+            const { service: bobService, indexer: bobIndexer, submitted: bobSubmitted } = mockService();
+            aliceService.addPSKContact(bob.address, psk, { forwardSecrecy: true });
+            bobService.addPSKContact(alice.address, psk, { forwardSecrecy: true });
+            expect(holdsBytes(aliceService, psk)).toBe(true);
+
+            await aliceService.sendPSKMessage(alice, bob.address, bob.encryptionKeys.publicKey, 'ping');
+            bobIndexer.transactions = confirmAll(aliceSubmitted);
+            await bobService.fetchMessages(bob, alice.address);
+            expect(bobService.encryptionPolicies.pskFor(alice.address)).toBeDefined();
+
+            await bobService.sendPSKMessage(bob, alice.address, alice.encryptionKeys.publicKey, 'pong');
+            aliceIndexer.transactions = [...confirmAll(aliceSubmitted), ...confirmAll(bobSubmitted, 200)];
+            const messages = await aliceService.fetchMessages(alice, bob.address);
+            expect(messages.map(m => m.content)).toEqual(['ping', 'pong']);
+
+            for (const [service, peer] of [[aliceService, bob], [bobService, alice]] as const) {
+                expect(service.encryptionPolicies.pskFor(peer.address)).toBeUndefined();
+                expect(service.encryptionPolicies.modeFor(peer.address)).toBe('psk');
+                expect(service.hasPSKContact(peer.address)).toBe(true);
+                expect(holdsBytes(service, psk)).toBe(false);
+            }
+
+            // The sessions keep working on their chains
+            await aliceService.sendPSKMessage(alice, bob.address, bob.encryptionKeys.publicKey, 'again');
+            bobIndexer.transactions = confirmAll(aliceSubmitted);
+            expect((await bobService.fetchMessages(bob, alice.address)).map(m => m.content)).toEqual(['ping', 'again']);
+        });
+
+        test('forward secrecy contacts are restored from storage after a restart', async () => {
+            const alice = createRandomChatAccount().account;
+            const bob = createRandomChatAccount().account;
+            const storage = new InMemoryPSKStateStorage();
+
+            const { service: aliceService, indexer: aliceIndexer, submitted: aliceSubmitted } = mockService();
+            const { service: bobService, indexer: bobIndexer, submitted: bobSubmitted } = mockService();
+            aliceService.setPSKStateStorage(storage);
+            aliceService.addPSKContact(bob.address, psk, { forwardSecrecy: true });
+            bobService.addPSKContact(alice.address, psk, { forwardSecrecy: true });
+
+            await aliceService.sendPSKMessage(alice, bob.address, bob.encryptionKeys.publicKey, 'ping');
+            bobIndexer.transactions = confirmAll(aliceSubmitted);
+            await bobService.fetchMessages(bob, alice.address);
+            await bobService.sendPSKMessage(bob, alice.address, alice.encryptionKeys.publicKey, 'pong');
+            aliceIndexer.transactions = confirmAll(bobSubmitted, 200);
+            await aliceService.fetchMessages(alice, bob.address);
+            expect(aliceService.encryptionPolicies.pskFor(bob.address)).toBeUndefined();
+
+            // Restart: nothing but the stored session is left
+            const { service: restarted, indexer: restartedIndexer, submitted: restartedSubmitted } = mockService();
+            restarted.setPSKStateStorage(storage);
+            expect(restarted.hasPSKContact(bob.address)).toBe(false);
+            expect(await restarted.restorePSKContact(bob.address)).toBe(true);
+            expect(restarted.hasPSKContact(bob.address)).toBe(true);
+            expect(restarted.encryptionPolicies.modeFor(bob.address)).toBe('psk');
+            expect(await restarted.restorePSKContact(createRandomChatAccount().account.address)).toBe(false);
+
+            await restarted.sendPSKMessage(alice, bob.address, bob.encryptionKeys.publicKey, 'after restart');
+            bobIndexer.transactions = confirmAll(restartedSubmitted, 300);
+            expect((await bobService.fetchMessages(bob, alice.address)).map(m => m.content)).toEqual(['after restart']);
+
+            await bobService.sendPSKMessage(bob, alice.address, alice.encryptionKeys.publicKey, 'welcome back');
+            restartedIndexer.transactions = confirmAll(bobSubmitted.slice(1), 400);
+            expect((await restarted.fetchMessages(alice, bob.address)).map(m => m.content)).toEqual(['welcome back']);
+        });
+
+        test('own forward-secure messages from past sessions come back unreadable', async () => {
+            const alice = createRandomChatAccount().account;
+            const bob = createRandomChatAccount().account;
+
+            const { service, indexer, submitted } = mockService();
+            service.addPSKContact(bob.address, psk, { forwardSecrecy: true });
+            for (let i = 0; i <= PSK_PROTOCOL.SESSION_SIZE; i++) {
+                await service.sendPSKMessage(alice, bob.address, bob.encryptionKeys.publicKey, `message ${i}`);
+            }
+
+            indexer.transactions = confirmAll(submitted);
+            const messages = await service.fetchMessages(alice, bob.address, undefined, PSK_PROTOCOL.SESSION_SIZE + 1);
+
+            expect(messages.length).toBe(PSK_PROTOCOL.SESSION_SIZE + 1);
+            const erased = messages.filter(m => m.error);
+            expect(erased.length).toBe(PSK_PROTOCOL.SESSION_SIZE);
+            expect(erased.every(m => m.direction === 'sent' && m.content === '')).toBe(true);
+            expect(erased[0].error?.code).toBe(ChatErrorCode.DECRYPTION_FAILED);
+            expect(messages[messages.length - 1]).toMatchObject({
+                content: `message ${PSK_PROTOCOL.SESSION_SIZE}`,
+                error: undefined,
+            });
+        });
+
+        test('fetchConversations includes PSK conversations', async () => {
+            const alice = createRandomChatAccount().account;
+            const bob = createRandomChatAccount().account;
+
+            const { service: sender, submitted } = mockService();
+            sender.addPSKContact(bob.address, psk);
+            await sender.sendPSKMessage(alice, bob.address, bob.encryptionKeys.publicKey, 'hello');
+
+            const { service: receiver, indexer } = mockService();
+            indexer.transactions = confirmAll(submitted);
+            receiver.addPSKContact(alice.address, psk);
+
+
+            const conversations = await receiver.fetchConversations(bob);
+            expect(conversations.length).toBe(1);
+            expect(conversations[0].participant).toBe(alice.address);
+            expect(conversations[0].messages[0].content).toBe('hello');
+        });
+    });
+
+    describe('PSK handshake', () => {
+        test('proposal, acceptance and confirmation switch both sides to psk mode', async () => {
+            const alice = createRandomChatAccount().account;
+            const bob = createRandomChatAccount().account;
+
+            const { service: aliceService, indexer: aliceIndexer, algod: aliceAlgod } = mockService();
+            const { service: bobService, indexer: bobIndexer, algod: bobAlgod } = mockService();
+
+            // Shared chain history, appended as transactions are "confirmed"
+            const chain: NoteTransaction[] = [];
+            const confirm = (signed: Uint8Array) => chain.push(toMockTransaction(signed, `chain-${chain.length}`, 100 + chain.length));
+            aliceIndexer.transactions = chain;
+            bobIndexer.transactions = chain;
+
+            const { handshake } = await aliceService.proposePSK(alice, bob.address, bob.encryptionKeys.publicKey);
+            confirm(aliceAlgod.submitted[0]);
+            expect(handshake.state).toBe('pending');
+
+            // Bob sees the proposal as a pending handshake, not as a message
+            expect(await bobService.fetchMessages(bob, alice.address)).toEqual([]);
+            const incoming = bobService.listPSKHandshakes(alice.address);
+            expect(incoming.map(h => [h.id, h.role, h.state])).toEqual([[handshake.id, 'responder', 'pending']]);
+
+            await bobService.acceptPSK(bob, handshake.id, alice.encryptionKeys.publicKey);
+            confirm(bobAlgod.submitted[0]);
+
+            // Alice fetches the acceptance, establishes and sends the confirmation
+            expect(await aliceService.fetchMessages(alice, bob.address)).toEqual([]);
+            expect(aliceService.getPSKHandshake(handshake.id)?.state).toBe('established');
+            expect(aliceService.encryptionPolicies.modeFor(bob.address)).toBe('psk');
+            expect(aliceAlgod.submitted.length).toBe(2);
+            confirm(aliceAlgod.submitted[1]);
+
+            // Re-fetching does not send the confirmation again
+            await aliceService.fetchMessages(alice, bob.address);
+            expect(aliceAlgod.submitted.length).toBe(2);
+
+            await bobService.fetchMessages(bob, alice.address);
+            expect(bobService.getPSKHandshake(handshake.id)?.state).toBe('established');
+            expect(bobService.encryptionPolicies.modeFor(alice.address)).toBe('psk');
+
+            // Messages now travel as PSK envelopes both ways
+            await aliceService.sendMessage(alice, bob.address, bob.encryptionKeys.publicKey, 'over psk');
+            expect(isPSKMessage(algosdk.decodeSignedTransaction(aliceAlgod.submitted[2]).txn.note!)).toBe(true);
+            confirm(aliceAlgod.submitted[2]);
+
+            const messages = await bobService.fetchMessages(bob, alice.address);
+            expect(messages.map(m => m.content)).toEqual(['over psk']);
+        });
+
+        test('a rejected proposal leaves both sides in standard mode', async () => {
+            const alice = createRandomChatAccount().account;
+            const bob = createRandomChatAccount().account;
+
+            const { service: aliceService, indexer: aliceIndexer, algod: aliceAlgod } = mockService();
+            const { service: bobService, indexer: bobIndexer, algod: bobAlgod } = mockService();
+
+            const { handshake } = await aliceService.proposePSK(alice, bob.address, bob.encryptionKeys.publicKey);
+            bobIndexer.transactions = [toMockTransaction(aliceAlgod.submitted[0], 'tx-propose', 100)];
+            await bobService.fetchMessages(bob, alice.address);
+
+            const { handshake: rejected } = await bobService.rejectPSK(bob, handshake.id, alice.encryptionKeys.publicKey, 'no thanks');
+            expect(rejected.state).toBe('rejected');
+
+            aliceIndexer.transactions = [toMockTransaction(bobAlgod.submitted[0], 'tx-reject', 101)];
+            await aliceService.fetchMessages(alice, bob.address);
+
+            expect(aliceService.getPSKHandshake(handshake.id)?.state).toBe('rejected');
+            expect(aliceService.getPSKHandshake(handshake.id)?.reason).toBe('no thanks');
+            expect(aliceService.encryptionPolicies.modeFor(bob.address)).toBe('standard');
+            expect(bobService.encryptionPolicies.modeFor(alice.address)).toBe('standard');
+        });
+    });
+
+    describe('PSK rekey', () => {
+        test('rekeyPSK switches both sides to a new generation and history stays readable', async () => {
+            const alice = createRandomChatAccount().account;
+            const bob = createRandomChatAccount().account;
+            const psk = new Uint8Array(32).fill(0x42);
+
+            const { service: aliceService, indexer: aliceIndexer, algod: aliceAlgod } = mockService();
+            aliceService.addPSKContact(bob.address, psk);
+
+            const { service: bobService, indexer: bobIndexer, algod: bobAlgod } = mockService();
+            bobService.addPSKContact(alice.address, psk);
+
+            const chain: NoteTransaction[] = [];
+            const confirm = (signed: Uint8Array) => chain.push(toMockTransaction(signed, `chain-${chain.length}`, 100 + chain.length));
+            aliceIndexer.transactions = chain;
+            bobIndexer.transactions = chain;
+
+
+            await aliceService.sendPSKMessage(alice, bob.address, bob.encryptionKeys.publicKey, 'before');
+            confirm(aliceAlgod.submitted[0]);
+            await aliceService.rekeyPSK(alice, bob.address, bob.encryptionKeys.publicKey);
+            confirm(aliceAlgod.submitted[1]);
+
+            // Bob reads the announcement, hides it and acknowledges once
+            expect((await bobService.fetchMessages(bob, alice.address)).map(m => m.content)).toEqual(['before']);
+            expect(bobAlgod.submitted.length).toBe(1);
+            confirm(bobAlgod.submitted[0]);
+            await bobService.fetchMessages(bob, alice.address);
+            expect(bobAlgod.submitted.length).toBe(1);
+
+            await aliceService.fetchMessages(alice, bob.address);
+            await aliceService.sendPSKMessage(alice, bob.address, bob.encryptionKeys.publicKey, 'after');
+            confirm(aliceAlgod.submitted[2]);
+
+            const messages = await bobService.fetchMessages(bob, alice.address);
+            expect(messages.map(m => m.content)).toEqual(['before', 'after']);
+            expect((await aliceService.fetchMessages(alice, bob.address)).map(m => m.content)).toEqual(['before', 'after']);
+        });
+    });
+
+    describe('key pinning', () => {
+        test('flags messages from a changed key until the change is accepted', async () => {
+            const alice = createRandomChatAccount().account;
+            const bob = createRandomChatAccount().account;
+            const rotatedAlice = { ...alice, encryptionKeys: generateEphemeralKeyPair() };
+
+            const { service: sender, submitted } = mockService();
+            await sender.sendMessage(alice, bob.address, bob.encryptionKeys.publicKey, 'original key');
+            await sender.sendMessage(rotatedAlice, bob.address, bob.encryptionKeys.publicKey, 'new key');
+
+            const { service: receiver, indexer } = mockService();
+            const events: KeyChangedEvent[] = [];
+            receiver.keyPinning.setOnKeyChanged(event => events.push(event));
+            // The original key is discovered and pinned before the new one is used
+            indexer.transactions = confirmAll(submitted.slice(0, 1));
+            await receiver.discoverPublicKey(alice.address);
+            indexer.transactions = confirmAll(submitted);
+
+            const before = await receiver.fetchMessages(bob, alice.address);
+            expect(before.map(m => [m.content, m.authenticity])).toEqual([
+                ['original key', 'unverified'],
+                ['new key', 'mismatch'],
+            ]);
+            await receiver.fetchMessages(bob, alice.address);
+            expect(events).toHaveLength(1);
+            expect(events[0].newKey).toEqual(rotatedAlice.encryptionKeys.publicKey);
+
+            // Replying to the new key is refused while the change is pending
+            await expect(
+                receiver.sendMessage(bob, alice.address, rotatedAlice.encryptionKeys.publicKey, 'hi')
+            ).rejects.toMatchObject({ code: ChatErrorCode.KEY_CHANGED });
+
+            const pin = await receiver.acceptKeyChange(alice.address);
+            expect(pin.trust).toBe('unverified');
+            const after = await receiver.fetchMessages(bob, alice.address);
+            expect(after.map(m => [m.content, m.authenticity])).toEqual([
+                ['original key', 'unverified'],
+                ['new key', 'unverified'],
+            ]);
+            expect(events).toHaveLength(1);
+        });
+
+        test('rejected keys stay hidden', async () => {
+            const alice = createRandomChatAccount().account;
+            const bob = createRandomChatAccount().account;
+            const rotatedAlice = { ...alice, encryptionKeys: generateEphemeralKeyPair() };
+
+            const { service: receiver, indexer } = mockService();
+            await receiver.keyPinning.check(alice.address, alice.encryptionKeys.publicKey);
+            await receiver.keyPinning.check(alice.address, rotatedAlice.encryptionKeys.publicKey);
+            await receiver.rejectKeyChange(alice.address);
+
+            const { service: sender, submitted } = mockService();
+            await sender.sendMessage(rotatedAlice, bob.address, bob.encryptionKeys.publicKey, 'rejected');
+
+            indexer.transactions = confirmAll(submitted);
+            expect(await receiver.fetchMessages(bob, alice.address)).toEqual([]);
+        });
+
+        test('markSafetyNumberVerified checks the scanned payload', async () => {
+            const alice = createRandomChatAccount().account;
+            const bob = createRandomChatAccount().account;
+
+            const aliceService = new AlgorandService(TEST_CONFIG);
+            const bobService = new AlgorandService(TEST_CONFIG);
+            await aliceService.keyPinning.check(bob.address, bob.encryptionKeys.publicKey);
+            await bobService.keyPinning.check(alice.address, alice.encryptionKeys.publicKey);
+
+            const aliceNumber = await aliceService.getSafetyNumber(alice, bob.address);
+            const bobNumber = await bobService.getSafetyNumber(bob, alice.address);
+            expect(aliceNumber.numeric).toBe(bobNumber.numeric);
+
+            await expect(
+                aliceService.markSafetyNumberVerified(alice, bob.address, encodeSafetyNumberPayload(aliceNumber))
+            ).rejects.toMatchObject({ code: ChatErrorCode.INVALID_KEY });
+            expect((await aliceService.keyPinning.get(bob.address))?.trust).toBe('tofu');
+
+            const pin = await aliceService.markSafetyNumberVerified(alice, bob.address, encodeSafetyNumberPayload(bobNumber));
+            expect(pin.trust).toBe('verified');
+        });
+    });
+
+    describe('sender key binding', () => {
+        test('flags envelopes carrying a key other than the sender announced', async () => {
+            const alice = createRandomChatAccount().account;
+            const bob = createRandomChatAccount().account;
+            const mallory = createRandomChatAccount().account;
+            const impersonator = {
+                ...mallory,
+                encryptionKeys: { ...mallory.encryptionKeys, publicKey: alice.encryptionKeys.publicKey },
+            };
+
+            const { service: sender, submitted } = mockService();
+            await sender.publishKey(mallory);
+            await sender.sendMessage(impersonator, bob.address, bob.encryptionKeys.publicKey, 'forged');
+            await sender.sendMessage(mallory, bob.address, bob.encryptionKeys.publicKey, 'genuine');
+
+            const { service: receiver, indexer } = mockService();
+            indexer.transactions = confirmAll(submitted);
+
+            const messages = await receiver.fetchMessages(bob, mallory.address);
+            expect(messages.map(m => [m.content, m.authenticity])).toEqual([
+                ['forged', 'mismatch'],
+                ['genuine', 'verified'],
+            ]);
+            expect((await receiver.keyPinning.get(mallory.address))?.publicKey).toEqual(mallory.encryptionKeys.publicKey);
+        });
+
+        test('leaves sent messages unflagged', async () => {
+            const alice = createRandomChatAccount().account;
+            const bob = createRandomChatAccount().account;
+
+            const { service, indexer, submitted } = mockService();
+            await service.sendMessage(alice, bob.address, bob.encryptionKeys.publicKey, 'hello');
+
+            indexer.transactions = confirmAll(submitted);
+
+            const [message] = await service.fetchMessages(alice, bob.address);
+            expect(message.authenticity).toBeUndefined();
+        });
+    });
+
+    describe('per-contact encryption policies', () => {
+        test('sendMessage routes psk mode contacts to PSK envelopes', async () => {
+            const alice = createRandomChatAccount().account;
+            const bob = createRandomChatAccount().account;
+            const carol = createRandomChatAccount().account;
+
+            const policies = new EncryptionPolicyRegistry();
+            policies.set(bob.address, { psk: new Uint8Array(32).fill(0x0b), mode: 'psk' });
+
+            const { service, submitted } = mockService(policies);
+
+            await service.sendMessage(alice, bob.address, bob.encryptionKeys.publicKey, 'to bob');
+            await service.sendReply(alice, bob.address, bob.encryptionKeys.publicKey, 'reply', 'tx-0', 'hi');
+            await service.sendMessage(alice, carol.address, carol.encryptionKeys.publicKey, 'to carol');
+
+            const notes = submitted.map(signed => algosdk.decodeSignedTransaction(signed).txn.note);
+            expect(notes.map(isPSKMessage)).toEqual([true, true, false]);
+        });
+
+        test('fetchMessages decrypts with each contact PSK', async () => {
+            const alice = createRandomChatAccount().account;
+            const bob = createRandomChatAccount().account;
+            const carol = createRandomChatAccount().account;
+            const bobPSK = new Uint8Array(32).fill(0x0b);
+            const carolPSK = new Uint8Array(32).fill(0x0c);
+
+            const { service: bobService, algod: bobAlgod } = mockService({ psk: bobPSK });
+            const { service: carolService, algod: carolAlgod } = mockService({ psk: carolPSK });
+
+            await bobService.sendMessage(bob, alice.address, alice.encryptionKeys.publicKey, 'from bob');
+            await carolService.sendMessage(carol, alice.address, alice.encryptionKeys.publicKey, 'from carol');
+
+            const policies = new EncryptionPolicyRegistry();
+            policies.set(bob.address, { psk: bobPSK });
+            policies.set(carol.address, { psk: carolPSK });
+
+            const { service, indexer } = mockService(policies);
+            indexer.transactions = [
+                toMockTransaction(bobAlgod.submitted[0], 'tx-bob', 100),
+                toMockTransaction(carolAlgod.submitted[0], 'tx-carol', 101),
+            ];
+
+            const conversations = await service.fetchConversations(alice);
+            const contents = conversations.map(c => c.messages[0].content).sort();
+            expect(contents).toEqual(['from bob', 'from carol']);
+        });
+
+        test('padding from the options or a single send hides message length', async () => {
+            const alice = createRandomChatAccount().account;
+            const bob = createRandomChatAccount().account;
+            const carol = createRandomChatAccount().account;
+
+            const policies = new EncryptionPolicyRegistry({ padding: 'bucket' });
+            policies.set(carol.address, { psk: new Uint8Array(32).fill(0x0c), mode: 'psk' });
+
+            const { service, indexer, submitted } = mockService(policies);
+
+            await service.sendMessage(alice, bob.address, bob.encryptionKeys.publicKey, 'hi');
+            await service.sendMessage(alice, bob.address, bob.encryptionKeys.publicKey, 'a somewhat longer message');
+            await service.sendMessage(alice, bob.address, bob.encryptionKeys.publicKey, 'hi', { padding: 'none' });
+            await service.sendMessage(alice, carol.address, carol.encryptionKeys.publicKey, 'hi', { padding: 'random' });
+
+            const notes = submitted.map(signed => algosdk.decodeSignedTransaction(signed).txn.note);
+            expect(notes[0].length).toBe(notes[1].length);
+            expect(notes[2].length).toBeLessThan(notes[0].length);
+            expect(isPSKMessage(notes[3])).toBe(true);
+
+            indexer.transactions = confirmAll(submitted.slice(0, 3));
+            const messages = await service.fetchMessages(alice, bob.address);
+            expect(messages.map(m => m.content)).toEqual(['hi', 'a somewhat longer message', 'hi']);
+        });
+
+        test('fetchMessages drops versions the contact policy does not allow', async () => {
+            const alice = createRandomChatAccount().account;
+            const bob = createRandomChatAccount().account;
+
+            const { service: sender, submitted } = mockService();
+            await sender.sendMessage(bob, alice.address, alice.encryptionKeys.publicKey, 'plain');
+
+            const policies = new EncryptionPolicyRegistry();
+            policies.set(bob.address, { psk: new Uint8Array(32).fill(0x0b), mode: 'psk', allowedVersions: ['v1.1'] });
+
+            const { service, indexer } = mockService(policies);
+            indexer.transactions = confirmAll(submitted);
+
+
+            expect(await service.fetchMessages(alice, bob.address)).toEqual([]);
+        });
+    });
+
+    describe('Double Ratchet messages', () => {
+        function ratchetService(peer: ChatAccount) {
+            const policies = new EncryptionPolicyRegistry();
+            policies.set(peer.address, { mode: 'ratchet' });
+
+            const { service, indexer, submitted } = mockService(policies);
+            indexer.transactions = [keyAnnouncement(peer)];
+            return { service, indexer, submitted };
+        }
+
+        test('ratchet mode contacts exchange messages in both directions', async () => {
+            const alice = createRandomChatAccount().account;
+            const bob = createRandomChatAccount().account;
+            const aliceSide = ratchetService(bob);
+            const bobSide = ratchetService(alice);
+
+            await aliceSide.service.sendMessage(alice, bob.address, bob.encryptionKeys.publicKey, 'hi bob');
+            await aliceSide.service.sendReply(alice, bob.address, bob.encryptionKeys.publicKey, 'lunch?', 'tx-0', 'hi');
+            const toBob = confirmAll(aliceSide.submitted);
+            expect(toBob.map(tx => isRatchetMessage(tx.note))).toEqual([true, true]);
+
+            bobSide.indexer.transactions = [keyAnnouncement(alice), ...toBob];
+            const received = await bobSide.service.fetchMessages(bob, alice.address);
+            expect(received.map(m => m.content)).toEqual(['hi bob', 'lunch?']);
+            expect(received[1].replyContext?.messageId).toBe('tx-0');
+            expect(received[0].authenticity).toBe('verified');
+
+            // Each message decrypts once, but re-fetching still shows it
+            expect((await bobSide.service.fetchMessages(bob, alice.address)).map(m => m.content)).toEqual(['hi bob', 'lunch?']);
+
+            await bobSide.service.sendMessage(bob, alice.address, alice.encryptionKeys.publicKey, 'sure');
+            const all = [...toBob, toMockTransaction(bobSide.submitted[0], 'tx-b0', 110)];
+
+            // Our own ratchet messages come from the message store
+            aliceSide.indexer.transactions = [keyAnnouncement(bob), ...all];
+            const history = await aliceSide.service.fetchMessages(alice, bob.address);
+            expect(history.map(m => [m.direction, m.content])).toEqual([
+                ['sent', 'hi bob'],
+                ['sent', 'lunch?'],
+                ['received', 'sure'],
+            ]);
+            expect(history[1].replyContext?.messageId).toBe('tx-0');
+        });
+
+        test('ratchet history survives a restart through the message store', async () => {
+            const alice = createRandomChatAccount().account;
+            const bob = createRandomChatAccount().account;
+            const aliceSide = ratchetService(bob);
+            const bobSide = ratchetService(alice);
+            const sessions = new InMemoryRatchetStateStorage();
+            const messages = new InMemoryRatchetMessageStore();
+            aliceSide.service.setRatchetStateStorage(sessions);
+            aliceSide.service.setRatchetMessageStore(messages);
+
+            await aliceSide.service.sendMessage(alice, bob.address, bob.encryptionKeys.publicKey, 'hi bob');
+            await bobSide.service.sendMessage(bob, alice.address, alice.encryptionKeys.publicKey, 'hi alice');
+            const all = [...confirmAll(aliceSide.submitted), toMockTransaction(bobSide.submitted[0], 'tx-b1', 110)];
+            aliceSide.indexer.transactions = [keyAnnouncement(bob), ...all];
+            expect((await aliceSide.service.fetchMessages(alice, bob.address)).map(m => m.content)).toEqual(['hi bob', 'hi alice']);
+
+            // Restarted with the same stores
+            const restarted = ratchetService(bob);
+            restarted.service.setRatchetStateStorage(sessions);
+            restarted.service.setRatchetMessageStore(messages);
+            restarted.indexer.transactions = aliceSide.indexer.transactions;
+            expect((await restarted.service.fetchMessages(alice, bob.address)).map(m => m.content)).toEqual(['hi bob', 'hi alice']);
+
+            // Restarted without them: our own message is unreadable, the received one is gone
+            const forgetful = ratchetService(bob);
+            forgetful.service.setRatchetStateStorage(sessions);
+            forgetful.indexer.transactions = aliceSide.indexer.transactions;
+            const lost = await forgetful.service.fetchMessages(alice, bob.address);
+            expect(lost.map(m => [m.direction, m.content, m.error?.code])).toEqual([
+                ['sent', '', ChatErrorCode.DECRYPTION_FAILED],
+            ]);
+        });
+
+        test('ratchet sessions persist and reset through the configured storage', async () => {
+            const alice = createRandomChatAccount().account;
+            const bob = createRandomChatAccount().account;
+            const { service } = ratchetService(bob);
+            const storage = new InMemoryRatchetStateStorage();
+            service.setRatchetStateStorage(storage);
+
+            await service.sendMessage(alice, bob.address, bob.encryptionKeys.publicKey, 'hello');
+            expect(await storage.list()).toEqual([bob.address]);
+
+            await service.resetRatchetSession(bob.address);
+            expect(await storage.list()).toEqual([]);
+        });
+
+        test('fetchMessages drops ratchet messages the policy does not allow', async () => {
+            const alice = createRandomChatAccount().account;
+            const bob = createRandomChatAccount().account;
+            const { service, submitted } = ratchetService(alice);
+            await service.sendMessage(bob, alice.address, alice.encryptionKeys.publicKey, 'ratcheted');
+
+            const policies = new EncryptionPolicyRegistry();
+            policies.set(bob.address, { allowedVersions: ['v1.0', 'v2.0'] });
+            const { service: receiver, indexer } = mockService(policies);
+            indexer.transactions = confirmAll(submitted);
+
+            expect(await receiver.fetchMessages(alice, bob.address)).toEqual([]);
+        });
+    });
+
+    describe('v2 envelopes', () => {
+        test('sends v2 to current peers and v1 to legacy peers', async () => {
+            const alice = createRandomChatAccount().account;
+            const bob = createRandomChatAccount().account;
+            const carol = createRandomChatAccount().account;
+
+            const policies = new EncryptionPolicyRegistry({ envelopeVersion: 2 });
+            policies.set(carol.address, { envelopeVersion: 1 });
+
+            const { service, submitted } = mockService(policies);
+
+            await service.sendMessage(alice, bob.address, bob.encryptionKeys.publicKey, 'to bob');
+            await service.sendMessage(alice, carol.address, carol.encryptionKeys.publicKey, 'to carol');
+
+            const notes = submitted.map(signed => algosdk.decodeSignedTransaction(signed).txn.note);
+            expect(notes.map(note => note[0])).toEqual([2, 1]);
+        });
+
+        test('fetchMessages reads headers and drops expired messages', async () => {
+            const alice = createRandomChatAccount().account;
+            const bob = createRandomChatAccount().account;
+
+            const { service, indexer, submitted } = mockService({ envelopeVersion: 2 });
+
+            const expiresAt = new Date(Math.floor(Date.now() / 1000 + 3600) * 1000);
+            await service.sendMessage(alice, bob.address, bob.encryptionKeys.publicKey, 'threaded', {
+                headers: { threadId: 'thread-1', contentType: 'text/markdown', expiresAt },
+            });
+            await service.sendMessage(alice, bob.address, bob.encryptionKeys.publicKey, 'expired', {
+                headers: { expiresAt: new Date(Date.now() - 60_000) },
+            });
+
+            indexer.transactions = confirmAll(submitted);
+
+            const messages = await service.fetchMessages(alice, bob.address);
+            expect(messages.length).toBe(1);
+            expect(messages[0]).toMatchObject({
+                content: 'threaded',
+                threadId: 'thread-1',
+                contentType: 'text/markdown',
+                expiresAt,
+            });
+        });
+
+        test('sealed-sender messages reveal the sender key only to the parties', async () => {
+            const alice = createRandomChatAccount().account;
+            const bob = createRandomChatAccount().account;
+
+            const { service, indexer, submitted } = mockService({ envelopeVersion: 2, sealedSender: true });
+            await service.sendMessage(bob, alice.address, alice.encryptionKeys.publicKey, 'sealed');
+
+            const transactions = confirmAll(submitted);
+            expect(Buffer.from(transactions[0].note).includes(Buffer.from(bob.encryptionKeys.publicKey))).toBe(false);
+
+            const { service: receiver, indexer: receiverIndexer } = mockService();
+            receiverIndexer.transactions = [keyAnnouncement(bob), ...transactions];
+
+            const [conversation] = await receiver.fetchConversations(alice);
+            expect(conversation.messages[0]).toMatchObject({ content: 'sealed', authenticity: 'verified' });
+            expect(conversation.participantPublicKey).toEqual(bob.encryptionKeys.publicKey);
+
+            indexer.transactions = transactions;
+            expect((await service.fetchMessages(bob, alice.address)).map(m => m.content)).toEqual(['sealed']);
+        });
+    });
+
+    describe('structured payloads', () => {
+        test('sendPayload round-trips reactions and edits through fetchMessages', async () => {
+            const alice = createRandomChatAccount().account;
+            const bob = createRandomChatAccount().account;
+
+            const { service, indexer, submitted } = mockService();
+
+            await service.sendMessage(alice, bob.address, bob.encryptionKeys.publicKey, 'helo');
+            const edit = await service.sendPayload(alice, bob.address, bob.encryptionKeys.publicKey, {
+                type: 'edit',
+                targetId: 'tx-1',
+                text: 'hello',
+            });
+            expect(edit.message.content).toBe('');
+            expect(edit.message.payload).toEqual({ type: 'edit', targetId: 'tx-1', text: 'hello' });
+
+            indexer.transactions = confirmAll(submitted);
+
+            const conversation = new Conversation(bob.address, undefined, await service.fetchMessages(alice, bob.address));
+            expect(conversation.messages.map(m => m.content)).toEqual(['hello']);
+            expect(conversation.messages[0].editHistory?.[0].content).toBe('helo');
+        });
+    });
+
+    describe('attachments', () => {
+        const file = new TextEncoder().encode('\x89PNG pretend image bytes');
+
+        async function sendFile() {
+            const alice = createRandomChatAccount().account;
+            const bob = createRandomChatAccount().account;
+            const store = new InMemoryBlobStore();
+
+            const { service: sender, submitted } = mockService();
+            sender.setBlobStore(store);
+
+            const result = await sender.sendAttachment(alice, bob.address, bob.encryptionKeys.publicKey, {
+                data: file,
+                mimeType: 'image/png',
+                name: 'cat.png',
+                caption: 'my cat',
+            });
+
+            const { service: receiver, indexer } = mockService();
+            receiver.setBlobStore(store);
+            indexer.transactions = confirmAll(submitted);
+            const [message] = await receiver.fetchMessages(bob, alice.address);
+
+            return { result, message, receiver, store };
+        }
+
+        test('sendAttachment stores the encrypted file and downloadAttachment verifies it', async () => {
+            const { result, message, receiver } = await sendFile();
+
+            expect(result.message.content).toBe('my cat');
+            expect(message.content).toBe('my cat');
+            const attachment = message.payload as AttachmentPayload;
+            expect(attachment).toMatchObject({ type: 'attachment', size: file.length, mimeType: 'image/png', name: 'cat.png' });
+            expect(attachment.blobId).toBeUndefined();
+
+            expect(await receiver.downloadAttachment(attachment)).toEqual(file);
+            expect(new Conversation('x', undefined, [message]).messages).toHaveLength(1);
+        });
+
+        test('downloadAttachment rejects missing and tampered blobs', async () => {
+            const { message, receiver, store } = await sendFile();
+            const attachment = message.payload as AttachmentPayload;
+
+            const blob = (await store.get(attachment.hash))!;
+            blob[blob.length - 1] ^= 1;
+            receiver.setBlobStore({ get: async () => blob, put: async () => attachment.hash, delete: async () => {} });
+            await expect(receiver.downloadAttachment(attachment)).rejects.toMatchObject({
+                code: ChatErrorCode.ATTACHMENT_CORRUPT,
+            });
+
+            receiver.setBlobStore(new InMemoryBlobStore());
+            await expect(receiver.downloadAttachment(attachment)).rejects.toMatchObject({
+                code: ChatErrorCode.ATTACHMENT_NOT_FOUND,
+            });
+        });
+    });
+
+    describe('groups', () => {
+        async function createLunchGroup() {
+            const alice = createRandomChatAccount().account;
+            const bob = createRandomChatAccount().account;
+            const carol = createRandomChatAccount().account;
+
+            const { service, indexer, submitted } = mockService();
+            indexer.transactions = [keyAnnouncement(bob), keyAnnouncement(carol)];
+
+            const { group, sendResult } = await service.createGroup(alice, [bob.address, carol.address], 'Lunch');
+            return { service, indexer, alice, bob, carol, group, sendResult, submitted };
+        }
+
+        test('createGroup sends a signed membership to every member in one transaction group', async () => {
+            const { alice, bob, carol, group, sendResult, submitted } = await createLunchGroup();
+
+            expect(group.members).toEqual([alice.address, bob.address, carol.address]);
+            expect(group.admins).toEqual([alice.address]);
+            expect(group.name).toBe('Lunch');
+            expect(sendResult.message.group?.groupId).toBe(group.groupId);
+
+            const txns = submitted.map(signed => algosdk.decodeSignedTransaction(signed).txn);
+            expect(txns.map(txn => txn.payment!.receiver.toString())).toEqual([bob.address, carol.address]);
+            expect(txns.map(txn => Number(txn.payment!.amount))).toEqual([1000, 1000]);
+            expect(new Set(txns.map(txn => Buffer.from(txn.group!).toString('hex'))).size).toBe(1);
+            expect(sendResult.txids).toHaveLength(2);
+        });
+
+        test('members fetch the group once, apart from direct conversations', async () => {
+            const { service, indexer, alice, bob, group, submitted } = await createLunchGroup();
+            const sent = await service.sendGroupMessage(alice, group, 'Noon at the usual place?');
+            expect(group.merge([sent.message])).toBe(1);
+            expect(group.messages.map(message => message.content)).toEqual(['Noon at the usual place?']);
+
+            const transactions = confirmAll(submitted);
+
+            const { service: receiver, indexer: receiverIndexer } = mockService();
+            receiverIndexer.transactions = transactions.filter(tx => tx.receiver === bob.address);
+            const [received] = await receiver.fetchGroupConversations(bob);
+            expect(received.groupId).toBe(group.groupId);
+            expect(received.members).toEqual(group.members);
+            expect(received.messages.map(message => message.content)).toEqual(['Noon at the usual place?']);
+            expect(await receiver.fetchConversations(bob)).toEqual([]);
+            expect(await receiver.fetchMessages(bob, alice.address)).toEqual([]);
+
+            indexer.transactions = transactions;
+            const [own] = await service.fetchGroupConversations(alice);
+            expect(own.messages).toHaveLength(1);
+            expect(own.updates).toHaveLength(1);
+        });
+
+        test('updateGroup is for admins and reaches removed members', async () => {
+            const { service, alice, bob, carol, group, submitted } = await createLunchGroup();
+
+            await expect(service.updateGroup(bob, group, { members: [bob.address] })).rejects.toThrow(GroupError);
+
+            const result = await service.updateGroup(alice, group, { members: [alice.address, bob.address] });
+            expect(result.message.payload).toMatchObject({ epoch: 1, members: [alice.address, bob.address], name: 'Lunch' });
+            const receivers = submitted.slice(2).map(signed => algosdk.decodeSignedTransaction(signed).txn.payment!.receiver.toString());
+            expect(receivers).toEqual([bob.address, carol.address]);
+
+            group.merge([result.message]);
+            expect(group.isMember(carol.address)).toBe(false);
+            expect((group.updates[1].payload as GroupUpdatePayload).epoch).toBe(1);
+            await expect(service.sendGroupMessage(carol, group, 'hello?')).rejects.toThrow(GroupError);
+        });
+    });
+
+    describe('channels', () => {
+        async function subscribe() {
+            const owner = createRandomChatAccount().account;
+            const bob = createRandomChatAccount().account;
+            const carol = createRandomChatAccount().account;
+
+            const { service, indexer, submitted } = mockService();
+            indexer.transactions = [keyAnnouncement(bob), keyAnnouncement(carol)];
+
+            let channel = await service.createChannel(owner, 'Releases');
+            channel = (await service.addSubscriber(owner, channel, bob.address)).channel;
+            channel = (await service.addSubscriber(owner, channel, carol.address)).channel;
+            return { service, owner, bob, carol, channel, submitted };
+        }
+
+        /** A subscriber's service, after fetching its messages from the owner */
+        async function subscriberService(subscriber: ChatAccount, owner: ChatAccount, submitted: Uint8Array[]) {
+            const { service, indexer } = mockService();
+            indexer.transactions = confirmAll(submitted).filter(tx =>
+                tx.receiver === subscriber.address || tx.receiver === owner.address
+            );
+            expect(await service.fetchMessages(subscriber, owner.address)).toEqual([]);
+            return service;
+        }
+
+        test('subscribers read posts encrypted once with the channel key', async () => {
+            const { service, owner, bob, channel, submitted } = await subscribe();
+            expect(channel.subscribers).toEqual([bob.address, expect.any(String)]);
+
+            const post = await service.postToChannel(owner, channel, 'Version 2.0 is out');
+            expect(post.message.channelId).toBe(channel.channelId);
+            expect(algosdk.decodeSignedTransaction(submitted.at(-1)!).txn.payment!.receiver.toString()).toBe(owner.address);
+
+            const subscriber = await subscriberService(bob, owner, submitted);
+            const [key] = await subscriber.listChannels();
+            expect(key).toMatchObject({ channelId: channel.channelId, epoch: 0, owner: owner.address, name: 'Releases' });
+
+            const posts = await subscriber.fetchChannelPosts(bob, channel.channelId);
+            expect(posts.map(message => message.content)).toEqual(['Version 2.0 is out']);
+            expect(posts[0]).toMatchObject({ sender: owner.address, direction: 'received', channelId: channel.channelId });
+        });
+
+        test('removing a subscriber rotates the key for everyone else', async () => {
+            const { service, owner, bob, carol, channel, submitted } = await subscribe();
+            await service.postToChannel(owner, channel, 'before');
+
+            const { channel: rotated, sendResults } = await service.removeSubscriber(owner, channel, carol.address);
+            expect(rotated.epoch).toBe(1);
+            expect(rotated.subscribers).toEqual([bob.address]);
+            expect(sendResults).toHaveLength(1);
+            await service.postToChannel(owner, rotated, 'after');
+            await expect(service.postToChannel(owner, channel, 'stale')).rejects.toThrow(/epoch 1/);
+
+            const bobService = await subscriberService(bob, owner, submitted);
+            expect((await bobService.fetchChannelPosts(bob, channel.channelId)).map(m => m.content))
+                .toEqual(['before', 'after']);
+
+            const carolService = await subscriberService(carol, owner, submitted);
+            expect((await carolService.fetchChannelPosts(carol, channel.channelId)).map(m => m.content))
+                .toEqual(['before']);
+        });
+
+        test('only the owner manages and posts to a channel', async () => {
+            const { service, bob, channel } = await subscribe();
+
+            await expect(service.postToChannel(bob, channel, 'spoof')).rejects.toThrow(ChannelError);
+            await expect(service.removeSubscriber(bob, channel, bob.address)).rejects.toThrow(ChannelError);
+            await expect(mockService().service.fetchChannelPosts(bob, channel.channelId)).rejects.toMatchObject({
+                code: ChatErrorCode.NOT_CONFIGURED,
+            });
+        });
+    });
+
+    describe('chunked messages', () => {
+        const longText = 'A long message. '.repeat(150);
+
+        async function sendLong(policies?: EncryptionPolicyRegistry) {
+            const alice = createRandomChatAccount().account;
+            const bob = createRandomChatAccount().account;
+
+            const { service, indexer, submitted } = mockService(policies);
+
+            const result = await service.sendMessage(alice, bob.address, bob.encryptionKeys.publicKey, longText);
+            const transactions = submitted.map((signed, i) => ({
+                ...toMockTransaction(signed, `tx-${i + 1}`, 100),
+                intraRoundOffset: i,
+            }));
+            return { service, indexer, alice, bob, result, submitted, transactions };
+        }
+
+        test('sends a long message as one transaction group', async () => {
+            const { result, submitted } = await sendLong();
+
+            expect(submitted.length).toBe(3);
+            const txns = submitted.map(signed => algosdk.decodeSignedTransaction(signed).txn);
+            expect(new Set(txns.map(txn => Buffer.from(txn.group!).toString('hex'))).size).toBe(1);
+            expect(txns.map(txn => Number(txn.payment!.amount))).toEqual([1000, 0, 0]);
+            expect(result.txids).toEqual(txns.map(txn => txn.txID()));
+            expect(result.message.content).toBe(longText);
+        });
+
+        test('fetchMessages reassembles chunks in intra-round order', async () => {
+            const { service, indexer, alice, bob, transactions } = await sendLong();
+
+            indexer.transactions = [...transactions].reverse();
+
+            const messages = await service.fetchMessages(alice, bob.address);
+            expect(messages.length).toBe(1);
+            expect(messages[0]).toMatchObject({ id: 'tx-1', content: longText });
+            expect(messages[0].error).toBeUndefined();
+        });
+
+        test('fetchMessages reports incomplete and corrupt chunk sets as errors', async () => {
+            const { service, indexer, alice, bob, transactions } = await sendLong();
+
+            indexer.transactions = [transactions[0], transactions[2]];
+            const [incomplete] = await service.fetchMessages(alice, bob.address);
+            expect(incomplete.content).toBe('');
+            expect(incomplete.error?.code).toBe(ChatErrorCode.MESSAGE_INCOMPLETE);
+
+            const reordered = [
+                { ...transactions[0], intraRoundOffset: 1 },
+                { ...transactions[1], intraRoundOffset: 0 },
+                transactions[2],
+            ];
+            indexer.transactions = reordered;
+            const [corrupt] = await service.fetchMessages(alice, bob.address);
+            expect(corrupt.content).toBe('');
+            expect(corrupt.error?.code).toBe(ChatErrorCode.INVALID_ENVELOPE);
+        });
+
+        test('compression decides on the compressed size', async () => {
+            const alice = createRandomChatAccount().account;
+            const bob = createRandomChatAccount().account;
+
+            const { service, indexer, submitted } = mockService({ envelopeVersion: 2 });
+
+            await service.sendMessage(alice, bob.address, bob.encryptionKeys.publicKey, longText, {
+                compression: 'deflate',
+            });
+            expect(submitted.length).toBe(1);
+
+            indexer.transactions = confirmAll(submitted);
+            const [message] = await service.fetchMessages(bob, alice.address);
+            expect(message.content).toBe(longText);
+        });
+
+        test('legacy peers still get the single-note size limit', async () => {
+            const bob = createRandomChatAccount().account;
+            const policies = new EncryptionPolicyRegistry();
+            policies.set(bob.address, { envelopeVersion: 1 });
+
+            const { service, submitted } = mockService(policies);
+
+            const alice = createRandomChatAccount().account;
+
+            await expect(
+                service.sendMessage(alice, bob.address, bob.encryptionKeys.publicKey, longText)
+            ).rejects.toThrow(/too large/);
+            expect(submitted.length).toBe(0);
+        });
+    });
 });
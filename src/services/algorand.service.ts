@@ -5,9 +5,50 @@
  */
 
 import algosdk from 'algosdk';
-import type { Message, Conversation, SendResult, SendOptions, X25519KeyPair, DiscoveredKey, EncryptionOptions } from '../models/types';
-import { encryptMessage, encryptReply, decryptMessage, encodeEnvelope, decodeEnvelope, isChatMessage } from '../crypto';
+import { randomBytes } from '@noble/ciphers/webcrypto';
+import { bytesToHex, concatBytes, hexToBytes } from '@noble/hashes/utils';
+import type { Message, MessageAuthenticity, Conversation, SendResult, SendOptions, KeyRotationOptions, KeyRevocationReason, X25519KeyPair, DiscoveredKey, KeyHistoryEntry, EncryptionOptions, DecryptedContent, ReplyContext, EnvelopeHeaders, MessagePayload, MessageChunk, AttachmentFile, AttachmentPayload, GroupUpdatePayload, GroupMessageRef, Channel, ChannelKey, ChannelKeyPayload, MessageError } from '../models/types';
+import { encodePayload, decodePayload, payloadToContent } from '../models/payload';
+import { GroupConversation } from '../models/GroupConversation';
+import { encryptMessage, encodeReply, messageCapacity, compressForEnvelope, encryptChunkedMessage, assembleChunks, encodeEnvelope, decodeEnvelope, isChatMessage, readEnvelopeHeaders, isSealedEnvelope, uint8ArrayEquals, deriveRotatedEncryptionKeys, generateEncryptionKeys, encryptionKeyId, encodeKeyAnnouncement, encodeKeyRotationAnnouncement, encodeKeyRevocation, parseKeyAnnouncement, parseKeyRevocation, fingerprint, senderKeyAuthenticity, computeSafetyNumber, verifySafetyNumberPayload, encryptAttachment, decryptAttachment, generateGroupId, signGroupUpdate, GroupError, generateChannelId, generateChannelKey, encryptChannelPost, decryptChannelPost, encodeChannelEnvelope, decodeChannelEnvelope, channelNotePrefix, ChannelError, type SafetyNumber } from '../crypto';
+import {
+    PSKSession,
+    PSKChainError,
+    fingerprintPSK,
+    InMemoryPSKStateStorage,
+    type PSKStateStorage,
+    type PSKSessionOptions,
+    PSKHandshakeManager,
+    type PSKHandshake,
+    type PSKHandshakeMessage,
+    type PSKHandshakePayload,
+    encodePSKHandshakePayload,
+    parsePSKHandshakePayload,
+    parsePSKRekeyPayload,
+    encodePSKEnvelope,
+    decodePSKEnvelope,
+    isPSKMessage,
+} from '../psk';
+import {
+    RatchetSession,
+    InMemoryRatchetStateStorage,
+    type RatchetStateStorage,
+    InMemoryRatchetMessageStore,
+    type RatchetMessageStore,
+    encodeRatchetEnvelope,
+    decodeRatchetEnvelope,
+    isRatchetMessage,
+} from '../ratchet';
 import { ChatError } from '../errors/ChatError';
+import type { AlgodClient, IndexerClient, TransactionSearchOptions } from '../blockchain/interfaces';
+import type { NoteTransaction, PaginatedTransactions } from '../blockchain/types';
+import { AlgosdkAlgodClient, AlgosdkIndexerClient } from '../blockchain/algosdk-clients';
+import { EncryptionPolicyRegistry } from './encryption-policy';
+import { KeyPinning } from './key-pinning';
+import type { KeyTrustStore, PinnedKey } from '../storage/key-trust-store';
+import { InMemoryBlobStore, type BlobStore } from '../storage/blob-store';
+import { InMemoryChannelKeyStore, type ChannelKeyStore } from '../storage/channel-key-store';
+import { InMemoryKeyStorage, type EncryptionKeyStorage } from '../storage/encryption-key-storage';
 
 export interface AlgorandConfig {
     algodToken: string;
@@ -22,72 +63,150 @@ export interface ChatAccount {
     address: string;
     account: algosdk.Account;
     encryptionKeys: X25519KeyPair;
+    /** Rotation index of `encryptionKeys` (default: 0, the key derived from the seed) */
+    keyVersion?: number;
     /** The Ed25519 public key for this account (32 bytes), derived from the
      *  account's seed/private key (and equivalent to the key encoded in the
      *  Algorand address). Used for signature verification. */
     ed25519PublicKey: Uint8Array;
 }
 
-/** Indexer transaction response shape (subset of fields we use) */
-interface IndexerTransaction {
-    id: string;
-    sender: string;
-    txType: string;
-    note?: string;
-    roundTime?: number;
-    confirmedRound?: number;
-    fee?: number;
-    'intra-round-offset'?: number;
-    paymentTransaction?: {
-        receiver?: string;
-        amount?: number;
-    };
+/** Algod and indexer clients to run the service on, in place of an AlgorandConfig */
+export interface AlgorandClients {
+    algod: AlgodClient;
+    indexer: IndexerClient;
+}
+
+/** PSK v1.1 session opened for a single contact */
+interface PSKContact {
+    /** Whether the session was opened with the forward-secure chain ratchet */
+    forwardSecrecy: boolean;
+    session: PSKSession;
+}
+
+/** A discovered key in the LRU cache */
+interface CachedKey {
+    key: DiscoveredKey;
+    /** When the key was last checked for revocations (ms since epoch) */
+    checkedAt: number;
+}
+
+/** A decrypted chat transaction, before it is attached to a conversation */
+interface DecodedTransaction {
+    message: Message;
+    senderPublicKey: Uint8Array;
+    /** Set for one chunk of a message sent as a transaction group */
+    chunk?: MessageChunk;
+}
+
+/** Result of sending a PSK handshake message */
+export interface PSKHandshakeSendResult {
+    handshake: PSKHandshake;
+    sendResult: SendResult;
+}
+
+/** Result of creating a group */
+export interface GroupSendResult {
+    group: GroupConversation;
+    sendResult: SendResult;
+}
+
+/** Result of changing a channel's subscribers */
+export interface ChannelSendResult {
+    channel: Channel;
+    /** One per subscriber sent the key */
+    sendResults: SendResult[];
 }
 
-interface IndexerSearchResponse {
-    transactions?: IndexerTransaction[];
-    'next-token'?: string;
+/** Changes to a group's membership; omitted fields are kept */
+export interface GroupChanges {
+    /** The new members, admins included */
+    members?: string[];
+    /** The new admins (default: the current admins still in the group) */
+    admins?: string[];
+    /** The new name; undefined removes it */
+    name?: string;
 }
 
 /** Default page size for paginated indexer queries */
 const DISCOVERY_PAGE_SIZE = 100;
 
+/** Batch size for exhaustive searches on indexers without paginated search */
+const UNPAGINATED_SEARCH_LIMIT = 1000;
+
 /** Default max entries in the public key LRU cache */
 const DEFAULT_KEY_CACHE_SIZE = 128;
 
+/** How long a cached key is served before it is checked for revocations again */
+const REVOCATION_CHECK_INTERVAL_MS = 60 * 60 * 1000;
+
 export class AlgorandService {
-    private algodClient: algosdk.Algodv2;
-    private indexerClient: algosdk.Indexer;
-    private encryptionOptions?: EncryptionOptions;
-    private keyCache: Map<string, DiscoveredKey> = new Map();
+    private algodClient: AlgodClient;
+    private indexerClient: IndexerClient;
+    private policies: EncryptionPolicyRegistry;
+    private keyCache: Map<string, CachedKey> = new Map();
     private keyCacheMaxSize: number;
+    private pskContacts: Map<string, PSKContact> = new Map();
+    private pskStateStorage: PSKStateStorage = new InMemoryPSKStateStorage();
+    private handshakes = new PSKHandshakeManager();
+    private keyPins = new KeyPinning();
+    private blobStore: BlobStore = new InMemoryBlobStore();
+    private channelKeys: ChannelKeyStore = new InMemoryChannelKeyStore();
+    private ratchetSessions: Map<string, RatchetSession> = new Map();
+    private ratchetStateStorage: RatchetStateStorage = new InMemoryRatchetStateStorage();
+    /** Contents of sent and decrypted ratchet messages, since each decrypts at most once */
+    private ratchetMessages: RatchetMessageStore = new InMemoryRatchetMessageStore();
+    private encryptionKeyStorage: EncryptionKeyStorage = new InMemoryKeyStorage();
+    /** Keys revoked by their owners, by address, as found during discovery */
+    private revokedKeys: Map<string, Uint8Array[]> = new Map();
 
-    constructor(config: AlgorandConfig, encryptionOptions?: EncryptionOptions, keyCacheMaxSize = DEFAULT_KEY_CACHE_SIZE) {
-        // Pass empty string for port when not specified to avoid algosdk defaulting to 8080
-        this.algodClient = new algosdk.Algodv2(
-            config.algodToken,
-            config.algodServer,
-            config.algodPort ?? ''
-        );
-
-        this.indexerClient = new algosdk.Indexer(
-            config.indexerToken,
-            config.indexerServer,
-            config.indexerPort ?? ''
-        );
+    /**
+     * Creates a new AlgorandService
+     *
+     * Pass an AlgorandConfig to connect through algosdk, or your own clients
+     * (e.g. from use-wallet, a custom HTTP client or a test double).
+     *
+     * @param config - Algod and indexer connection settings, or the clients to use
+     * @param encryption - Default encryption options applied to every contact, or a
+     *                     registry of per-contact policies
+     * @param keyCacheMaxSize - Max entries in the public key LRU cache
+     */
+    constructor(
+        config: AlgorandConfig | AlgorandClients,
+        encryption?: EncryptionOptions | EncryptionPolicyRegistry,
+        keyCacheMaxSize = DEFAULT_KEY_CACHE_SIZE
+    ) {
+        if ('algod' in config) {
+            this.algodClient = config.algod;
+            this.indexerClient = config.indexer;
+        } else {
+            // Pass empty string for port when not specified to avoid algosdk defaulting to 8080
+            this.algodClient = new AlgosdkAlgodClient(
+                new algosdk.Algodv2(config.algodToken, config.algodServer, config.algodPort ?? '')
+            );
+            this.indexerClient = new AlgosdkIndexerClient(
+                new algosdk.Indexer(config.indexerToken, config.indexerServer, config.indexerPort ?? '')
+            );
+        }
 
-        this.encryptionOptions = encryptionOptions;
+        this.policies = EncryptionPolicyRegistry.from(encryption);
         this.keyCacheMaxSize = keyCacheMaxSize;
     }
 
     /**
      * Sends an encrypted message to a recipient
      *
+     * Uses the recipient's encryption policy: contacts in 'psk' mode are sent
+     * PSK v1.1 messages, contacts in 'ratchet' mode Double Ratchet messages,
+     * everyone else gets a v1.0 envelope.
+     *
      * @param chatAccount - The sender's chat account
      * @param recipientAddress - Recipient's Algorand address
      * @param recipientPublicKey - Recipient's encryption public key
      * @param message - Message content
      * @param options - Send options (waitForConfirmation, waitForIndexer, etc.)
+     * @throws ChatError with code KEY_REVOKED if the key was revoked by the contact
+     * @throws ChatError with code KEY_CHANGED if the key differs from the contact's pinned key
      */
     async sendMessage(
         chatAccount: ChatAccount,
@@ -96,124 +215,1337 @@ export class AlgorandService {
         message: string,
         options: SendOptions = {}
     ): Promise<SendResult> {
-        // Encrypt message
-        const envelope = encryptMessage(
-            message,
-            chatAccount.encryptionKeys.publicKey,
-            recipientPublicKey,
-            this.encryptionOptions
-        );
-
-        // Encode to bytes
-        const note = encodeEnvelope(envelope);
+        switch (this.policies.modeFor(recipientAddress)) {
+            case 'psk':
+                return this.sendPSKMessage(chatAccount, recipientAddress, recipientPublicKey, message, options);
+            case 'ratchet':
+                return this.sendRatchetMessage(chatAccount, recipientAddress, recipientPublicKey, message, options);
+        }
 
-        // Get transaction parameters
-        const params = await this.algodClient.getTransactionParams().do();
+        await this.requireSendable(recipientAddress, recipientPublicKey);
 
-        // Build payment transaction
-        const txn = algosdk.makePaymentTxnWithSuggestedParamsFromObject({
-            sender: chatAccount.address,
-            receiver: recipientAddress,
-            amount: options?.amount ?? 1000, // 0.001 ALGO minimum
-            note,
-            suggestedParams: params,
-        });
+        // Encrypt message, split into a group of chunks if it does not fit in one note
+        const notes = this.encryptStandard(chatAccount, recipientAddress, recipientPublicKey, message, options);
 
-        // Sign and submit
-        const signedTxn = txn.signTxn(chatAccount.account.sk);
-        const { txid } = await this.algodClient.sendRawTransaction(signedTxn).do();
+        return this.submitMessage(chatAccount, recipientAddress, notes, message, options.replyContext, options);
+    }
 
-        // Build optimistic message for UI
-        const sentMessage: Message = {
-            id: txid,
-            sender: chatAccount.address,
-            recipient: recipientAddress,
-            content: message,
-            timestamp: new Date(),
-            confirmedRound: 0,
-            direction: 'sent',
-            replyContext: options.replyContext,
-            amount: options?.amount ?? 1000,
+    /**
+     * Sends a reply to a message
+     *
+     * @param chatAccount - The sender's chat account
+     * @param recipientAddress - Recipient's Algorand address
+     * @param recipientPublicKey - Recipient's encryption public key
+     * @param message - Message content
+     * @param replyToTxid - Transaction ID of the message being replied to
+     * @param replyToPreview - Preview text of the message being replied to
+     * @param options - Send options (waitForConfirmation, waitForIndexer, etc.)
+     * @throws ChatError with code KEY_REVOKED if the key was revoked by the contact
+     * @throws ChatError with code KEY_CHANGED if the key differs from the contact's pinned key
+     */
+    async sendReply(
+        chatAccount: ChatAccount,
+        recipientAddress: string,
+        recipientPublicKey: Uint8Array,
+        message: string,
+        replyToTxid: string,
+        replyToPreview: string,
+        options: SendOptions = {}
+    ): Promise<SendResult> {
+        const replyContext = {
+            messageId: replyToTxid,
+            preview: replyToPreview,
         };
 
-        const result: SendResult = { txid, message: sentMessage };
+        switch (this.policies.modeFor(recipientAddress)) {
+            case 'psk':
+                return this.sendPSKMessage(chatAccount, recipientAddress, recipientPublicKey, message, {
+                    ...options,
+                    replyContext,
+                });
+            case 'ratchet':
+                return this.sendRatchetMessage(chatAccount, recipientAddress, recipientPublicKey, message, {
+                    ...options,
+                    replyContext,
+                });
+        }
 
-        // Capture fee from the built transaction
-        result.fee = Number(txn.fee);
-        sentMessage.fee = result.fee;
+        await this.requireSendable(recipientAddress, recipientPublicKey);
 
-        // Wait for confirmation if requested
-        if (options.waitForConfirmation) {
-            const timeout = options.timeout ?? 10;
-            const confirmation = await algosdk.waitForConfirmation(this.algodClient, txid, timeout);
-            result.confirmedRound = Number(confirmation.confirmedRound);
-            sentMessage.confirmedRound = result.confirmedRound;
-        }
+        const notes = this.encryptStandard(
+            chatAccount,
+            recipientAddress,
+            recipientPublicKey,
+            encodeReply(message, replyToTxid, replyToPreview),
+            options
+        );
 
-        // Wait for indexer if requested
-        if (options.waitForIndexer) {
-            const indexed = await this.waitForIndexer(txid, options.indexerTimeout ?? 30000);
-            if (!indexed) {
-                throw ChatError.timeout('waitForIndexer', options.indexerTimeout ?? 30000);
-            }
-        }
+        return this.submitMessage(chatAccount, recipientAddress, notes, message, replyContext, options);
+    }
+
+    /**
+     * Sends a structured payload: text, attachment, reaction, edit, delete or receipt
+     *
+     * Routed like `sendMessage`. The returned message carries the control
+     * payload, ready to be applied by a `Conversation`.
+     *
+     * @param chatAccount - The sender's chat account
+     * @param recipientAddress - Recipient's Algorand address
+     * @param recipientPublicKey - Recipient's encryption public key
+     * @param payload - The payload to send
+     * @param options - Send options (waitForConfirmation, waitForIndexer, etc.)
+     * @throws PayloadError if the payload is missing a required field
+     */
+    async sendPayload(
+        chatAccount: ChatAccount,
+        recipientAddress: string,
+        recipientPublicKey: Uint8Array,
+        payload: MessagePayload,
+        options: SendOptions = {}
+    ): Promise<SendResult> {
+        const result = await this.sendMessage(
+            chatAccount,
+            recipientAddress,
+            recipientPublicKey,
+            encodePayload(payload),
+            options
+        );
 
+        const content = payloadToContent(payload);
+        result.message.content = content.text;
+        result.message.payload = content.payload;
+        if (content.replyToId) {
+            result.message.replyContext = { messageId: content.replyToId, preview: content.replyToPreview ?? '' };
+        }
         return result;
     }
 
     /**
-     * Sends a reply to a message
+     * Sends a message using the PSK v1.1 protocol
+     *
+     * The recipient must have a PSK, either from `addPSKContact` or from its
+     * encryption policy. Each call advances the per-contact send counter,
+     * persists it to the PSK state storage, and encrypts with the PSK derived
+     * for that counter.
      *
      * @param chatAccount - The sender's chat account
      * @param recipientAddress - Recipient's Algorand address
      * @param recipientPublicKey - Recipient's encryption public key
      * @param message - Message content
-     * @param replyToTxid - Transaction ID of the message being replied to
-     * @param replyToPreview - Preview text of the message being replied to
-     * @param options - Send options (waitForConfirmation, waitForIndexer, etc.)
+     * @param options - Send options (replyContext, waitForConfirmation, etc.)
      */
-    async sendReply(
+    async sendPSKMessage(
         chatAccount: ChatAccount,
         recipientAddress: string,
         recipientPublicKey: Uint8Array,
         message: string,
-        replyToTxid: string,
-        replyToPreview: string,
         options: SendOptions = {}
     ): Promise<SendResult> {
-        const envelope = encryptReply(
-            message,
-            replyToTxid,
-            replyToPreview,
+        const session = await this.pskSession(recipientAddress);
+        if (!session) {
+            throw ChatError.notConfigured(`PSK for ${recipientAddress}`);
+        }
+
+        await this.requireSendable(recipientAddress, recipientPublicKey);
+
+        const payload = options.replyContext
+            ? encodeReply(message, options.replyContext.messageId, options.replyContext.preview)
+            : message;
+
+        const envelope = await session.encrypt(
+            payload,
             chatAccount.encryptionKeys.publicKey,
             recipientPublicKey,
-            this.encryptionOptions
+            this.sendEncryptionOptions(recipientAddress, options)?.padding
         );
+        this.releaseInitialPSK(recipientAddress, session);
 
-        const note = encodeEnvelope(envelope);
-        const params = await this.algodClient.getTransactionParams().do();
+        const note = encodePSKEnvelope(envelope);
 
-        const txn = algosdk.makePaymentTxnWithSuggestedParamsFromObject({
-            sender: chatAccount.address,
-            receiver: recipientAddress,
-            amount: options?.amount ?? 1000,
-            note,
-            suggestedParams: params,
+        return this.submitMessage(chatAccount, recipientAddress, note, message, options.replyContext, options);
+    }
+
+    /**
+     * Registers a pre-shared key for a contact and switches it to 'psk' mode
+     *
+     * Enables `sendPSKMessage` to the contact and decryption of PSK v1.1
+     * messages exchanged with them. Other policy settings for the contact are
+     * kept. Counter state persisted for the same PSK is restored; a different
+     * PSK starts with fresh counters. With `forwardSecrecy`, the PSK is erased
+     * from the policies once messages have gone both ways.
+     *
+     * @param address - The contact's Algorand address
+     * @param psk - The initial pre-shared key (32 bytes)
+     * @param options - Session options, e.g. `forwardSecrecy` (must match the contact's)
+     */
+    addPSKContact(address: string, psk: Uint8Array, options: PSKSessionOptions = {}): void {
+        const existing = this.policies.get(address);
+        this.policies.set(address, {
+            ...existing,
+            psk,
+            mode: 'psk',
+            forwardSecrecy: options.forwardSecrecy ?? existing?.forwardSecrecy,
         });
+        this.pskContacts.delete(address);
+    }
+
+    /**
+     * Restores a forward-secure PSK contact from the PSK state storage
+     *
+     * Once messages have gone both ways the session and the policies erase
+     * the initial PSK, so after a restart the contact is restored from its
+     * stored chains instead of added again with `addPSKContact`.
+     *
+     * @param address - The contact's Algorand address (the session id)
+     * @returns false if no session is stored for the contact, or it still needs the PSK
+     */
+    async restorePSKContact(address: string): Promise<boolean> {
+        const session = await PSKSession.restore(address, this.pskStateStorage);
+        if (!session) return false;
+
+        const existing = this.policies.get(address);
+        this.policies.set(address, { ...existing, psk: undefined, mode: 'psk', forwardSecrecy: true });
+        this.pskContacts.set(address, { forwardSecrecy: true, session });
+        return true;
+    }
+
+    /**
+     * Removes a contact's pre-shared key and its persisted counter state
+     */
+    async removePSKContact(address: string): Promise<void> {
+        const policy = this.policies.get(address);
+        if (policy) {
+            this.policies.set(address, { ...policy, psk: undefined, mode: undefined });
+        }
+        this.pskContacts.delete(address);
+        await this.pskStateStorage.delete(address);
+    }
+
+    /**
+     * Sets where PSK session counters are persisted (default: in-memory)
+     *
+     * Sessions already opened keep their current storage; set this before
+     * sending or fetching PSK messages. Forward-secure contacts whose PSK
+     * has already been erased are restored with `restorePSKContact`.
+     *
+     * @param storage - PSK state storage, e.g. `FilePSKStateStorage` on Node.js
+     */
+    setPSKStateStorage(storage: PSKStateStorage): void {
+        this.pskStateStorage = storage;
+        this.pskContacts.clear();
+    }
+
+    /**
+     * Sends a message in the contact's Double Ratchet session
+     *
+     * The session is bootstrapped from both parties' static encryption keys
+     * on first use; the recipient needs 'ratchet' mode (or at least accept
+     * it) to read the message. Each call advances the sending chain and
+     * persists the session to the ratchet state storage.
+     *
+     * Message keys are erased once used, so the sent message cannot be
+     * decrypted again from the chain, and a received one only once. Both are
+     * kept in the ratchet message store (see `setRatchetMessageStore`).
+     *
+     * @param chatAccount - The sender's chat account
+     * @param recipientAddress - Recipient's Algorand address
+     * @param recipientPublicKey - Recipient's encryption public key
+     * @param message - Message content
+     * @param options - Send options (replyContext, waitForConfirmation, etc.)
+     * @throws ChatError with code KEY_REVOKED if the key was revoked by the contact
+     * @throws ChatError with code KEY_CHANGED if the key differs from the contact's pinned key
+     */
+    async sendRatchetMessage(
+        chatAccount: ChatAccount,
+        recipientAddress: string,
+        recipientPublicKey: Uint8Array,
+        message: string,
+        options: SendOptions = {}
+    ): Promise<SendResult> {
+        await this.requireSendable(recipientAddress, recipientPublicKey);
+        const session = await this.ratchetSession(chatAccount, recipientAddress, recipientPublicKey);
+
+        const payload = options.replyContext
+            ? encodeReply(message, options.replyContext.messageId, options.replyContext.preview)
+            : message;
+
+        const envelope = await session.encrypt(payload, this.sendEncryptionOptions(recipientAddress, options)?.padding);
+        const note = encodeRatchetEnvelope(envelope);
+
+        const result = await this.submitMessage(chatAccount, recipientAddress, note, message, options.replyContext, options);
+        await this.ratchetMessages.save(result.txid, payloadToContent(decodePayload(payload)));
+        return result;
+    }
+
+    /**
+     * Discards the Double Ratchet session with a contact
+     *
+     * The next message starts a new session from the static keys. Both
+     * parties must reset, e.g. after one of them lost its session state.
+     */
+    async resetRatchetSession(address: string): Promise<void> {
+        this.ratchetSessions.delete(address);
+        await this.ratchetStateStorage.delete(address);
+    }
+
+    /**
+     * Sets where Double Ratchet sessions are persisted (default: in-memory)
+     *
+     * Sessions already opened keep their current storage; set this before
+     * sending or fetching ratchet messages.
+     *
+     * @param storage - Ratchet state storage; snapshots hold secret key material
+     */
+    setRatchetStateStorage(storage: RatchetStateStorage): void {
+        this.ratchetStateStorage = storage;
+        this.ratchetSessions.clear();
+    }
+
+    /**
+     * Sets where the contents of ratchet messages are kept (default: in-memory,
+     * the last 1000 messages)
+     *
+     * Ratchet message keys are erased once used, so history outlives a restart
+     * only through this store. Our own messages missing from it are returned
+     * with empty content and an `error`; received ones are not returned.
+     *
+     * @param store - Ratchet message store; contents are plaintext
+     */
+    setRatchetMessageStore(store: RatchetMessageStore): void {
+        this.ratchetMessages = store;
+    }
+
+    /**
+     * Sets where rotated-out encryption keys are kept (default: in-memory)
+     *
+     * Messages sent to an old key can only be read while its private key is
+     * in this storage.
+     *
+     * @param storage - Encryption key storage, e.g. a FileKeyStorage
+     */
+    setEncryptionKeyStorage(storage: EncryptionKeyStorage): void {
+        this.encryptionKeyStorage = storage;
+    }
+
+    /**
+     * Checks whether a pre-shared key is registered for a contact
+     */
+    hasPSKContact(address: string): boolean {
+        return this.policies.pskFor(address) !== undefined || this.pskContacts.has(address);
+    }
+
+    /**
+     * The per-contact encryption policies consulted when sending and fetching
+     */
+    get encryptionPolicies(): EncryptionPolicyRegistry {
+        return this.policies;
+    }
+
+    // MARK: - Attachments
+
+    /**
+     * Sets the store encrypted attachments are kept in
+     *
+     * Defaults to an in-memory store. Sender and recipient need access to
+     * the same blobs, e.g. through a shared server or IPFS adapter.
+     */
+    setBlobStore(store: BlobStore): void {
+        this.blobStore = store;
+    }
+
+    /**
+     * Sends a file as an attachment
+     *
+     * The file is encrypted with a fresh key and put in the blob store; the
+     * message carries the key, the blob's hash, size and MIME type, and is
+     * routed like `sendMessage`.
+     *
+     * @param chatAccount - The sender's chat account
+     * @param recipientAddress - Recipient's Algorand address
+     * @param recipientPublicKey - Recipient's encryption public key
+     * @param file - The file, its MIME type and an optional name and caption
+     * @param options - Send options (waitForConfirmation, waitForIndexer, etc.)
+     * @throws PayloadError if the MIME type is empty
+     */
+    async sendAttachment(
+        chatAccount: ChatAccount,
+        recipientAddress: string,
+        recipientPublicKey: Uint8Array,
+        file: AttachmentFile,
+        options: SendOptions = {}
+    ): Promise<SendResult> {
+        const encrypted = encryptAttachment(file.data);
+        const blobId = await this.blobStore.put(encrypted.blob);
+
+        const payload: AttachmentPayload = {
+            type: 'attachment',
+            hash: encrypted.hash,
+            ...(blobId !== encrypted.hash && { blobId }),
+            size: file.data.length,
+            mimeType: file.mimeType,
+            key: bytesToHex(encrypted.key),
+            ...(file.name !== undefined && { name: file.name }),
+            ...(file.caption !== undefined && { caption: file.caption }),
+        };
+
+        return this.sendPayload(chatAccount, recipientAddress, recipientPublicKey, payload, options);
+    }
+
+    /**
+     * Fetches, verifies and decrypts an attachment
+     *
+     * @param attachment - The attachment payload of a received or sent message
+     * @returns The file contents
+     * @throws ChatError with code ATTACHMENT_NOT_FOUND if the store does not have the blob,
+     *         or ATTACHMENT_CORRUPT if it does not match the hash, key or size
+     */
+    async downloadAttachment(attachment: AttachmentPayload): Promise<Uint8Array> {
+        const blobId = attachment.blobId ?? attachment.hash;
+        const blob = await this.blobStore.get(blobId);
+        if (!blob) {
+            throw ChatError.attachmentNotFound(blobId);
+        }
+
+        let data: Uint8Array;
+        try {
+            data = decryptAttachment(blob, hexToBytes(attachment.key), attachment.hash);
+        } catch (error) {
+            const cause = error instanceof Error ? error : undefined;
+            throw ChatError.attachmentCorrupt(attachment.hash, cause?.message ?? String(error), cause);
+        }
+
+        if (data.length !== attachment.size) {
+            throw ChatError.attachmentCorrupt(attachment.hash, `expected ${attachment.size} bytes, got ${data.length}`);
+        }
+        return data;
+    }
+
+    // MARK: - Groups
+
+    /**
+     * Creates a group and sends its first membership update to the members
+     *
+     * The sender is added to the members and is the group's first admin.
+     *
+     * @param chatAccount - The creator's chat account
+     * @param memberAddresses - Addresses of the other members
+     * @param name - Optional group name
+     * @param options - Send options (waitForConfirmation, waitForIndexer, etc.)
+     * @returns The new group and the result of sending its first update
+     * @throws GroupError if the membership is invalid
+     */
+    async createGroup(
+        chatAccount: ChatAccount,
+        memberAddresses: string[],
+        name?: string,
+        options: SendOptions = {}
+    ): Promise<GroupSendResult> {
+        const groupId = generateGroupId(chatAccount.address);
+        const members = [chatAccount.address, ...memberAddresses.filter(address => address !== chatAccount.address)];
+
+        const sendResult = await this.sendGroupUpdate(chatAccount, members, {
+            groupId,
+            epoch: 0,
+            members,
+            admins: [chatAccount.address],
+            ...(name !== undefined && { name }),
+        }, options);
+
+        return { group: new GroupConversation(groupId, [sendResult.message]), sendResult };
+    }
+
+    /**
+     * Changes a group's members, admins or name
+     *
+     * Only admins can update a group. The new membership is sent to both old
+     * and new members, so removed members learn they were removed.
+     *
+     * @param chatAccount - An admin's chat account
+     * @param group - The group, with its updates merged
+     * @param changes - The new members, admins and/or name
+     * @param options - Send options (waitForConfirmation, waitForIndexer, etc.)
+     * @returns The send result; merge its message into the group
+     * @throws GroupError if the sender is not an admin or the membership is invalid
+     */
+    async updateGroup(
+        chatAccount: ChatAccount,
+        group: GroupConversation,
+        changes: GroupChanges,
+        options: SendOptions = {}
+    ): Promise<SendResult> {
+        if (!group.isAdmin(chatAccount.address)) {
+            throw new GroupError(`${chatAccount.address} is not an admin of group ${group.groupId}`);
+        }
+
+        const members = changes.members ?? group.members;
+        const name = 'name' in changes ? changes.name : group.name;
+        const recipients = [...new Set([...group.members, ...members])];
+
+        return this.sendGroupUpdate(chatAccount, recipients, {
+            groupId: group.groupId,
+            epoch: group.epoch + 1,
+            members,
+            admins: changes.admins ?? group.admins.filter(admin => members.includes(admin)),
+            ...(name !== undefined && { name }),
+        }, options);
+    }
+
+    /**
+     * Sends a text message to every other member of a group
+     *
+     * @param chatAccount - A member's chat account
+     * @param group - The group, with its updates merged
+     * @param message - Message content
+     * @param options - Send options (waitForConfirmation, waitForIndexer, etc.)
+     * @returns The send result; merge its message into the group
+     * @throws GroupError if the sender is not a member
+     */
+    async sendGroupMessage(
+        chatAccount: ChatAccount,
+        group: GroupConversation,
+        message: string,
+        options: SendOptions = {}
+    ): Promise<SendResult> {
+        if (!group.isMember(chatAccount.address)) {
+            throw new GroupError(`${chatAccount.address} is not a member of group ${group.groupId}`);
+        }
+
+        return this.sendToGroup(chatAccount, group.groupId, group.members, message, message, options);
+    }
+
+    /**
+     * Fetches all group conversations for an account
+     *
+     * Returns groups sorted by most recent message. Groups the account was
+     * removed from are kept, up to the update that removed it.
+     */
+    async fetchGroupConversations(chatAccount: ChatAccount, limit = 100): Promise<GroupConversation[]> {
+        const groups = new Map<string, Message[]>();
+
+        for (const { message } of await this.fetchDecodedTransactions(chatAccount, limit)) {
+            if (!message.group) continue;
+
+            const messages = groups.get(message.group.groupId) ?? [];
+            messages.push(message);
+            groups.set(message.group.groupId, messages);
+        }
+
+        return Array.from(groups, ([groupId, messages]) => new GroupConversation(groupId, messages))
+            .filter(group => group.epoch >= 0)
+            .sort((a, b) => (b.lastMessage?.timestamp.getTime() ?? 0) - (a.lastMessage?.timestamp.getTime() ?? 0));
+    }
+
+    /**
+     * Signs a membership update with the account key and sends it to the recipients
+     *
+     * Updates are always compressed: admins repeat member addresses, which
+     * is what lets a full group fit in one note.
+     */
+    private async sendGroupUpdate(
+        chatAccount: ChatAccount,
+        recipients: string[],
+        update: Omit<GroupUpdatePayload, 'type' | 'signature'>,
+        options: SendOptions
+    ): Promise<SendResult> {
+        const payload = signGroupUpdate(update, chatAccount.account.sk.slice(0, 32));
+        const result = await this.sendToGroup(chatAccount, update.groupId, recipients, encodePayload(payload), '', {
+            ...options,
+            compression: 'deflate',
+        });
+        result.message.payload = payload;
+        return result;
+    }
+
+    /**
+     * Encrypts a message for each member and submits the copies as one transaction group
+     *
+     * Every copy is a v2 envelope carrying the same group message id, whatever
+     * the member's encryption policy, and goes to the member's discovered key.
+     */
+    private async sendToGroup(
+        chatAccount: ChatAccount,
+        groupId: string,
+        members: string[],
+        plaintext: string,
+        content: string,
+        options: SendOptions
+    ): Promise<SendResult> {
+        const recipients = members.filter(address => address !== chatAccount.address);
+        if (recipients.length === 0) {
+            throw new GroupError('A group message needs at least one other member');
+        }
+
+        const group: GroupMessageRef = { groupId, messageId: bytesToHex(randomBytes(8)) };
+        const notes: Uint8Array[] = [];
+        for (const recipient of recipients) {
+            const recipientPublicKey = await this.discoverPublicKey(recipient);
+            await this.requireSendable(recipient, recipientPublicKey);
+
+            const encryption = this.sendEncryptionOptions(recipient, options);
+            const envelope = encryptMessage(plaintext, chatAccount.encryptionKeys.publicKey, recipientPublicKey, {
+                ...encryption,
+                envelopeVersion: 2,
+                headers: { ...encryption?.headers, group },
+            });
+            notes.push(encodeEnvelope(envelope));
+        }
+
+        const result = await this.submitMessage(chatAccount, recipients, notes, content, undefined, options);
+        result.message.group = group;
+        return result;
+    }
+
+    // MARK: - Channels
+
+    /**
+     * Sets the store channel keys are kept in
+     *
+     * Defaults to an in-memory store. Keys received from channel owners are
+     * saved as their messages are fetched; keys of earlier epochs keep older
+     * posts readable.
+     */
+    setChannelKeyStore(store: ChannelKeyStore): void {
+        this.channelKeys = store;
+    }
+
+    /**
+     * Creates a broadcast channel owned by the account
+     *
+     * Nothing is sent until subscribers are added. Keep the returned channel:
+     * its subscribers are who the key is sent to when it rotates.
+     *
+     * @param chatAccount - The owner's chat account
+     * @param name - Optional channel name
+     * @param address - Address posts are sent to (default: the owner's address)
+     */
+    async createChannel(chatAccount: ChatAccount, name?: string, address = chatAccount.address): Promise<Channel> {
+        const channel: Channel = {
+            channelId: generateChannelId(),
+            owner: chatAccount.address,
+            address,
+            ...(name !== undefined && { name }),
+            epoch: 0,
+            subscribers: [],
+        };
+
+        await this.channelKeys.save(newChannelKey(channel));
+        return channel;
+    }
+
+    /**
+     * Sends the current channel key to a subscriber in a 1:1 message
+     *
+     * @param chatAccount - The owner's chat account
+     * @param channel - The channel
+     * @param subscriberAddress - The subscriber's Algorand address
+     * @param options - Send options (waitForConfirmation, waitForIndexer, etc.)
+     * @returns The channel with the subscriber added, and the send result
+     * @throws ChannelError if the account does not own the channel
+     */
+    async addSubscriber(
+        chatAccount: ChatAccount,
+        channel: Channel,
+        subscriberAddress: string,
+        options: SendOptions = {}
+    ): Promise<ChannelSendResult> {
+        const key = await this.ownChannelKey(chatAccount, channel);
+        const sendResult = await this.sendChannelKey(chatAccount, subscriberAddress, key, options);
+
+        const subscribers = channel.subscribers.includes(subscriberAddress)
+            ? channel.subscribers
+            : [...channel.subscribers, subscriberAddress];
+        return { channel: { ...channel, subscribers }, sendResults: [sendResult] };
+    }
+
+    /**
+     * Removes a subscriber and rotates the channel key
+     *
+     * The new key is sent to every remaining subscriber, one message each.
+     * The removed subscriber keeps the old keys, so can still read earlier
+     * posts but none posted after this.
+     *
+     * @param chatAccount - The owner's chat account
+     * @param channel - The channel
+     * @param subscriberAddress - The subscriber's Algorand address
+     * @param options - Send options (waitForConfirmation, waitForIndexer, etc.)
+     * @returns The channel with the new epoch, and the send results
+     * @throws ChannelError if the account does not own the channel
+     */
+    async removeSubscriber(
+        chatAccount: ChatAccount,
+        channel: Channel,
+        subscriberAddress: string,
+        options: SendOptions = {}
+    ): Promise<ChannelSendResult> {
+        await this.ownChannelKey(chatAccount, channel);
+
+        const rotated: Channel = {
+            ...channel,
+            epoch: channel.epoch + 1,
+            subscribers: channel.subscribers.filter(address => address !== subscriberAddress),
+        };
+        const key = newChannelKey(rotated);
+        await this.channelKeys.save(key);
+
+        const sendResults: SendResult[] = [];
+        for (const subscriber of rotated.subscribers) {
+            sendResults.push(await this.sendChannelKey(chatAccount, subscriber, key, options));
+        }
+        return { channel: rotated, sendResults };
+    }
+
+    /**
+     * Posts a message to a channel, encrypted once with the channel key
+     *
+     * @param chatAccount - The owner's chat account
+     * @param channel - The channel
+     * @param message - Message content
+     * @param options - Send options (padding, waitForConfirmation, etc.)
+     * @throws ChannelError if the account does not own the channel, the channel is from
+     *         before a key rotation, or the post is too large
+     */
+    async postToChannel(
+        chatAccount: ChatAccount,
+        channel: Channel,
+        message: string,
+        options: SendOptions = {}
+    ): Promise<SendResult> {
+        const key = await this.ownChannelKey(chatAccount, channel);
+        const note = encodeChannelEnvelope(encryptChannelPost(message, key, options.padding));
+
+        const result = await this.submitMessage(chatAccount, channel.address, note, message, undefined, options);
+        result.message.channelId = channel.channelId;
+        return result;
+    }
+
+    /**
+     * Lists the channels the account has a key for, by their latest key
+     *
+     * Fetch messages or conversations first to pick up keys sent since.
+     */
+    async listChannels(): Promise<ChannelKey[]> {
+        return this.channelKeys.list();
+    }
+
+    /**
+     * Fetches a channel's posts
+     *
+     * Searches the channel address for notes with the channel's prefix, and
+     * keeps posts sent by the owner. Posts from epochs without a stored key
+     * (before the account subscribed, or after it was removed) are skipped.
+     *
+     * @param chatAccount - The account's chat account
+     * @param channelId - The channel id
+     * @param limit - Maximum number of transactions to search
+     * @throws ChatError with code NOT_CONFIGURED if there is no key for the channel
+     */
+    async fetchChannelPosts(chatAccount: ChatAccount, channelId: string, limit = 50): Promise<Message[]> {
+        const latest = await this.channelKeys.latest(channelId);
+        if (!latest) {
+            throw ChatError.notConfigured(`Key for channel ${channelId}`);
+        }
+
+        const prefix = channelNotePrefix(channelId);
+        const { transactions } = await this.searchPage(latest.address, { notePrefix: prefix, limit });
+
+        const messages: Message[] = [];
+        for (const tx of sortTransactions(transactions)) {
+            // Indexers that ignore the note prefix return every transaction
+            if (!uint8ArrayEquals(tx.note.subarray(0, prefix.length), prefix)) continue;
+            if (tx.sender !== latest.owner || tx.receiver !== latest.address) continue;
+
+            try {
+                const envelope = decodeChannelEnvelope(tx.note);
+                const key = await this.channelKeys.get(channelId, envelope.epoch);
+                if (!key) continue;
+
+                messages.push({
+                    id: tx.txid,
+                    sender: tx.sender,
+                    recipient: latest.address,
+                    content: decryptChannelPost(envelope, key),
+                    timestamp: new Date(tx.roundTime * 1000),
+                    confirmedRound: tx.confirmedRound,
+                    direction: tx.sender === chatAccount.address ? 'sent' : 'received',
+                    amount: tx.amount,
+                    fee: tx.fee,
+                    intraRoundOffset: tx.intraRoundOffset,
+                    channelId,
+                });
+            } catch (error) {
+                console.warn(`[AlgoChat] Failed to decrypt channel post ${tx.txid}:`, error);
+            }
+        }
+
+        return messages.sort(compareMessages);
+    }
+
+    /**
+     * Gets the owner's key for the channel's current epoch
+     *
+     * A channel object from before a rotation is refused, so posts never go
+     * out under a key removed subscribers still have.
+     */
+    private async ownChannelKey(chatAccount: ChatAccount, channel: Channel): Promise<ChannelKey> {
+        if (channel.owner !== chatAccount.address) {
+            throw new ChannelError(`${chatAccount.address} does not own channel ${channel.channelId}`);
+        }
+
+        const key = await this.channelKeys.latest(channel.channelId);
+        if (!key) {
+            throw ChatError.notConfigured(`Key for channel ${channel.channelId}`);
+        }
+        if (key.epoch !== channel.epoch) {
+            throw new ChannelError(`Channel ${channel.channelId} is at epoch ${key.epoch}, not ${channel.epoch}`);
+        }
+        return key;
+    }
+
+    /**
+     * Sends a channel key to a subscriber, routed like `sendMessage`
+     */
+    private async sendChannelKey(
+        chatAccount: ChatAccount,
+        subscriberAddress: string,
+        key: ChannelKey,
+        options: SendOptions
+    ): Promise<SendResult> {
+        const subscriberPublicKey = await this.discoverPublicKey(subscriberAddress);
+        return this.sendPayload(chatAccount, subscriberAddress, subscriberPublicKey, {
+            type: 'channel-key',
+            channelId: key.channelId,
+            epoch: key.epoch,
+            key: bytesToHex(key.key),
+            address: key.address,
+            ...(key.name !== undefined && { name: key.name }),
+        }, options);
+    }
+
+    /**
+     * Saves a channel key received from its owner
+     *
+     * The first owner seen for a channel keeps it, and a stored epoch is never
+     * replaced, so no one else can swap in a key they know.
+     */
+    private async receiveChannelKey(owner: string, payload: ChannelKeyPayload): Promise<void> {
+        const latest = await this.channelKeys.latest(payload.channelId);
+        if (latest && latest.owner !== owner) return;
+        if (await this.channelKeys.get(payload.channelId, payload.epoch)) return;
+
+        await this.channelKeys.save({
+            channelId: payload.channelId,
+            epoch: payload.epoch,
+            key: hexToBytes(payload.key),
+            owner,
+            address: payload.address,
+            ...(payload.name !== undefined && { name: payload.name }),
+        });
+    }
+
+    // MARK: - Key Pinning
+
+    /**
+     * Sets the store contact key pins are kept in
+     *
+     * Defaults to an in-memory store, so keys are trusted on first use again
+     * after a restart unless a persistent store is set.
+     */
+    setKeyTrustStore(store: KeyTrustStore): void {
+        this.keyPins.setStore(store);
+    }
+
+    /**
+     * The key pins consulted when sending, fetching and discovering keys
+     *
+     * Use it to register a key-changed callback, inspect pins or mark a key
+     * verified after comparing fingerprints.
+     */
+    get keyPinning(): KeyPinning {
+        return this.keyPins;
+    }
+
+    /**
+     * Accepts a contact's changed key; sending to it is allowed again and its messages are no longer flagged
+     *
+     * @throws ChatError if there is no pending key change for the contact
+     */
+    async acceptKeyChange(address: string): Promise<PinnedKey> {
+        const pin = await this.keyPins.acceptChange(address);
+        this.clearKeyCache(address);
+        return pin;
+    }
+
+    /**
+     * Rejects a contact's changed key; messages using it are dropped silently
+     *
+     * @throws ChatError if there is no pending key change for the contact
+     */
+    async rejectKeyChange(address: string): Promise<void> {
+        await this.keyPins.rejectChange(address);
+        this.clearKeyCache(address);
+    }
+
+    /**
+     * Computes the safety number for a conversation with a contact
+     *
+     * Uses the contact's pinned key, discovering (and pinning) it if needed.
+     */
+    async getSafetyNumber(chatAccount: ChatAccount, address: string): Promise<SafetyNumber> {
+        const remoteKey = (await this.keyPins.get(address))?.publicKey ?? await this.discoverPublicKey(address);
+        return computeSafetyNumber(
+            { address: chatAccount.address, publicKey: chatAccount.encryptionKeys.publicKey },
+            { address, publicKey: remoteKey }
+        );
+    }
+
+    /**
+     * Marks a contact's pinned key verified after comparing safety numbers
+     *
+     * Pass the payload scanned from the contact's device to check it here;
+     * without one the caller vouches that the numbers were compared.
+     *
+     * @throws ChatError with code INVALID_KEY if the payload does not match or nothing is pinned
+     */
+    async markSafetyNumberVerified(
+        chatAccount: ChatAccount,
+        address: string,
+        scannedPayload?: Uint8Array
+    ): Promise<PinnedKey> {
+        const pin = await this.keyPins.get(address);
+        if (!pin) {
+            throw ChatError.invalidKey('pinned', `no key pinned for ${address}`);
+        }
+
+        if (scannedPayload) {
+            const safetyNumber = computeSafetyNumber(
+                { address: chatAccount.address, publicKey: chatAccount.encryptionKeys.publicKey },
+                { address, publicKey: pin.publicKey }
+            );
+            if (!verifySafetyNumberPayload(safetyNumber, scannedPayload)) {
+                throw ChatError.invalidKey('safety number', `does not match the keys seen by ${address}`);
+            }
+        }
+
+        return this.keyPins.markKeyVerified(address, pin.publicKey);
+    }
+
+    /**
+     * Replaces a contact's PSK with a new generation agreed over the current one
+     *
+     * Sends a rekey announcement; the contact's client acknowledges it when
+     * fetching messages, and we switch to the new generation once the
+     * acknowledgement is fetched. Until then messages keep using the current
+     * generation. Not supported with forward secrecy.
+     *
+     * @throws ChatError if no PSK is registered for the contact
+     * @throws PSKRekeyError with forward secrecy or while a rekey is in progress
+     */
+    async rekeyPSK(
+        chatAccount: ChatAccount,
+        recipientAddress: string,
+        recipientPublicKey: Uint8Array,
+        options: SendOptions = {}
+    ): Promise<SendResult> {
+        const session = await this.pskSession(recipientAddress);
+        if (!session) {
+            throw ChatError.notConfigured(`PSK for ${recipientAddress}`);
+        }
+
+        await this.requireSendable(recipientAddress, recipientPublicKey);
+        const envelope = await session.rekey(chatAccount.encryptionKeys.publicKey, recipientPublicKey);
+        const note = encodePSKEnvelope(envelope);
+
+        return this.submitMessage(chatAccount, recipientAddress, note, '', undefined, options);
+    }
+
+    /**
+     * Erases a contact's PSK generations that are no longer needed
+     *
+     * Messages in pruned counter ranges can no longer be decrypted, so call
+     * this only once history has been read or is no longer wanted.
+     *
+     * @returns The pruned generation numbers
+     */
+    async prunePSKGenerations(address: string): Promise<number[]> {
+        const session = await this.pskSession(address);
+        return session ? session.pruneGenerations() : [];
+    }
+
+    /**
+     * Sends the acknowledgement owed for a contact's rekey announcement
+     */
+    private async acknowledgeRekey(
+        chatAccount: ChatAccount,
+        peer: string,
+        peerPublicKey: Uint8Array,
+        session: PSKSession
+    ): Promise<void> {
+        try {
+            const envelope = await session.acknowledgeRekey(chatAccount.encryptionKeys.publicKey, peerPublicKey);
+            await this.submitMessage(chatAccount, peer, encodePSKEnvelope(envelope), '', undefined, {});
+        } catch (error) {
+            // Log and move on - the announcement stays pending until acknowledged
+            console.warn(`[AlgoChat] Failed to acknowledge PSK rekey from ${peer}:`, error);
+        }
+    }
+
+    // MARK: - PSK Handshake
+
+    /**
+     * Proposes a PSK to a contact over a standard envelope
+     *
+     * The handshake completes in the background of `fetchMessages` /
+     * `fetchConversations`: when the contact's acceptance is fetched, the
+     * confirmation is sent and the contact is switched to 'psk' mode.
+     *
+     * @param chatAccount - The sender's chat account
+     * @param recipientAddress - Contact's Algorand address
+     * @param recipientPublicKey - Contact's encryption public key
+     * @param options - Send options, plus `forwardSecrecy` for the resulting session
+     */
+    async proposePSK(
+        chatAccount: ChatAccount,
+        recipientAddress: string,
+        recipientPublicKey: Uint8Array,
+        options: SendOptions & PSKSessionOptions = {}
+    ): Promise<PSKHandshakeSendResult> {
+        await this.requireSendable(recipientAddress, recipientPublicKey);
+        const message = this.handshakes.propose(recipientAddress, { forwardSecrecy: options.forwardSecrecy });
+        return this.sendHandshakeMessage(chatAccount, recipientPublicKey, message, options);
+    }
+
+    /**
+     * Accepts a PSK proposal received from a contact
+     *
+     * The handshake stays pending until the contact's confirmation is fetched,
+     * which then switches the contact to 'psk' mode.
+     *
+     * @throws PSKHandshakeError if there is no pending proposal with this ID
+     */
+    async acceptPSK(
+        chatAccount: ChatAccount,
+        handshakeId: string,
+        peerPublicKey: Uint8Array,
+        options: SendOptions = {}
+    ): Promise<PSKHandshakeSendResult> {
+        const message = this.handshakes.accept(handshakeId);
+        return this.sendHandshakeMessage(chatAccount, peerPublicKey, message, options);
+    }
+
+    /**
+     * Rejects a PSK proposal from a contact, or cancels our own
+     *
+     * @throws PSKHandshakeError if there is no pending handshake with this ID
+     */
+    async rejectPSK(
+        chatAccount: ChatAccount,
+        handshakeId: string,
+        peerPublicKey: Uint8Array,
+        reason?: string,
+        options: SendOptions = {}
+    ): Promise<PSKHandshakeSendResult> {
+        const message = this.handshakes.reject(handshakeId, reason);
+        return this.sendHandshakeMessage(chatAccount, peerPublicKey, message, options);
+    }
+
+    /**
+     * Gets a PSK handshake by ID
+     */
+    getPSKHandshake(handshakeId: string): PSKHandshake | undefined {
+        return this.handshakes.get(handshakeId);
+    }
+
+    /**
+     * Lists PSK handshakes, optionally only those with one contact
+     */
+    listPSKHandshakes(peer?: string): PSKHandshake[] {
+        return this.handshakes.list(peer);
+    }
+
+    private async sendHandshakeMessage(
+        chatAccount: ChatAccount,
+        peerPublicKey: Uint8Array,
+        message: PSKHandshakeMessage,
+        options: SendOptions
+    ): Promise<PSKHandshakeSendResult> {
+        const sendResult = await this.sendHandshakePayload(
+            chatAccount,
+            message.handshake.peer,
+            peerPublicKey,
+            message.payload,
+            options
+        );
+        return { handshake: message.handshake, sendResult };
+    }
+
+    /**
+     * Sends a handshake control payload in a standard envelope, whatever the contact's mode
+     */
+    private async sendHandshakePayload(
+        chatAccount: ChatAccount,
+        recipientAddress: string,
+        recipientPublicKey: Uint8Array,
+        payload: PSKHandshakePayload,
+        options: SendOptions = {}
+    ): Promise<SendResult> {
+        const content = encodePSKHandshakePayload(payload);
+        const envelope = encryptMessage(
+            content,
+            chatAccount.encryptionKeys.publicKey,
+            recipientPublicKey,
+            this.policies.encryptionOptionsFor(recipientAddress)
+        );
+
+        return this.submitMessage(chatAccount, recipientAddress, encodeEnvelope(envelope), content, undefined, options);
+    }
+
+    /**
+     * Encrypts a standard message into encoded notes
+     *
+     * Messages too large for one note are split into v2 chunk envelopes for
+     * one transaction group, unless the contact cannot read v2.
+     */
+    private encryptStandard(
+        chatAccount: ChatAccount,
+        recipientAddress: string,
+        recipientPublicKey: Uint8Array,
+        plaintext: string,
+        options: SendOptions
+    ): Uint8Array[] {
+        const encryption = this.sendEncryptionOptions(recipientAddress, options);
+        const messageBytes = new TextEncoder().encode(plaintext);
+        const size = (compressForEnvelope(messageBytes, encryption) ?? messageBytes).length;
+
+        if (size <= messageCapacity(encryption) || !this.policies.acceptsV2(recipientAddress)) {
+            const envelope = encryptMessage(plaintext, chatAccount.encryptionKeys.publicKey, recipientPublicKey, encryption);
+            return [encodeEnvelope(envelope)];
+        }
+
+        return encryptChunkedMessage(plaintext, chatAccount.encryptionKeys.publicKey, recipientPublicKey, encryption)
+            .map(encodeEnvelope);
+    }
+
+    /**
+     * The contact's encryption options, with the padding, compression and headers chosen for this send
+     */
+    private sendEncryptionOptions(address: string, options: SendOptions): EncryptionOptions | undefined {
+        let encryption = this.policies.encryptionOptionsFor(address);
+        if (options.padding) {
+            encryption = { ...encryption, padding: options.padding };
+        }
+        if (options.compression) {
+            encryption = { ...encryption, compression: options.compression };
+        }
+        if (options.headers) {
+            encryption = { ...encryption, headers: { ...encryption?.headers, ...options.headers } };
+        }
+        return encryption;
+    }
+
+    /**
+     * Applies a received handshake payload, sending any confirmation owed and
+     * switching the contact to 'psk' mode once established
+     */
+    private async handleHandshakePayload(
+        chatAccount: ChatAccount,
+        peer: string,
+        peerPublicKey: Uint8Array,
+        payload: PSKHandshakePayload
+    ): Promise<void> {
+        const result = this.handshakes.receive(peer, payload);
+        if (!result) return;
+
+        const { handshake, reply } = result;
+
+        if (handshake.state === 'established' && handshake.psk) {
+            this.addPSKContact(peer, handshake.psk, { forwardSecrecy: handshake.forwardSecrecy });
+        }
+
+        if (reply) {
+            try {
+                await this.sendHandshakePayload(chatAccount, peer, peerPublicKey, reply);
+                this.handshakes.markReplySent(handshake.id);
+            } catch (error) {
+                // Offered again on the next fetch
+                console.warn(`[AlgoChat] Failed to send PSK handshake confirmation to ${peer}:`, error);
+            }
+        }
+    }
+
+    /**
+     * Gets the PSK session for a contact, opening it from storage on first use
+     * or when the contact's PSK or ratchet mode has changed
+     *
+     * Sessions are matched to the policy's PSK by fingerprint, so no copy of
+     * the key is kept here. A forward-secure 'psk' mode contact whose PSK was
+     * erased is restored from its stored chains. Returns undefined if the
+     * contact has neither.
+     */
+    private async pskSession(address: string): Promise<PSKSession | undefined> {
+        const forwardSecrecy = this.policies.get(address)?.forwardSecrecy ?? false;
+        const psk = this.policies.pskFor(address);
+
+        const contact = this.pskContacts.get(address);
+        if (
+            contact &&
+            contact.forwardSecrecy === forwardSecrecy &&
+            (!psk || contact.session.pskId === fingerprintPSK(psk))
+        ) {
+            return contact.session;
+        }
+
+        let session: PSKSession | undefined;
+        if (psk) {
+            session = await PSKSession.open(address, psk, this.pskStateStorage, { forwardSecrecy });
+        } else if (forwardSecrecy && this.policies.modeFor(address) === 'psk') {
+            session = await PSKSession.restore(address, this.pskStateStorage);
+        }
+        if (!session) return undefined;
+
+        this.pskContacts.set(address, { forwardSecrecy, session });
+        return session;
+    }
+
+    /**
+     * Erases a 'psk' mode contact's PSK from the policies once its
+     * forward-secure session has erased its own copy
+     */
+    private releaseInitialPSK(address: string, session: PSKSession): void {
+        if (!session.holdsInitialPSK && this.policies.modeFor(address) === 'psk') {
+            this.policies.erasePSK(address);
+        }
+    }
+
+    /**
+     * Decrypts a message with our key pair it was encrypted with
+     *
+     * After a rotation, messages may use a rotated-out key from the
+     * encryption key storage. A message that names its key (see
+     * `ourKeyMatcher`) is decrypted with that key, or the current one if it
+     * is unknown; otherwise the current key is tried first, then each
+     * archived key.
+     *
+     * @param matches - Whether a public key is the one the message names
+     * @throws The last decryption error if no key decrypts the message
+     */
+    private async decryptWithOurKeys<T>(
+        chatAccount: ChatAccount,
+        decrypt: (keys: X25519KeyPair) => T | Promise<T>,
+        matches?: (publicKey: Uint8Array) => boolean
+    ): Promise<T> {
+        const current = chatAccount.encryptionKeys;
+        if (matches?.(current.publicKey)) return decrypt(current);
+
+        let lastError: unknown;
+        if (!matches) {
+            try {
+                return await decrypt(current);
+            } catch (error) {
+                lastError = error;
+            }
+        }
+
+        const storage = this.encryptionKeyStorage;
+        if (storage.listArchivedKeys && storage.retrieveArchived) {
+            for (const publicKey of await storage.listArchivedKeys(chatAccount.address)) {
+                if (matches ? !matches(publicKey) : uint8ArrayEquals(publicKey, current.publicKey)) continue;
+
+                const privateKey = await storage.retrieveArchived(chatAccount.address, publicKey);
+                if (matches) return decrypt({ privateKey, publicKey });
+                try {
+                    return await decrypt({ privateKey, publicKey });
+                } catch (error) {
+                    lastError = error;
+                }
+            }
+        }
+
+        if (matches) return decrypt(current);
+        throw lastError;
+    }
+
+    /**
+     * Gets a check for the key of ours a message names, if it names one
+     *
+     * Received v2 messages name it by the recipient key id, our own sent
+     * messages by their sender key. Sealed messages we sent, and messages
+     * without a recipient key id, do not.
+     */
+    private ourKeyMatcher(
+        senderPublicKey: Uint8Array | undefined,
+        recipientKeyId: string | undefined,
+        direction: 'sent' | 'received'
+    ): ((publicKey: Uint8Array) => boolean) | undefined {
+        if (direction === 'sent') {
+            return senderPublicKey && (publicKey => uint8ArrayEquals(publicKey, senderPublicKey));
+        }
+        return recipientKeyId ? publicKey => encryptionKeyId(publicKey) === recipientKeyId : undefined;
+    }
+
+    /**
+     * Gets the Double Ratchet session with a contact, opening it from storage
+     * on first use or when the contact's key has changed
+     */
+    private async ratchetSession(chatAccount: ChatAccount, address: string, peerPublicKey: Uint8Array): Promise<RatchetSession> {
+        const existing = this.ratchetSessions.get(address);
+        if (existing && uint8ArrayEquals(existing.peerPublicKey, peerPublicKey)) {
+            return existing;
+        }
+
+        const session = await RatchetSession.open(address, chatAccount.encryptionKeys, peerPublicKey, this.ratchetStateStorage);
+        this.ratchetSessions.set(address, session);
+        return session;
+    }
 
-        const signedTxn = txn.signTxn(chatAccount.account.sk);
-        const { txid } = await this.algodClient.sendRawTransaction(signedTxn).do();
+    /**
+     * Builds, signs and submits a payment transaction carrying an encoded envelope
+     *
+     * Several notes (chunks of one message) are submitted as an atomic group;
+     * only the first transaction carries the payment amount. With several
+     * recipients (a group message), each note goes to its own recipient and
+     * every transaction carries the amount.
+     */
+    private async submitMessage(
+        chatAccount: ChatAccount,
+        recipientAddress: string | string[],
+        note: Uint8Array | Uint8Array[],
+        content: string,
+        replyContext: ReplyContext | undefined,
+        options: SendOptions
+    ): Promise<SendResult> {
+        const notes = Array.isArray(note) ? note : [note];
+        const fanOut = Array.isArray(recipientAddress);
+        const recipients = fanOut ? recipientAddress : notes.map(() => recipientAddress);
 
-        const replyContext = {
-            messageId: replyToTxid,
-            preview: replyToPreview,
-        };
+        // Get transaction parameters
+        const params = await this.suggestedParams();
+
+        // Build payment transactions
+        const txns = notes.map((chunk, index) =>
+            algosdk.makePaymentTxnWithSuggestedParamsFromObject({
+                sender: chatAccount.address,
+                receiver: recipients[index],
+                amount: index === 0 || fanOut ? options?.amount ?? 1000 : 0, // 0.001 ALGO minimum
+                note: chunk,
+                suggestedParams: params,
+            })
+        );
+        if (txns.length > 1) {
+            algosdk.assignGroupID(txns);
+        }
+
+        // Sign and submit
+        const signedTxns = txns.map(txn => txn.signTxn(chatAccount.account.sk));
+        const txid = signedTxns.length > 1 && this.algodClient.submitTransactionGroup
+            ? await this.algodClient.submitTransactionGroup(signedTxns)
+            : await this.algodClient.submitTransaction(concatBytes(...signedTxns));
 
+        // Build optimistic message for UI
         const sentMessage: Message = {
             id: txid,
             sender: chatAccount.address,
-            recipient: recipientAddress,
-            content: message,
+            recipient: recipients[0],
+            content,
             timestamp: new Date(),
             confirmedRound: 0,
             direction: 'sent',
@@ -222,16 +1554,19 @@ export class AlgorandService {
         };
 
         const result: SendResult = { txid, message: sentMessage };
+        if (txns.length > 1) {
+            result.txids = txns.map(txn => txn.txID());
+        }
 
-        // Capture fee from the built transaction
-        result.fee = Number(txn.fee);
+        // Capture fee from the built transactions
+        result.fee = txns.reduce((sum, txn) => sum + Number(txn.fee), 0);
         sentMessage.fee = result.fee;
 
         // Wait for confirmation if requested
         if (options.waitForConfirmation) {
             const timeout = options.timeout ?? 10;
-            const confirmation = await algosdk.waitForConfirmation(this.algodClient, txid, timeout);
-            result.confirmedRound = Number(confirmation.confirmedRound);
+            const confirmation = await this.algodClient.waitForConfirmation(txid, timeout);
+            result.confirmedRound = confirmation.confirmedRound ?? 0;
             sentMessage.confirmedRound = result.confirmedRound;
         }
 
@@ -249,11 +1584,17 @@ export class AlgorandService {
     /**
      * Fetches messages with a participant
      *
+     * Standard and PSK v1.1 messages are merged into one timeline. PSK
+     * messages are only readable for contacts registered with `addPSKContact`.
+     * With forward secrecy, our own PSK messages from past chain sessions
+     * come back with empty content and an `error`, as their keys are erased.
+     * Group messages are left out; see `fetchGroupConversations`.
+     *
      * @param chatAccount - The user's chat account
      * @param participantAddress - Address of the conversation participant
-     * @param afterRound - Only fetch messages after this round (for polling new messages)
+     * @param afterRound - Only fetch messages from this round on, inclusive (for polling new messages)
      * @param limit - Maximum number of messages to fetch
-     * @param beforeRound - Only fetch messages before this round (for pagination/loading older)
+     * @param beforeRound - Only fetch messages before this round, exclusive (for pagination/loading older)
      */
     async fetchMessages(
         chatAccount: ChatAccount,
@@ -265,96 +1606,41 @@ export class AlgorandService {
         const messages: Message[] = [];
 
         // Query transactions
-        let query = this.indexerClient
-            .searchForTransactions()
-            .address(chatAccount.address)
-            .limit(limit);
-
-        if (afterRound) {
-            query = query.minRound(afterRound);
-        }
-        if (beforeRound) {
-            query = query.maxRound(beforeRound - 1);
-        }
-
-        const response = await query.do() as unknown as IndexerSearchResponse;
-
-        for (const tx of response.transactions ?? []) {
-            // Filter: payment transactions with notes
-            if (tx.txType !== 'pay' || !tx.note) {
-                continue;
-            }
-
-            // Decode note from base64
-            const noteBytes = base64ToBytes(tx.note);
-
-            // Filter: AlgoChat messages
-            if (!isChatMessage(noteBytes)) {
-                continue;
-            }
+        const { transactions } = await this.searchPage(chatAccount.address, {
+            minRound: afterRound || undefined,
+            maxRound: beforeRound ? beforeRound - 1 : undefined,
+            limit,
+        });
+        const decodedTransactions: DecodedTransaction[] = [];
 
-            // Determine direction and filter by participant
+        for (const tx of sortTransactions(transactions)) {
             const sender: string = tx.sender;
-            const receiver: string | undefined = tx.paymentTransaction?.receiver;
+            const receiver: string = tx.receiver;
 
             if (!receiver) continue;
 
-            let direction: 'sent' | 'received';
-
+            // Filter by participant
             if (sender === chatAccount.address) {
                 if (receiver !== participantAddress) continue;
-                direction = 'sent';
             } else {
                 if (sender !== participantAddress) continue;
                 if (receiver !== chatAccount.address) continue;
-                direction = 'received';
             }
 
-            // Decrypt message
-            try {
-                const envelope = decodeEnvelope(noteBytes);
-                const decrypted = decryptMessage(
-                    envelope,
-                    chatAccount.encryptionKeys.privateKey,
-                    chatAccount.encryptionKeys.publicKey,
-                    this.encryptionOptions
-                );
-
-                if (!decrypted) continue; // Key-publish, skip
-
-                messages.push({
-                    id: tx.id,
-                    sender,
-                    recipient: receiver,
-                    content: decrypted.text,
-                    timestamp: new Date(Number(tx.roundTime ?? 0) * 1000),
-                    confirmedRound: Number(tx.confirmedRound ?? 0),
-                    direction,
-                    replyContext: decrypted.replyToId
-                        ? {
-                              messageId: decrypted.replyToId,
-                              preview: decrypted.replyToPreview || '',
-                          }
-                        : undefined,
-                    amount: tx.paymentTransaction?.amount != null ? Number(tx.paymentTransaction.amount) : undefined,
-                    fee: tx.fee != null ? Number(tx.fee) : undefined,
-                    intraRoundOffset: tx['intra-round-offset'] != null ? Number(tx['intra-round-offset']) : undefined,
-                });
-            } catch (error) {
-                // Log decryption failures for debugging - may indicate
-                // corrupted data or messages we can't decrypt
-                console.warn(`[AlgoChat] Failed to decrypt message ${tx.id}:`, error);
-                continue;
+            const decoded = await this.decodeTransaction(tx, chatAccount);
+            if (decoded) {
+                decodedTransactions.push(decoded);
             }
         }
 
+        for (const decoded of assembleChunks(decodedTransactions)) {
+            if (decoded.message.group) continue;
+            messages.push(decoded.message);
+        }
+
         // Sort by timestamp, then by intra-round offset for messages in the same round
         // (ensures group transaction chunks appear in correct order)
-        return messages.sort((a, b) => {
-            const timeDiff = a.timestamp.getTime() - b.timestamp.getTime();
-            if (timeDiff !== 0) return timeDiff;
-            return (a.intraRoundOffset ?? 0) - (b.intraRoundOffset ?? 0);
-        });
+        return messages.sort(compareMessages);
     }
 
     /**
@@ -374,28 +1660,74 @@ export class AlgorandService {
     /**
      * Discovers a user's encryption public key with full metadata.
      *
-     * Uses paginated indexer queries with the `next-token` cursor to walk the
-     * full transaction history. Falls back to a single batch when `searchDepth`
-     * is provided for backward compatibility.
+     * Walks the key history (see `discoverKeyHistory`) and picks the key
+     * from the newest signed announcement, so a rotated-out key is never
+     * returned whatever order the indexer uses. Keys only seen in chat
+     * envelopes sent by the address are returned, unverified, when it
+     * has announced none.
+     *
+     * Keys revoked by a signed revocation are skipped and evicted from the
+     * cache; if every key found was revoked, this throws KEY_REVOKED. A
+     * cached key is checked again for revocations published since its
+     * announcement once it has been served for an hour, or when
+     * `refreshRevocations` is called.
      *
      * @param address - Algorand address to discover key for
      * @param searchDepth - Max transactions to search (default: undefined = exhaustive)
      */
     async discoverPublicKeyWithMetadata(address: string, searchDepth?: number): Promise<DiscoveredKey> {
         // Check cache first
-        const cached = this.keyCache.get(address);
+        const cached = await this.cachedKey(address);
         if (cached) return cached;
 
-        const result = await this.paginatedKeyDiscovery(address, searchDepth);
+        const result = newestValidKey(await this.discoverKeyHistory(address, searchDepth));
         if (!result) {
+            const revoked = this.revokedKeys.get(address);
+            if (revoked) {
+                throw ChatError.keyRevoked(address, fingerprint(revoked[revoked.length - 1]));
+            }
             throw ChatError.publicKeyNotFound(address, searchDepth ?? -1);
         }
 
+        // A signed rotation from the pinned key carries the pin along
+        if (result.isVerified && result.previousKey) {
+            await this.keyPins.followRotation(address, result.previousKey, result.publicKey);
+        }
+        await this.keyPins.requireTrusted(address, result.publicKey);
+
         // Cache the result (LRU eviction)
         this.cacheKey(address, result);
         return result;
     }
 
+    /**
+     * Checks cached keys for revocations published since they were discovered
+     *
+     * Cached keys are otherwise only checked once they have been served for
+     * an hour. Revoked keys are evicted, so the next lookup discovers the
+     * address's current key.
+     *
+     * @param address - Only check this address's key (default: every cached key)
+     * @returns The addresses whose cached key was revoked
+     */
+    async refreshRevocations(address?: string): Promise<string[]> {
+        const addresses = address !== undefined ? [address] : Array.from(this.keyCache.keys());
+        const revoked: string[] = [];
+
+        for (const candidate of addresses) {
+            const cached = this.keyCache.get(candidate);
+            if (!cached) continue;
+
+            if (await this.findRevocation(candidate, cached.key)) {
+                revoked.push(candidate);
+            } else {
+                cached.checkedAt = Date.now();
+            }
+        }
+
+        return revoked;
+    }
+
     /**
      * Clears the public key cache, or removes a specific address.
      */
@@ -408,64 +1740,173 @@ export class AlgorandService {
     }
 
     /**
-     * Paginated key discovery using the indexer's next-token cursor.
+     * Discovers every encryption key an address has used.
+     *
+     * Uses paginated indexer queries with the `next-token` cursor to collect
+     * the keys from the address's signed key announcements and from the chat
+     * envelopes it sent. Each distinct key appears once, with the rounds it
+     * was first and last seen in. Signed revocations found on the way are
+     * recorded, so revoked keys are marked and evicted from the key cache.
+     *
+     * @param address - Algorand address to discover keys for
+     * @param searchDepth - Max transactions to search (default: undefined = exhaustive)
+     * @returns The keys, in the order they were first seen
      */
-    private async paginatedKeyDiscovery(
-        address: string,
-        maxDepth?: number
-    ): Promise<DiscoveredKey | undefined> {
+    async discoverKeyHistory(address: string, searchDepth?: number): Promise<KeyHistoryEntry[]> {
+        const ed25519PublicKey = addressPublicKey(address);
+        const history = new Map<string, KeyHistoryEntry>();
         let searched = 0;
         let nextToken: string | undefined;
 
+        // Without a cursor the whole search has to fit in one batch
+        const pageSize = this.indexerClient.searchTransactionsPaginated
+            ? DISCOVERY_PAGE_SIZE
+            : searchDepth ?? UNPAGINATED_SEARCH_LIMIT;
+
         while (true) {
-            const limit = maxDepth
-                ? Math.min(DISCOVERY_PAGE_SIZE, maxDepth - searched)
-                : DISCOVERY_PAGE_SIZE;
+            const limit = searchDepth
+                ? Math.min(pageSize, searchDepth - searched)
+                : pageSize;
 
             if (limit <= 0) break;
 
-            let query = this.indexerClient
-                .searchForTransactions()
-                .address(address)
-                .limit(limit);
-
-            if (nextToken) {
-                query = query.nextToken(nextToken);
+            const page = await this.searchPage(address, { limit, nextToken });
+            if (page.truncated && !searchDepth) {
+                console.warn(`[AlgoChat] Key history for ${address} stopped after ${limit} transactions`);
             }
 
-            const response = await query.do() as unknown as IndexerSearchResponse;
-
-            for (const tx of response.transactions ?? []) {
+            for (const tx of page.transactions) {
                 if (tx.sender !== address) continue;
-                if (!tx.note) continue;
+                if (tx.note.length === 0) continue;
+
+                const noteBytes = tx.note;
+                const metadata = {
+                    address,
+                    discoveredInTx: tx.txid,
+                    discoveredAtRound: tx.confirmedRound,
+                    discoveredAt: new Date(tx.roundTime * 1000),
+                };
+
+                if (tx.receiver === address) {
+                    const revocation = parseKeyRevocation(noteBytes, ed25519PublicKey);
+                    if (revocation) {
+                        this.recordRevocation(address, revocation.publicKey);
+                        continue;
+                    }
+
+                    const announced = parseKeyAnnouncement(noteBytes, ed25519PublicKey);
+                    if (announced?.isVerified) {
+                        addKeySighting(history, { ...announced, ...metadata });
+                        continue;
+                    }
+                }
 
-                const noteBytes = base64ToBytes(tx.note);
                 if (!isChatMessage(noteBytes)) continue;
 
                 try {
                     const envelope = decodeEnvelope(noteBytes);
-                    return {
-                        publicKey: envelope.senderPublicKey,
-                        isVerified: false,
-                        address,
-                        discoveredInTx: tx.id,
-                        discoveredAtRound: Number(tx.confirmedRound ?? 0),
-                        discoveredAt: new Date(Number(tx.roundTime ?? 0) * 1000),
-                    };
+                    if (isSealedEnvelope(envelope)) continue;
+                    addKeySighting(history, { publicKey: envelope.senderPublicKey, isVerified: false, ...metadata });
                 } catch (error) {
-                    console.warn(`[AlgoChat] Failed to decode envelope from ${tx.id}:`, error);
+                    console.warn(`[AlgoChat] Failed to decode envelope from ${tx.txid}:`, error);
                     continue;
                 }
             }
 
-            searched += (response.transactions ?? []).length;
-            nextToken = response['next-token'];
+            searched += page.transactions.length;
+            nextToken = page.nextToken;
 
-            if (!nextToken || (response.transactions ?? []).length === 0) break;
-            if (maxDepth && searched >= maxDepth) break;
+            if (!nextToken || page.transactions.length === 0) break;
+            if (searchDepth && searched >= searchDepth) break;
         }
 
-        return undefined;
+        // Revocations may come after the announcements they cover, so mark them last
+        return Array.from(history.values())
+            .map(entry => ({ ...entry, isRevoked: this.isKeyRevoked(address, entry.publicKey) }))
+            .sort((a, b) => a.firstSeenRound - b.firstSeenRound);
+    }
+
+    /**
+     * Searches for a signed revocation of a discovered key, recording it if found
+     *
+     * Revocation notes start with the revoked key, so only notes with that
+     * prefix since the key's announcement are fetched.
+     */
+    private async findRevocation(address: string, key: DiscoveredKey): Promise<boolean> {
+        if (this.isKeyRevoked(address, key.publicKey)) return true;
+
+        const ed25519PublicKey = addressPublicKey(address);
+        let nextToken: string | undefined;
+
+        do {
+            const page = await this.searchPage(address, {
+                minRound: key.discoveredAtRound,
+                notePrefix: key.publicKey,
+                limit: DISCOVERY_PAGE_SIZE,
+                nextToken,
+            });
+
+            for (const tx of page.transactions) {
+                if (tx.sender !== address || tx.receiver !== address) continue;
+
+                const revocation = parseKeyRevocation(tx.note, ed25519PublicKey);
+                if (revocation && uint8ArrayEquals(revocation.publicKey, key.publicKey)) {
+                    this.recordRevocation(address, revocation.publicKey);
+                    return true;
+                }
+            }
+
+            nextToken = page.transactions.length > 0 ? page.nextToken : undefined;
+        } while (nextToken);
+
+        return false;
+    }
+
+    /**
+     * Records a revoked key and evicts it from the key cache
+     */
+    private recordRevocation(address: string, publicKey: Uint8Array): void {
+        if (this.isKeyRevoked(address, publicKey)) return;
+
+        this.revokedKeys.set(address, [...(this.revokedKeys.get(address) ?? []), new Uint8Array(publicKey)]);
+        const cached = this.keyCache.get(address);
+        if (cached && uint8ArrayEquals(cached.key.publicKey, publicKey)) {
+            this.keyCache.delete(address);
+        }
+    }
+
+    /**
+     * Whether a key was found revoked for an address
+     */
+    private isKeyRevoked(address: string, publicKey: Uint8Array): boolean {
+        return this.revokedKeys.get(address)?.some(key => uint8ArrayEquals(key, publicKey)) ?? false;
+    }
+
+    /**
+     * Checks a recipient key before sending to it
+     *
+     * @throws ChatError with code KEY_REVOKED if the key was revoked, or
+     *         KEY_CHANGED if it differs from the pinned key
+     */
+    private async requireSendable(address: string, publicKey: Uint8Array): Promise<void> {
+        if (this.isKeyRevoked(address, publicKey)) {
+            throw ChatError.keyRevoked(address, fingerprint(publicKey));
+        }
+        await this.keyPins.requireTrusted(address, publicKey);
+    }
+
+    /**
+     * Gets a cached key, checking it for revocations once the check is due
+     */
+    private async cachedKey(address: string): Promise<DiscoveredKey | undefined> {
+        const cached = this.keyCache.get(address);
+        if (!cached) return undefined;
+
+        if (Date.now() - cached.checkedAt >= REVOCATION_CHECK_INTERVAL_MS) {
+            if (await this.findRevocation(address, cached.key)) return undefined;
+            cached.checkedAt = Date.now();
+        }
+        return cached.key;
     }
 
     /**
@@ -474,7 +1915,7 @@ export class AlgorandService {
     private cacheKey(address: string, key: DiscoveredKey): void {
         // Delete first to refresh insertion order (Map iterates in insertion order)
         this.keyCache.delete(address);
-        this.keyCache.set(address, key);
+        this.keyCache.set(address, { key, checkedAt: Date.now() });
 
         // Evict oldest entries if over capacity
         if (this.keyCache.size > this.keyCacheMaxSize) {
@@ -487,20 +1928,102 @@ export class AlgorandService {
 
     /**
      * Publishes the account's encryption key to the blockchain
+     *
+     * The note is a signed key announcement (see `encodeKeyAnnouncement`),
+     * so discovery can verify the key against the account address.
      */
     async publishKey(chatAccount: ChatAccount): Promise<string> {
-        const payload = JSON.stringify({ type: 'key-publish' });
+        const note = encodeKeyAnnouncement(
+            chatAccount.encryptionKeys.publicKey,
+            chatAccount.account.sk.slice(0, 32)
+        );
+        return this.submitAnnouncement(chatAccount, note);
+    }
 
-        // Self-encrypt
-        const envelope = encryptMessage(
-            payload,
+    /**
+     * Replaces the account's encryption key and announces the new one
+     *
+     * The old private key is archived in the encryption key storage (see
+     * `setEncryptionKeyStorage`) so messages sent to it stay readable, and
+     * the new key becomes the current key there. A storage without `archive`
+     * drops the old key, and messages encrypted to it become unreadable. The signed rotation
+     * announcement links the new key to the old one. If the announcement
+     * cannot be submitted, the old key is stored as the current key again.
+     *
+     * Keep using the returned account; the one passed in still holds the old key.
+     *
+     * @param chatAccount - The account whose key is replaced
+     * @param options - Whether to derive the new key instead of generating it
+     * @returns The account with its new key, and the announcement transaction ID
+     */
+    async rotateEncryptionKey(
+        chatAccount: ChatAccount,
+        options: KeyRotationOptions = {}
+    ): Promise<{ account: ChatAccount; txid: string }> {
+        const keyVersion = (chatAccount.keyVersion ?? 0) + 1;
+        const seed = chatAccount.account.sk.slice(0, 32);
+        const encryptionKeys = options.derive
+            ? deriveRotatedEncryptionKeys(seed, keyVersion)
+            : generateEncryptionKeys();
+
+        // Keep the old key before anyone can learn of the new one
+        if (this.encryptionKeyStorage.archive) {
+            await this.encryptionKeyStorage.archive(chatAccount.encryptionKeys.privateKey, chatAccount.address);
+        } else {
+            console.warn(
+                `[AlgoChat] Key storage cannot archive keys; messages to the old key of ${chatAccount.address} become unreadable`
+            );
+        }
+        await this.encryptionKeyStorage.store(encryptionKeys.privateKey, chatAccount.address);
+
+        const note = encodeKeyRotationAnnouncement(
+            encryptionKeys.publicKey,
+            keyVersion,
             chatAccount.encryptionKeys.publicKey,
-            chatAccount.encryptionKeys.publicKey, // Self
-            this.encryptionOptions
+            seed
         );
+        let txid: string;
+        try {
+            txid = await this.submitAnnouncement(chatAccount, note);
+        } catch (error) {
+            await this.encryptionKeyStorage.store(chatAccount.encryptionKeys.privateKey, chatAccount.address);
+            throw error;
+        }
+
+        // Ratchet sessions were bootstrapped from the old key
+        this.ratchetSessions.clear();
+
+        return { account: { ...chatAccount, encryptionKeys, keyVersion }, txid };
+    }
+
+    /**
+     * Revokes one of the account's encryption keys
+     *
+     * Publishes a signed revocation; discovery then refuses the key, and
+     * contacts that see it stop sending to it. Rotate to a new key first
+     * (see `rotateEncryptionKey`) so contacts have one to switch to.
+     *
+     * @param chatAccount - The account that owns the key
+     * @param publicKey - The key to revoke (default: the account's current key)
+     * @param reason - Why the key is revoked (default: 'compromised')
+     * @returns The revocation transaction ID
+     */
+    async revokeEncryptionKey(
+        chatAccount: ChatAccount,
+        publicKey: Uint8Array = chatAccount.encryptionKeys.publicKey,
+        reason: KeyRevocationReason = 'compromised'
+    ): Promise<string> {
+        const note = encodeKeyRevocation(publicKey, chatAccount.account.sk.slice(0, 32), reason);
+        const txid = await this.submitAnnouncement(chatAccount, note);
+        this.recordRevocation(chatAccount.address, publicKey);
+        return txid;
+    }
 
-        const note = encodeEnvelope(envelope);
-        const params = await this.algodClient.getTransactionParams().do();
+    /**
+     * Submits a key announcement as a zero-amount self-payment
+     */
+    private async submitAnnouncement(chatAccount: ChatAccount, note: Uint8Array): Promise<string> {
+        const params = await this.suggestedParams();
 
         // Zero-amount self-payment
         const txn = algosdk.makePaymentTxnWithSuggestedParamsFromObject({
@@ -511,17 +2034,58 @@ export class AlgorandService {
             suggestedParams: params,
         });
 
-        const signedTxn = txn.signTxn(chatAccount.account.sk);
-        const { txid } = await this.algodClient.sendRawTransaction(signedTxn).do();
+        return this.algodClient.submitTransaction(txn.signTxn(chatAccount.account.sk));
+    }
 
-        return txid;
+    /**
+     * Gets algod's suggested parameters in the form algosdk builds transactions from
+     */
+    private async suggestedParams(): Promise<algosdk.SuggestedParams> {
+        const params = await this.algodClient.getSuggestedParams();
+        return {
+            flatFee: false,
+            fee: params.fee,
+            minFee: params.minFee,
+            firstValid: params.firstValid,
+            lastValid: params.lastValid,
+            genesisID: params.genesisId,
+            genesisHash: params.genesisHash,
+        };
+    }
+
+    /**
+     * Fetches one page of an address's transactions
+     *
+     * Indexers without `searchTransactionsPaginated` return a single batch
+     * with no cursor, which is filtered here by `maxRound` and `notePrefix`
+     * and marked `truncated` when it filled the limit.
+     */
+    private async searchPage(address: string, options: TransactionSearchOptions): Promise<PaginatedTransactions> {
+        if (this.indexerClient.searchTransactionsPaginated) {
+            return this.indexerClient.searchTransactionsPaginated(address, options);
+        }
+
+        const { minRound, maxRound, limit, notePrefix } = options;
+        // searchTransactions takes an exclusive lower bound
+        const transactions = await this.indexerClient.searchTransactions(
+            address,
+            minRound !== undefined ? minRound - 1 : undefined,
+            limit
+        );
+        return {
+            transactions: transactions.filter(tx =>
+                (maxRound === undefined || tx.confirmedRound <= maxRound) &&
+                (!notePrefix || uint8ArrayEquals(tx.note.subarray(0, notePrefix.length), notePrefix))
+            ),
+            truncated: limit !== undefined && transactions.length >= limit,
+        };
     }
 
     /**
      * Gets account balance in microAlgos
      */
     async getBalance(address: string): Promise<bigint> {
-        const info = await this.algodClient.accountInformation(address).do();
+        const info = await this.algodClient.getAccountInfo(address);
         return info.amount;
     }
 
@@ -529,100 +2093,59 @@ export class AlgorandService {
      * Fetches all conversations for an account
      *
      * Scans transaction history and groups messages by participant.
+     * PSK v1.1 messages are included for contacts registered with `addPSKContact`;
+     * group messages are left to `fetchGroupConversations`.
      * Returns conversations sorted by most recent message.
      */
     async fetchConversations(
         chatAccount: ChatAccount,
         limit = 100
     ): Promise<Conversation[]> {
-        const response = await this.indexerClient
-            .searchForTransactions()
-            .address(chatAccount.address)
-            .limit(limit)
-            .do() as unknown as IndexerSearchResponse;
-
         const conversationsMap = new Map<string, Conversation>();
 
-        for (const tx of response.transactions ?? []) {
-            if (tx.txType !== 'pay' || !tx.note) continue;
-
-            const noteBytes = base64ToBytes(tx.note);
-            if (!isChatMessage(noteBytes)) continue;
-
-            const sender: string = tx.sender;
-            const receiver: string | undefined = tx.paymentTransaction?.receiver;
-            if (!receiver) continue;
-
-            try {
-                const envelope = decodeEnvelope(noteBytes);
-                const decrypted = decryptMessage(
-                    envelope,
-                    chatAccount.encryptionKeys.privateKey,
-                    chatAccount.encryptionKeys.publicKey,
-                    this.encryptionOptions
-                );
-
-                if (!decrypted) continue;
+        for (const decoded of await this.fetchDecodedTransactions(chatAccount, limit)) {
+            const { message } = decoded;
+            if (message.group) continue;
 
-                // Skip key-publish transactions (self-tx with key-publish payload)
-                if (sender === receiver) {
-                    try {
-                        const parsed = JSON.parse(decrypted.text);
-                        if (parsed.type === 'key-publish') continue;
-                    } catch {
-                        // Not JSON, check plain text
-                        if (decrypted.text === 'key-publish') continue;
-                    }
+            // Skip key-publish transactions (self-tx with key-publish payload)
+            if (message.sender === message.recipient) {
+                try {
+                    const parsed = JSON.parse(message.content);
+                    if (parsed.type === 'key-publish') continue;
+                } catch {
+                    // Not JSON, check plain text
+                    if (message.content === 'key-publish') continue;
                 }
+            }
 
-                const otherParty = sender === chatAccount.address ? receiver : sender;
-                const direction: 'sent' | 'received' = sender === chatAccount.address ? 'sent' : 'received';
-
-                const message: Message = {
-                    id: tx.id,
-                    sender,
-                    recipient: receiver,
-                    content: decrypted.text,
-                    timestamp: new Date(Number(tx.roundTime ?? 0) * 1000),
-                    confirmedRound: Number(tx.confirmedRound ?? 0),
-                    direction,
-                    replyContext: decrypted.replyToId
-                        ? { messageId: decrypted.replyToId, preview: decrypted.replyToPreview || '' }
-                        : undefined,
-                    amount: tx.paymentTransaction?.amount != null ? Number(tx.paymentTransaction.amount) : undefined,
-                    fee: tx.fee != null ? Number(tx.fee) : undefined,
-                    intraRoundOffset: tx['intra-round-offset'] != null ? Number(tx['intra-round-offset']) : undefined,
-                };
+            const otherParty = message.direction === 'sent' ? message.recipient : message.sender;
 
-                if (!conversationsMap.has(otherParty)) {
-                    conversationsMap.set(otherParty, {
-                        participant: otherParty,
-                        messages: [],
-                    });
-                }
+            if (!conversationsMap.has(otherParty)) {
+                conversationsMap.set(otherParty, {
+                    participant: otherParty,
+                    messages: [],
+                });
+            }
 
-                const conv = conversationsMap.get(otherParty)!;
-                conv.messages.push(message);
+            const conv = conversationsMap.get(otherParty)!;
+            conv.messages.push(message);
 
-                // Store public key from received messages
-                if (direction === 'received') {
-                    conv.participantPublicKey = envelope.senderPublicKey;
-                }
+            // Store public key from received messages
+            if (message.direction === 'received' && message.authenticity !== 'mismatch') {
+                conv.participantPublicKey = decoded.senderPublicKey;
+            }
 
-                // Track the latest round
-                const round = Number(tx.confirmedRound ?? 0);
-                if (!conv.lastFetchedRound || round > conv.lastFetchedRound) {
-                    conv.lastFetchedRound = round;
-                }
-            } catch {
-                continue;
+            // Track the latest round
+            const round = message.confirmedRound;
+            if (!conv.lastFetchedRound || round > conv.lastFetchedRound) {
+                conv.lastFetchedRound = round;
             }
         }
 
         // Sort messages within each conversation
         const conversations = Array.from(conversationsMap.values());
         for (const conv of conversations) {
-            conv.messages.sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+            conv.messages.sort(compareMessages);
         }
 
         // Sort conversations by most recent message
@@ -635,6 +2158,235 @@ export class AlgorandService {
         return conversations;
     }
 
+    /**
+     * Fetches and decrypts the account's recent chat transactions, joining chunked messages
+     */
+    private async fetchDecodedTransactions(chatAccount: ChatAccount, limit: number): Promise<DecodedTransaction[]> {
+        const { transactions } = await this.searchPage(chatAccount.address, { limit });
+
+        const decodedTransactions: DecodedTransaction[] = [];
+        for (const tx of sortTransactions(transactions)) {
+            const decoded = await this.decodeTransaction(tx, chatAccount);
+            if (decoded) {
+                decodedTransactions.push(decoded);
+            }
+        }
+
+        return assembleChunks(decodedTransactions);
+    }
+
+    /**
+     * Decodes and decrypts a chat transaction (standard or PSK v1.1)
+     *
+     * @returns The decrypted message, or null if the transaction is not a
+     *          readable chat message (not a payment, no note, key-publish,
+     *          version not allowed by policy, expired v2 message, unknown PSK contact, replayed
+     *          counter, rejected sender key, or decryption failure). Our own
+     *          messages whose keys are erased come back with an `error`.
+     */
+    private async decodeTransaction(tx: NoteTransaction, chatAccount: ChatAccount): Promise<DecodedTransaction | null> {
+        // Filter: payment transactions with notes
+        if (tx.note.length === 0) return null;
+
+        const sender: string = tx.sender;
+        const receiver: string = tx.receiver;
+        if (!receiver) return null;
+
+        const direction: 'sent' | 'received' = sender === chatAccount.address ? 'sent' : 'received';
+        const otherParty = direction === 'sent' ? receiver : sender;
+
+        const noteBytes = tx.note;
+
+        let decrypted: DecryptedContent | null;
+        let senderPublicKey: Uint8Array;
+        let pskSession: PSKSession | undefined;
+        let messageError: MessageError | undefined;
+        let headers: EnvelopeHeaders = {};
+        let authenticity: MessageAuthenticity | undefined;
+
+        try {
+            if (isChatMessage(noteBytes)) {
+                const envelope = decodeEnvelope(noteBytes);
+                if (!this.policies.allowsEnvelope(otherParty, envelope)) return null;
+
+                headers = readEnvelopeHeaders(envelope);
+                if (headers.expiresAt && headers.expiresAt.getTime() <= Date.now()) return null;
+
+                senderPublicKey = envelope.senderPublicKey;
+                decrypted = await this.decryptWithOurKeys(
+                    chatAccount,
+                    keys => this.policies.decrypt(otherParty, envelope, keys.privateKey, keys.publicKey),
+                    this.ourKeyMatcher(
+                        isSealedEnvelope(envelope) ? undefined : envelope.senderPublicKey,
+                        headers.recipientKeyId,
+                        direction
+                    )
+                );
+                // Sealed-sender envelopes only reveal the key once decrypted
+                if (decrypted?.senderPublicKey) senderPublicKey = decrypted.senderPublicKey;
+            } else if (isPSKMessage(noteBytes)) {
+                if (!this.policies.allows(otherParty, 'v1.1')) return null;
+
+                pskSession = await this.pskSession(otherParty);
+                if (!pskSession) return null; // No PSK for this contact
+
+                const envelope = decodePSKEnvelope(noteBytes);
+                senderPublicKey = envelope.senderPublicKey;
+
+                // Authenticate before the session records the counter on the sender's key
+                if (direction === 'received') {
+                    const checked = await this.authenticateSender(otherParty, senderPublicKey);
+                    if (!checked || checked === 'mismatch') return null;
+                    authenticity = checked;
+                }
+
+                // The session rejects replayed counters, but accepts the same
+                // transaction again so re-fetching history still works
+                try {
+                    const session = pskSession;
+                    decrypted = await this.decryptWithOurKeys(
+                        chatAccount,
+                        keys => session.decrypt(envelope, keys.privateKey, keys.publicKey, tx.txid),
+                        this.ourKeyMatcher(envelope.senderPublicKey, undefined, direction)
+                    );
+                } catch (error) {
+                    // Forward secrecy erases the keys of our own past sessions;
+                    // keep the sent message in the timeline as unreadable
+                    if (direction !== 'sent' || !(error instanceof PSKChainError)) throw error;
+                    const chatError = ChatError.decryptionFailed(error.message, error);
+                    messageError = { code: chatError.code, message: chatError.message };
+                    decrypted = { text: '' };
+                }
+                this.releaseInitialPSK(otherParty, pskSession);
+            } else if (isRatchetMessage(noteBytes)) {
+                if (!this.policies.allows(otherParty, 'ratchet')) return null;
+
+                const envelope = decodeRatchetEnvelope(noteBytes);
+                senderPublicKey = envelope.senderPublicKey;
+
+                decrypted = (await this.ratchetMessages.load(tx.txid)) ?? null;
+                if (!decrypted && direction === 'sent') {
+                    // Our own message keys are erased once used; keep the
+                    // message in the timeline as unreadable
+                    const chatError = ChatError.decryptionFailed('ratchet message keys are erased once used');
+                    messageError = { code: chatError.code, message: chatError.message };
+                    decrypted = { text: '' };
+                } else if (!decrypted) {
+                    // Authenticate before the session advances on the sender's key
+                    const checked = await this.authenticateSender(otherParty, senderPublicKey);
+                    if (!checked || checked === 'mismatch') return null;
+                    authenticity = checked;
+
+                    const session = await this.ratchetSession(chatAccount, otherParty, senderPublicKey);
+                    decrypted = await session.decrypt(envelope);
+                    await this.ratchetMessages.save(tx.txid, decrypted);
+                }
+            } else {
+                return null;
+            }
+        } catch (error) {
+            // Log decryption failures for debugging - may indicate
+            // corrupted data or messages we can't decrypt
+            console.warn(`[AlgoChat] Failed to decrypt message ${tx.txid}:`, error);
+            return null;
+        }
+
+        if (!decrypted) return null; // Key-publish, skip
+
+        // The envelope key must belong to the Algorand sender; drop rejected keys
+        if (direction === 'received' && !authenticity) {
+            const checked = await this.authenticateSender(otherParty, senderPublicKey);
+            if (!checked) return null;
+            authenticity = checked;
+        }
+
+        // Handshake control messages update state and stay out of the timeline
+        const handshakePayload = parsePSKHandshakePayload(decrypted.text);
+        if (handshakePayload) {
+            if (direction === 'received' && authenticity !== 'mismatch') {
+                await this.handleHandshakePayload(chatAccount, otherParty, senderPublicKey, handshakePayload);
+            }
+            return null;
+        }
+
+        // Rekey control messages are applied by the session; answer an announcement
+        if (pskSession && parsePSKRekeyPayload(decrypted.text)) {
+            if (direction === 'received' && authenticity !== 'mismatch' && pskSession.pendingRekeyAck) {
+                await this.acknowledgeRekey(chatAccount, otherParty, senderPublicKey, pskSession);
+            }
+            return null;
+        }
+
+        // Channel keys are saved for reading posts and stay out of the timeline
+        if (decrypted.payload?.type === 'channel-key') {
+            if (direction === 'received' && authenticity !== 'mismatch') {
+                await this.receiveChannelKey(otherParty, decrypted.payload);
+            }
+            return null;
+        }
+
+        return {
+            senderPublicKey,
+            chunk: decrypted.chunk,
+            message: {
+                id: tx.txid,
+                sender,
+                recipient: receiver,
+                content: decrypted.text,
+                timestamp: new Date(tx.roundTime * 1000),
+                confirmedRound: tx.confirmedRound,
+                direction,
+                replyContext: decrypted.replyToId
+                    ? {
+                          messageId: decrypted.replyToId,
+                          preview: decrypted.replyToPreview || '',
+                      }
+                    : undefined,
+                amount: tx.amount,
+                fee: tx.fee,
+                intraRoundOffset: tx.intraRoundOffset,
+                contentType: headers.contentType,
+                threadId: headers.threadId,
+                expiresAt: headers.expiresAt,
+                group: headers.group,
+                authenticity,
+                payload: decrypted.payload,
+                error: messageError,
+            },
+        };
+    }
+
+    /**
+     * Checks a received envelope's sender key against the key known for the sender
+     *
+     * Without a pin, the sender's key is discovered (and pinned) first, so a
+     * forged envelope key is never pinned. A key that differs from the pin is
+     * reported as a key change and flagged as a mismatch.
+     *
+     * @returns The authenticity status, or null if the user rejected the key
+     */
+    private async authenticateSender(address: string, senderPublicKey: Uint8Array): Promise<MessageAuthenticity | null> {
+        if (!(await this.keyPins.get(address))) {
+            const discovered = await this.discoverPublicKeyWithMetadata(address).catch(() => undefined);
+            if (senderKeyAuthenticity(senderPublicKey, discovered) === 'mismatch') return 'mismatch';
+        }
+
+        switch (await this.keyPins.check(address, senderPublicKey)) {
+            case 'rejected':
+                return null;
+            case 'changed':
+                return 'mismatch';
+            case 'previous':
+                return 'unverified';
+        }
+
+        const pin = await this.keyPins.get(address);
+        if (pin?.trust === 'verified') return 'verified';
+        return senderKeyAuthenticity(senderPublicKey, this.keyCache.get(address)?.key) === 'verified'
+            ? 'verified'
+            : 'unverified';
+    }
+
     /**
      * Waits for transaction confirmation
      *
@@ -643,8 +2395,8 @@ export class AlgorandService {
      * @returns Confirmed round number
      */
     async waitForConfirmation(txid: string, timeout = 10): Promise<number> {
-        const result = await algosdk.waitForConfirmation(this.algodClient, txid, timeout);
-        return Number(result.confirmedRound);
+        const result = await this.algodClient.waitForConfirmation(txid, timeout);
+        return result.confirmedRound ?? 0;
     }
 
     /**
@@ -671,7 +2423,7 @@ export class AlgorandService {
 
         while (Date.now() < deadline) {
             try {
-                await this.indexerClient.lookupTransactionByID(txid).do();
+                await this.indexerClient.getTransaction(txid);
                 return true;
             } catch {
                 // Transaction not yet indexed, continue waiting
@@ -703,7 +2455,7 @@ export class AlgorandService {
      */
     async transactionExists(txid: string): Promise<boolean> {
         try {
-            await this.indexerClient.lookupTransactionByID(txid).do();
+            await this.indexerClient.getTransaction(txid);
             return true;
         } catch {
             return false;
@@ -716,31 +2468,97 @@ function sleep(ms: number): Promise<void> {
 }
 
 /**
- * Decodes base64 or base64url string to Uint8Array
+ * Adds one sighting of a key to an address's key history
  *
- * The Algorand indexer returns notes as base64url encoded strings,
- * so we need to handle both standard base64 and base64url formats.
+ * A signed announcement becomes the key's source over any message, and a
+ * newer sighting replaces an older one of the same kind.
  */
-function base64ToBytes(input: string | Uint8Array): Uint8Array {
-    // If already Uint8Array, return as-is
-    if (input instanceof Uint8Array) {
-        return input;
+function addKeySighting(history: Map<string, KeyHistoryEntry>, sighting: DiscoveredKey): void {
+    const id = bytesToHex(sighting.publicKey);
+    const round = sighting.discoveredAtRound ?? 0;
+    const entry = history.get(id);
+
+    if (!entry) {
+        history.set(id, { ...sighting, firstSeenRound: round, lastSeenRound: round, isRevoked: false });
+        return;
     }
 
-    if (typeof input !== 'string') {
-        return new Uint8Array(0);
+    const firstSeenRound = Math.min(entry.firstSeenRound, round);
+    const lastSeenRound = Math.max(entry.lastSeenRound, round);
+    const replaces = sighting.isVerified === entry.isVerified
+        ? round > (entry.discoveredAtRound ?? 0)
+        : sighting.isVerified;
+
+    history.set(id, { ...(replaces ? sighting : entry), firstSeenRound, lastSeenRound, isRevoked: false });
+}
+
+/**
+ * Picks the key to encrypt to from an address's key history
+ *
+ * The key with the newest signed announcement wins. Keys only seen in
+ * sent messages are used when none was announced, newest first; revoked
+ * keys are never picked.
+ */
+function newestValidKey(history: KeyHistoryEntry[]): DiscoveredKey | undefined {
+    const valid = history.filter(entry => !entry.isRevoked);
+    const candidates = valid.some(entry => entry.isVerified) ? valid.filter(entry => entry.isVerified) : valid;
+
+    let newest: KeyHistoryEntry | undefined;
+    for (const entry of candidates) {
+        if (!newest || (entry.discoveredAtRound ?? 0) > (newest.discoveredAtRound ?? 0)) {
+            newest = entry;
+        }
     }
+    if (!newest) return undefined;
+
+    const { firstSeenRound, lastSeenRound, isRevoked, ...key } = newest;
+    return key;
+}
 
-    // Convert base64url to standard base64
-    const standardBase64 = input.replace(/-/g, '+').replace(/_/g, '/');
+/**
+ * Orders transactions by round and intra-round offset
+ *
+ * PSK counters must be validated in the order they were sent, regardless
+ * of the order the indexer returns them in.
+ */
+function sortTransactions(transactions: NoteTransaction[]): NoteTransaction[] {
+    return [...transactions].sort((a, b) => {
+        const roundDiff = a.confirmedRound - b.confirmedRound;
+        if (roundDiff !== 0) return roundDiff;
+        return (a.intraRoundOffset ?? 0) - (b.intraRoundOffset ?? 0);
+    });
+}
 
-    // Add padding if needed
-    const padded = standardBase64 + '='.repeat((4 - (standardBase64.length % 4)) % 4);
+/**
+ * Orders messages by timestamp, then by intra-round offset
+ */
+function compareMessages(a: Message, b: Message): number {
+    const timeDiff = a.timestamp.getTime() - b.timestamp.getTime();
+    if (timeDiff !== 0) return timeDiff;
+    return (a.intraRoundOffset ?? 0) - (b.intraRoundOffset ?? 0);
+}
 
-    const binaryString = atob(padded);
-    const bytes = new Uint8Array(binaryString.length);
-    for (let i = 0; i < binaryString.length; i++) {
-        bytes[i] = binaryString.charCodeAt(i);
+/**
+ * Gets the Ed25519 public key behind an address, or undefined if it is malformed
+ */
+function addressPublicKey(address: string): Uint8Array | undefined {
+    try {
+        return algosdk.decodeAddress(address).publicKey;
+    } catch {
+        return undefined;
     }
-    return bytes;
+}
+
+/**
+ * Builds a fresh key for a channel's current epoch
+ */
+function newChannelKey(channel: Channel): ChannelKey {
+    return {
+        channelId: channel.channelId,
+        epoch: channel.epoch,
+        key: generateChannelKey(),
+        owner: channel.owner,
+        address: channel.address,
+        ...(channel.name !== undefined && { name: channel.name }),
+    };
 }
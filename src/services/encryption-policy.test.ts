@@ -0,0 +1,210 @@
+/**
+ * AlgoChat Web - Encryption Policy Registry Tests
+ */
+
+import { describe, test, expect } from 'bun:test';
+import { EncryptionPolicyRegistry } from './encryption-policy';
+import { encryptMessage } from '../crypto';
+import { deriveEncryptionKeys } from '../crypto/keys';
+
+const ALICE = 'ALICE_ADDR';
+const BOB = 'BOB_ADDR';
+
+const alicePSK = new Uint8Array(32).fill(0xa1);
+const bobPSK = new Uint8Array(32).fill(0xb0);
+const defaultPSK = new Uint8Array(32).fill(0xdd);
+
+describe('EncryptionPolicyRegistry', () => {
+    describe('set and get', () => {
+        test('stores a copy of the PSK', () => {
+            const registry = new EncryptionPolicyRegistry();
+            const psk = new Uint8Array(alicePSK);
+            registry.set(ALICE, { psk });
+            psk.fill(0);
+
+            expect(registry.pskFor(ALICE)).toEqual(alicePSK);
+            expect(registry.has(ALICE)).toBe(true);
+            expect(registry.addresses).toEqual([ALICE]);
+        });
+
+        test('rejects PSKs that are not 32 bytes', () => {
+            const registry = new EncryptionPolicyRegistry();
+            expect(() => registry.set(ALICE, { psk: new Uint8Array(16) })).toThrow(/32 bytes/);
+        });
+
+        test('rejects psk mode without a PSK', () => {
+            const registry = new EncryptionPolicyRegistry();
+            expect(() => registry.set(ALICE, { mode: 'psk' })).toThrow(/not configured/);
+        });
+
+        test('accepts forward-secure psk mode without a PSK, for restored sessions', () => {
+            const registry = new EncryptionPolicyRegistry();
+            registry.set(ALICE, { mode: 'psk', forwardSecrecy: true });
+            expect(registry.modeFor(ALICE)).toBe('psk');
+            expect(registry.pskFor(ALICE)).toBeUndefined();
+        });
+
+        test('erasePSK zeroes the PSK and keeps the mode', () => {
+            const registry = new EncryptionPolicyRegistry();
+            registry.set(ALICE, { psk: alicePSK, mode: 'psk', forwardSecrecy: true });
+            const stored = registry.pskFor(ALICE)!;
+
+            registry.erasePSK(ALICE);
+            expect(stored.every(byte => byte === 0)).toBe(true);
+            expect(registry.pskFor(ALICE)).toBeUndefined();
+            expect(registry.get(ALICE)).toMatchObject({ mode: 'psk', forwardSecrecy: true });
+        });
+
+        test('delete removes the policy', () => {
+            const registry = new EncryptionPolicyRegistry();
+            registry.set(ALICE, { psk: alicePSK });
+            registry.delete(ALICE);
+
+            expect(registry.get(ALICE)).toBeUndefined();
+            expect(registry.modeFor(ALICE)).toBe('standard');
+        });
+    });
+
+    describe('encryptionOptionsFor', () => {
+        test('uses the contact PSK in standard mode', () => {
+            const registry = new EncryptionPolicyRegistry({ psk: defaultPSK });
+            registry.set(ALICE, { psk: alicePSK });
+
+            expect(registry.encryptionOptionsFor(ALICE)?.psk).toEqual(alicePSK);
+            expect(registry.encryptionOptionsFor(BOB)?.psk).toEqual(defaultPSK);
+        });
+
+        test('does not mix a psk mode PSK into v1.0 envelopes', () => {
+            const registry = new EncryptionPolicyRegistry();
+            registry.set(ALICE, { psk: alicePSK, mode: 'psk' });
+
+            expect(registry.modeFor(ALICE)).toBe('psk');
+            expect(registry.encryptionOptionsFor(ALICE)).toBeUndefined();
+        });
+
+        test('chooses v1 envelopes for legacy peers', () => {
+            const registry = new EncryptionPolicyRegistry({ envelopeVersion: 2 });
+            registry.set(ALICE, { envelopeVersion: 1 });
+            registry.set(BOB, { allowedVersions: ['v1.0'] });
+
+            expect(registry.encryptionOptionsFor(ALICE)?.envelopeVersion).toBe(1);
+            expect(registry.encryptionOptionsFor(BOB)?.envelopeVersion).toBe(1);
+            expect(registry.encryptionOptionsFor('CAROL_ADDR')?.envelopeVersion).toBe(2);
+        });
+
+        test('seals the sender only in v2 envelopes', () => {
+            const registry = new EncryptionPolicyRegistry({ envelopeVersion: 2, sealedSender: true });
+            registry.set(ALICE, { envelopeVersion: 1 });
+            registry.set(BOB, { sealedSender: false });
+
+            expect(registry.encryptionOptionsFor('CAROL_ADDR')?.sealedSender).toBe(true);
+            expect(registry.encryptionOptionsFor(ALICE)?.sealedSender).toBe(false);
+            expect(registry.encryptionOptionsFor(BOB)?.sealedSender).toBe(false);
+
+            const optIn = new EncryptionPolicyRegistry({ envelopeVersion: 2 });
+            optIn.set(ALICE, { sealedSender: true });
+            expect(optIn.encryptionOptionsFor(ALICE)?.sealedSender).toBe(true);
+            expect(optIn.encryptionOptionsFor(BOB)?.sealedSender).toBeUndefined();
+        });
+
+        test('keeps v1 envelopes by default', () => {
+            const registry = new EncryptionPolicyRegistry();
+            registry.set(ALICE, { psk: alicePSK });
+
+            expect(registry.envelopeVersionFor(BOB)).toBe(1);
+            expect(registry.encryptionOptionsFor(ALICE)?.envelopeVersion).toBe(1);
+        });
+    });
+
+    describe('decryptionCandidatesFor', () => {
+        test('requires the contact PSK when one is set', () => {
+            const registry = new EncryptionPolicyRegistry({ psk: defaultPSK });
+            registry.set(ALICE, { psk: alicePSK });
+
+            const candidates = registry.decryptionCandidatesFor(ALICE);
+            expect(candidates.length).toBe(1);
+            expect(candidates[0]?.psk).toEqual(alicePSK);
+        });
+
+        test('falls back from the default PSK to the non-PSK path', () => {
+            const registry = new EncryptionPolicyRegistry({ psk: defaultPSK });
+
+            const candidates = registry.decryptionCandidatesFor(BOB);
+            expect(candidates.map(c => c?.psk)).toEqual([defaultPSK, undefined]);
+        });
+
+        test('uses only the non-PSK path without any PSK', () => {
+            const registry = new EncryptionPolicyRegistry();
+            expect(registry.decryptionCandidatesFor(BOB)).toEqual([undefined]);
+        });
+    });
+
+    describe('allows', () => {
+        test('accepts every version by default', () => {
+            const registry = new EncryptionPolicyRegistry();
+            expect(registry.allows(ALICE, 'v1.0')).toBe(true);
+            expect(registry.allows(ALICE, 'v1.1')).toBe(true);
+        });
+
+        test('restricts to the allowed versions', () => {
+            const registry = new EncryptionPolicyRegistry();
+            registry.set(ALICE, { psk: alicePSK, mode: 'psk', allowedVersions: ['v1.1'] });
+
+            expect(registry.allows(ALICE, 'v1.0')).toBe(false);
+            expect(registry.allows(ALICE, 'v1.1')).toBe(true);
+        });
+
+        test('maps standard envelopes to their protocol version', () => {
+            const keys = deriveEncryptionKeys(new Uint8Array(32).fill(3));
+            const registry = new EncryptionPolicyRegistry();
+            registry.set(ALICE, { allowedVersions: ['v1.0'] });
+
+            const v1 = encryptMessage('v1', keys.publicKey, keys.publicKey);
+            const v2 = encryptMessage('v2', keys.publicKey, keys.publicKey, { envelopeVersion: 2 });
+
+            expect(registry.allowsEnvelope(ALICE, v1)).toBe(true);
+            expect(registry.allowsEnvelope(ALICE, v2)).toBe(false);
+            expect(registry.allowsEnvelope(BOB, v2)).toBe(true);
+        });
+    });
+
+    describe('decrypt', () => {
+        const sender = deriveEncryptionKeys(new Uint8Array(32).fill(1));
+        const recipient = deriveEncryptionKeys(new Uint8Array(32).fill(2));
+
+        test('decrypts with different PSKs for different contacts', () => {
+            const registry = new EncryptionPolicyRegistry();
+            registry.set(ALICE, { psk: alicePSK });
+            registry.set(BOB, { psk: bobPSK });
+
+            const fromAlice = encryptMessage('from alice', sender.publicKey, recipient.publicKey, { psk: alicePSK });
+            const fromBob = encryptMessage('from bob', sender.publicKey, recipient.publicKey, { psk: bobPSK });
+
+            expect(registry.decrypt(ALICE, fromAlice, recipient.privateKey, recipient.publicKey)?.text).toBe('from alice');
+            expect(registry.decrypt(BOB, fromBob, recipient.privateKey, recipient.publicKey)?.text).toBe('from bob');
+            expect(() => registry.decrypt(ALICE, fromBob, recipient.privateKey, recipient.publicKey)).toThrow();
+        });
+
+        test('falls back to the non-PSK path for contacts without a PSK', () => {
+            const registry = new EncryptionPolicyRegistry({ psk: defaultPSK });
+            const plain = encryptMessage('no psk', sender.publicKey, recipient.publicKey);
+
+            expect(registry.decrypt(BOB, plain, recipient.privateKey, recipient.publicKey)?.text).toBe('no psk');
+        });
+
+        test('goes straight to the candidate matching a v2 PSK mode header', () => {
+            const registry = new EncryptionPolicyRegistry({ psk: defaultPSK });
+            const plain = encryptMessage('v2 no psk', sender.publicKey, recipient.publicKey, { envelopeVersion: 2 });
+
+            expect(registry.decrypt(BOB, plain, recipient.privateKey, recipient.publicKey)?.text).toBe('v2 no psk');
+        });
+    });
+
+    describe('from', () => {
+        test('passes registries through and wraps plain options', () => {
+            const registry = new EncryptionPolicyRegistry();
+            expect(EncryptionPolicyRegistry.from(registry)).toBe(registry);
+            expect(EncryptionPolicyRegistry.from({ psk: defaultPSK }).defaultOptions?.psk).toEqual(defaultPSK);
+        });
+    });
+});
@@ -0,0 +1,276 @@
+/**
+ * AlgoChat Web - Encryption Policy Registry
+ *
+ * Per-contact encryption settings: which PSK to use, which mode to send in,
+ * and which protocol versions to accept.
+ */
+
+import { PROTOCOL_V2, type ChatEnvelope, type DecryptedContent, type EncryptionOptions, type EnvelopeVersion } from '../models/types';
+import { decryptMessage, readEnvelopeHeaders } from '../crypto';
+import { ChatError } from '../errors/ChatError';
+
+/**
+ * Protocol versions a contact can use: v1.0 standard, v1.1 PSK, v2.0 standard
+ * with extension headers and Double Ratchet sessions
+ */
+export type ProtocolVersion = 'v1.0' | 'v1.1' | 'v2.0' | 'ratchet';
+
+/** Outgoing encryption mode for a contact */
+export type EncryptionMode = 'standard' | 'psk' | 'ratchet';
+
+/** Encryption policy for a single contact */
+export interface ContactEncryptionPolicy {
+    /**
+     * Pre-shared key (32 bytes). In 'standard' mode it is mixed into v1.0
+     * envelopes; in 'psk' mode it is the initial key of the v1.1 ratchet.
+     */
+    psk?: Uint8Array;
+    /**
+     * Mode required for outgoing messages (default: 'standard'). 'psk' requires
+     * `psk` unless `forwardSecrecy` is set, for sessions that erased it (see
+     * `erasePSK`); 'ratchet' runs a Double Ratchet session from the static keys.
+     */
+    mode?: EncryptionMode;
+    /** Protocol versions accepted from this contact (default: all) */
+    allowedVersions?: ProtocolVersion[];
+    /**
+     * Use the forward-secure chain ratchet for v1.1 messages (default: false).
+     * Both peers must enable it.
+     */
+    forwardSecrecy?: boolean;
+    /**
+     * Envelope format for outgoing standard messages (default: the registry's
+     * default options, or 1 when `allowedVersions` excludes 'v2.0').
+     * Set to 1 for legacy peers that cannot read v2 envelopes.
+     */
+    envelopeVersion?: EnvelopeVersion;
+    /**
+     * Seal the sender key in outgoing standard messages (default: the
+     * registry's default options). Ignored for contacts that get v1 envelopes.
+     */
+    sealedSender?: boolean;
+}
+
+/**
+ * Registry of per-contact encryption policies
+ *
+ * Contacts without a policy fall back to the default `EncryptionOptions`
+ * the registry was created with.
+ *
+ * @example
+ * ```typescript
+ * const policies = new EncryptionPolicyRegistry();
+ * policies.set('ALICE...', { psk: alicePSK });
+ * policies.set('BOB...', { psk: bobPSK, mode: 'psk', allowedVersions: ['v1.1'] });
+ *
+ * const service = new AlgorandService(config, policies);
+ * ```
+ */
+export class EncryptionPolicyRegistry {
+    private policies = new Map<string, ContactEncryptionPolicy>();
+
+    /**
+     * Creates a new registry
+     *
+     * @param defaultOptions - Options used for contacts without a PSK of their own
+     */
+    constructor(public readonly defaultOptions?: EncryptionOptions) {}
+
+    /**
+     * Sets the policy for a contact, replacing any existing one
+     *
+     * @throws ChatError if the PSK is not 32 bytes, or 'psk' mode has no PSK
+     *         and no forward secrecy
+     */
+    public set(address: string, policy: ContactEncryptionPolicy): void {
+        if (policy.psk && policy.psk.length !== 32) {
+            throw ChatError.invalidKey('PSK', `expected 32 bytes, got ${policy.psk.length}`);
+        }
+
+        if (policy.mode === 'psk' && !policy.psk && !policy.forwardSecrecy) {
+            throw ChatError.notConfigured(`PSK for ${address}`);
+        }
+
+        this.policies.set(address, {
+            ...policy,
+            psk: policy.psk ? new Uint8Array(policy.psk) : undefined,
+        });
+    }
+
+    /**
+     * Gets the policy for a contact, if one is set
+     */
+    public get(address: string): ContactEncryptionPolicy | undefined {
+        return this.policies.get(address);
+    }
+
+    /**
+     * Checks whether a contact has a policy
+     */
+    public has(address: string): boolean {
+        return this.policies.has(address);
+    }
+
+    /**
+     * Removes the policy for a contact
+     */
+    public delete(address: string): void {
+        this.policies.delete(address);
+    }
+
+    /**
+     * Returns all addresses with a policy
+     */
+    public get addresses(): string[] {
+        return Array.from(this.policies.keys());
+    }
+
+    /**
+     * Gets the outgoing encryption mode for a contact
+     */
+    public modeFor(address: string): EncryptionMode {
+        return this.policies.get(address)?.mode ?? 'standard';
+    }
+
+    /**
+     * Zeroes and removes a contact's PSK, keeping the rest of its policy
+     *
+     * Called once a forward-secure PSK session no longer needs its initial key.
+     */
+    public erasePSK(address: string): void {
+        const policy = this.policies.get(address);
+        if (!policy?.psk) return;
+
+        policy.psk.fill(0);
+        this.policies.set(address, { ...policy, psk: undefined });
+    }
+
+    /**
+     * Gets the contact's own PSK, ignoring the default options
+     */
+    public pskFor(address: string): Uint8Array | undefined {
+        return this.policies.get(address)?.psk;
+    }
+
+    /**
+     * Checks whether a protocol version is accepted from a contact
+     */
+    public allows(address: string, version: ProtocolVersion): boolean {
+        const allowed = this.policies.get(address)?.allowedVersions;
+        return !allowed || allowed.includes(version);
+    }
+
+    /**
+     * Checks whether a standard envelope's version is accepted from a contact
+     */
+    public allowsEnvelope(address: string, envelope: ChatEnvelope): boolean {
+        return this.allows(address, envelope.version === PROTOCOL_V2.VERSION ? 'v2.0' : 'v1.0');
+    }
+
+    /**
+     * Gets the envelope format for outgoing standard messages to a contact
+     *
+     * Legacy peers, marked by `envelopeVersion: 1` or by `allowedVersions`
+     * without 'v2.0', always get v1 envelopes.
+     */
+    public envelopeVersionFor(address: string): EnvelopeVersion {
+        const policy = this.policies.get(address);
+        if (policy?.envelopeVersion) return policy.envelopeVersion;
+        if (!this.acceptsV2(address)) return 1;
+        return this.defaultOptions?.envelopeVersion ?? 1;
+    }
+
+    /**
+     * Checks whether a contact can be sent v2 envelopes, e.g. for chunked messages
+     *
+     * False for legacy peers, marked by `envelopeVersion: 1` or by
+     * `allowedVersions` without 'v2.0'.
+     */
+    public acceptsV2(address: string): boolean {
+        const policy = this.policies.get(address);
+        if (policy?.envelopeVersion === 1) return false;
+        return !policy?.allowedVersions || policy.allowedVersions.includes('v2.0');
+    }
+
+    /**
+     * Gets the options for encrypting a standard envelope to a contact
+     *
+     * Uses the contact's PSK in 'standard' mode, otherwise the default options,
+     * with the contact's envelope format. Sealed sender is only kept for v2
+     * envelopes.
+     */
+    public encryptionOptionsFor(address: string): EncryptionOptions | undefined {
+        const policy = this.policies.get(address);
+        const envelopeVersion = this.envelopeVersionFor(address);
+        const sealedSender = envelopeVersion === 2 && (policy?.sealedSender ?? this.defaultOptions?.sealedSender ?? false);
+
+        let options = this.defaultOptions;
+        if (policy?.psk && policy.mode !== 'psk') {
+            options = { ...options, psk: policy.psk, envelopeVersion };
+        } else if (envelopeVersion !== (this.defaultOptions?.envelopeVersion ?? 1)) {
+            options = { ...options, envelopeVersion };
+        }
+        if (sealedSender !== (options?.sealedSender ?? false)) {
+            options = { ...options, sealedSender };
+        }
+        return options;
+    }
+
+    /**
+     * Gets the options to try, in order, when decrypting a standard envelope
+     *
+     * A contact with a 'standard' mode PSK must use it. Otherwise the chain
+     * tries the default PSK (if any) and then the non-PSK path.
+     */
+    public decryptionCandidatesFor(address: string): Array<EncryptionOptions | undefined> {
+        const policy = this.policies.get(address);
+        if (policy?.psk && policy.mode !== 'psk') {
+            return [{ ...this.defaultOptions, psk: policy.psk }];
+        }
+
+        if (this.defaultOptions?.psk) {
+            return [this.defaultOptions, { ...this.defaultOptions, psk: undefined }];
+        }
+
+        return [this.defaultOptions];
+    }
+
+    /**
+     * Decrypts a standard envelope exchanged with a contact, walking the fallback chain
+     *
+     * A v2 envelope's PSK mode header skips candidates that cannot match it.
+     *
+     * @throws The last decryption error if no candidate succeeds
+     */
+    public decrypt(
+        address: string,
+        envelope: ChatEnvelope,
+        myPrivateKey: Uint8Array,
+        myPublicKey: Uint8Array
+    ): DecryptedContent | null {
+        let lastError: unknown;
+
+        const candidates = this.decryptionCandidatesFor(address);
+        const { pskMode } = readEnvelopeHeaders(envelope);
+        const matching = pskMode
+            ? candidates.filter(options => (pskMode === 'hybrid') === !!options?.psk?.length)
+            : candidates;
+
+        for (const options of matching.length > 0 ? matching : candidates) {
+            try {
+                return decryptMessage(envelope, myPrivateKey, myPublicKey, options);
+            } catch (error) {
+                lastError = error;
+            }
+        }
+
+        throw lastError;
+    }
+
+    /**
+     * Wraps plain options in a registry, passing existing registries through
+     */
+    public static from(options?: EncryptionOptions | EncryptionPolicyRegistry): EncryptionPolicyRegistry {
+        return options instanceof EncryptionPolicyRegistry ? options : new EncryptionPolicyRegistry(options);
+    }
+}
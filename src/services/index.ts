@@ -2,7 +2,7 @@
  * AlgoChat Web - Services
  */
 
-export { AlgorandService, type AlgorandConfig, type ChatAccount } from './algorand.service';
+export { AlgorandService, type AlgorandConfig, type AlgorandClients, type ChatAccount, type PSKHandshakeSendResult, type GroupSendResult, type GroupChanges, type ChannelSendResult } from './algorand.service';
 export {
     createChatAccountFromMnemonic,
     createRandomChatAccount,
@@ -17,3 +17,15 @@ export {
     type PaginationOptions,
     type WaitForTransactionOptions,
 } from './MessageIndexer';
+export {
+    EncryptionPolicyRegistry,
+    type ContactEncryptionPolicy,
+    type EncryptionMode,
+    type ProtocolVersion,
+} from './encryption-policy';
+export {
+    KeyPinning,
+    type KeyCheckStatus,
+    type KeyChangedEvent,
+    type KeyChangedCallback,
+} from './key-pinning';
@@ -0,0 +1,157 @@
+/**
+ * AlgoChat Web - Key Pinning Tests
+ */
+
+import { describe, test, expect } from 'bun:test';
+import { KeyPinning, type KeyChangedEvent } from './key-pinning';
+import { InMemoryKeyTrustStore } from '../storage/key-trust-store';
+import { fingerprint } from '../crypto';
+import { ChatErrorCode } from '../errors/ChatError';
+
+const ALICE = 'ALICE_ADDR';
+
+const firstKey = new Uint8Array(32).fill(0x01);
+const secondKey = new Uint8Array(32).fill(0x02);
+
+describe('KeyPinning', () => {
+    test('pins the first key seen and matches it afterwards', async () => {
+        const pinning = new KeyPinning();
+
+        expect(await pinning.check(ALICE, firstKey)).toBe('pinned');
+        expect(await pinning.check(ALICE, firstKey)).toBe('match');
+
+        const pin = await pinning.get(ALICE);
+        expect(pin?.publicKey).toEqual(firstKey);
+        expect(pin?.trust).toBe('tofu');
+    });
+
+    test('reports a changed key once and records it as pending', async () => {
+        const pinning = new KeyPinning();
+        const events: KeyChangedEvent[] = [];
+        pinning.setOnKeyChanged(event => events.push(event));
+
+        await pinning.check(ALICE, firstKey);
+        expect(await pinning.check(ALICE, secondKey)).toBe('changed');
+        expect(await pinning.check(ALICE, secondKey)).toBe('changed');
+
+        expect(events).toHaveLength(1);
+        expect(events[0].previousKey).toEqual(firstKey);
+        expect(events[0].newKey).toEqual(secondKey);
+        expect(events[0].error.code).toBe(ChatErrorCode.KEY_CHANGED);
+
+        const pin = await pinning.get(ALICE);
+        expect(pin?.publicKey).toEqual(firstKey);
+        expect(pin?.pendingKey).toEqual(secondKey);
+    });
+
+    test('acceptChange pins the new key as unverified', async () => {
+        const pinning = new KeyPinning();
+        await pinning.check(ALICE, firstKey);
+        await pinning.check(ALICE, secondKey);
+
+        const pin = await pinning.acceptChange(ALICE);
+        expect(pin.publicKey).toEqual(secondKey);
+        expect(pin.trust).toBe('unverified');
+        expect(pin.pendingKey).toBeUndefined();
+        expect(await pinning.check(ALICE, secondKey)).toBe('match');
+        expect(await pinning.check(ALICE, firstKey)).toBe('previous');
+        await expect(pinning.requireTrusted(ALICE, firstKey)).rejects.toMatchObject({
+            code: ChatErrorCode.KEY_CHANGED,
+        });
+    });
+
+    test('rejectChange keeps the pin and drops the key silently afterwards', async () => {
+        const pinning = new KeyPinning();
+        const events: KeyChangedEvent[] = [];
+        pinning.setOnKeyChanged(event => events.push(event));
+
+        await pinning.check(ALICE, firstKey);
+        await pinning.check(ALICE, secondKey);
+        await pinning.rejectChange(ALICE);
+
+        expect(await pinning.check(ALICE, secondKey)).toBe('rejected');
+        expect(await pinning.check(ALICE, firstKey)).toBe('match');
+        expect(events).toHaveLength(1);
+    });
+
+    test('accept and reject require a pending change', async () => {
+        const pinning = new KeyPinning();
+        await pinning.check(ALICE, firstKey);
+
+        await expect(pinning.acceptChange(ALICE)).rejects.toThrow(/not configured/);
+        await expect(pinning.rejectChange(ALICE)).rejects.toThrow(/not configured/);
+    });
+
+    test('followRotation moves the pin only from the pinned key', async () => {
+        const pinning = new KeyPinning();
+        const thirdKey = new Uint8Array(32).fill(0x03);
+        await pinning.check(ALICE, firstKey);
+
+        expect(await pinning.followRotation(ALICE, secondKey, thirdKey)).toBe(false);
+        expect(await pinning.followRotation(ALICE, firstKey, secondKey)).toBe(true);
+
+        const pin = await pinning.get(ALICE);
+        expect(pin?.publicKey).toEqual(secondKey);
+        expect(pin?.trust).toBe('unverified');
+        expect(await pinning.check(ALICE, firstKey)).toBe('previous');
+        expect(await pinning.followRotation('BOB_ADDR', firstKey, secondKey)).toBe(false);
+    });
+
+    test('requireTrusted throws KEY_CHANGED for changed and rejected keys', async () => {
+        const pinning = new KeyPinning();
+        await pinning.requireTrusted(ALICE, firstKey);
+
+        await expect(pinning.requireTrusted(ALICE, secondKey)).rejects.toMatchObject({
+            code: ChatErrorCode.KEY_CHANGED,
+        });
+
+        await pinning.rejectChange(ALICE);
+        await expect(pinning.requireTrusted(ALICE, secondKey)).rejects.toMatchObject({
+            code: ChatErrorCode.KEY_CHANGED,
+        });
+    });
+
+    test('markVerified accepts a matching fingerprint in any spacing or case', async () => {
+        const pinning = new KeyPinning();
+        await pinning.check(ALICE, firstKey);
+
+        const spaced = fingerprint(firstKey).toLowerCase().replace(/ /g, '  ');
+        const pin = await pinning.markVerified(ALICE, spaced);
+        expect(pin.trust).toBe('verified');
+        expect((await pinning.get(ALICE))?.trust).toBe('verified');
+    });
+
+    test('markVerified rejects a fingerprint of another key', async () => {
+        const pinning = new KeyPinning();
+        await pinning.check(ALICE, firstKey);
+
+        await expect(pinning.markVerified(ALICE, fingerprint(secondKey))).rejects.toMatchObject({
+            code: ChatErrorCode.INVALID_KEY,
+        });
+        await expect(pinning.markVerified('BOB_ADDR', fingerprint(firstKey))).rejects.toMatchObject({
+            code: ChatErrorCode.INVALID_KEY,
+        });
+    });
+
+    test('markKeyVerified requires the pinned key', async () => {
+        const pinning = new KeyPinning();
+        await pinning.check(ALICE, firstKey);
+
+        await expect(pinning.markKeyVerified(ALICE, secondKey)).rejects.toMatchObject({
+            code: ChatErrorCode.INVALID_KEY,
+        });
+        expect((await pinning.markKeyVerified(ALICE, firstKey)).trust).toBe('verified');
+    });
+
+    test('uses the given store and forget clears the pin', async () => {
+        const store = new InMemoryKeyTrustStore();
+        const pinning = new KeyPinning(store);
+        await pinning.check(ALICE, firstKey);
+
+        expect(await store.list()).toHaveLength(1);
+
+        await pinning.forget(ALICE);
+        expect(await store.get(ALICE)).toBeUndefined();
+        expect(await pinning.check(ALICE, secondKey)).toBe('pinned');
+    });
+});
@@ -0,0 +1,260 @@
+/**
+ * AlgoChat Web - Key Pinning
+ *
+ * Trust-on-first-use pinning of contact encryption keys. The first key seen
+ * for an address is pinned; a different key later is held as pending until
+ * the user accepts or rejects it.
+ */
+
+import { fingerprint, uint8ArrayEquals } from '../crypto';
+import { ChatError } from '../errors/ChatError';
+import { InMemoryKeyTrustStore, type KeyTrustStore, type KeyTrustLevel, type PinnedKey } from '../storage/key-trust-store';
+
+/** Outcome of checking a key against the pin */
+export type KeyCheckStatus =
+    /** No pin existed; the key is now pinned (TOFU) */
+    | 'pinned'
+    /** The key matches the pin */
+    | 'match'
+    /** The key was pinned before an accepted change; fine for history, not for sending */
+    | 'previous'
+    /** The key differs from the pin and is waiting for a decision */
+    | 'changed'
+    /** The key was rejected earlier */
+    | 'rejected';
+
+/** Details of a detected key change */
+export interface KeyChangedEvent {
+    address: string;
+    /** The pinned key */
+    previousKey: Uint8Array;
+    /** Trust level of the pinned key */
+    previousTrust: KeyTrustLevel;
+    /** The key now seen */
+    newKey: Uint8Array;
+    /** ChatError with code KEY_CHANGED describing the change */
+    error: ChatError;
+}
+
+/** Callback invoked when a contact's key changes */
+export type KeyChangedCallback = (event: KeyChangedEvent) => void;
+
+/**
+ * Pins contact keys and tracks key changes
+ *
+ * @example
+ * ```typescript
+ * const pinning = new KeyPinning();
+ * pinning.setOnKeyChanged(event => showWarning(event.address));
+ *
+ * await pinning.check('ALICE...', aliceKey); // 'pinned'
+ * await pinning.check('ALICE...', otherKey); // 'changed'
+ * await pinning.acceptChange('ALICE...');    // otherKey pinned, 'unverified'
+ * ```
+ */
+export class KeyPinning {
+    private onKeyChanged?: KeyChangedCallback;
+
+    constructor(private store: KeyTrustStore = new InMemoryKeyTrustStore()) {}
+
+    /**
+     * Sets the callback for key changes
+     *
+     * Called once for each new key that differs from a pin.
+     */
+    setOnKeyChanged(callback: KeyChangedCallback | undefined): void {
+        this.onKeyChanged = callback;
+    }
+
+    /**
+     * Replaces the store pins are kept in
+     */
+    setStore(store: KeyTrustStore): void {
+        this.store = store;
+    }
+
+    /**
+     * Gets the pin for an address
+     */
+    async get(address: string): Promise<PinnedKey | undefined> {
+        return this.store.get(address);
+    }
+
+    /**
+     * Lists all pins
+     */
+    async list(): Promise<PinnedKey[]> {
+        return this.store.list();
+    }
+
+    /**
+     * Compares a key with the pin for an address, pinning it if there is none
+     *
+     * A key that differs from the pin is recorded as pending and reported to
+     * the key-changed callback.
+     */
+    async check(address: string, publicKey: Uint8Array): Promise<KeyCheckStatus> {
+        const pin = await this.store.get(address);
+
+        if (!pin) {
+            await this.store.save({ address, publicKey, trust: 'tofu', pinnedAt: new Date() });
+            return 'pinned';
+        }
+
+        if (uint8ArrayEquals(pin.publicKey, publicKey)) return 'match';
+        if (pin.previousKeys?.some(key => uint8ArrayEquals(key, publicKey))) return 'previous';
+        if (pin.rejectedKeys?.some(key => uint8ArrayEquals(key, publicKey))) return 'rejected';
+        if (pin.pendingKey && uint8ArrayEquals(pin.pendingKey, publicKey)) return 'changed';
+
+        await this.store.save({ ...pin, pendingKey: publicKey });
+        this.onKeyChanged?.({
+            address,
+            previousKey: pin.publicKey,
+            previousTrust: pin.trust,
+            newKey: publicKey,
+            error: ChatError.keyChanged(address, fingerprint(pin.publicKey), fingerprint(publicKey)),
+        });
+        return 'changed';
+    }
+
+    /**
+     * Checks a key before sending to it
+     *
+     * @throws ChatError with code KEY_CHANGED if the key differs from the pin
+     */
+    async requireTrusted(address: string, publicKey: Uint8Array): Promise<void> {
+        const status = await this.check(address, publicKey);
+        if (status !== 'pinned' && status !== 'match') {
+            const pin = (await this.store.get(address))!;
+            throw ChatError.keyChanged(address, fingerprint(pin.publicKey), fingerprint(publicKey));
+        }
+    }
+
+    /**
+     * Accepts the pending key for an address, replacing the pin
+     *
+     * The new key is pinned as 'unverified' until it is verified again. The
+     * replaced key is kept so earlier messages stay readable.
+     *
+     * @throws ChatError if there is no pending key change
+     */
+    async acceptChange(address: string): Promise<PinnedKey> {
+        const pin = await this.store.get(address);
+        if (!pin?.pendingKey) {
+            throw ChatError.notConfigured(`Pending key change for ${address}`);
+        }
+
+        const accepted: PinnedKey = {
+            address,
+            publicKey: pin.pendingKey,
+            trust: 'unverified',
+            pinnedAt: new Date(),
+            rejectedKeys: pin.rejectedKeys,
+            previousKeys: [...(pin.previousKeys ?? []), pin.publicKey],
+        };
+        await this.store.save(accepted);
+        return accepted;
+    }
+
+    /**
+     * Moves the pin to a key announced as the successor of the pinned key
+     *
+     * Only pass keys from a rotation announcement whose signature was
+     * verified against the address. As with `acceptChange`, the new key is
+     * pinned as 'unverified' and the replaced key is kept for history.
+     *
+     * @returns Whether the pin moved
+     */
+    async followRotation(address: string, previousKey: Uint8Array, publicKey: Uint8Array): Promise<boolean> {
+        const pin = await this.store.get(address);
+        if (!pin || !uint8ArrayEquals(pin.publicKey, previousKey) || uint8ArrayEquals(pin.publicKey, publicKey)) {
+            return false;
+        }
+        if (pin.rejectedKeys?.some(key => uint8ArrayEquals(key, publicKey))) return false;
+
+        await this.store.save({
+            address,
+            publicKey,
+            trust: 'unverified',
+            pinnedAt: new Date(),
+            rejectedKeys: pin.rejectedKeys,
+            previousKeys: [...(pin.previousKeys ?? []), pin.publicKey],
+        });
+        return true;
+    }
+
+    /**
+     * Rejects the pending key for an address, keeping the current pin
+     *
+     * Later messages using the rejected key are dropped without a new alert.
+     *
+     * @throws ChatError if there is no pending key change
+     */
+    async rejectChange(address: string): Promise<void> {
+        const pin = await this.store.get(address);
+        if (!pin?.pendingKey) {
+            throw ChatError.notConfigured(`Pending key change for ${address}`);
+        }
+
+        await this.store.save({
+            ...pin,
+            pendingKey: undefined,
+            rejectedKeys: [...(pin.rejectedKeys ?? []), pin.pendingKey],
+        });
+    }
+
+    /**
+     * Marks the pinned key verified after the user compared fingerprints
+     *
+     * @param address - The contact's address
+     * @param expectedFingerprint - The fingerprint the user compared (see `fingerprint`)
+     * @throws ChatError with code INVALID_KEY if nothing is pinned or the fingerprint does not match
+     */
+    async markVerified(address: string, expectedFingerprint: string): Promise<PinnedKey> {
+        const pin = await this.pinned(address);
+        if (normalizeFingerprint(fingerprint(pin.publicKey)) !== normalizeFingerprint(expectedFingerprint)) {
+            throw ChatError.invalidKey('pinned', `fingerprint does not match the key pinned for ${address}`);
+        }
+        return this.saveVerified(pin);
+    }
+
+    /**
+     * Marks the pinned key verified after the user compared safety numbers
+     *
+     * @param address - The contact's address
+     * @param publicKey - The contact key the safety number was computed from
+     * @throws ChatError with code INVALID_KEY if nothing is pinned or the key is not the pinned one
+     */
+    async markKeyVerified(address: string, publicKey: Uint8Array): Promise<PinnedKey> {
+        const pin = await this.pinned(address);
+        if (!uint8ArrayEquals(pin.publicKey, publicKey)) {
+            throw ChatError.invalidKey('pinned', `key does not match the key pinned for ${address}`);
+        }
+        return this.saveVerified(pin);
+    }
+
+    /**
+     * Forgets the pin for an address; the next key seen is trusted on first use
+     */
+    async forget(address: string): Promise<void> {
+        await this.store.delete(address);
+    }
+
+    private async pinned(address: string): Promise<PinnedKey> {
+        const pin = await this.store.get(address);
+        if (!pin) {
+            throw ChatError.invalidKey('pinned', `no key pinned for ${address}`);
+        }
+        return pin;
+    }
+
+    private async saveVerified(pin: PinnedKey): Promise<PinnedKey> {
+        const verified: PinnedKey = { ...pin, trust: 'verified' };
+        await this.store.save(verified);
+        return verified;
+    }
+}
+
+function normalizeFingerprint(value: string): string {
+    return value.replace(/\s+/g, '').toUpperCase();
+}
@@ -5,13 +5,16 @@
  */
 
 import algosdk from 'algosdk';
-import { deriveEncryptionKeys, getPublicKey } from '../crypto';
+import { deriveEncryptionKeys, deriveRotatedEncryptionKeys, getPublicKey } from '../crypto';
 import type { ChatAccount } from './algorand.service';
 
 /**
  * Creates a ChatAccount from an Algorand mnemonic
+ *
+ * @param keyVersion - Rotation index of a derived encryption key (default: 0,
+ *        the original key); see `AlgorandService.rotateEncryptionKey`
  */
-export function createChatAccountFromMnemonic(mnemonic: string): ChatAccount {
+export function createChatAccountFromMnemonic(mnemonic: string, keyVersion = 0): ChatAccount {
     // Recover Algorand account from mnemonic
     const account = algosdk.mnemonicToSecretKey(mnemonic);
 
@@ -20,7 +23,7 @@ export function createChatAccountFromMnemonic(mnemonic: string): ChatAccount {
     const seed = account.sk.slice(0, 32);
 
     // Derive X25519 encryption keys
-    const encryptionKeys = deriveEncryptionKeys(seed);
+    const encryptionKeys = deriveRotatedEncryptionKeys(seed, keyVersion);
 
     // Derive the Ed25519 public key from the seed
     const ed25519PublicKey = getPublicKey(seed);
@@ -29,6 +32,7 @@ export function createChatAccountFromMnemonic(mnemonic: string): ChatAccount {
         address: account.addr.toString(),
         account,
         encryptionKeys,
+        ...(keyVersion > 0 && { keyVersion }),
         ed25519PublicKey,
     };
 }
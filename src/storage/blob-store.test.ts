@@ -0,0 +1,50 @@
+/**
+ * AlgoChat - Blob Store Tests
+ */
+
+import { describe, test, expect } from 'bun:test';
+import { mkdtemp, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { InMemoryBlobStore, type BlobStore } from './blob-store';
+import { FileBlobStore } from './file-blob-store';
+
+const blob = new Uint8Array([1, 2, 3, 4]);
+const blobHash = '9f64a747e1b97f131fabb6b447296c9b6f0201e79fb3c5356e6c77e89b6a806a';
+
+async function exercise(store: BlobStore): Promise<void> {
+    const id = await store.put(blob);
+    expect(id).toBe(blobHash);
+    expect(await store.put(blob)).toBe(id);
+    expect(await store.get(id)).toEqual(blob);
+
+    await store.delete(id);
+    expect(await store.get(id)).toBeUndefined();
+    await store.delete(id);
+}
+
+describe('InMemoryBlobStore', () => {
+    test('stores blobs by content hash', async () => {
+        await exercise(new InMemoryBlobStore());
+    });
+
+    test('returns copies', async () => {
+        const store = new InMemoryBlobStore();
+        const id = await store.put(blob);
+        (await store.get(id))![0] = 99;
+
+        expect(await store.get(id)).toEqual(blob);
+    });
+});
+
+describe('FileBlobStore', () => {
+    test('stores blobs as files named by hash', async () => {
+        const directory = await mkdtemp(join(tmpdir(), 'algochat-blobs-'));
+        try {
+            await exercise(new FileBlobStore(directory));
+            expect(await new FileBlobStore(directory).get('../etc/passwd')).toBeUndefined();
+        } finally {
+            await rm(directory, { recursive: true, force: true });
+        }
+    });
+});
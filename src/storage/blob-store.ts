@@ -0,0 +1,50 @@
+/**
+ * AlgoChat - Blob Store
+ *
+ * Interface and in-memory implementation for encrypted attachment blobs.
+ */
+
+import { sha256 } from '@noble/hashes/sha256';
+import { bytesToHex } from '@noble/hashes/utils';
+
+/**
+ * Content-addressed storage for encrypted attachments
+ *
+ * Blobs are already encrypted, so stores never see file contents or keys.
+ * Implementations can use memory, files, IPFS, object storage, etc.; an id
+ * is whatever the store derives from the content (e.g. a hash or a CID).
+ */
+export interface BlobStore {
+    /** Store a blob, returning its id; storing the same bytes again returns the same id */
+    put(data: Uint8Array): Promise<string>;
+
+    /** Get a blob by id, or undefined if the store does not have it */
+    get(id: string): Promise<Uint8Array | undefined>;
+
+    /** Delete a blob by id */
+    delete(id: string): Promise<void>;
+}
+
+/**
+ * In-memory implementation of BlobStore, keyed by hex SHA-256
+ *
+ * Blobs are lost when the process exits.
+ */
+export class InMemoryBlobStore implements BlobStore {
+    private blobs = new Map<string, Uint8Array>();
+
+    async put(data: Uint8Array): Promise<string> {
+        const id = bytesToHex(sha256(data));
+        this.blobs.set(id, new Uint8Array(data));
+        return id;
+    }
+
+    async get(id: string): Promise<Uint8Array | undefined> {
+        const blob = this.blobs.get(id);
+        return blob ? new Uint8Array(blob) : undefined;
+    }
+
+    async delete(id: string): Promise<void> {
+        this.blobs.delete(id);
+    }
+}
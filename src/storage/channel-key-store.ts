@@ -0,0 +1,75 @@
+/**
+ * AlgoChat - Channel Key Store
+ *
+ * Interface and in-memory implementation for broadcast channel keys.
+ */
+
+import type { ChannelKey } from '../models/types';
+
+/**
+ * Storage interface for channel keys, one per channel and epoch
+ *
+ * Keys of earlier epochs are kept so older posts stay readable.
+ * Implementations can use in-memory, localStorage, IndexedDB, files, etc.
+ */
+export interface ChannelKeyStore {
+    /** Get a channel's key for an epoch, or undefined if none */
+    get(channelId: string, epoch: number): Promise<ChannelKey | undefined>;
+
+    /** Get a channel's key with the highest epoch, or undefined if none */
+    latest(channelId: string): Promise<ChannelKey | undefined>;
+
+    /** Save a key, replacing any existing one for its channel and epoch */
+    save(key: ChannelKey): Promise<void>;
+
+    /** Delete every key of a channel */
+    delete(channelId: string): Promise<void>;
+
+    /** List the latest key of every channel */
+    list(): Promise<ChannelKey[]>;
+}
+
+/**
+ * In-memory implementation of ChannelKeyStore
+ *
+ * Keys are lost when the process exits.
+ */
+export class InMemoryChannelKeyStore implements ChannelKeyStore {
+    private keys = new Map<string, Map<number, ChannelKey>>();
+
+    async get(channelId: string, epoch: number): Promise<ChannelKey | undefined> {
+        const key = this.keys.get(channelId)?.get(epoch);
+        return key ? copyKey(key) : undefined;
+    }
+
+    async latest(channelId: string): Promise<ChannelKey | undefined> {
+        const epochs = this.keys.get(channelId);
+        if (!epochs) return undefined;
+        return copyKey(epochs.get(Math.max(...epochs.keys()))!);
+    }
+
+    async save(key: ChannelKey): Promise<void> {
+        const epochs = this.keys.get(key.channelId) ?? new Map<number, ChannelKey>();
+        epochs.set(key.epoch, copyKey(key));
+        this.keys.set(key.channelId, epochs);
+    }
+
+    async delete(channelId: string): Promise<void> {
+        this.keys.delete(channelId);
+    }
+
+    async list(): Promise<ChannelKey[]> {
+        const keys: ChannelKey[] = [];
+        for (const channelId of this.keys.keys()) {
+            keys.push((await this.latest(channelId))!);
+        }
+        return keys;
+    }
+}
+
+/**
+ * Copies a key so callers can't mutate stored state
+ */
+function copyKey(key: ChannelKey): ChannelKey {
+    return { ...key, key: new Uint8Array(key.key) };
+}
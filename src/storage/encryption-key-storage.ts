@@ -4,6 +4,9 @@
  * Interface and implementations for storing encryption private keys.
  */
 
+import { x25519 } from '@noble/curves/ed25519';
+import { bytesToHex } from '@noble/hashes/utils';
+
 /** Interface for storing encryption private keys */
 export interface EncryptionKeyStorage {
     /** Store a private key for an address */
@@ -15,11 +18,25 @@ export interface EncryptionKeyStorage {
     /** Check if a key exists for an address */
     hasKey(address: string): Promise<boolean>;
 
-    /** Delete a key for an address */
+    /** Delete a key for an address, along with its archived keys */
     delete(address: string): Promise<void>;
 
     /** List all stored addresses */
     listStoredAddresses(): Promise<string[]>;
+
+    /**
+     * Archive a rotated-out private key so messages sent to it stay readable
+     *
+     * Optional, along with `retrieveArchived` and `listArchivedKeys`: without
+     * them, messages encrypted to a rotated-out key become unreadable.
+     */
+    archive?(privateKey: Uint8Array, address: string): Promise<void>;
+
+    /** Retrieve an archived private key by its public key */
+    retrieveArchived?(address: string, publicKey: Uint8Array): Promise<Uint8Array>;
+
+    /** List the public keys of the archived keys for an address */
+    listArchivedKeys?(address: string): Promise<Uint8Array[]>;
 }
 
 /** Error thrown when a key is not found */
@@ -38,6 +55,8 @@ export class KeyNotFoundError extends Error {
  */
 export class InMemoryKeyStorage implements EncryptionKeyStorage {
     private keys = new Map<string, Uint8Array>();
+    /** Archived keys per address, by public key hex */
+    private archived = new Map<string, Map<string, Uint8Array>>();
 
     async store(privateKey: Uint8Array, address: string, _requireBiometric?: boolean): Promise<void> {
         this.keys.set(address, new Uint8Array(privateKey));
@@ -57,9 +76,31 @@ export class InMemoryKeyStorage implements EncryptionKeyStorage {
 
     async delete(address: string): Promise<void> {
         this.keys.delete(address);
+        this.archived.delete(address);
     }
 
     async listStoredAddresses(): Promise<string[]> {
         return Array.from(this.keys.keys());
     }
+
+    async archive(privateKey: Uint8Array, address: string): Promise<void> {
+        let keys = this.archived.get(address);
+        if (!keys) {
+            keys = new Map();
+            this.archived.set(address, keys);
+        }
+        keys.set(bytesToHex(x25519.getPublicKey(privateKey)), new Uint8Array(privateKey));
+    }
+
+    async retrieveArchived(address: string, publicKey: Uint8Array): Promise<Uint8Array> {
+        const key = this.archived.get(address)?.get(bytesToHex(publicKey));
+        if (!key) {
+            throw new KeyNotFoundError(address);
+        }
+        return new Uint8Array(key);
+    }
+
+    async listArchivedKeys(address: string): Promise<Uint8Array[]> {
+        return Array.from(this.archived.get(address)?.values() ?? [], key => x25519.getPublicKey(key));
+    }
 }
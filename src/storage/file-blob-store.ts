@@ -0,0 +1,102 @@
+/**
+ * AlgoChat - File Blob Store
+ *
+ * Stores encrypted attachment blobs as files named by their hash.
+ */
+
+import { mkdir, readFile, writeFile, unlink, rename } from 'node:fs/promises';
+import { join } from 'node:path';
+import { homedir } from 'node:os';
+import { sha256 } from '@noble/hashes/sha256';
+import { bytesToHex } from '@noble/hashes/utils';
+import type { BlobStore } from './blob-store';
+
+/** Default directory name for AlgoChat data */
+const DEFAULT_DIRECTORY = '.algochat';
+
+/** Default subdirectory for blobs */
+const DEFAULT_SUBDIRECTORY = 'blobs';
+
+/** Blob ids are hex SHA-256 hashes, which also keeps them safe as file names */
+const BLOB_ID_PATTERN = /^[0-9a-f]{64}$/;
+
+/**
+ * File-based content-addressed storage for attachment blobs.
+ *
+ * Stores each blob in `~/.algochat/blobs/<sha256>`. Blobs are encrypted
+ * before they get here, so the files hold no readable content.
+ *
+ * @example
+ * ```typescript
+ * service.setBlobStore(new FileBlobStore());
+ * ```
+ */
+export class FileBlobStore implements BlobStore {
+    private customDirectory: string | null;
+
+    /**
+     * Creates a new file-based blob store.
+     *
+     * @param customDirectory - Optional custom directory (for testing)
+     */
+    constructor(customDirectory?: string) {
+        this.customDirectory = customDirectory ?? null;
+    }
+
+    /** Writes a blob to the file named by its hash */
+    async put(data: Uint8Array): Promise<string> {
+        const id = bytesToHex(sha256(data));
+        const directory = this.getDirectory();
+        const filePath = join(directory, id);
+
+        await mkdir(directory, { recursive: true });
+
+        // Write atomically by writing to temp file first
+        const tempPath = `${filePath}.tmp`;
+        await writeFile(tempPath, data);
+        await rename(tempPath, filePath);
+
+        return id;
+    }
+
+    /** Reads a blob, or undefined if there is no file for the id */
+    async get(id: string): Promise<Uint8Array | undefined> {
+        if (!BLOB_ID_PATTERN.test(id)) {
+            return undefined;
+        }
+
+        try {
+            return new Uint8Array(await readFile(join(this.getDirectory(), id)));
+        } catch (e) {
+            if ((e as NodeJS.ErrnoException).code === 'ENOENT') {
+                return undefined;
+            }
+            throw e;
+        }
+    }
+
+    /** Deletes a blob file */
+    async delete(id: string): Promise<void> {
+        if (!BLOB_ID_PATTERN.test(id)) {
+            return;
+        }
+
+        try {
+            await unlink(join(this.getDirectory(), id));
+        } catch (e) {
+            // File doesn't exist, that's fine
+            if ((e as NodeJS.ErrnoException).code !== 'ENOENT') {
+                throw e;
+            }
+        }
+    }
+
+    /** Gets the blob directory */
+    private getDirectory(): string {
+        if (this.customDirectory) {
+            return this.customDirectory;
+        }
+
+        return join(homedir(), DEFAULT_DIRECTORY, DEFAULT_SUBDIRECTORY);
+    }
+}
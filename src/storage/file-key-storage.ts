@@ -12,6 +12,9 @@
  * - Ciphertext: 32 bytes (encrypted private key)
  * - Tag: 16 bytes (authentication tag)
  *
+ * Rotated-out keys are archived in the same format under
+ * `archive/<address>/<public key hex>.key`.
+ *
  * ## Security
  *
  * - Uses PBKDF2 with 100,000 iterations for key derivation
@@ -20,10 +23,12 @@
  * - Salt is unique per key file
  */
 
-import { mkdir, readdir, readFile, unlink, writeFile, chmod, access } from 'node:fs/promises';
+import { mkdir, readdir, readFile, unlink, writeFile, chmod, access, rm } from 'node:fs/promises';
 import { join } from 'node:path';
 import { homedir } from 'node:os';
 import { randomBytes, pbkdf2Sync, createCipheriv, createDecipheriv } from 'node:crypto';
+import { x25519 } from '@noble/curves/ed25519';
+import { bytesToHex, hexToBytes } from '@noble/hashes/utils';
 import type { EncryptionKeyStorage } from './encryption-key-storage';
 import { KeyNotFoundError } from './encryption-key-storage';
 import {
@@ -65,6 +70,9 @@ export class FileKeyStorage implements EncryptionKeyStorage {
     /** Directory name for key storage */
     private static readonly DIRECTORY_NAME = '.algochat/keys';
 
+    /** Subdirectory for archived (rotated-out) keys, one directory per address */
+    private static readonly ARCHIVE_DIRECTORY_NAME = 'archive';
+
     /** Minimum file size (salt + nonce + ciphertext + tag) */
     private static readonly MIN_FILE_SIZE = 32 + 12 + 32 + 16; // 92 bytes
 
@@ -108,31 +116,7 @@ export class FileKeyStorage implements EncryptionKeyStorage {
 
         // Ensure directory exists
         const directory = await this.ensureDirectory();
-
-        // Generate random salt and nonce
-        const salt = randomBytes(FileKeyStorage.SALT_SIZE);
-        const nonce = randomBytes(FileKeyStorage.NONCE_SIZE);
-
-        // Derive encryption key from password
-        const derivedKey = this.deriveKey(this.password, salt);
-
-        // Encrypt the private key with AES-256-GCM
-        const cipher = createCipheriv('aes-256-gcm', derivedKey, nonce);
-        const ciphertext = Buffer.concat([
-            cipher.update(Buffer.from(privateKey)),
-            cipher.final(),
-        ]);
-        const tag = cipher.getAuthTag();
-
-        // Combine: salt + nonce + ciphertext + tag
-        const fileData = Buffer.concat([salt, nonce, ciphertext, tag]);
-
-        // Write to file
-        const filePath = this.keyFilePath(address, directory);
-        await writeFile(filePath, fileData);
-
-        // Set restrictive permissions (owner read/write only)
-        await this.setRestrictivePermissions(filePath);
+        await this.writeKeyFile(this.keyFilePath(address, directory), privateKey, this.password);
     }
 
     async retrieve(address: string): Promise<Uint8Array> {
@@ -141,51 +125,7 @@ export class FileKeyStorage implements EncryptionKeyStorage {
         }
 
         const directory = this.getDirectory();
-        const filePath = this.keyFilePath(address, directory);
-
-        // Check if file exists
-        try {
-            await access(filePath);
-        } catch {
-            throw new KeyNotFoundError(address);
-        }
-
-        // Read the encrypted file
-        const fileData = await readFile(filePath);
-
-        // Validate minimum size
-        if (fileData.length < FileKeyStorage.MIN_FILE_SIZE) {
-            throw new InvalidKeyDataError();
-        }
-
-        // Parse: salt + nonce + ciphertext + tag
-        const salt = fileData.subarray(0, FileKeyStorage.SALT_SIZE);
-        const nonce = fileData.subarray(
-            FileKeyStorage.SALT_SIZE,
-            FileKeyStorage.SALT_SIZE + FileKeyStorage.NONCE_SIZE
-        );
-        const ciphertextAndTag = fileData.subarray(
-            FileKeyStorage.SALT_SIZE + FileKeyStorage.NONCE_SIZE
-        );
-
-        const ciphertext = ciphertextAndTag.subarray(0, ciphertextAndTag.length - FileKeyStorage.TAG_SIZE);
-        const tag = ciphertextAndTag.subarray(ciphertextAndTag.length - FileKeyStorage.TAG_SIZE);
-
-        // Derive decryption key from password
-        const derivedKey = this.deriveKey(this.password, salt);
-
-        // Decrypt
-        try {
-            const decipher = createDecipheriv('aes-256-gcm', derivedKey, nonce);
-            decipher.setAuthTag(tag);
-            const plaintext = Buffer.concat([
-                decipher.update(ciphertext),
-                decipher.final(),
-            ]);
-            return new Uint8Array(plaintext);
-        } catch {
-            throw new DecryptionFailedError();
-        }
+        return this.readKeyFile(this.keyFilePath(address, directory), address, this.password);
     }
 
     async hasKey(address: string): Promise<boolean> {
@@ -212,6 +152,8 @@ export class FileKeyStorage implements EncryptionKeyStorage {
                 throw error;
             }
         }
+
+        await rm(this.archiveDirectory(address, directory), { recursive: true, force: true });
     }
 
     async listStoredAddresses(): Promise<string[]> {
@@ -227,6 +169,40 @@ export class FileKeyStorage implements EncryptionKeyStorage {
         }
     }
 
+    async archive(privateKey: Uint8Array, address: string): Promise<void> {
+        if (!this.password) {
+            throw new PasswordRequiredError();
+        }
+
+        const directory = this.archiveDirectory(address, await this.ensureDirectory());
+        await mkdir(directory, { recursive: true, mode: 0o700 });
+
+        const publicKey = bytesToHex(x25519.getPublicKey(privateKey));
+        await this.writeKeyFile(join(directory, `${publicKey}.key`), privateKey, this.password);
+    }
+
+    async retrieveArchived(address: string, publicKey: Uint8Array): Promise<Uint8Array> {
+        if (!this.password) {
+            throw new PasswordRequiredError();
+        }
+
+        const directory = this.archiveDirectory(address, this.getDirectory());
+        return this.readKeyFile(join(directory, `${bytesToHex(publicKey)}.key`), address, this.password);
+    }
+
+    async listArchivedKeys(address: string): Promise<Uint8Array[]> {
+        const directory = this.archiveDirectory(address, this.getDirectory());
+
+        try {
+            const files = await readdir(directory);
+            return files
+                .filter(f => /^[0-9a-f]{64}\.key$/.test(f))
+                .map(f => hexToBytes(f.slice(0, 64)));
+        } catch {
+            return [];
+        }
+    }
+
     /**
      * Gets the key storage directory path.
      */
@@ -250,6 +226,93 @@ export class FileKeyStorage implements EncryptionKeyStorage {
         return join(directory, `${address}.key`);
     }
 
+    /**
+     * Returns the directory holding an address's archived keys.
+     *
+     * It has no `.key` suffix, so it never shows up as a stored address.
+     */
+    private archiveDirectory(address: string, directory: string): string {
+        return join(directory, FileKeyStorage.ARCHIVE_DIRECTORY_NAME, address);
+    }
+
+    /**
+     * Encrypts a private key with the password and writes it to a key file.
+     */
+    private async writeKeyFile(filePath: string, privateKey: Uint8Array, password: string): Promise<void> {
+        // Generate random salt and nonce
+        const salt = randomBytes(FileKeyStorage.SALT_SIZE);
+        const nonce = randomBytes(FileKeyStorage.NONCE_SIZE);
+
+        // Derive encryption key from password
+        const derivedKey = this.deriveKey(password, salt);
+
+        // Encrypt the private key with AES-256-GCM
+        const cipher = createCipheriv('aes-256-gcm', derivedKey, nonce);
+        const ciphertext = Buffer.concat([
+            cipher.update(Buffer.from(privateKey)),
+            cipher.final(),
+        ]);
+        const tag = cipher.getAuthTag();
+
+        // Combine: salt + nonce + ciphertext + tag
+        const fileData = Buffer.concat([salt, nonce, ciphertext, tag]);
+
+        // Write to file
+        await writeFile(filePath, fileData);
+
+        // Set restrictive permissions (owner read/write only)
+        await this.setRestrictivePermissions(filePath);
+    }
+
+    /**
+     * Reads a key file and decrypts the private key with the password.
+     */
+    private async readKeyFile(filePath: string, address: string, password: string): Promise<Uint8Array> {
+        // Check if file exists
+        try {
+            await access(filePath);
+        } catch {
+            throw new KeyNotFoundError(address);
+        }
+
+        // Read the encrypted file
+        const fileData = await readFile(filePath);
+
+        // Validate minimum size
+        if (fileData.length < FileKeyStorage.MIN_FILE_SIZE) {
+            throw new InvalidKeyDataError();
+        }
+
+        // Parse: salt + nonce + ciphertext + tag
+        const salt = fileData.subarray(0, FileKeyStorage.SALT_SIZE);
+        const nonce = fileData.subarray(
+            FileKeyStorage.SALT_SIZE,
+            FileKeyStorage.SALT_SIZE + FileKeyStorage.NONCE_SIZE
+        );
+        const ciphertextAndTag = fileData.subarray(
+            FileKeyStorage.SALT_SIZE + FileKeyStorage.NONCE_SIZE
+        );
+
+        const ciphertext = ciphertextAndTag.subarray(0, ciphertextAndTag.length - FileKeyStorage.TAG_SIZE);
+        const tag = ciphertextAndTag.subarray(ciphertextAndTag.length - FileKeyStorage.TAG_SIZE);
+
+        // Derive decryption key from password
+        const derivedKey = this.deriveKey(password, salt);
+
+        // Decrypt
+        try {
+            const decipher = createDecipheriv('aes-256-gcm', derivedKey, nonce);
+            decipher.setAuthTag(tag);
+            const plaintext = Buffer.concat([
+                decipher.update(ciphertext),
+                decipher.final(),
+            ]);
+            return new Uint8Array(plaintext);
+        } catch {
+            throw new DecryptionFailedError();
+        }
+    }
+
     /**
      * Derives an encryption key from password using PBKDF2.
      */
@@ -8,6 +8,12 @@ export type { MessageCache } from './message-cache';
 export { InMemoryMessageCache } from './message-cache';
 export { PublicKeyCache } from './public-key-cache';
 export type { EncryptionKeyStorage } from './encryption-key-storage';
+export type { KeyTrustStore, KeyTrustLevel, PinnedKey } from './key-trust-store';
+export { InMemoryKeyTrustStore } from './key-trust-store';
+export type { BlobStore } from './blob-store';
+export { InMemoryBlobStore } from './blob-store';
+export type { ChannelKeyStore } from './channel-key-store';
+export { InMemoryChannelKeyStore } from './channel-key-store';
 export {
     InMemoryKeyStorage,
     KeyNotFoundError,
@@ -20,4 +26,4 @@ export {
     InvalidKeyDataError,
 } from './file-key-storage.errors';
 
-// FileKeyStorage is Node.js only - import from 'ts-algochat/node' if needed
+// FileKeyStorage and FileBlobStore are Node.js only - import from 'ts-algochat/node' if needed
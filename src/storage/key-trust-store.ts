@@ -0,0 +1,92 @@
+/**
+ * AlgoChat - Key Trust Store
+ *
+ * Interface and in-memory implementation for pinned contact keys.
+ */
+
+/**
+ * How far a pinned key is trusted
+ *
+ * - `tofu`: pinned automatically the first time the key was seen
+ * - `verified`: the user compared fingerprints and marked the key verified
+ * - `unverified`: the key replaced an earlier pin after a key change was
+ *   accepted, and has not been verified since
+ */
+export type KeyTrustLevel = 'unverified' | 'tofu' | 'verified';
+
+/** A contact's pinned encryption key */
+export interface PinnedKey {
+    /** The contact's Algorand address */
+    address: string;
+    /** The pinned X25519 public key */
+    publicKey: Uint8Array;
+    trust: KeyTrustLevel;
+    /** When the key was pinned */
+    pinnedAt: Date;
+    /** A different key seen for the contact, waiting to be accepted or rejected */
+    pendingKey?: Uint8Array;
+    /** Keys the user rejected; messages using them are dropped silently */
+    rejectedKeys?: Uint8Array[];
+    /** Keys pinned earlier and replaced by an accepted change */
+    previousKeys?: Uint8Array[];
+}
+
+/**
+ * Storage interface for pinned keys
+ *
+ * Implementations can use in-memory, localStorage, IndexedDB, files, etc.
+ */
+export interface KeyTrustStore {
+    /** Get the pin for an address, or undefined if none */
+    get(address: string): Promise<PinnedKey | undefined>;
+
+    /** Save a pin, replacing any existing one for the address */
+    save(pin: PinnedKey): Promise<void>;
+
+    /** Delete the pin for an address */
+    delete(address: string): Promise<void>;
+
+    /** List all pins */
+    list(): Promise<PinnedKey[]>;
+}
+
+/**
+ * In-memory implementation of KeyTrustStore
+ *
+ * Pins are lost when the process exits, so keys are trusted on first use
+ * again after a restart.
+ */
+export class InMemoryKeyTrustStore implements KeyTrustStore {
+    private pins = new Map<string, PinnedKey>();
+
+    async get(address: string): Promise<PinnedKey | undefined> {
+        const pin = this.pins.get(address);
+        return pin ? copyPin(pin) : undefined;
+    }
+
+    async save(pin: PinnedKey): Promise<void> {
+        this.pins.set(pin.address, copyPin(pin));
+    }
+
+    async delete(address: string): Promise<void> {
+        this.pins.delete(address);
+    }
+
+    async list(): Promise<PinnedKey[]> {
+        return Array.from(this.pins.values(), copyPin);
+    }
+}
+
+/**
+ * Copies a pin so callers can't mutate stored state
+ */
+function copyPin(pin: PinnedKey): PinnedKey {
+    return {
+        ...pin,
+        publicKey: new Uint8Array(pin.publicKey),
+        pinnedAt: new Date(pin.pinnedAt),
+        pendingKey: pin.pendingKey && new Uint8Array(pin.pendingKey),
+        rejectedKeys: pin.rejectedKeys?.map(key => new Uint8Array(key)),
+        previousKeys: pin.previousKeys?.map(key => new Uint8Array(key)),
+    };
+}
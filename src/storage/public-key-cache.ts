@@ -4,6 +4,10 @@
  * In-memory cache for public keys with TTL expiration.
  */
 
+import { bytesToHex } from '@noble/hashes/utils';
+import { fingerprint } from '../crypto/signature';
+import { ChatError } from '../errors/ChatError';
+
 /** Entry in the public key cache with expiration */
 interface CacheEntry {
     key: Uint8Array;
@@ -13,9 +17,11 @@ interface CacheEntry {
 /** Default TTL: 24 hours in milliseconds */
 const DEFAULT_TTL_MS = 24 * 60 * 60 * 1000;
 
-/** In-memory cache for public keys with TTL expiration */
+/** In-memory cache for public keys with TTL expiration; revoked keys are never cached */
 export class PublicKeyCache {
     private cache = new Map<string, CacheEntry>();
+    /** Revoked keys per address, as hex; kept across `clear` */
+    private revoked = new Map<string, Set<string>>();
     private ttlMs: number;
 
     /** Creates a new public key cache with the given TTL in milliseconds (default: 24 hours) */
@@ -23,8 +29,11 @@ export class PublicKeyCache {
         this.ttlMs = ttlMs;
     }
 
-    /** Store a public key for an address */
+    /** Store a public key for an address; throws ChatError (KEY_REVOKED) for a revoked key */
     store(address: string, key: Uint8Array): void {
+        if (this.isRevoked(address, key)) {
+            throw ChatError.keyRevoked(address, fingerprint(key));
+        }
         this.cache.set(address, {
             key: new Uint8Array(key),
             expiresAt: Date.now() + this.ttlMs,
@@ -51,6 +60,26 @@ export class PublicKeyCache {
         this.cache.delete(address);
     }
 
+    /** Record a revoked key for an address, evicting it if cached */
+    revoke(address: string, key: Uint8Array): void {
+        let keys = this.revoked.get(address);
+        if (!keys) {
+            keys = new Set();
+            this.revoked.set(address, keys);
+        }
+        keys.add(bytesToHex(key));
+
+        const entry = this.cache.get(address);
+        if (entry && this.isRevoked(address, entry.key)) {
+            this.cache.delete(address);
+        }
+    }
+
+    /** Check whether a key was revoked for an address */
+    isRevoked(address: string, key: Uint8Array): boolean {
+        return this.revoked.get(address)?.has(bytesToHex(key)) ?? false;
+    }
+
     /** Clear all cached keys */
     clear(): void {
         this.cache.clear();